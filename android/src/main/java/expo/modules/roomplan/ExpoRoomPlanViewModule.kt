@@ -8,16 +8,43 @@ class ExpoRoomPlanViewModule : Module() {
     // Name must match the iOS view module so JS can require the same manager
     Name("ExpoRoomPlanView")
 
-    // Register a View factory. The View itself will throw on Android.
-    View(::RoomPlanView) {
-      // Mirror props to satisfy the JS/TS surface. They are no-ops here.
+    // Register the same props and events as iOS. Starting a capture or sending a trigger reports
+    // NOT_IMPLEMENTED through onStatus; the other props are no-ops here.
+    View(RoomPlanView::class) {
+      Events("onStatus", "onExported", "onPreview", "onRoomAdded", "onRoomUpdate", "onInstruction", "onPhoto", "onAudio", "onAudioData")
+
       Prop("scanName") { _: RoomPlanView, _: String? -> }
       Prop("exportType") { _: RoomPlanView, _: String? -> }
       Prop("sendFileLoc") { _: RoomPlanView, _: Boolean? -> }
-      Prop("running") { _: RoomPlanView, _: Boolean? -> }
-      Prop("exportTrigger") { _: RoomPlanView, _: Double? -> }
+      Prop("exportOnFinish") { _: RoomPlanView, _: Boolean? -> }
+      Prop("exportFormats") { _: RoomPlanView, _: List<String>? -> }
+      Prop("exportDirectory") { _: RoomPlanView, _: String? -> }
+      Prop("exportFileName") { _: RoomPlanView, _: String? -> }
+      Prop("discardedRoomIds") { _: RoomPlanView, _: List<String>? -> }
+      Prop("resumeFrom") { _: RoomPlanView, _: Map<String, Any>? -> }
+      Prop("audioEnabled") { _: RoomPlanView, _: Boolean? -> }
+      Prop("audioRunning") { _: RoomPlanView, _: Boolean? -> }
+      Prop("autoPhotoIntervalSec") { _: RoomPlanView, _: Double? -> }
+      Prop("stopAudioOnFinish") { _: RoomPlanView, _: Boolean? -> }
+      Prop("roomUpdateIntervalMs") { _: RoomPlanView, _: Double? -> }
+      Prop("coachingEnabled") { _: RoomPlanView, _: Boolean? -> }
+      Prop("captureConfig") { _: RoomPlanView, _: Map<String, Any>? -> }
 
-      Events("onStatus", "onExported")
+      Prop("running") { view: RoomPlanView, value: Boolean? ->
+        view.setRunning(value ?: false)
+      }
+      Prop("exportTrigger") { view: RoomPlanView, value: Double? ->
+        view.handleTrigger(value)
+      }
+      Prop("finishTrigger") { view: RoomPlanView, value: Double? ->
+        view.handleTrigger(value)
+      }
+      Prop("addAnotherTrigger") { view: RoomPlanView, value: Double? ->
+        view.handleTrigger(value)
+      }
+      Prop("capturePhotoTrigger") { view: RoomPlanView, value: Double? ->
+        view.handleTrigger(value)
+      }
     }
   }
 }
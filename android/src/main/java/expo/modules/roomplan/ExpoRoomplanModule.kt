@@ -1,5 +1,6 @@
 package expo.modules.roomplan
 
+import android.os.Build
 import expo.modules.kotlin.modules.Module
 import expo.modules.kotlin.modules.ModuleDefinition
 import expo.modules.kotlin.Promise
@@ -20,5 +21,25 @@ class ExpoRoomPlanModule : Module() {
     AsyncFunction("stopCapture") { promise: Promise ->
       promise.reject("NOT_IMPLEMENTED", "RoomPlan SDK is not available on Android.", null)
     }
+
+    // RoomPlan never runs on Android: report it as unsupported instead of rejecting
+    AsyncFunction("getCapabilities") {
+      mapOf(
+        "platform" to "android",
+        "isSupported" to false,
+        "unsupportedReason" to "platform",
+        "hasLiDAR" to false,
+        "osVersion" to Build.VERSION.RELEASE,
+        "camera" to "unavailable",
+        "microphone" to "unavailable"
+      )
+    }
+
+    AsyncFunction("requestPermissions") { _: Map<String, Any>? ->
+      mapOf("camera" to "unavailable", "microphone" to "unavailable")
+    }
+
+    // Nothing is saved for resuming on Android
+    AsyncFunction("deleteSavedSession") { _: Map<String, Any> -> }
   }
 }
\ No newline at end of file
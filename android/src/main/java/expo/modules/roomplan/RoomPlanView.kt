@@ -1,17 +1,33 @@
 package expo.modules.roomplan
 
 import android.content.Context
-import android.util.AttributeSet
-import android.widget.FrameLayout
+import expo.modules.kotlin.AppContext
+import expo.modules.kotlin.viewevent.EventDispatcher
+import expo.modules.kotlin.views.ExpoView
 
-class RoomPlanView @JvmOverloads constructor(
-  context: Context,
-  attrs: AttributeSet? = null,
-  defStyleAttr: Int = 0
-) : FrameLayout(context, attrs, defStyleAttr) {
+// RoomPlan is iOS-only: the view stays empty and answers every request with NOT_IMPLEMENTED.
+class RoomPlanView(context: Context, appContext: AppContext) : ExpoView(context, appContext) {
+  private val onStatus by EventDispatcher()
+  private var isRunning = false
 
-  init {
-    // Fail fast: RoomPlan is iOS-only.
-    throw UnsupportedOperationException("RoomPlan SDK is not available on Android.")
+  fun setRunning(running: Boolean) {
+    if (running == isRunning) return
+    isRunning = running
+    if (running) sendNotImplemented(null)
+  }
+
+  // Echo the trigger so the control waiting for it rejects instead of timing out
+  fun handleTrigger(trigger: Double?) {
+    if (trigger != null) sendNotImplemented(trigger)
+  }
+
+  private fun sendNotImplemented(trigger: Double?) {
+    val payload = mutableMapOf<String, Any>(
+      "status" to "Error",
+      "errorCode" to "NOT_IMPLEMENTED",
+      "errorMessage" to "RoomPlan SDK is not available on Android."
+    )
+    if (trigger != null) payload["trigger"] = trigger
+    onStatus(payload)
   }
 }
@@ -0,0 +1,2 @@
+// Native-free converters that also run in Node: `import { toGlb } from "expo-roomplan/convert"`.
+module.exports = require("./build/convert");
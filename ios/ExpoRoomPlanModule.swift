@@ -1,4 +1,7 @@
+import ARKit
+import AVFoundation
 import ExpoModulesCore
+import RoomPlan
 import UIKit
 
 public class ExpoRoomPlanModule: Module {
@@ -10,9 +13,27 @@ public class ExpoRoomPlanModule: Module {
         Events("onDismissEvent")
 
         AsyncFunction("startCapture") {
-            (scanName: String, exportType: String, sendFileLoc: Bool) in
+            (scanName: String, exportType: String, sendFileLoc: Bool) async throws in
             guard #available(iOS 17.0, *) else {
-                throw Exception(name: "startCapture", description: "RoomPlan requires iOS 17.0 or later")
+                throw Exception(name: "startCapture", description: "RoomPlan requires iOS 17.0 or later", code: "UNSUPPORTED_DEVICE")
+            }
+
+            // Failures to start are reported like any other end of the scan, through onDismissEvent
+            if !RoomCaptureSession.isSupported {
+                self.sendStartError(.unsupportedDevice, "RoomPlan is not supported on this device.")
+                return
+            }
+            switch AVCaptureDevice.authorizationStatus(for: .video) {
+            case .denied, .restricted:
+                self.sendStartError(.cameraPermissionDenied, "Camera permission is denied or restricted.")
+                return
+            case .notDetermined:
+                if !(await AVCaptureDevice.requestAccess(for: .video)) {
+                    self.sendStartError(.cameraPermissionDenied, "Camera permission was not granted.")
+                    return
+                }
+            default:
+                break
             }
 
             DispatchQueue.main.async {
@@ -42,9 +63,29 @@ public class ExpoRoomPlanModule: Module {
             }
         }
 
+        // Removes the files a saved session (savedSession in JS) refers to
+        AsyncFunction("deleteSavedSession") { (session: [String: Any]) throws in
+            try SavedSessions.delete(session)
+        }
+
+        AsyncFunction("getCapabilities") { () -> [String: Any] in
+            return self.capabilities()
+        }
+
+        AsyncFunction("requestPermissions") { (options: [String: Any]?) async -> [String: Any] in
+            if AVCaptureDevice.authorizationStatus(for: .video) == .notDetermined {
+                _ = await AVCaptureDevice.requestAccess(for: .video)
+            }
+            let wantsMicrophone = options?["microphone"] as? Bool ?? false
+            if wantsMicrophone, AVCaptureDevice.authorizationStatus(for: .audio) == .notDetermined {
+                _ = await AVCaptureDevice.requestAccess(for: .audio)
+            }
+            return self.permissions()
+        }
+
         AsyncFunction("stopCapture") {
             guard #available(iOS 17.0, *) else {
-                throw Exception(name: "stopCapture", description: "RoomPlan requires iOS 17.0 or later")
+                throw Exception(name: "stopCapture", description: "RoomPlan requires iOS 17.0 or later", code: "UNSUPPORTED_DEVICE")
             }
 
             DispatchQueue.main.async {
@@ -56,4 +97,50 @@ public class ExpoRoomPlanModule: Module {
             }
         }
     }
+
+    private func sendStartError(_ code: RoomPlanErrorCode, _ message: String) {
+        DispatchQueue.main.async {
+            self.sendEvent("onDismissEvent", [
+                "status": ScanStatus.Error.rawValue,
+                "errorCode": code.rawValue,
+                "errorMessage": message,
+            ])
+        }
+    }
+
+    private func permissions() -> [String: Any] {
+        return [
+            "camera": Self.permissionState(AVCaptureDevice.authorizationStatus(for: .video)),
+            "microphone": Self.permissionState(AVCaptureDevice.authorizationStatus(for: .audio)),
+        ]
+    }
+
+    private func capabilities() -> [String: Any] {
+        let hasLiDAR = ARWorldTrackingConfiguration.supportsSceneReconstruction(.mesh)
+        var result = permissions()
+        result["platform"] = "ios"
+        result["hasLiDAR"] = hasLiDAR
+        result["osVersion"] = UIDevice.current.systemVersion
+        if #available(iOS 17.0, *) {
+            let isSupported = RoomCaptureSession.isSupported
+            result["isSupported"] = isSupported
+            if !isSupported {
+                result["unsupportedReason"] = "device"
+            }
+        } else {
+            result["isSupported"] = false
+            result["unsupportedReason"] = "osVersion"
+        }
+        return result
+    }
+
+    private static func permissionState(_ status: AVAuthorizationStatus) -> String {
+        switch status {
+        case .authorized: return "granted"
+        case .denied: return "denied"
+        case .restricted: return "restricted"
+        case .notDetermined: return "undetermined"
+        @unknown default: return "undetermined"
+        }
+    }
 }
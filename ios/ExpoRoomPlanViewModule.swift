@@ -8,7 +8,7 @@ public class ExpoRoomPlanViewModule: Module {
 
     // Register a React Native view that embeds RoomCaptureView
     View(RoomPlanCaptureUIView.self) {
-      Events("onStatus", "onExported", "onPreview", "onPhoto", "onAudio", "onAudioData")
+      Events("onStatus", "onExported", "onPreview", "onRoomAdded", "onRoomUpdate", "onInstruction", "onPhoto", "onAudio", "onAudioData")
 
       // Props to control flow
       Prop("scanName") { (view, value: String?) in
@@ -23,8 +23,30 @@ public class ExpoRoomPlanViewModule: Module {
       Prop("exportOnFinish") { (view, value: Bool?) in
         view.exportOnFinish = value ?? true
       }
+      // Export configuration: "usdz"/"json" formats, target directory and file name template
+      Prop("exportFormats") { (view, value: [String]?) in
+        view.exportFormats = value
+      }
+      Prop("exportDirectory") { (view, value: String?) in
+        view.exportDirectory = value
+      }
+      Prop("exportFileName") { (view, value: String?) in
+        view.exportFileName = value
+      }
+      // Captured rooms to leave out of exports
+      Prop("discardedRoomIds") { (view, value: [String]?) in
+        view.discardedRoomIds = Set(value ?? [])
+      }
+      // Rooms and world map of an earlier scan, restored when running turns on
+      Prop("resumeFrom") { (view, value: [String: Any]?) in
+        view.resumeFrom = value
+      }
+      // Props of one update arrive in no particular order: start or stop after all of them are set
       Prop("running") { (view, value: Bool?) in
-        view.setRunning(value ?? false)
+        view.requestedRunning = value ?? false
+      }
+      OnViewDidUpdateProps { (view: RoomPlanCaptureUIView) in
+        view.setRunning(view.requestedRunning)
       }
       // Bump this number to trigger an export on demand
       Prop("exportTrigger") { (view, value: Double?) in
@@ -63,6 +85,21 @@ public class ExpoRoomPlanViewModule: Module {
       Prop("stopAudioOnFinish") { (view, value: Bool?) in
         view.stopAudioOnFinish = value ?? true
       }
+
+      // Minimum milliseconds between onRoomUpdate events while scanning
+      Prop("roomUpdateIntervalMs") { (view, value: Double?) in
+        view.roomUpdateIntervalMs = max(value ?? 500, 0)
+      }
+
+      // Show RoomPlan's own coaching overlay; takes effect when the next capture starts
+      Prop("coachingEnabled") { (view, value: Bool?) in
+        view.coachingEnabled = value ?? true
+      }
+
+      // Builder and export options; coaching and the USDZ export type come through their own props
+      Prop("captureConfig") { (view, value: [String: Any]?) in
+        view.applyCaptureConfig(value)
+      }
     }
   }
 }
@@ -4,15 +4,19 @@ import RoomPlan
 import ExpoModulesCore
 import AVFoundation
 import ARKit
+import CryptoKit
 
 @available(iOS 17.0, *)
 class RoomPlanCaptureUIView: ExpoView, RoomCaptureSessionDelegate, RoomCaptureViewDelegate, ARSessionDelegate {
   private var roomCaptureView: RoomCaptureView!
-  private let configuration = RoomCaptureSession.Configuration()
+  private var configuration = RoomCaptureSession.Configuration()
   // Events
   let onStatus = EventDispatcher()
   let onExported = EventDispatcher()
   let onPreview = EventDispatcher()
+  let onRoomAdded = EventDispatcher()
+  let onRoomUpdate = EventDispatcher()
+  let onInstruction = EventDispatcher()
   let onPhoto = EventDispatcher()
   let onAudio = EventDispatcher()
   let onAudioData = EventDispatcher()
@@ -22,9 +26,35 @@ class RoomPlanCaptureUIView: ExpoView, RoomCaptureSessionDelegate, RoomCaptureVi
   var exportType: String? = nil
   var sendFileLoc: Bool = false
   var exportOnFinish: Bool = true
+  // Rooms the user discarded in JS; left out of exports but kept so indices stay stable
+  var discardedRoomIds: Set<String> = []
+  // Rooms ({ identifier, roomUrl }) and worldMapUrl of an earlier scan, read when capture starts
+  var resumeFrom: [String: Any]? = nil
+  // Value of the running prop; applied once every prop of an update is set, so resumeFrom is current
+  var requestedRunning: Bool = false
+  // Export configuration; nil keeps the defaults (USDZ and JSON named after the scan in tmp/Export).
+  // JS generates other formats from the JSON and only passes "usdz" and "json" here.
+  var exportFormats: [String]? = nil
+  var exportDirectory: String? = nil
+  var exportFileName: String? = nil
+  // Minimum milliseconds between onRoomUpdate events
+  var roomUpdateIntervalMs: Double = 500
+  // Whether RoomPlan shows its own coaching overlay; applied when the next capture starts
+  var coachingEnabled: Bool = true {
+    didSet { configuration.isCoachingEnabled = coachingEnabled }
+  }
 
   private var capturedRooms: [CapturedRoom] = []
-  private let structureBuilder = StructureBuilder(options: [.beautifyObjects])
+  // Built rooms and world maps are saved here so a later session can resume them; one per scan
+  private var sessionDirectory: URL?
+  // Set while ARKit looks for the area of the restored rooms; capture starts once it is found
+  private var resumeWorldMap: ARWorldMap?
+  private var awaitingRelocalization: Bool = false
+  private var relocalizationTimeout: DispatchWorkItem?
+  // Builder and export options from captureConfig; JS sends them with every default filled in
+  private var roomBuilderOptions: RoomBuilder.ConfigurationOptions = [.beautifyObjects]
+  private var structureBuilder = StructureBuilder(options: [.beautifyObjects])
+  private var prettyPrintJson: Bool = false
   private var isRunning: Bool = false
   private var lastExportTrigger: Double? = nil
   private var lastFinishTrigger: Double? = nil
@@ -32,6 +62,16 @@ class RoomPlanCaptureUIView: ExpoView, RoomCaptureSessionDelegate, RoomCaptureVi
   private var pendingFinish: Bool = false
   private var pendingExport: Bool = false
   private var previewEmitted: Bool = false
+  // Trigger values echoed back in events so JS can tell which control call an event answers
+  private var pendingExportTrigger: Double? = nil
+  private var endCaptureTrigger: Double? = nil
+
+  // Live updates: the latest room RoomPlan reported, sent when the throttle interval is over
+  private var latestLiveRoom: CapturedRoom?
+  private var lastRoomUpdateAt: Date = .distantPast
+  private var roomUpdateWorkItem: DispatchWorkItem?
+  // RoomPlan repeats the current instruction; only changes are sent to JS
+  private var lastInstruction: String?
 
   // Photo capture state
   private var lastPhotoTrigger: Double? = nil
@@ -86,6 +126,17 @@ class RoomPlanCaptureUIView: ExpoView, RoomCaptureSessionDelegate, RoomCaptureVi
     else { DispatchQueue.main.async(execute: block) }
   }
 
+  func applyCaptureConfig(_ config: [String: Any]?) {
+    let roomOptions = config?["roomBuilderOptions"] as? [String] ?? ["beautifyObjects"]
+    roomBuilderOptions = roomOptions.contains("beautifyObjects") ? [.beautifyObjects] : []
+    let structureOptions = config?["structureBuilderOptions"] as? [String] ?? ["beautifyObjects"]
+    structureBuilder = StructureBuilder(
+      options: structureOptions.contains("beautifyObjects") ? [.beautifyObjects] : []
+    )
+    let export = config?["export"] as? [String: Any]
+    prettyPrintJson = export?["prettyPrintJson"] as? Bool ?? false
+  }
+
   // Control running state from JS prop
   func setRunning(_ running: Bool) {
     print("[RoomPlan] setRunning called with: \(running), current isRunning: \(isRunning)")
@@ -101,11 +152,27 @@ class RoomPlanCaptureUIView: ExpoView, RoomCaptureSessionDelegate, RoomCaptureVi
       print("[RoomPlan] Checking device support...")
       if !RoomCaptureSession.isSupported {
         print("[RoomPlan] ERROR: RoomPlan is not supported on this device")
-        emitOnJS { self.sendError("RoomPlan is not supported on this device.") }
+        emitOnJS { self.sendError(.unsupportedDevice, "RoomPlan is not supported on this device.") }
         return
       }
       print("[RoomPlan] Device support check passed")
 
+      // Every start is a new session, like `start()` in JS: it begins with no rooms, or with the
+      // rooms of resumeFrom, instead of keeping the rooms of the previous run of this view
+      do {
+        (capturedRooms, resumeWorldMap) = try loadResumeSource()
+      } catch {
+        print("[RoomPlan] ERROR: Could not resume: \(error)")
+        capturedRooms.removeAll()
+        emitOnJS { self.sendError(.resumeFailed, "Could not resume the scan: \(error.localizedDescription)") }
+        return
+      }
+      // New rooms of a resumed scan are saved next to the restored ones
+      sessionDirectory = resumeFrom.flatMap { SavedSessions.directories(of: $0).first }
+      pendingExport = false
+      pendingExportTrigger = nil
+      lastInstruction = nil
+
       // Check/request camera permission
       let status = AVCaptureDevice.authorizationStatus(for: .video)
       print("[RoomPlan] Camera permission status: \(status.rawValue)")
@@ -123,7 +190,7 @@ class RoomPlanCaptureUIView: ExpoView, RoomCaptureSessionDelegate, RoomCaptureVi
           print("[RoomPlan] RoomCaptureView bounds: \(self.roomCaptureView.bounds)")
           print("[RoomPlan] About to call roomCaptureView.captureSession.run...")
 
-          self.roomCaptureView.captureSession.run(configuration: self.configuration)
+          self.runCaptureSession()
           print("[RoomPlan] captureSession.run called successfully")
 
           // Move setupPhotoAndAudioCapture inside async block
@@ -139,27 +206,29 @@ class RoomPlanCaptureUIView: ExpoView, RoomCaptureSessionDelegate, RoomCaptureVi
             if granted {
               self.previewEmitted = false
               print("[RoomPlan] Starting capture session after permission granted...")
-              self.roomCaptureView.captureSession.run(configuration: self.configuration)
+              self.runCaptureSession()
               self.setupPhotoAndAudioCapture()
             } else {
               print("[RoomPlan] Camera permission denied by user")
-              self.emitOnJS { self.sendError("Camera permission was not granted.") }
+              self.emitOnJS { self.sendError(.cameraPermissionDenied, "Camera permission was not granted.") }
             }
           }
         }
       case .denied, .restricted:
         print("[RoomPlan] Camera permission is denied or restricted")
-        emitOnJS { self.sendError("Camera permission is denied or restricted.") }
+        emitOnJS { self.sendError(.cameraPermissionDenied, "Camera permission is denied or restricted.") }
       @unknown default:
         print("[RoomPlan] Unknown camera permission status, attempting to start...")
         previewEmitted = false
-        roomCaptureView.captureSession.run(configuration: configuration)
+        runCaptureSession()
         setupPhotoAndAudioCapture()
       }
     } else {
       print("[RoomPlan] Stopping RoomPlan capture...")
       roomCaptureView.captureSession.stop(pauseARSession: false)
       cleanupPhotoAndAudioCapture()
+      cancelRoomUpdates()
+      cancelRelocalization()
       print("[RoomPlan] RoomPlan capture stopped")
     }
   }
@@ -209,9 +278,10 @@ class RoomPlanCaptureUIView: ExpoView, RoomCaptureSessionDelegate, RoomCaptureVi
       // If nothing captured yet, queue export until capture ends
       guard !capturedRooms.isEmpty else {
         pendingExport = true
+        pendingExportTrigger = trigger
         return
       }
-      exportResults()
+      exportResults(trigger: trigger)
     }
   }
 
@@ -222,6 +292,7 @@ class RoomPlanCaptureUIView: ExpoView, RoomCaptureSessionDelegate, RoomCaptureVi
     lastFinishTrigger = trigger
   // Stop capturing to finalize current room; preview will be presented by RoomPlan
   pendingFinish = true
+    endCaptureTrigger = trigger
     roomCaptureView.captureSession.stop(pauseARSession: false)
   }
 
@@ -238,7 +309,9 @@ class RoomPlanCaptureUIView: ExpoView, RoomCaptureSessionDelegate, RoomCaptureVi
     // Reset state flags but keep the captured data
     pendingFinish = false
     pendingExport = false
+    pendingExportTrigger = nil
     previewEmitted = false
+    endCaptureTrigger = trigger
 
     // Stop current session and restart to continue scanning
     roomCaptureView.captureSession.stop(pauseARSession: false)
@@ -253,7 +326,7 @@ class RoomPlanCaptureUIView: ExpoView, RoomCaptureSessionDelegate, RoomCaptureVi
     guard let trigger else { return }
     if lastPhotoTrigger != trigger {
       lastPhotoTrigger = trigger
-      captureStillFromARSession()
+      captureStillFromARSession(trigger: trigger)
     }
   }
 
@@ -268,9 +341,9 @@ class RoomPlanCaptureUIView: ExpoView, RoomCaptureSessionDelegate, RoomCaptureVi
     }
   }
 
-  private func captureStillFromARSession() {
+  private func captureStillFromARSession(trigger: Double? = nil) {
     guard let frame = roomCaptureView.captureSession.arSession.currentFrame else {
-      emitOnJS { self.sendError("No AR frame available for photo.") }
+      emitOnJS { self.sendError(.photoFailed, "No AR frame available for photo.", trigger: trigger) }
       return
     }
     let pixelBuffer = frame.capturedImage
@@ -280,11 +353,13 @@ class RoomPlanCaptureUIView: ExpoView, RoomCaptureSessionDelegate, RoomCaptureVi
     let context = CIContext()
     DispatchQueue.global(qos: .userInitiated).async { [weak self] in
       guard let self = self else { return }
-      guard let cgImage = context.createCGImage(ciImage, from: ciImage.extent) else { return }
-
       // Orientation: ARKit camera is typically .right for portrait device
-      let image = UIImage(cgImage: cgImage, scale: 1.0, orientation: .right)
-      let data = image.jpegData(compressionQuality: 0.9)
+      guard let cgImage = context.createCGImage(ciImage, from: ciImage.extent),
+            let data = UIImage(cgImage: cgImage, scale: 1.0, orientation: .right).jpegData(compressionQuality: 0.9)
+      else {
+        self.sendError(.photoFailed, "Failed to convert the AR frame to a photo.", trigger: trigger)
+        return
+      }
 
       let folder = FileManager.default.temporaryDirectory.appending(path: "Export")
       try? FileManager.default.createDirectory(at: folder, withIntermediateDirectories: true)
@@ -293,17 +368,17 @@ class RoomPlanCaptureUIView: ExpoView, RoomCaptureSessionDelegate, RoomCaptureVi
       let url = folder.appending(path: name)
 
       do {
-        try data?.write(to: url)
+        try data.write(to: url)
         DispatchQueue.main.async {
           self.photoUrls.append(url)
         }
         // Fire per-photo event on JS thread
-        self.emitOnJS {
-          self.onPhoto(["photoUrl": url.absoluteString, "timestamp": ts])
-        }
+        var payload: [String: Any] = ["photoUrl": url.absoluteString, "timestamp": ts]
+        if let trigger { payload["trigger"] = trigger }
+        self.emitOnJS { self.onPhoto(payload) }
       } catch {
         self.emitOnJS {
-          self.sendError("Failed to save photo: \(error.localizedDescription)")
+          self.sendError(.photoFailed, "Failed to save photo: \(error.localizedDescription)", trigger: trigger)
         }
       }
     }
@@ -325,7 +400,11 @@ class RoomPlanCaptureUIView: ExpoView, RoomCaptureSessionDelegate, RoomCaptureVi
     AVAudioApplication.requestRecordPermission { granted in
       guard granted else {
         self.emitOnJS {
-          self.onAudio(["status": "error", "errorMessage": "Microphone permission denied"])
+          self.onAudio([
+            "status": "error",
+            "errorCode": RoomPlanErrorCode.micPermissionDenied.rawValue,
+            "errorMessage": "Microphone permission denied"
+          ])
         }
         return
       }
@@ -391,7 +470,11 @@ class RoomPlanCaptureUIView: ExpoView, RoomCaptureSessionDelegate, RoomCaptureVi
           self.audioFile = nil
 
           self.emitOnJS {
-            self.onAudio(["status": "error", "errorMessage": "Audio recording unavailable: \(error.localizedDescription)"])
+            self.onAudio([
+              "status": "error",
+              "errorCode": RoomPlanErrorCode.audioFailed.rawValue,
+              "errorMessage": "Audio recording unavailable: \(error.localizedDescription)"
+            ])
           }
         }
       }
@@ -439,45 +522,85 @@ class RoomPlanCaptureUIView: ExpoView, RoomCaptureSessionDelegate, RoomCaptureVi
   }
 
   // MARK: - RoomPlan delegates
+  // Both receive the whole room captured so far.
+  func captureSession(_ session: RoomCaptureSession, didUpdate room: CapturedRoom) {
+    scheduleRoomUpdate(room)
+  }
+
+  func captureSession(_ session: RoomCaptureSession, didChange room: CapturedRoom) {
+    scheduleRoomUpdate(room)
+  }
+
+  func captureSession(_ session: RoomCaptureSession, didProvide instruction: RoomCaptureSession.Instruction) {
+    let name = instructionName(instruction)
+    DispatchQueue.main.async {
+      guard self.isRunning, name != self.lastInstruction else { return }
+      self.lastInstruction = name
+      self.onInstruction([
+        "instruction": name,
+        "timestamp": Int(Date().timeIntervalSince1970 * 1000)
+      ])
+    }
+  }
+
   func captureSession(_ session: RoomCaptureSession, didEndWith data: CapturedRoomData, error: (any Error)?) {
+    // The finish or add-another trigger that stopped this capture, if any
+    let trigger = endCaptureTrigger
+    endCaptureTrigger = nil
+    // Updates still waiting describe the room that just ended; it is reported by onRoomAdded instead
+    DispatchQueue.main.async {
+      self.cancelRoomUpdates()
+      self.lastInstruction = nil
+    }
     if let error {
-      emitOnJS { self.sendError(error.localizedDescription) }
+      emitOnJS { self.sendError(.sessionFailed, error.localizedDescription, trigger: trigger) }
       return
     }
-    let roomBuilder = RoomBuilder(options: [.beautifyObjects])
+    let roomBuilder = RoomBuilder(options: roomBuilderOptions)
     Task {
       do {
         let capturedRoom = try await roomBuilder.capturedRoom(from: data)
         self.capturedRooms.append(capturedRoom)
+        var roomEvent: [String: Any] = [
+          "index": self.capturedRooms.count - 1,
+          "identifier": capturedRoom.identifier.uuidString,
+          "story": capturedRoom.story,
+          "capturedAt": Int(Date().timeIntervalSince1970 * 1000)
+        ]
+        roomEvent.merge(await self.saveForResume(capturedRoom)) { $1 }
+        self.emitOnJS { self.onRoomAdded(roomEvent) }
         // If finishing, emit preview now that the processed room exists
         if self.pendingFinish && !self.previewEmitted {
           // Stop audio recording if configured to do so
           if self.stopAudioOnFinish && self.isAudioRecording {
             self.stopAudioRecording()
           }
-          self.emitOnJS { self.onPreview([:]) }
+          self.emitOnJS { self.onPreview(trigger.map { ["trigger": $0] } ?? [:]) }
           self.previewEmitted = true
           // If requested, export right after preview
           if self.exportOnFinish {
-            self.exportResults()
+            self.exportResults(trigger: trigger)
           }
           self.pendingFinish = false
         }
         // If an export was queued, export now
         if self.pendingExport {
           self.pendingExport = false
-          self.exportResults()
+          self.exportResults(trigger: self.pendingExportTrigger)
+          self.pendingExportTrigger = nil
         } else {
-          self.emitOnJS { self.sendStatus(.OK) }
+          self.emitOnJS { self.sendStatus(.OK, trigger: trigger) }
         }
       } catch {
-        self.emitOnJS { self.sendError("Failed to build captured room: \(error.localizedDescription)") }
+        self.emitOnJS {
+          self.sendError(.buildRoomFailed, "Failed to build captured room: \(error.localizedDescription)", trigger: trigger)
+        }
       }
     }
   }
 
   func captureSession(_ session: RoomCaptureSession, didFailWith error: any Error) {
-    emitOnJS { self.sendError(error.localizedDescription) }
+    emitOnJS { self.sendError(.sessionFailed, error.localizedDescription) }
   }
 
   func captureView(shouldPresent roomDataForProcessing: CapturedRoomData, error: Error?) -> Bool {
@@ -492,19 +615,218 @@ class RoomPlanCaptureUIView: ExpoView, RoomCaptureSessionDelegate, RoomCaptureVi
     }
   }
 
+  private func instructionName(_ instruction: RoomCaptureSession.Instruction) -> String {
+    switch instruction {
+    case .moveCloseToWall: return "moveCloseToWall"
+    case .moveAwayFromWall: return "moveAwayFromWall"
+    case .slowDown: return "slowDown"
+    case .turnOnLight: return "turnOnLight"
+    case .lowTexture: return "lowTexture"
+    case .normal: return "normal"
+    @unknown default: return "normal"
+    }
+  }
+
+  // MARK: - Resume
+  // Rooms and world map listed in resumeFrom; none without it
+  private func loadResumeSource() throws -> ([CapturedRoom], ARWorldMap?) {
+    guard let source = resumeFrom else { return ([], nil) }
+    let decoder = JSONDecoder()
+    let rooms = try (source["rooms"] as? [[String: Any]] ?? []).map { room -> CapturedRoom in
+      guard let roomUrl = room["roomUrl"] as? String else {
+        let identifier = room["identifier"] as? String ?? "unknown"
+        throw NSError(domain: "ExpoRoomPlan", code: 0, userInfo: [
+          NSLocalizedDescriptionKey: "Room \(identifier) has no roomUrl."
+        ])
+      }
+      return try decoder.decode(CapturedRoom.self, from: Data(contentsOf: fileURL(roomUrl)))
+    }
+    var worldMap: ARWorldMap? = nil
+    if let worldMapUrl = source["worldMapUrl"] as? String {
+      let data = try Data(contentsOf: fileURL(worldMapUrl))
+      worldMap = try NSKeyedUnarchiver.unarchivedObject(ofClass: ARWorldMap.self, from: data)
+    }
+    print("[RoomPlan] Resuming with \(rooms.count) room(s), world map: \(worldMap != nil)")
+    return (rooms, worldMap)
+  }
+
+  // With a world map to resume from, RoomPlan only starts once ARKit has recognised the scanned
+  // area, so new rooms share the coordinate space of the restored ones
+  private func runCaptureSession() {
+    guard let worldMap = resumeWorldMap else {
+      roomCaptureView.captureSession.run(configuration: configuration)
+      return
+    }
+    resumeWorldMap = nil
+    let arConfiguration = ARWorldTrackingConfiguration()
+    arConfiguration.initialWorldMap = worldMap
+    awaitingRelocalization = true
+    roomCaptureView.captureSession.arSession.run(arConfiguration, options: [.resetTracking, .removeExistingAnchors])
+    let timeout = DispatchWorkItem { [weak self] in
+      guard let self, self.awaitingRelocalization else { return }
+      self.awaitingRelocalization = false
+      self.sendError(.resumeFailed, "Could not find the previously scanned area. Point the device at a scanned room and start again.")
+    }
+    relocalizationTimeout = timeout
+    DispatchQueue.main.asyncAfter(deadline: .now() + 30, execute: timeout)
+  }
+
+  func session(_ session: ARSession, cameraDidChangeTrackingState camera: ARCamera) {
+    guard case .normal = camera.trackingState else { return }
+    DispatchQueue.main.async {
+      guard self.awaitingRelocalization, self.isRunning else { return }
+      print("[RoomPlan] Relocalized, starting capture")
+      self.cancelRelocalization()
+      self.roomCaptureView.captureSession.run(configuration: self.configuration)
+    }
+  }
+
+  private func cancelRelocalization() {
+    awaitingRelocalization = false
+    resumeWorldMap = nil
+    relocalizationTimeout?.cancel()
+    relocalizationTimeout = nil
+  }
+
+  // Saves the room and the current world map for resumeFrom; what can't be saved is left out, the
+  // room still belongs to this scan
+  private func saveForResume(_ room: CapturedRoom) async -> [String: Any] {
+    var saved: [String: Any] = [:]
+    do {
+      let directory = try resumeDirectoryURL()
+      let roomURL = directory.appending(path: "\(room.identifier.uuidString).json")
+      try JSONEncoder().encode(room).write(to: roomURL)
+      saved["roomUrl"] = roomURL.absoluteString
+
+      let arSession = roomCaptureView.captureSession.arSession
+      let worldMap: ARWorldMap = try await withCheckedThrowingContinuation { continuation in
+        arSession.getCurrentWorldMap { map, error in
+          if let map { continuation.resume(returning: map) }
+          else { continuation.resume(throwing: error ?? CocoaError(.fileWriteUnknown)) }
+        }
+      }
+      let worldMapURL = directory.appending(path: "\(room.identifier.uuidString).arworldmap")
+      try NSKeyedArchiver.archivedData(withRootObject: worldMap, requiringSecureCoding: true).write(to: worldMapURL)
+      saved["worldMapUrl"] = worldMapURL.absoluteString
+    } catch {
+      print("[RoomPlan] Could not save room for resuming: \(error)")
+    }
+    return saved
+  }
+
+  // The directory of the resumed session, or a new one in SavedSessions
+  private func resumeDirectoryURL() throws -> URL {
+    let url = try sessionDirectory ?? SavedSessions.rootURL().appending(path: UUID().uuidString)
+    try FileManager.default.createDirectory(at: url, withIntermediateDirectories: true)
+    sessionDirectory = url
+    return url
+  }
+
+  // MARK: - Live updates
+  private func scheduleRoomUpdate(_ room: CapturedRoom) {
+    DispatchQueue.main.async {
+      self.latestLiveRoom = room
+      guard self.roomUpdateWorkItem == nil else { return }
+      let elapsed = Date().timeIntervalSince(self.lastRoomUpdateAt) * 1000
+      let delay = max(self.roomUpdateIntervalMs - elapsed, 0)
+      let work = DispatchWorkItem { [weak self] in self?.flushRoomUpdate() }
+      self.roomUpdateWorkItem = work
+      DispatchQueue.main.asyncAfter(deadline: .now() + delay / 1000, execute: work)
+    }
+  }
+
+  private func flushRoomUpdate() {
+    roomUpdateWorkItem = nil
+    guard isRunning, let room = latestLiveRoom else { return }
+    latestLiveRoom = nil
+    lastRoomUpdateAt = Date()
+    onRoomUpdate(roomUpdatePayload(room))
+  }
+
+  private func cancelRoomUpdates() {
+    roomUpdateWorkItem?.cancel()
+    roomUpdateWorkItem = nil
+    latestLiveRoom = nil
+  }
+
+  // Footprints only: enough for progress UIs and mini-maps without encoding the whole room
+  private func roomUpdatePayload(_ room: CapturedRoom) -> [String: Any] {
+    func planPoint(_ t: simd_float4x4, x: Float) -> [Double] {
+      let p = t * SIMD4<Float>(x, 0, 0, 1)
+      return [Double(p.x), Double(p.z)]
+    }
+    func surface(_ s: CapturedRoom.Surface) -> [String: Any] {
+      let half = s.dimensions.x / 2
+      var out: [String: Any] = [
+        "identifier": s.identifier.uuidString,
+        "start": planPoint(s.transform, x: -half),
+        "end": planPoint(s.transform, x: half),
+        "height": Double(s.dimensions.y),
+        "confidence": String(describing: s.confidence)
+      ]
+      if let parent = s.parentIdentifier { out["parentIdentifier"] = parent.uuidString }
+      if case .door(let isOpen) = s.category { out["isOpen"] = isOpen }
+      return out
+    }
+    func object(_ o: CapturedRoom.Object) -> [String: Any] {
+      let t = o.transform
+      return [
+        "identifier": o.identifier.uuidString,
+        "category": String(describing: o.category),
+        "center": [Double(t.columns.3.x), Double(t.columns.3.y), Double(t.columns.3.z)],
+        "dimensions": [Double(o.dimensions.x), Double(o.dimensions.y), Double(o.dimensions.z)],
+        "yaw": Double(atan2(-t.columns.0.z, t.columns.0.x)),
+        "confidence": String(describing: o.confidence)
+      ]
+    }
+    var payload: [String: Any] = [
+      "index": capturedRooms.count,
+      "story": room.story,
+      "timestamp": Int(Date().timeIntervalSince1970 * 1000),
+      "counts": [
+        "walls": room.walls.count,
+        "doors": room.doors.count,
+        "windows": room.windows.count,
+        "openings": room.openings.count,
+        "floors": room.floors.count,
+        "objects": room.objects.count
+      ],
+      "walls": room.walls.map(surface),
+      "doors": room.doors.map(surface),
+      "windows": room.windows.map(surface),
+      "openings": room.openings.map(surface),
+      "objects": room.objects.map(object)
+    ]
+    if let camera = roomCaptureView.captureSession.arSession.currentFrame?.camera.transform {
+      // The camera looks down its local -z axis
+      payload["device"] = [
+        "position": [Double(camera.columns.3.x), Double(camera.columns.3.z)],
+        "heading": Double(atan2(-camera.columns.2.z, -camera.columns.2.x))
+      ]
+    }
+    return payload
+  }
+
   // MARK: - Export
-  private func exportResults() {
+  private func exportResults(trigger: Double? = nil) {
     let exportedScanName = scanName ?? "Room"
+    let formats = Set(exportFormats ?? ["usdz", "json"])
+    let baseName = resolveFileName(exportFileName ?? "{scanName}", scanName: exportedScanName)
 
-    let destinationFolderURL = FileManager.default.temporaryDirectory.appending(path: "Export")
-    let destinationURL = destinationFolderURL.appending(path: "\(exportedScanName).usdz")
-    let capturedRoomURL = destinationFolderURL.appending(path: "\(exportedScanName).json")
+    let destinationFolderURL = exportDirectoryURL()
+    let destinationURL = destinationFolderURL.appending(path: "\(baseName).usdz")
+    let capturedRoomURL = destinationFolderURL.appending(path: "\(baseName).json")
 
-    print("[RoomPlan] Exporting \(capturedRooms.count) captured room(s)")
+    let roomsToExport = capturedRooms.filter { !discardedRoomIds.contains($0.identifier.uuidString) }
+    print("[RoomPlan] Exporting \(roomsToExport.count) of \(capturedRooms.count) captured room(s)")
+    guard !roomsToExport.isEmpty else {
+      emitOnJS { self.sendError(.exportFailed, "Export failed: every captured room was discarded.", trigger: trigger) }
+      return
+    }
 
     Task {
       do {
-        let structure = try await structureBuilder.capturedStructure(from: capturedRooms)
+        let structure = try await structureBuilder.capturedStructure(from: roomsToExport)
 
         try FileManager.default.createDirectory(at: destinationFolderURL, withIntermediateDirectories: true)
 
@@ -512,37 +834,91 @@ class RoomPlanCaptureUIView: ExpoView, RoomCaptureSessionDelegate, RoomCaptureVi
         if exportType == "MESH" { finalExportType = .mesh }
         if exportType == "MODEL" { finalExportType = .model }
 
-        let jsonEncoder = JSONEncoder()
-        let jsonData = try jsonEncoder.encode(structure)
-        try jsonData.write(to: capturedRoomURL)
-        try structure.export(to: destinationURL, exportOptions: finalExportType)
+        if formats.contains("json") {
+          let jsonEncoder = JSONEncoder()
+          if self.prettyPrintJson { jsonEncoder.outputFormatting = [.prettyPrinted, .sortedKeys] }
+          let jsonData = try jsonEncoder.encode(structure)
+          try jsonData.write(to: capturedRoomURL)
+        }
+        if formats.contains("usdz") {
+          try structure.export(to: destinationURL, exportOptions: finalExportType)
+        }
 
-        // Build payload
+        // Build payload; an explicit list of formats always reports the files it wrote
         var payload: [String: Any] = [:]
-        if self.sendFileLoc {
-          payload["scanUrl"] = destinationURL.absoluteString
-          payload["jsonUrl"] = capturedRoomURL.absoluteString
+        if self.sendFileLoc || self.exportFormats != nil {
+          var files: [[String: Any]] = []
+          if formats.contains("usdz") {
+            payload["scanUrl"] = destinationURL.absoluteString
+            files.append(try self.fileInfo(destinationURL, format: "usdz"))
+          }
+          if formats.contains("json") {
+            payload["jsonUrl"] = capturedRoomURL.absoluteString
+            files.append(try self.fileInfo(capturedRoomURL, format: "json"))
+          }
+          payload["files"] = files
         }
         if let audio = self.audioFileURL {
           payload["audioUrl"] = audio.absoluteString
         }
         payload["photoUrls"] = self.photoUrls.map { $0.absoluteString }
+        if let trigger { payload["trigger"] = trigger }
 
         self.emitOnJS { self.onExported(payload) }
         // Also emit a final OK status after export
         self.emitOnJS { self.sendStatus(.OK) }
       } catch {
-        self.emitOnJS { self.sendError("Export failed: \(error.localizedDescription)") }
+        self.emitOnJS { self.sendError(.exportFailed, "Export failed: \(error.localizedDescription)", trigger: trigger) }
       }
     }
   }
 
+  private func exportDirectoryURL() -> URL {
+    guard let directory = exportDirectory, !directory.isEmpty else {
+      return FileManager.default.temporaryDirectory.appending(path: "Export")
+    }
+    return fileURL(directory)
+  }
+
+  // Accepts `file://` URLs and plain paths
+  private func fileURL(_ string: String) -> URL {
+    if let url = URL(string: string), url.isFileURL { return url }
+    return URL(fileURLWithPath: string)
+  }
+
+  // Replaces {scanName}, {timestamp} (ms since epoch) and {date} (yyyyMMdd-HHmmss, local time)
+  private func resolveFileName(_ template: String, scanName: String) -> String {
+    let now = Date()
+    let formatter = DateFormatter()
+    formatter.locale = Locale(identifier: "en_US_POSIX")
+    formatter.dateFormat = "yyyyMMdd-HHmmss"
+    return template
+      .replacingOccurrences(of: "{scanName}", with: scanName)
+      .replacingOccurrences(of: "{timestamp}", with: String(Int(now.timeIntervalSince1970 * 1000)))
+      .replacingOccurrences(of: "{date}", with: formatter.string(from: now))
+  }
+
+  // Size and SHA-256 of an exported file, as listed in `files` of onExported
+  private func fileInfo(_ url: URL, format: String) throws -> [String: Any] {
+    let data = try Data(contentsOf: url, options: .mappedIfSafe)
+    let checksum = SHA256.hash(data: data).map { String(format: "%02x", $0) }.joined()
+    return ["url": url.absoluteString, "format": format, "size": data.count, "checksum": checksum]
+  }
+
   // MARK: - Events
-  private func sendStatus(_ status: ScanStatus) {
-    emitOnJS { self.onStatus(["status": status.rawValue]) }
+  private func sendStatus(_ status: ScanStatus, trigger: Double? = nil) {
+    var payload: [String: Any] = ["status": status.rawValue]
+    if let trigger { payload["trigger"] = trigger }
+    emitOnJS { self.onStatus(payload) }
   }
 
-  private func sendError(_ message: String) {
-    emitOnJS { self.onStatus(["status": ScanStatus.Error.rawValue, "errorMessage": message]) }
+  private func sendError(_ code: RoomPlanErrorCode, _ message: String, trigger: Double? = nil) {
+    var payload: [String: Any] = [
+      "status": ScanStatus.Error.rawValue,
+      "errorCode": code.rawValue,
+      "errorMessage": message
+    ]
+    if let trigger { payload["trigger"] = trigger }
+    emitOnJS { self.onStatus(payload) }
   }
 }
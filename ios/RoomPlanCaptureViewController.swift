@@ -349,18 +349,31 @@ class RoomPlanCaptureViewController: UIViewController, RoomCaptureViewDelegate,
             } catch {
                 print("[RoomPlan] ERROR MERGING")
                 print("[RoomPlan] Error = \(error)")
-                self.sendScanResultAndDismiss(status: .Error)
+                self.sendScanResultAndDismiss(
+                    status: .Error,
+                    error: (.exportFailed, "Export failed: \(error.localizedDescription)")
+                )
                 return
             }
         }
     }
 
-    func sendScanResultAndDismiss(status: ScanStatus? = nil, scanUrl: String? = nil, jsonUrl: String? = nil) {
+    func sendScanResultAndDismiss(
+        status: ScanStatus? = nil,
+        scanUrl: String? = nil,
+        jsonUrl: String? = nil,
+        error: (code: RoomPlanErrorCode, message: String)? = nil
+    ) {
         var eventData: [String: Any] = [:]
         
         if let status = status {
             eventData["status"] = status.rawValue
         }
+
+        if let error = error {
+            eventData["errorCode"] = error.code.rawValue
+            eventData["errorMessage"] = error.message
+        }
         
         if let jsonUrl = jsonUrl {
             eventData["jsonUrl"] = jsonUrl
@@ -504,18 +517,49 @@ extension RoomPlanCaptureViewController {
         error: (any Error)?
     ) {
         print("[RoomPlan] didEndWith")
+        if let error {
+            DispatchQueue.main.async {
+                self.sendScanResultAndDismiss(
+                    status: .Error,
+                    error: (.sessionFailed, error.localizedDescription)
+                )
+            }
+            return
+        }
         let roomBuilder = RoomBuilder(options: [.beautifyObjects])
         Task {
-            if let capturedRoom = try? await roomBuilder.capturedRoom(
-                from: didEndWith
-            ) {
+            do {
+                let capturedRoom = try await roomBuilder.capturedRoom(
+                    from: didEndWith
+                )
                 print("[RoomPlan] Appending new captured room")
                 self.capturedRoomArray.append(capturedRoom)
-            } else {
+            } catch {
                 print("[RoomPlan] Failed to build captured room.")
+                DispatchQueue.main.async {
+                    self.sendScanResultAndDismiss(
+                        status: .Error,
+                        error: (
+                            .buildRoomFailed,
+                            "Failed to build captured room: \(error.localizedDescription)"
+                        )
+                    )
+                }
             }
         }
     }
+
+    func captureSession(
+        _ session: RoomCaptureSession,
+        didFailWith error: any Error
+    ) {
+        DispatchQueue.main.async {
+            self.sendScanResultAndDismiss(
+                status: .Error,
+                error: (.sessionFailed, error.localizedDescription)
+            )
+        }
+    }
 }
 
 @available(iOS 17.0, *)
@@ -1,6 +1,53 @@
+import Foundation
+
 enum ScanStatus: String {
   case NotStarted
   case Canceled
   case Error
   case OK
 }
+
+// Mirrors `RoomPlanErrorCode` in src/RoomPlanError.ts
+enum RoomPlanErrorCode: String {
+  case unsupportedDevice = "UNSUPPORTED_DEVICE"
+  case cameraPermissionDenied = "CAMERA_PERMISSION_DENIED"
+  case micPermissionDenied = "MIC_PERMISSION_DENIED"
+  case sessionFailed = "SESSION_FAILED"
+  case buildRoomFailed = "BUILD_ROOM_FAILED"
+  case exportFailed = "EXPORT_FAILED"
+  case photoFailed = "PHOTO_FAILED"
+  case audioFailed = "AUDIO_FAILED"
+  case resumeFailed = "RESUME_FAILED"
+}
+
+// Rooms and world maps saved for resumeFrom live in Application Support/RoomPlan/Sessions, one
+// directory per scan. Application Support survives restarts, unlike tmp where exports go by default.
+enum SavedSessions {
+  static func rootURL() throws -> URL {
+    return try FileManager.default
+      .url(for: .applicationSupportDirectory, in: .userDomainMask, appropriateFor: nil, create: true)
+      .appendingPathComponent("RoomPlan/Sessions", isDirectory: true)
+  }
+
+  // Directories holding the roomUrl and worldMapUrl files of a saved session; files elsewhere are ignored
+  static func directories(of session: [String: Any]) -> [URL] {
+    guard let root = try? rootURL().standardizedFileURL else { return [] }
+    let rooms = session["rooms"] as? [[String: Any]] ?? []
+    let urls = rooms.compactMap { $0["roomUrl"] as? String } + [session["worldMapUrl"] as? String].compactMap { $0 }
+    var result: [URL] = []
+    for string in urls {
+      let file = URL(string: string).flatMap { $0.isFileURL ? $0 : nil } ?? URL(fileURLWithPath: string)
+      let directory = file.standardizedFileURL.deletingLastPathComponent()
+      if directory.deletingLastPathComponent().path == root.path && !result.contains(directory) {
+        result.append(directory)
+      }
+    }
+    return result
+  }
+
+  static func delete(_ session: [String: Any]) throws {
+    for directory in directories(of: session) where FileManager.default.fileExists(atPath: directory.path) {
+      try FileManager.default.removeItem(at: directory)
+    }
+  }
+}
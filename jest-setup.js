@@ -0,0 +1,2 @@
+// Jest `setupFiles` entry that swaps the native module and view for `expo-roomplan/mock`.
+require("./build/mock/setup");
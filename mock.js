@@ -0,0 +1,2 @@
+// Device-free stand-ins for the native module and view: `import { roomPlanMock } from "expo-roomplan/mock"`.
+module.exports = require("./build/mock");
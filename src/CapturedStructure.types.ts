@@ -0,0 +1,137 @@
+/**
+ * A 3-component vector in metres, as encoded from `simd_float3`.
+ */
+export type Vector3 = [number, number, number];
+
+/**
+ * A 4x4 transform in column-major order (16 numbers), as encoded from `simd_float4x4`.
+ * Entries 12–14 hold the translation in metres.
+ */
+// prettier-ignore
+export type Transform4x4 = [
+  number, number, number, number,
+  number, number, number, number,
+  number, number, number, number,
+  number, number, number, number,
+];
+
+/** RoomPlan's confidence in a detected surface or object. */
+export type ConfidenceLevel = "low" | "medium" | "high";
+
+/** Category of a {@link CapturedSurface}. */
+export type SurfaceCategory = "wall" | "door" | "window" | "opening" | "floor";
+
+/** An edge of a surface that RoomPlan considers complete. */
+export type SurfaceEdge = "top" | "bottom" | "left" | "right";
+
+/** Category of a {@link CapturedObject}. */
+export type ObjectCategory =
+  | "storage"
+  | "refrigerator"
+  | "stove"
+  | "bed"
+  | "sink"
+  | "washerDryer"
+  | "toilet"
+  | "bathtub"
+  | "oven"
+  | "dishwasher"
+  | "table"
+  | "sofa"
+  | "chair"
+  | "fireplace"
+  | "television"
+  | "stairs";
+
+/** Label RoomPlan assigns to a detected room section. */
+export type SectionLabel =
+  | "livingRoom"
+  | "bedroom"
+  | "bathroom"
+  | "kitchen"
+  | "diningRoom"
+  | "unidentified";
+
+/** Arc parameters of a curved wall. Angles are in radians. */
+export interface SurfaceCurve {
+  radius: number;
+  startAngle: number;
+  endAngle: number;
+}
+
+/**
+ * A wall, door, window, opening or floor detected by RoomPlan.
+ */
+export interface CapturedSurface {
+  identifier: string;
+  /** Identifier of the wall hosting this door, window or opening. */
+  parentIdentifier?: string;
+  category: SurfaceCategory;
+  /** Whether a door is open. Only set when `category` is `"door"`. */
+  isOpen?: boolean;
+  confidence: ConfidenceLevel;
+  /** Width, height and depth in metres. Surfaces have a depth of 0. */
+  dimensions: Vector3;
+  /** Places the centre of the surface in world space. */
+  transform: Transform4x4;
+  completedEdges: SurfaceEdge[];
+  /** Outline of the surface in its local coordinate space (used by floors and irregular walls). */
+  polygonCorners: Vector3[];
+  curve?: SurfaceCurve;
+  /** Zero-based floor index within the structure. */
+  story: number;
+}
+
+/**
+ * A piece of furniture or fixture detected by RoomPlan, described as an oriented box.
+ */
+export interface CapturedObject {
+  identifier: string;
+  parentIdentifier?: string;
+  category: ObjectCategory;
+  confidence: ConfidenceLevel;
+  /** Width, height and depth of the bounding box in metres. */
+  dimensions: Vector3;
+  /** Places the centre of the bounding box in world space. */
+  transform: Transform4x4;
+  story: number;
+}
+
+/**
+ * A labelled area within a room, such as a kitchen in an open-plan space.
+ */
+export interface CapturedSection {
+  label: SectionLabel;
+  /** Centre of the section in world space. */
+  center: Vector3;
+  story: number;
+}
+
+/**
+ * A single room as captured by one RoomPlan session.
+ */
+export interface CapturedRoom {
+  identifier: string;
+  story: number;
+  walls: CapturedSurface[];
+  doors: CapturedSurface[];
+  windows: CapturedSurface[];
+  openings: CapturedSurface[];
+  floors: CapturedSurface[];
+  objects: CapturedObject[];
+  sections: CapturedSection[];
+}
+
+/**
+ * The merged result of one or more captured rooms, as written to `<scanName>.json` on export.
+ */
+export interface CapturedStructure {
+  rooms: CapturedRoom[];
+  walls: CapturedSurface[];
+  doors: CapturedSurface[];
+  windows: CapturedSurface[];
+  openings: CapturedSurface[];
+  floors: CapturedSurface[];
+  objects: CapturedObject[];
+  sections: CapturedSection[];
+}
@@ -1,3 +1,6 @@
+import type { RoomPlanError } from "./RoomPlanError";
+import type { SavedScanSession } from "./scanSession";
+
 export enum ScanStatus {
   NotStarted = "NotStarted",
   Canceled = "Canceled",
@@ -11,17 +14,79 @@ export enum ExportType {
   Model = "MODEL",
 }
 
+/**
+ * Formats generated in JavaScript from the exported JSON by `exportStructure`, in addition to
+ * the USDZ and JSON files RoomPlan writes natively.
+ */
+export enum StructureExportType {
+  Svg = "SVG",
+  Gltf = "GLTF",
+  Glb = "GLB",
+  Dxf = "DXF",
+  Ifc = "IFC",
+  Obj = "OBJ",
+  Ply = "PLY",
+}
+
 export interface UseRoomPlanParams {
   exportType?: ExportType,
   sendFileLoc?: boolean,
 }
 
+/**
+ * Authorization state of a permission. `unavailable` means the platform has no such permission for
+ * RoomPlan, e.g. on Android and web.
+ */
+export type PermissionState = "granted" | "denied" | "undetermined" | "restricted" | "unavailable";
+
+/**
+ * Why RoomPlan can't run:
+ * - `platform`: not iOS.
+ * - `osVersion`: older than iOS 17.0.
+ * - `device`: no LiDAR scanner, so `RoomCaptureSession.isSupported` is `false`.
+ */
+export type UnsupportedReason = "platform" | "osVersion" | "device";
+
+/**
+ * Camera and microphone permissions used by RoomPlan. The microphone is only needed for `audioEnabled`.
+ */
+export interface RoomPlanPermissions {
+  camera: PermissionState;
+  microphone: PermissionState;
+}
+
+/**
+ * What the device can do, as resolved by `ExpoRoomplan.getCapabilities()`.
+ */
+export interface RoomPlanCapabilities extends RoomPlanPermissions {
+  platform: "ios" | "android" | "web";
+  /** RoomPlan can run here. The camera permission may still have to be requested. */
+  isSupported: boolean;
+  /** Set when `isSupported` is `false`. */
+  unsupportedReason?: UnsupportedReason;
+  hasLiDAR: boolean;
+  /** OS version, e.g. `"17.4"`. Empty on web. */
+  osVersion: string;
+}
+
+export interface RequestPermissionsOptions {
+  /** Also request the microphone, for `audioEnabled`. Defaults to `false`. */
+  microphone?: boolean;
+}
+
 export interface ExpoRoomPlanModuleType {
   startCapture(scanName: string, exportType: ExportType, sendFileLoc: boolean): Promise<void>;
   stopCapture(): Promise<void>;
+  /** Resolve what the device supports and the current permission states. Never rejects for unsupported platforms. */
+  getCapabilities(): Promise<RoomPlanCapabilities>;
+  /** Ask for the permissions that are still `undetermined` and resolve with the resulting states. */
+  requestPermissions(options?: RequestPermissionsOptions): Promise<RoomPlanPermissions>;
+  /** Delete the rooms and world maps saved for `session`, e.g. once its export is safe. It can't be resumed afterwards. */
+  deleteSavedSession(session: SavedScanSession): Promise<void>;
   // test
   addListener?(eventName: string, listener: (event: any) => void): { remove: () => void };
   removeListeners?(count: number): void;
+  removeAllListeners?(eventName: string): void;
 }
 
 export interface UseRoomPlanInterface {
@@ -29,4 +94,6 @@ export interface UseRoomPlanInterface {
   roomScanStatus: ScanStatus;
   jsonUrl: string | null;
   scanUrl: string | null;
+  /** Why the last capture ended with `ScanStatus.Error`, if it did. */
+  error: RoomPlanError | null;
 }
\ No newline at end of file
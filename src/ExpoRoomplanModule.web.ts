@@ -0,0 +1,47 @@
+import type {
+  ExpoRoomPlanModuleType,
+  RoomPlanCapabilities,
+} from "./ExpoRoomplan.types";
+import { RoomPlanError } from "./RoomPlanError";
+
+const UNSUPPORTED_MESSAGE = "RoomPlan is only available on iOS.";
+
+/**
+ * Web stand-in for the `ExpoRoomPlan` native module: capability queries report RoomPlan as
+ * unsupported and starting a capture rejects.
+ */
+const ExpoRoomplan: ExpoRoomPlanModuleType = {
+  async startCapture() {
+    throw new RoomPlanError("NOT_IMPLEMENTED", UNSUPPORTED_MESSAGE);
+  },
+
+  async stopCapture() {},
+
+  async getCapabilities(): Promise<RoomPlanCapabilities> {
+    return {
+      platform: "web",
+      isSupported: false,
+      unsupportedReason: "platform",
+      hasLiDAR: false,
+      osVersion: "",
+      camera: "unavailable",
+      microphone: "unavailable",
+    };
+  },
+
+  async requestPermissions() {
+    return { camera: "unavailable", microphone: "unavailable" };
+  },
+
+  async deleteSavedSession() {},
+
+  addListener() {
+    return { remove: () => {} };
+  },
+
+  removeListeners() {},
+
+  removeAllListeners() {},
+};
+
+export default ExpoRoomplan;
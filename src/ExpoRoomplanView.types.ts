@@ -1,5 +1,181 @@
 import type { ViewProps, StyleProp, ViewStyle } from "react-native";
+import type {
+  ConfidenceLevel,
+  ObjectCategory,
+  Vector3,
+} from "./CapturedStructure.types";
 import type { ScanStatus, ExportType } from "./ExpoRoomplan.types";
+import type { RoomPlanErrorCode } from "./RoomPlanError";
+import type { RoomPlanCaptureConfig } from "./captureConfig";
+import type { ExportStructureOptions } from "./exportStructure";
+import type { ScanStorage } from "./scanStorage";
+
+/**
+ * Formats an export can produce. RoomPlan writes `usdz` and `json`; the others are generated in
+ * JavaScript from the JSON, see `StructureExportType`.
+ */
+export type RoomPlanExportFormat =
+  | "usdz"
+  | "json"
+  | "svg"
+  | "gltf"
+  | "glb"
+  | "dxf"
+  | "ifc"
+  | "obj"
+  | "ply";
+
+/**
+ * A file written by an export, listed in {@link RoomPlanExport.files}.
+ */
+export type ExportedFile = {
+  url: string;
+  /** The requested format the file belongs to; the `.mtl` of an OBJ export is `"obj"`. */
+  format: RoomPlanExportFormat;
+  /** Size in bytes. */
+  size: number;
+  /** SHA-256 of the contents, as lowercase hex. */
+  checksum: string;
+};
+
+/**
+ * Files produced by an export, as sent with `onExported`.
+ */
+export type RoomPlanExport = {
+  /** URL of the USDZ model. Only set when `sendFileLoc` is true. */
+  scanUrl?: string;
+  /** URL of the `CapturedStructure` JSON. Only set when `sendFileLoc` is true. */
+  jsonUrl?: string;
+  /** URL of the audio recording, if one was made. */
+  audioUrl?: string;
+  /** URLs of the photos taken during the scan. */
+  photoUrls?: string[];
+  /** Every file written for the requested `exportFormats`, with its size and checksum. */
+  files?: ExportedFile[];
+};
+
+/**
+ * Sent with `onRoomAdded` each time RoomPlan has built a room after `finishTrigger` or `addAnotherTrigger`.
+ */
+export type RoomAddedEvent = {
+  /** Position of the room in the native list of captured rooms. */
+  index: number;
+  /** `CapturedRoom.identifier`. */
+  identifier: string;
+  /** Floor the room is on. */
+  story: number;
+  /** When the room was built, in milliseconds since the epoch. */
+  capturedAt: number;
+  /** File holding the encoded `CapturedRoom`, for resuming the scan later. Missing if it couldn't be written. */
+  roomUrl?: string;
+  /** ARKit world map saved after the room was built, used to find the scanned area again when resuming. */
+  worldMapUrl?: string;
+};
+
+/**
+ * Rooms to restore when capture starts, see `resumeFrom`.
+ */
+export type RoomPlanResumeSource = {
+  /** Rooms captured earlier, with the `roomUrl` sent by {@link RoomAddedEvent}. */
+  rooms: { identifier: string; roomUrl: string }[];
+  /**
+   * World map to relocalize against before capture goes on, so new rooms line up with the restored
+   * ones. Without it, capture starts right away in a new coordinate space.
+   */
+  worldMapUrl?: string;
+};
+
+/**
+ * A wall, door, window or opening detected so far, reduced to its footprint on the floor plane.
+ * Points are world `x` and `z` in metres, like `PlanPoint` in the exported JSON helpers.
+ */
+export type LiveSurface = {
+  identifier: string;
+  /** Identifier of the wall hosting a door, window or opening. */
+  parentIdentifier?: string;
+  /** One end of the surface along its width. */
+  start: [number, number];
+  /** The other end. */
+  end: [number, number];
+  /** Height in metres. */
+  height: number;
+  confidence: ConfidenceLevel;
+  /** Whether a door is open. Only set for doors. */
+  isOpen?: boolean;
+};
+
+/**
+ * An object detected so far, as an oriented box.
+ */
+export type LiveObject = {
+  identifier: string;
+  category: ObjectCategory;
+  /** Centre of the box in world space, in metres. */
+  center: Vector3;
+  /** Width, height and depth in metres. */
+  dimensions: Vector3;
+  /** Rotation about the vertical axis in radians. */
+  yaw: number;
+  confidence: ConfidenceLevel;
+};
+
+/**
+ * Sent with `onRoomUpdate` while scanning: what RoomPlan has detected in the room being captured.
+ * Every event describes the whole room so far, not just what changed.
+ */
+export type RoomUpdateEvent = {
+  /** Position the room will have in the list of captured rooms, see {@link RoomAddedEvent}. */
+  index: number;
+  story: number;
+  /** When RoomPlan reported the update, in milliseconds since the epoch. */
+  timestamp: number;
+  counts: {
+    walls: number;
+    doors: number;
+    windows: number;
+    openings: number;
+    floors: number;
+    objects: number;
+  };
+  walls: LiveSurface[];
+  doors: LiveSurface[];
+  windows: LiveSurface[];
+  openings: LiveSurface[];
+  objects: LiveObject[];
+  /** Where the device was when RoomPlan reported the update, when the camera is tracking. */
+  device?: {
+    /** World `x` and `z` in metres, like {@link LiveSurface} points. */
+    position: [number, number];
+    /** Direction the camera faces on the floor plane, in radians from world `x` towards world `z`. */
+    heading: number;
+  };
+};
+
+/**
+ * Guidance RoomPlan gives while scanning, as shown by its coaching overlay.
+ *
+ * - `normal`: scanning is going fine; no guidance needed.
+ * - `moveCloseToWall` / `moveAwayFromWall`: the device is too far from or too close to a wall.
+ * - `slowDown`: the device is moving too fast.
+ * - `turnOnLight`: the room is too dark.
+ * - `lowTexture`: the surfaces in view have too little detail to track, e.g. a plain white wall.
+ */
+export type RoomPlanInstruction =
+  | "normal"
+  | "moveCloseToWall"
+  | "moveAwayFromWall"
+  | "slowDown"
+  | "turnOnLight"
+  | "lowTexture";
+
+/**
+ * Sent with `onInstruction` each time RoomPlan's guidance changes.
+ */
+export type InstructionEvent = {
+  instruction: RoomPlanInstruction;
+  /** When RoomPlan gave the instruction, in milliseconds since the epoch. */
+  timestamp: number;
+};
 
 /**
  * Props for {@link RoomPlanView}.
@@ -30,6 +206,34 @@ export interface RoomPlanViewProps extends ViewProps {
   // If true (default), finish will also export the result once ready
   /** When true, finishing a capture automatically exports once preview is shown. */
   exportOnFinish?: boolean;
+  /** Identifiers of captured rooms to leave out of exports, see {@link RoomAddedEvent}. */
+  discardedRoomIds?: string[];
+  /**
+   * Rooms of an earlier scan to start from, read when `running` turns on. Capture then goes on with
+   * a new room, and `addAnotherTrigger` and exports include the restored rooms as if they had been
+   * captured in this session. Fails with `RESUME_FAILED` when a room can't be read or the scanned
+   * area isn't found within 30 seconds.
+   */
+  resumeFrom?: RoomPlanResumeSource;
+  /**
+   * Formats to write on export. Defaults to `["usdz", "json"]`.
+   * Formats other than `usdz` and `json` are generated from the JSON in JavaScript, so `json` is
+   * always written with them, and they need `exportStorage`.
+   * When set, `onExported` always includes the file URLs and `files`, whatever `sendFileLoc` says.
+   */
+  exportFormats?: RoomPlanExportFormat[];
+  /** Directory to export into, as a `file://` URL or a path. Defaults to `<tmp>/Export/`. */
+  exportDirectory?: string;
+  /**
+   * File name template, without extension. `{scanName}`, `{timestamp}` (milliseconds since the
+   * epoch) and `{date}` (`yyyyMMdd-HHmmss`, local time) are replaced, e.g. `"{scanName}-{date}"`
+   * keeps earlier exports instead of overwriting them. Defaults to `"{scanName}"`.
+   */
+  exportFileName?: string;
+  /** Reads the JSON and writes the formats generated in JavaScript, e.g. `createFileSystemScanStorage(FileSystem)`. */
+  exportStorage?: ScanStorage;
+  /** Options for the formats generated in JavaScript, by format. */
+  exportFormatOptions?: Omit<ExportStructureOptions, "name">;
 
   /** Enable audio recording during scan. */
   audioEnabled?: boolean;
@@ -41,21 +245,59 @@ export interface RoomPlanViewProps extends ViewProps {
   autoPhotoIntervalSec?: number;
   /** Stop audio automatically when finish trigger completes. Default true. */
   stopAudioOnFinish?: boolean;
+  /**
+   * Minimum time between `onRoomUpdate` events in milliseconds. Updates in between are merged and
+   * the latest is sent when the interval is over. Defaults to `500`.
+   */
+  roomUpdateIntervalMs?: number;
+  /**
+   * Show RoomPlan's own coaching overlay. Set to `false` to show your own guidance from
+   * `onInstruction` instead. Takes effect when the next capture starts. Defaults to `true`.
+   */
+  coachingEnabled?: boolean;
+  /**
+   * Coaching, room and structure builder options and export options in one place, see
+   * {@link RoomPlanCaptureConfig}. Its `coachingEnabled` and `export.exportType` override the
+   * props of the same name. Settings that can't work as written are logged with `console.warn`.
+   */
+  captureConfig?: RoomPlanCaptureConfig;
   /** Standard React Native style prop. */
   style?: StyleProp<ViewStyle>;
-  /** Receives status updates such as OK, Error, and Canceled. */
+  /**
+   * Receives status updates such as OK, Error, and Canceled.
+   * `trigger` is set when the status answers a trigger prop, e.g. the OK after `addAnotherTrigger`.
+   * Errors carry an `errorCode`; see `RoomPlanError`.
+   */
   onStatus?: (e: {
-    nativeEvent: { status: ScanStatus; errorMessage?: string };
+    nativeEvent: {
+      status: ScanStatus;
+      errorCode?: RoomPlanErrorCode;
+      errorMessage?: string;
+      trigger?: number;
+    };
+  }) => void;
+  /** Called when the native preview UI is presented after finishing a scan. `trigger` is the `finishTrigger`. */
+  onPreview?: (e?: { nativeEvent: { trigger?: number } }) => void;
+  /** Called each time a room has been built and added to the scan. */
+  onRoomAdded?: (e: { nativeEvent: RoomAddedEvent }) => void;
+  /**
+   * Called while scanning as RoomPlan detects walls, doors, windows and objects, at most once per
+   * `roomUpdateIntervalMs`. Use it for progress UIs and live mini-maps.
+   */
+  onRoomUpdate?: (e: { nativeEvent: RoomUpdateEvent }) => void;
+  /** Called while scanning each time RoomPlan's guidance changes, including back to `normal`. */
+  onInstruction?: (e: { nativeEvent: InstructionEvent }) => void;
+  /** Per-photo callback. `trigger` is set for photos taken with `capturePhotoTrigger`. */
+  onPhoto?: (e: {
+    nativeEvent: { photoUrl: string; timestamp: number; trigger?: number };
   }) => void;
-  /** Called when the native preview UI is presented after finishing a scan. */
-  onPreview?: () => void;
-  /** Per-photo callback. */
-  onPhoto?: (e: { nativeEvent: { photoUrl: string; timestamp: number } }) => void;
   /** Audio state callback. */
   onAudio?: (e: {
     nativeEvent: {
       status: "started" | "stopped" | "error";
       audioUrl?: string;
+      /** `MIC_PERMISSION_DENIED` or `AUDIO_FAILED` with `status: "error"`. */
+      errorCode?: RoomPlanErrorCode;
       errorMessage?: string;
     };
   }) => void;
@@ -67,13 +309,10 @@ export interface RoomPlanViewProps extends ViewProps {
       timestamp: number;    // Unix timestamp
     };
   }) => void;
-  /** Emitted after export; includes file URLs when `sendFileLoc` is true, now also includes media. */
-  onExported?: (e: {
-    nativeEvent: {
-      scanUrl?: string;
-      jsonUrl?: string;
-      audioUrl?: string;
-      photoUrls?: string[];
-    };
-  }) => void;
+  /**
+   * Emitted after export; includes file URLs when `sendFileLoc` is true or `exportFormats` is set, now also includes media.
+   * `trigger` is the `exportTrigger` or `finishTrigger` that started the export.
+   * With formats generated in JavaScript, it is sent once those files are written.
+   */
+  onExported?: (e: { nativeEvent: RoomPlanExport & { trigger?: number } }) => void;
 }
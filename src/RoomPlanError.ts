@@ -0,0 +1,137 @@
+/**
+ * What went wrong, as carried by {@link RoomPlanError}:
+ * - `UNSUPPORTED_DEVICE`: RoomPlan can't run on this device or iOS version.
+ * - `CAMERA_PERMISSION_DENIED`, `MIC_PERMISSION_DENIED`: the user refused or restricted access.
+ * - `SESSION_FAILED`: the capture session stopped, e.g. because world tracking failed.
+ * - `BUILD_ROOM_FAILED`: a captured room couldn't be processed; the other rooms are kept.
+ * - `EXPORT_FAILED`: writing or converting the export failed, or every room was discarded.
+ * - `PHOTO_FAILED`, `AUDIO_FAILED`: a photo or the audio recording failed; the scan goes on.
+ * - `RESUME_FAILED`: saved rooms couldn't be read, or the scanned area wasn't found again.
+ * - `NOT_IMPLEMENTED`: called on a platform without RoomPlan, i.e. Android or web.
+ * - `CANCELED`: the scan was canceled or reset while a control was waiting.
+ * - `VIEW_CLOSED`: the view closed or unmounted while a control was waiting.
+ * - `TIMEOUT`, `ABORTED`: a control ran out of `timeoutMs` or its `signal` was aborted.
+ * - `INVALID_STATE`: the control isn't allowed in the current `state.phase`.
+ * - `UNKNOWN`: anything else, including errors from native builds that send no code.
+ */
+export type RoomPlanErrorCode =
+  | "UNSUPPORTED_DEVICE"
+  | "CAMERA_PERMISSION_DENIED"
+  | "MIC_PERMISSION_DENIED"
+  | "SESSION_FAILED"
+  | "BUILD_ROOM_FAILED"
+  | "EXPORT_FAILED"
+  | "PHOTO_FAILED"
+  | "AUDIO_FAILED"
+  | "RESUME_FAILED"
+  | "NOT_IMPLEMENTED"
+  | "CANCELED"
+  | "VIEW_CLOSED"
+  | "TIMEOUT"
+  | "ABORTED"
+  | "INVALID_STATE"
+  | "UNKNOWN";
+
+/**
+ * What the app can do about a {@link RoomPlanError}:
+ * - `retry`: call the same control again.
+ * - `restartScan`: start a new scan; rooms already exported are not affected.
+ * - `openSettings`: ask the user to allow access in Settings, e.g. with `Linking.openSettings()`.
+ * - `none`: it won't work on this device or in this state.
+ */
+export type RoomPlanRecovery =
+  | "retry"
+  | "restartScan"
+  | "openSettings"
+  | "none";
+
+const RECOVERY: Record<RoomPlanErrorCode, RoomPlanRecovery> = {
+  UNSUPPORTED_DEVICE: "none",
+  CAMERA_PERMISSION_DENIED: "openSettings",
+  MIC_PERMISSION_DENIED: "openSettings",
+  SESSION_FAILED: "restartScan",
+  BUILD_ROOM_FAILED: "restartScan",
+  EXPORT_FAILED: "retry",
+  PHOTO_FAILED: "retry",
+  AUDIO_FAILED: "retry",
+  RESUME_FAILED: "restartScan",
+  NOT_IMPLEMENTED: "none",
+  CANCELED: "restartScan",
+  VIEW_CLOSED: "restartScan",
+  TIMEOUT: "retry",
+  ABORTED: "retry",
+  INVALID_STATE: "none",
+  UNKNOWN: "restartScan",
+};
+
+/** Whether `value` is one of the {@link RoomPlanErrorCode}s. */
+export function isRoomPlanErrorCode(
+  value: unknown
+): value is RoomPlanErrorCode {
+  return (
+    typeof value === "string" &&
+    Object.prototype.hasOwnProperty.call(RECOVERY, value)
+  );
+}
+
+/** Whether the native scan goes on after an error with `code`, i.e. a failed photo or audio recording. */
+export function keepsScanRunning(code: RoomPlanErrorCode): boolean {
+  return code === "PHOTO_FAILED" || code === "AUDIO_FAILED";
+}
+
+/**
+ * An error reported by RoomPlan or by a control of `useRoomPlanView`, with a {@link RoomPlanErrorCode}
+ * to branch on or localize instead of matching `message`. `message` stays the English text of the
+ * native layer.
+ *
+ * Used for `state.lastError`, the `error` of `useRoomPlan` and every rejected control promise.
+ */
+export class RoomPlanError extends Error {
+  readonly code: RoomPlanErrorCode;
+  /** What the app can do about it. */
+  readonly recovery: RoomPlanRecovery;
+  /** `false` when `recovery` is `none`. */
+  readonly recoverable: boolean;
+
+  constructor(code: RoomPlanErrorCode, message: string) {
+    super(message);
+    this.name = "RoomPlanError";
+    this.code = code;
+    this.recovery = RECOVERY[code];
+    this.recoverable = this.recovery !== "none";
+  }
+
+  /**
+   * Wrap anything thrown, e.g. a native module rejection. Expo rejections keep their code when it is
+   * a {@link RoomPlanErrorCode}, such as Android's `NOT_IMPLEMENTED`; everything else gets `fallback`.
+   */
+  static from(
+    error: unknown,
+    fallback: RoomPlanErrorCode = "UNKNOWN"
+  ): RoomPlanError {
+    if (error instanceof RoomPlanError) return error;
+    const code = (error as { code?: unknown } | null)?.code;
+    const message = error instanceof Error ? error.message : String(error);
+    return new RoomPlanError(
+      isRoomPlanErrorCode(code) ? code : fallback,
+      message
+    );
+  }
+
+  /** Build the error described by the `errorCode` and `errorMessage` of a native event. */
+  static fromEvent(event: {
+    errorCode?: string;
+    errorMessage?: string;
+  }): RoomPlanError {
+    const { errorCode, errorMessage } = event;
+    return new RoomPlanError(
+      isRoomPlanErrorCode(errorCode) ? errorCode : "UNKNOWN",
+      errorMessage ?? "RoomPlan reported an error."
+    );
+  }
+
+  toJSON() {
+    const { name, code, message, recovery, recoverable } = this;
+    return { name, code, message, recovery, recoverable };
+  }
+}
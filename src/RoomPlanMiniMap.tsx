@@ -0,0 +1,178 @@
+import React, { useMemo } from "react";
+import { StyleProp, View, ViewStyle } from "react-native";
+
+import type { RoomUpdateEvent } from "./ExpoRoomplanView.types";
+import { useOptionalRoomPlanContext } from "./RoomPlanProvider";
+import { MiniMapLayoutOptions, layoutMiniMap } from "./layoutMiniMap";
+
+/**
+ * Colours used by {@link RoomPlanMiniMap}.
+ */
+export type MiniMapTheme = {
+  background: string;
+  wall: string;
+  door: string;
+  window: string;
+  opening: string;
+  object: string;
+  device: string;
+};
+
+/**
+ * Props for {@link RoomPlanMiniMap}.
+ */
+export type RoomPlanMiniMapProps = Partial<
+  Omit<MiniMapLayoutOptions, "width" | "height">
+> & {
+  /** Room to draw. Defaults to `state.liveRoom` of the surrounding {@link RoomPlanProvider}. */
+  room?: RoomUpdateEvent;
+  /** Width in pixels. Defaults to `160`. */
+  width?: number;
+  /** Height in pixels. Defaults to `width`. */
+  height?: number;
+  /** Drawn thickness of walls in pixels. Defaults to `3`. */
+  wallThickness?: number;
+  /** Size of the device marker in pixels. Defaults to `10`. */
+  deviceSize?: number;
+  /** Override colours. */
+  theme?: Partial<MiniMapTheme>;
+  style?: StyleProp<ViewStyle>;
+  testID?: string;
+};
+
+const DEFAULT_THEME: MiniMapTheme = {
+  background: "rgba(0, 0, 0, 0.55)",
+  wall: "#ffffff",
+  door: "#f59e0b",
+  window: "#38bdf8",
+  opening: "rgba(0, 0, 0, 0.55)",
+  object: "rgba(255, 255, 255, 0.35)",
+  device: "#22c55e",
+};
+
+/**
+ * A top-down map of the room being captured, to show over {@link RoomPlanViewConsumer} while the
+ * user walks around: walls, doors, windows, openings, objects and where the device is. It redraws
+ * with every `onRoomUpdate` and is drawn with plain views, so it needs no SVG library.
+ *
+ * Inside a {@link RoomPlanProvider} it draws `state.liveRoom`; elsewhere pass `room`. The layout
+ * comes from {@link layoutMiniMap}.
+ *
+ * @example
+ * ```tsx
+ * <RoomPlanProvider scanName="Kitchen">
+ *   <RoomPlanViewConsumer style={StyleSheet.absoluteFill} />
+ *   <RoomPlanMiniMap style={{ position: "absolute", top: 60, right: 16, borderRadius: 8 }} />
+ * </RoomPlanProvider>
+ * ```
+ */
+export function RoomPlanMiniMap(props: RoomPlanMiniMapProps) {
+  const context = useOptionalRoomPlanContext();
+  const {
+    room = context?.state.liveRoom,
+    width = 160,
+    height = width,
+    padding,
+    maxScale,
+    showObjects,
+    showDevice,
+    wallThickness = 3,
+    deviceSize = 10,
+    style,
+    testID = "RoomPlanMiniMap",
+  } = props;
+  const theme = { ...DEFAULT_THEME, ...props.theme };
+  const layout = useMemo(
+    () =>
+      layoutMiniMap(room, {
+        width,
+        height,
+        padding,
+        maxScale,
+        showObjects,
+        showDevice,
+      }),
+    [room, width, height, padding, maxScale, showObjects, showDevice]
+  );
+
+  return (
+    <View
+      testID={testID}
+      pointerEvents="none"
+      style={[
+        {
+          width,
+          height,
+          overflow: "hidden",
+          backgroundColor: theme.background,
+        },
+        style,
+      ]}
+    >
+      {layout.objects.map((object) => (
+        <View
+          key={object.identifier}
+          style={{
+            position: "absolute",
+            left: object.center[0] - object.width / 2,
+            top: object.center[1] - object.depth / 2,
+            width: object.width,
+            height: object.depth,
+            backgroundColor: theme.object,
+            transform: [{ rotate: `${object.angle}rad` }],
+          }}
+        />
+      ))}
+      {layout.segments.map((segment) => {
+        // Doors, windows and openings are drawn over their wall, slightly thicker to cover it.
+        const thickness =
+          segment.kind === "wall" ? wallThickness : wallThickness + 1;
+        return (
+          <View
+            key={segment.identifier}
+            style={{
+              position: "absolute",
+              left: segment.center[0] - segment.length / 2,
+              top: segment.center[1] - thickness / 2,
+              width: segment.length,
+              height: thickness,
+              backgroundColor: theme[segment.kind],
+              transform: [{ rotate: `${segment.angle}rad` }],
+            }}
+          />
+        );
+      })}
+      {layout.device && (
+        <View
+          style={{
+            position: "absolute",
+            left: layout.device.position[0] - deviceSize / 2,
+            top: layout.device.position[1] - deviceSize / 2,
+            width: deviceSize,
+            height: deviceSize,
+            transform: [{ rotate: `${layout.device.heading}rad` }],
+          }}
+        >
+          <View
+            style={{
+              flex: 1,
+              borderRadius: deviceSize / 2,
+              backgroundColor: theme.device,
+            }}
+          />
+          {/* A tick on the side the camera faces. */}
+          <View
+            style={{
+              position: "absolute",
+              left: deviceSize,
+              top: deviceSize / 2 - 1,
+              width: deviceSize / 2,
+              height: 2,
+              backgroundColor: theme.device,
+            }}
+          />
+        </View>
+      )}
+    </View>
+  );
+}
@@ -60,6 +60,16 @@ export function useRoomPlanContext(): UseRoomPlanViewReturn {
   return ctx;
 }
 
+/**
+ * Like {@link useRoomPlanContext}, but returns `undefined` outside of a {@link RoomPlanProvider}, for
+ * components that also work without one such as {@link RoomPlanMiniMap}.
+ */
+export function useOptionalRoomPlanContext():
+  | UseRoomPlanViewReturn
+  | undefined {
+  return useContext(RoomPlanContext);
+}
+
 /**
  * Convenience component that renders {@link RoomPlanView} using `viewProps` from {@link useRoomPlanContext}.
  *
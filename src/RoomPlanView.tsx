@@ -1,6 +1,7 @@
 import * as React from "react";
 import { requireNativeViewManager } from "expo-modules-core";
 import type { RoomPlanViewProps } from "./ExpoRoomplanView.types";
+import { useNativeExportProps } from "./useNativeExportProps";
 
 const NativeRoomPlanView: React.ComponentType<RoomPlanViewProps> =
   requireNativeViewManager("ExpoRoomPlanView");
@@ -11,7 +12,10 @@ const NativeRoomPlanView: React.ComponentType<RoomPlanViewProps> =
  * Prefer using {@link useRoomPlanView} or {@link RoomPlanProvider} to manage its props,
  * but you can also drive it directly by toggling `running` and bumping the numeric triggers
  * (finishTrigger, addAnotherTrigger, exportTrigger).
+ *
+ * Formats in `exportFormats` that RoomPlan can't write, such as `svg` or `gltf`, are generated here
+ * from the exported JSON with {@link writeExportFormats} before `onExported` is called.
  */
 export function RoomPlanView(props: RoomPlanViewProps) {
-  return <NativeRoomPlanView {...props} />;
+  return <NativeRoomPlanView {...useNativeExportProps(props)} />;
 }
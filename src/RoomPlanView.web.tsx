@@ -0,0 +1,39 @@
+import * as React from "react";
+import { Text, View } from "react-native";
+
+import { ScanStatus } from "./ExpoRoomplan.types";
+import type { RoomPlanViewProps } from "./ExpoRoomplanView.types";
+
+const UNSUPPORTED_MESSAGE = "RoomPlan is only available on iOS.";
+
+/**
+ * Web stand-in for the native scanning UI. It draws a short notice in place of the camera and,
+ * whenever `running` turns on, reports `ScanStatus.Error` with a `NOT_IMPLEMENTED` code, so
+ * `useRoomPlanView` ends up in its error phase instead of waiting. Use {@link RoomPlanViewer} to show
+ * scans on the web.
+ */
+export function RoomPlanView(props: RoomPlanViewProps) {
+  const { running, style, onStatus } = props;
+  const onStatusRef = React.useRef(onStatus);
+  onStatusRef.current = onStatus;
+
+  React.useEffect(() => {
+    if (!running) return;
+    onStatusRef.current?.({
+      nativeEvent: {
+        status: ScanStatus.Error,
+        errorCode: "NOT_IMPLEMENTED",
+        errorMessage: UNSUPPORTED_MESSAGE,
+      },
+    });
+  }, [running]);
+
+  return (
+    <View
+      style={[{ alignItems: "center", justifyContent: "center" }, style]}
+      testID="RoomPlanView"
+    >
+      <Text>Room capture isn't supported in the browser.</Text>
+    </View>
+  );
+}
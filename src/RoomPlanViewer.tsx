@@ -0,0 +1,216 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { StyleProp, View, ViewStyle } from "react-native";
+
+import type { CapturedStructure } from "./CapturedStructure.types";
+import { MiniMapTheme, RoomPlanMiniMap } from "./RoomPlanMiniMap";
+import { liveRoomFromStructure } from "./layoutMiniMap";
+import { layoutStructure3d } from "./layoutStructure3d";
+import { parseCapturedStructure } from "./parseCapturedStructure";
+import { filterStory } from "./planGeometry";
+import type { ScanStorage } from "./scanStorage";
+
+/**
+ * Props for {@link RoomPlanViewer}.
+ */
+export type RoomPlanViewerProps = {
+  /** A structure already read with {@link parseCapturedStructure}. Wins over `json` and `jsonUrl`. */
+  structure?: CapturedStructure;
+  /** An exported JSON file: its text, or the result of `JSON.parse` on it. */
+  json?: unknown;
+  /** URL of an exported JSON file, read when neither `structure` nor `json` is given. */
+  jsonUrl?: string;
+  /** Reads `jsonUrl`, e.g. `createFileSystemScanStorage(FileSystem)` on a device. Defaults to `fetch`. */
+  storage?: ScanStorage;
+  /** `2d` draws a plan from above, `3d` the walls and objects at an angle. Defaults to `"2d"`. */
+  mode?: "2d" | "3d";
+  /** Only draw this story. Draws every story when omitted. */
+  story?: number;
+  /** Width in pixels. Defaults to `320`. */
+  width?: number;
+  /** Height in pixels. Defaults to `width`. */
+  height?: number;
+  /** Turn the `3d` view about the vertical axis, in radians. */
+  yaw?: number;
+  /** How far the `3d` view looks down, in radians. */
+  pitch?: number;
+  /** Draw objects. Defaults to `true`. */
+  showObjects?: boolean;
+  /** Override colours. `device` is unused. */
+  theme?: Partial<MiniMapTheme>;
+  /** Called with the structure once it has been read and validated. */
+  onLoad?: (structure: CapturedStructure) => void;
+  /** Called when the JSON can't be read or isn't a RoomPlan export. */
+  onError?: (error: Error) => void;
+  style?: StyleProp<ViewStyle>;
+  testID?: string;
+};
+
+const DEFAULT_THEME: MiniMapTheme = {
+  background: "#ffffff",
+  wall: "#4b5563",
+  door: "#f59e0b",
+  window: "#38bdf8",
+  opening: "#ffffff",
+  object: "#9ca3af",
+  device: "#22c55e",
+};
+
+type LoadResult = { structure?: CapturedStructure; error?: Error };
+
+const toError = (error: unknown) =>
+  error instanceof Error ? error : new Error(String(error));
+
+function load(json: unknown): LoadResult {
+  try {
+    return { structure: parseCapturedStructure(json) };
+  } catch (error) {
+    return { error: toError(error) };
+  }
+}
+
+/**
+ * Shows a previously exported scan: a plan in `2d` mode, or walls, doors, windows and object boxes
+ * at an angle in `3d` mode. Everything is drawn with plain views, so the same component works in a
+ * web dashboard and in the app, where room capture isn't available or has already happened.
+ *
+ * The `2d` mode draws like {@link RoomPlanMiniMap}; the `3d` layout comes from
+ * {@link layoutStructure3d}. For printable plans use {@link renderFloorPlanSvg}, for real 3D models
+ * {@link toGltf}.
+ *
+ * @example
+ * ```tsx
+ * <RoomPlanViewer jsonUrl={scan.jsonUrl} mode="3d" width={480} height={320} onError={console.warn} />
+ * ```
+ */
+export function RoomPlanViewer(props: RoomPlanViewerProps) {
+  const {
+    structure: given,
+    json,
+    jsonUrl,
+    storage,
+    mode = "2d",
+    story,
+    width = 320,
+    height = width,
+    yaw,
+    pitch,
+    showObjects,
+    style,
+    testID = "RoomPlanViewer",
+  } = props;
+  const theme = { ...DEFAULT_THEME, ...props.theme };
+  const parsed = useMemo(
+    () =>
+      given
+        ? { structure: given }
+        : json === undefined
+        ? undefined
+        : load(json),
+    [given, json]
+  );
+  const [fetched, setFetched] = useState<LoadResult>();
+  const shouldFetch = !given && json === undefined && !!jsonUrl;
+  useEffect(() => {
+    setFetched(undefined);
+    if (!shouldFetch) return;
+    let active = true;
+    const read = storage
+      ? storage.readText(jsonUrl!)
+      : fetch(jsonUrl!).then((response) => response.text());
+    read.then(
+      (text) => active && setFetched(load(text)),
+      (error) => active && setFetched({ error: toError(error) })
+    );
+    return () => {
+      active = false;
+    };
+  }, [shouldFetch, jsonUrl, storage]);
+
+  const result = parsed ?? fetched;
+  const structure = result?.structure;
+  const callbacksRef = useRef(props);
+  callbacksRef.current = props;
+  useEffect(() => {
+    if (result?.structure) callbacksRef.current.onLoad?.(result.structure);
+    if (result?.error) callbacksRef.current.onError?.(result.error);
+  }, [result]);
+
+  const room = useMemo(
+    () =>
+      structure &&
+      liveRoomFromStructure(
+        story === undefined ? structure : filterStory(structure, story)
+      ),
+    [structure, story]
+  );
+  const layout = useMemo(
+    () =>
+      structure && mode === "3d"
+        ? layoutStructure3d(structure, {
+            width,
+            height,
+            yaw,
+            pitch,
+            story,
+            showObjects,
+          })
+        : undefined,
+    [structure, mode, width, height, yaw, pitch, story, showObjects]
+  );
+
+  if (room && mode === "2d") {
+    return (
+      <RoomPlanMiniMap
+        room={room}
+        width={width}
+        height={height}
+        padding={16}
+        maxScale={Infinity}
+        showObjects={showObjects}
+        showDevice={false}
+        theme={theme}
+        style={style}
+        testID={testID}
+      />
+    );
+  }
+
+  return (
+    <View
+      testID={testID}
+      style={[
+        {
+          width,
+          height,
+          overflow: "hidden",
+          backgroundColor: theme.background,
+        },
+        style,
+      ]}
+    >
+      {layout?.faces.map((face) => (
+        <View
+          key={face.key}
+          style={{
+            position: "absolute",
+            left: (width - face.width) / 2,
+            top: (height - face.height) / 2,
+            width: face.width,
+            height: face.height,
+            backgroundColor: theme[face.kind],
+            transform: [{ matrix: face.matrix }],
+          }}
+        >
+          {/* Darken faces turned away from the light. */}
+          <View
+            style={{
+              flex: 1,
+              backgroundColor: "#000000",
+              opacity: (1 - face.light) * 0.6,
+            }}
+          />
+        </View>
+      ))}
+    </View>
+  );
+}
@@ -0,0 +1,176 @@
+import { act, render, screen } from "@testing-library/react-native";
+import React from "react";
+
+import type { RoomUpdateEvent } from "../ExpoRoomplanView.types";
+import { RoomPlanMiniMap } from "../RoomPlanMiniMap";
+import {
+  RoomPlanProvider,
+  RoomPlanViewConsumer,
+  useRoomPlanContext,
+} from "../RoomPlanProvider";
+import { layoutMiniMap } from "../layoutMiniMap";
+import { roomPlanMock } from "../mock";
+import type { UseRoomPlanViewReturn } from "../useRoomPlanView";
+
+afterEach(() => {
+  roomPlanMock.reset();
+});
+
+// A 4 × 2 m room with a door in its north wall, a table and the device in the middle facing north.
+const room: RoomUpdateEvent = {
+  index: 0,
+  story: 0,
+  timestamp: 0,
+  counts: {
+    walls: 2,
+    doors: 1,
+    windows: 0,
+    openings: 0,
+    floors: 0,
+    objects: 1,
+  },
+  walls: [
+    {
+      identifier: "N",
+      start: [-2, -1],
+      end: [2, -1],
+      height: 2.5,
+      confidence: "high",
+    },
+    {
+      identifier: "E",
+      start: [2, -1],
+      end: [2, 1],
+      height: 2.5,
+      confidence: "high",
+    },
+  ],
+  doors: [
+    {
+      identifier: "D",
+      parentIdentifier: "N",
+      start: [-0.5, -1],
+      end: [0.5, -1],
+      height: 2,
+      confidence: "high",
+      isOpen: false,
+    },
+  ],
+  windows: [],
+  openings: [],
+  objects: [
+    {
+      identifier: "T",
+      category: "table",
+      center: [-1, 0.4, 0.5],
+      dimensions: [1, 0.8, 0.5],
+      yaw: Math.PI / 2,
+      confidence: "high",
+    },
+  ],
+  device: { position: [0, 0], heading: -Math.PI / 2 },
+};
+
+const round = (points: number[][]) =>
+  points.map((p) => p.map((n) => Math.round(n * 100) / 100 + 0));
+
+describe("layoutMiniMap", () => {
+  it("fits the room into the area", () => {
+    const layout = layoutMiniMap(room, {
+      width: 220,
+      height: 120,
+      padding: 10,
+      maxScale: 100,
+    });
+    // 4 m across 200 px and 2 m across 100 px.
+    expect(layout.projection.scale).toBe(50);
+    expect(layout.segments.map((s) => [s.kind, s.identifier])).toEqual([
+      ["wall", "N"],
+      ["wall", "E"],
+      ["door", "D"],
+    ]);
+    const [north, east, door] = layout.segments;
+    expect(round([north.start, north.end])).toEqual([
+      [10, 10],
+      [210, 10],
+    ]);
+    expect(north.length).toBeCloseTo(200);
+    expect(north.angle).toBeCloseTo(0);
+    expect(east.angle).toBeCloseTo(Math.PI / 2);
+    expect(door.center).toEqual([110, 10]);
+
+    // Turned a quarter anticlockwise, the 1 m wide table is 1 m tall on the page.
+    const [table] = layout.objects;
+    expect(table.center).toEqual([60, 85]);
+    expect(table.angle).toBeCloseTo(-Math.PI / 2);
+    expect(round(table.corners)).toEqual([
+      [47.5, 110],
+      [47.5, 60],
+      [72.5, 60],
+      [72.5, 110],
+    ]);
+
+    expect(layout.device).toEqual({
+      position: [110, 60],
+      heading: -Math.PI / 2,
+    });
+  });
+
+  it("caps the scale and centres what there is", () => {
+    const wall = room.walls[0];
+    const layout = layoutMiniMap(
+      { ...room, walls: [wall], doors: [], objects: [], device: undefined },
+      { width: 200, height: 200, maxScale: 20 }
+    );
+    expect(layout.projection.scale).toBe(20);
+    expect(round([layout.segments[0].start, layout.segments[0].end])).toEqual([
+      [60, 100],
+      [140, 100],
+    ]);
+    expect(layoutMiniMap(undefined, { width: 100, height: 100 })).toMatchObject(
+      { segments: [], objects: [], device: undefined }
+    );
+  });
+
+  it("leaves out objects and the device on request", () => {
+    const layout = layoutMiniMap(room, {
+      width: 100,
+      height: 100,
+      showObjects: false,
+      showDevice: false,
+    });
+    expect(layout.objects).toEqual([]);
+    expect(layout.device).toBeUndefined();
+  });
+});
+
+describe("RoomPlanMiniMap", () => {
+  it("draws the room it is given", () => {
+    render(<RoomPlanMiniMap room={room} width={120} />);
+    const map = screen.getByTestId("RoomPlanMiniMap");
+    expect(map).toHaveStyle({ width: 120, height: 120 });
+    // One view per object, wall and door, plus the device.
+    expect(map.children).toHaveLength(5);
+  });
+
+  it("follows state.liveRoom inside a provider", async () => {
+    const ref = { current: undefined as UseRoomPlanViewReturn | undefined };
+    function Controls() {
+      ref.current = useRoomPlanContext();
+      return null;
+    }
+    render(
+      <RoomPlanProvider exportOnFinish={false}>
+        <Controls />
+        <RoomPlanViewConsumer />
+        <RoomPlanMiniMap />
+      </RoomPlanProvider>
+    );
+    expect(screen.getByTestId("RoomPlanMiniMap").children).toHaveLength(0);
+
+    act(() => ref.current!.controls.start());
+    await act(() => new Promise((resolve) => setTimeout(resolve, 10)));
+    // The sample bedroom: 4 walls, a door, a window, 2 objects and the device.
+    expect(screen.getByTestId("RoomPlanMiniMap").children).toHaveLength(9);
+  });
+});
@@ -0,0 +1,85 @@
+import {
+  act,
+  render,
+  renderHook,
+  screen,
+  waitFor,
+} from "@testing-library/react-native";
+import React from "react";
+
+import {
+  RoomPlanProvider,
+  RoomPlanViewConsumer,
+  useRoomPlanContext,
+} from "../RoomPlanProvider";
+import { roomPlanMock } from "../mock";
+import type { UseRoomPlanViewReturn } from "../useRoomPlanView";
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  roomPlanMock.reset();
+});
+
+describe("RoomPlanProvider", () => {
+  it("throws when useRoomPlanContext is used outside a provider", () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    expect(() => renderHook(() => useRoomPlanContext())).toThrow(
+      "useRoomPlanContext must be used within a RoomPlanProvider"
+    );
+  });
+
+  it("exposes the hook API initialised with the provider options", () => {
+    const { result } = renderHook(() => useRoomPlanContext(), {
+      wrapper: ({ children }) => (
+        <RoomPlanProvider scanName="Hall" exportOnFinish={false}>
+          {children}
+        </RoomPlanProvider>
+      ),
+    });
+    expect(result.current.viewProps).toMatchObject({
+      scanName: "Hall",
+      exportOnFinish: false,
+      running: false,
+    });
+    expect(Object.keys(result.current.controls)).toEqual(
+      expect.arrayContaining(["start", "cancel", "finishScan", "reset"])
+    );
+    expect(result.current.state.isRunning).toBe(false);
+  });
+
+  it("renders the view with context props and local overrides", () => {
+    render(
+      <RoomPlanProvider scanName="Hall">
+        <RoomPlanViewConsumer style={{ flex: 1 }} />
+      </RoomPlanProvider>
+    );
+    expect(screen.getByTestId("RoomPlanView")).toHaveStyle({ flex: 1 });
+  });
+
+  it("drives the consumer view from controls anywhere in the tree", async () => {
+    const onExported = jest.fn();
+    const ctx = { current: undefined as UseRoomPlanViewReturn | undefined };
+    function Toolbar() {
+      ctx.current = useRoomPlanContext();
+      return null;
+    }
+
+    render(
+      <RoomPlanProvider scanName="Hall" onExported={onExported}>
+        <Toolbar />
+        <RoomPlanViewConsumer />
+      </RoomPlanProvider>
+    );
+
+    act(() => ctx.current!.controls.start());
+    expect(ctx.current!.state.isRunning).toBe(true);
+    act(() => {
+      ctx.current!.controls.finishScan();
+    });
+
+    await waitFor(() => expect(onExported).toHaveBeenCalledTimes(1));
+    expect(ctx.current!.state.lastExport?.jsonUrl).toBe(
+      "file:///mock/Export/Hall.json"
+    );
+  });
+});
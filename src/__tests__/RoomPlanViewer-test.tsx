@@ -0,0 +1,207 @@
+import { act, render, screen, waitFor } from "@testing-library/react-native";
+import React from "react";
+
+import { RoomPlanView } from "../RoomPlanView.web";
+import { RoomPlanViewer } from "../RoomPlanViewer";
+import { layoutStructure3d } from "../layoutStructure3d";
+import { sampleCapturedStructureJson } from "../mock";
+import {
+  CapturedStructureParseError,
+  parseCapturedStructure,
+} from "../parseCapturedStructure";
+import { createMemoryScanStorage } from "../scanStorage";
+import { useRoomPlanView } from "../useRoomPlanView";
+
+const structure = parseCapturedStructure(sampleCapturedStructureJson);
+
+describe("layoutStructure3d", () => {
+  it("sorts faces back to front and keeps doors and windows on their wall", () => {
+    const { faces } = layoutStructure3d(structure, {
+      width: 400,
+      height: 300,
+    });
+    expect(faces.length).toBeGreaterThan(0);
+    for (let i = 1; i < faces.length; i++) {
+      expect(faces[i].depth).toBeGreaterThanOrEqual(faces[i - 1].depth);
+    }
+    for (const door of [...structure.doors, ...structure.windows]) {
+      const index = faces.findIndex((face) => face.key === door.identifier);
+      const wall = faces.findIndex(
+        (face) => face.key === door.parentIdentifier
+      );
+      expect(index).toBeGreaterThan(wall);
+    }
+  });
+
+  it("fits the faces into the drawing area", () => {
+    const layout = layoutStructure3d(structure, {
+      width: 400,
+      height: 300,
+      padding: 10,
+    });
+    for (const face of layout.faces) {
+      expect(face.center[0]).toBeGreaterThanOrEqual(10);
+      expect(face.center[0]).toBeLessThanOrEqual(390);
+      expect(face.center[1]).toBeGreaterThanOrEqual(10);
+      expect(face.center[1]).toBeLessThanOrEqual(290);
+      expect(face.light).toBeGreaterThan(0);
+      expect(face.light).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it("only keeps the sides of object boxes facing the viewer", () => {
+    const { faces } = layoutStructure3d(structure, {
+      width: 400,
+      height: 300,
+    });
+    for (const object of structure.objects) {
+      const sides = faces
+        .filter((face) => face.key.startsWith(`${object.identifier}:`))
+        .map((face) => face.key.split(":")[1]);
+      expect(sides).toContain("top");
+      expect(sides.length).toBeLessThanOrEqual(3);
+    }
+    expect(
+      layoutStructure3d(structure, {
+        width: 400,
+        height: 300,
+        showObjects: false,
+      }).faces.every((face) => face.kind !== "object")
+    ).toBe(true);
+  });
+
+  it("maps a wall seen head-on to a plain translation", () => {
+    const wall = structure.walls[0];
+    // Turn the model so the wall's horizontal axis points right, and look straight at it.
+    const [ax, , az] = wall.transform.slice(0, 3);
+    const { faces, scale } = layoutStructure3d(structure, {
+      width: 400,
+      height: 300,
+      yaw: -Math.atan2(az, ax),
+      pitch: 0,
+      showObjects: false,
+    });
+    const face = faces.find((f) => f.key === wall.identifier)!;
+    expect(face.width).toBeCloseTo(wall.dimensions[0] * scale);
+    expect(face.height).toBeCloseTo(wall.dimensions[1] * scale);
+    const [ux, uy, , , vx, vy] = face.matrix;
+    expect([ux, uy, vx, vy].map((n) => Math.round(n * 1e6) / 1e6)).toEqual([
+      1, 0, 0, 1,
+    ]);
+    expect(face.matrix[12]).toBeCloseTo(face.center[0] - 200);
+    expect(face.matrix[13]).toBeCloseTo(face.center[1] - 150);
+  });
+});
+
+describe("RoomPlanViewer", () => {
+  it("draws a plan from an exported structure", async () => {
+    const onLoad = jest.fn();
+    render(
+      <RoomPlanViewer json={sampleCapturedStructureJson} onLoad={onLoad} />
+    );
+    await waitFor(() => expect(onLoad).toHaveBeenCalledTimes(1));
+    // The raw export is parsed, so enums are plain strings.
+    const loaded = onLoad.mock.calls[0][0];
+    expect(loaded).toEqual(structure);
+    expect(loaded.walls[0]).toMatchObject({
+      category: "wall",
+      confidence: "high",
+    });
+    expect(loaded.sections[0].label).toBe("bedroom");
+    expect(screen.getByTestId("RoomPlanViewer")).toBeTruthy();
+  });
+
+  it("draws a structure that was already parsed", async () => {
+    const onLoad = jest.fn();
+    render(<RoomPlanViewer structure={structure} onLoad={onLoad} />);
+    await waitFor(() => expect(onLoad).toHaveBeenCalledWith(structure));
+  });
+
+  it("draws one view per face in 3d mode", async () => {
+    render(
+      <RoomPlanViewer
+        json={JSON.stringify(sampleCapturedStructureJson)}
+        mode="3d"
+        width={400}
+        height={300}
+      />
+    );
+    const { faces } = layoutStructure3d(structure, {
+      width: 400,
+      height: 300,
+    });
+    expect(screen.getByTestId("RoomPlanViewer").children).toHaveLength(
+      faces.length
+    );
+  });
+
+  it("reads jsonUrl from storage", async () => {
+    const url = "file:///scans/Bedroom.json";
+    const storage = createMemoryScanStorage({
+      [url]: JSON.stringify(sampleCapturedStructureJson),
+    });
+    const onLoad = jest.fn();
+    render(<RoomPlanViewer jsonUrl={url} storage={storage} onLoad={onLoad} />);
+    await waitFor(() => expect(onLoad).toHaveBeenCalledTimes(1));
+  });
+
+  it("reports JSON that isn't a RoomPlan export", async () => {
+    const onError = jest.fn();
+    const onLoad = jest.fn();
+    render(
+      <RoomPlanViewer
+        json={{ rooms: "nope" }}
+        onLoad={onLoad}
+        onError={onError}
+      />
+    );
+    await waitFor(() => expect(onError).toHaveBeenCalledTimes(1));
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(
+      CapturedStructureParseError
+    );
+    expect(onLoad).not.toHaveBeenCalled();
+    expect(screen.getByTestId("RoomPlanViewer").children).toHaveLength(0);
+  });
+
+  it("reports a failed read", async () => {
+    const onError = jest.fn();
+    const storage = createMemoryScanStorage();
+    jest
+      .spyOn(storage, "readText")
+      .mockRejectedValue(new Error("Network down."));
+    render(
+      <RoomPlanViewer
+        jsonUrl="https://x/scan.json"
+        storage={storage}
+        onError={onError}
+      />
+    );
+    await waitFor(() => expect(onError).toHaveBeenCalledTimes(1));
+    expect(onError.mock.calls[0][0].message).toBe("Network down.");
+  });
+});
+
+describe("web RoomPlanView", () => {
+  it("reports capture as unsupported when started", async () => {
+    const ref = {
+      current: undefined as ReturnType<typeof useRoomPlanView> | undefined,
+    };
+    function Harness() {
+      ref.current = useRoomPlanView();
+      return <RoomPlanView {...ref.current.viewProps} />;
+    }
+    render(<Harness />);
+    expect(ref.current!.state.lastError).toBeUndefined();
+
+    act(() => {
+      ref.current!.controls.start();
+    });
+    expect(ref.current!.state.lastError).toMatchObject({
+      code: "NOT_IMPLEMENTED",
+      recoverable: false,
+    });
+    expect(
+      screen.getByText("Room capture isn't supported in the browser.")
+    ).toBeTruthy();
+  });
+});
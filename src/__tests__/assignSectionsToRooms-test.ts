@@ -0,0 +1,53 @@
+import { assignSectionsToRooms } from "../assignSectionsToRooms";
+import { sampleCapturedStructureJson } from "../mock";
+import { parseCapturedStructure } from "../parseCapturedStructure";
+import type { ScannedRoom } from "../scanSession";
+
+const structure = parseCapturedStructure(sampleCapturedStructureJson);
+
+function room(identifier: string, name: string, index = 0): ScannedRoom {
+  return {
+    index,
+    identifier,
+    name,
+    story: 0,
+    startedAt: 0,
+    capturedAt: 0,
+    photoUrls: [],
+  };
+}
+
+describe("assignSectionsToRooms", () => {
+  it("matches rooms by identifier", () => {
+    const guest = room(structure.rooms[0].identifier, "Guest room");
+    const sections = assignSectionsToRooms(structure, [
+      room("other", "Office", 1),
+      guest,
+    ]);
+    expect(sections).toEqual([
+      { label: "bedroom", center: [0, 0, 0], story: 0, room: guest },
+    ]);
+  });
+
+  it("falls back to the position of each room", () => {
+    const guest = room("renamed-by-structure-builder", "Guest room");
+    expect(assignSectionsToRooms(structure, [guest])[0].room).toBe(guest);
+  });
+
+  it("leaves sections unassigned when rooms can't be matched", () => {
+    const sections = assignSectionsToRooms(structure, [
+      room("a", "A"),
+      room("b", "B", 1),
+    ]);
+    expect(sections[0].room).toBeUndefined();
+  });
+
+  it("uses the only room for structures without a room list", () => {
+    const guest = room("x", "Guest room");
+    const sections = assignSectionsToRooms({ ...structure, rooms: [] }, [
+      guest,
+    ]);
+    expect(sections).toHaveLength(1);
+    expect(sections[0].room).toBe(guest);
+  });
+});
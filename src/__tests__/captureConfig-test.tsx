@@ -0,0 +1,140 @@
+import { render } from "@testing-library/react-native";
+import React from "react";
+
+import { ExportType } from "../ExpoRoomplan.types";
+import type { RoomPlanViewProps } from "../ExpoRoomplanView.types";
+import { RoomPlanCaptureConfig, resolveCaptureConfig } from "../captureConfig";
+import { useNativeExportProps } from "../useNativeExportProps";
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("resolveCaptureConfig", () => {
+  it("fills in RoomPlan's defaults", () => {
+    expect(resolveCaptureConfig()).toEqual({
+      config: {
+        coachingEnabled: true,
+        roomBuilderOptions: ["beautifyObjects"],
+        structureBuilderOptions: ["beautifyObjects"],
+        export: { exportType: ExportType.Parametric, prettyPrintJson: false },
+      },
+      warnings: [],
+    });
+    expect(
+      resolveCaptureConfig(
+        {},
+        { coachingEnabled: false, exportType: ExportType.Mesh }
+      ).config
+    ).toMatchObject({
+      coachingEnabled: false,
+      export: { exportType: ExportType.Mesh },
+    });
+  });
+
+  it("keeps raw objects when both builders leave them alone", () => {
+    const { config, warnings } = resolveCaptureConfig({
+      roomBuilderOptions: [],
+      structureBuilderOptions: [],
+    });
+    expect(config.roomBuilderOptions).toEqual([]);
+    expect(config.structureBuilderOptions).toEqual([]);
+    expect(warnings).toEqual([]);
+
+    expect(resolveCaptureConfig({ roomBuilderOptions: [] }).warnings).toEqual([
+      'Rooms keep raw objects but structureBuilderOptions beautifies them again on export; leave "beautifyObjects" out of both to export raw objects.',
+    ]);
+  });
+
+  it("prefers the config over the props it contradicts", () => {
+    const { config, warnings } = resolveCaptureConfig(
+      { coachingEnabled: false, export: { exportType: ExportType.Model } },
+      { coachingEnabled: true, exportType: ExportType.Mesh }
+    );
+    expect(config.coachingEnabled).toBe(false);
+    expect(config.export.exportType).toBe(ExportType.Model);
+    expect(warnings).toEqual([
+      "coachingEnabled and captureConfig.coachingEnabled disagree; using captureConfig.",
+      "exportType and captureConfig.export.exportType disagree; using captureConfig.",
+    ]);
+  });
+
+  it("warns about unknown values and settings without effect", () => {
+    const { config, warnings } = resolveCaptureConfig(
+      {
+        roomBuilderOptions: ["beautifyObjects", "smoothWalls"],
+        export: { exportType: "GLB", prettyPrintJson: true },
+      } as unknown as RoomPlanCaptureConfig,
+      { exportFormats: ["usdz"] }
+    );
+    expect(config.roomBuilderOptions).toEqual(["beautifyObjects"]);
+    expect(config.export.exportType).toBe(ExportType.Parametric);
+    expect(warnings).toEqual([
+      'Unknown captureConfig.roomBuilderOptions value "smoothWalls"; it is ignored.',
+      'Unknown captureConfig.export.exportType "GLB"; using PARAMETRIC.',
+      'captureConfig.export.prettyPrintJson has no effect without "json" in exportFormats.',
+    ]);
+
+    expect(
+      resolveCaptureConfig(
+        { export: { exportType: ExportType.Mesh, prettyPrintJson: true } },
+        { exportFormats: ["svg"] }
+      ).warnings
+    ).toEqual([
+      'captureConfig.export.exportType has no effect without "usdz" in exportFormats.',
+    ]);
+  });
+});
+
+describe("captureConfig prop", () => {
+  function renderNativeProps(props: RoomPlanViewProps) {
+    const ref: { current: RoomPlanViewProps } = { current: {} };
+    function Harness(p: RoomPlanViewProps) {
+      ref.current = useNativeExportProps(p);
+      return null;
+    }
+    const view = render(<Harness {...props} />);
+    return {
+      ref,
+      rerender: (next: RoomPlanViewProps) =>
+        view.rerender(<Harness {...next} />),
+    };
+  }
+
+  it("sends the resolved config to the native view", () => {
+    const { ref } = renderNativeProps({
+      captureConfig: {
+        coachingEnabled: false,
+        roomBuilderOptions: [],
+        structureBuilderOptions: [],
+      },
+    });
+    expect(ref.current).toMatchObject({
+      coachingEnabled: false,
+      exportType: ExportType.Parametric,
+      captureConfig: {
+        coachingEnabled: false,
+        roomBuilderOptions: [],
+        structureBuilderOptions: [],
+        export: { exportType: ExportType.Parametric, prettyPrintJson: false },
+      },
+    });
+  });
+
+  it("logs warnings once per change", () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+    const props: RoomPlanViewProps = {
+      coachingEnabled: true,
+      captureConfig: { coachingEnabled: false },
+    };
+    const { rerender } = renderNativeProps(props);
+    rerender({ ...props, captureConfig: { coachingEnabled: false } });
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(
+      "expo-roomplan: coachingEnabled and captureConfig.coachingEnabled disagree; using captureConfig."
+    );
+
+    rerender({ captureConfig: { coachingEnabled: false } });
+    expect(warn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,175 @@
+import type {
+  CapturedStructure,
+  Transform4x4,
+} from "../CapturedStructure.types";
+import { diffStructures } from "../diffStructures";
+import { sampleCapturedStructureJson } from "../mock";
+import { parseCapturedStructure } from "../parseCapturedStructure";
+import { multiplyTransforms, yawTransform } from "../planGeometry";
+import { renderStructureDiffSvg } from "../renderStructureDiffSvg";
+
+const before = parseCapturedStructure(sampleCapturedStructureJson);
+
+// Map every element of a structure, e.g. to move it into another coordinate system.
+function mapElements(
+  structure: CapturedStructure,
+  map: <T extends { identifier: string; transform: Transform4x4 }>(item: T) => T
+): CapturedStructure {
+  return {
+    ...structure,
+    walls: structure.walls.map(map),
+    doors: structure.doors.map(map),
+    windows: structure.windows.map(map),
+    openings: structure.openings.map(map),
+    objects: structure.objects.map(map),
+  };
+}
+
+const moveBy = (
+  t: Transform4x4,
+  [x, y, z]: [number, number, number]
+): Transform4x4 => {
+  const moved = [...t] as Transform4x4;
+  moved[12] += x;
+  moved[13] += y;
+  moved[14] += z;
+  return moved;
+};
+
+// The renovation: the bed moved 0.5 m, the window was removed, the door widened and a chair added.
+function renovate(structure: CapturedStructure): CapturedStructure {
+  const [bed, storage] = structure.objects;
+  const [door] = structure.doors;
+  return {
+    ...structure,
+    windows: [],
+    doors: [{ ...door, dimensions: [1.1, 2, 0] }],
+    objects: [
+      { ...bed, transform: moveBy(bed.transform, [0.5, 0, 0]) },
+      storage,
+      {
+        ...bed,
+        identifier: "CHAIR",
+        category: "chair",
+        dimensions: [0.5, 0.9, 0.5],
+        transform: yawTransform(0, [1, 0.45, 0.8]),
+      },
+    ],
+  };
+}
+
+const statuses = (diff: ReturnType<typeof diffStructures>) =>
+  diff.elements.map((e) => [e.kind, e.category, e.status]);
+
+describe("diffStructures", () => {
+  it("reports nothing for the same scan", () => {
+    const diff = diffStructures(before, before);
+    expect(diff.alignment).toEqual({
+      yaw: 0,
+      translation: [0, 0, 0],
+      method: "identifier",
+    });
+    expect(diff.elements.every((e) => e.status === "unchanged")).toBe(true);
+    expect(diff.elements.every((e) => e.matchedBy === "identifier")).toBe(true);
+    expect(diff.elements).toHaveLength(8);
+  });
+
+  it("finds added, removed, moved and resized elements", () => {
+    const diff = diffStructures(before, renovate(before));
+    expect(statuses(diff)).toEqual([
+      ["wall", "wall", "unchanged"],
+      ["wall", "wall", "unchanged"],
+      ["wall", "wall", "unchanged"],
+      ["wall", "wall", "unchanged"],
+      ["door", "door", "changed"],
+      ["window", "window", "removed"],
+      ["object", "bed", "changed"],
+      ["object", "storage", "unchanged"],
+      ["object", "chair", "added"],
+    ]);
+    expect(diff.added.map((e) => e.after!.identifier)).toEqual(["CHAIR"]);
+    expect(diff.removed).toHaveLength(1);
+
+    const [bed] = diff.moved;
+    expect(bed.category).toBe("bed");
+    expect(bed.resized).toBe(false);
+    expect(bed.distance).toBeCloseTo(0.5);
+    expect(bed.displacement![0]).toBeCloseTo(0.5);
+    expect(bed.rotation).toBeCloseTo(0);
+
+    const [door] = diff.resized;
+    expect(door.kind).toBe("door");
+    expect(door.moved).toBe(false);
+    expect(door.dimensionDelta![0]).toBeCloseTo(0.2);
+  });
+
+  it("aligns a rescan in another coordinate system without shared identifiers", () => {
+    const rescanFrame = yawTransform(Math.PI / 5, [3, 0.1, -2]);
+    let n = 0;
+    const rescan = mapElements(renovate(before), (item) => ({
+      ...item,
+      identifier: `RESCAN-${n++}`,
+      transform: multiplyTransforms(rescanFrame, item.transform),
+    }));
+
+    const diff = diffStructures(before, rescan);
+    expect(diff.alignment.method).toBe("geometry");
+    expect(diff.alignment.yaw).toBeCloseTo(-Math.PI / 5);
+    expect(statuses(diff)).toEqual(
+      statuses(diffStructures(before, renovate(before)))
+    );
+    expect(
+      diff.elements
+        .filter((e) => e.before && e.after)
+        .every((e) => e.matchedBy === "geometry")
+    ).toBe(true);
+    expect(diff.moved[0].distance).toBeCloseTo(0.5);
+    // Elements are reported in the first scan's coordinates.
+    const storage = diff.elements.find((e) => e.category === "storage")!;
+    for (let i = 12; i < 15; i++) {
+      expect(storage.after!.transform[i]).toBeCloseTo(
+        storage.before!.transform[i]
+      );
+    }
+  });
+
+  it("compares raw coordinates without alignment", () => {
+    const shifted = mapElements(before, (item) => ({
+      ...item,
+      transform: moveBy(item.transform, [0.3, 0, 0]),
+    }));
+    expect(diffStructures(before, shifted).moved).toHaveLength(0);
+    const diff = diffStructures(before, shifted, { align: false });
+    expect(diff.alignment.method).toBe("none");
+    expect(diff.moved).toHaveLength(8);
+    expect(
+      diffStructures(before, shifted, { align: false, moveTolerance: 0.5 })
+        .moved
+    ).toHaveLength(0);
+  });
+});
+
+describe("renderStructureDiffSvg", () => {
+  it("draws each status with its own class", () => {
+    const diff = diffStructures(before, renovate(before));
+    const svg = renderStructureDiffSvg(diff);
+    expect(svg.startsWith("<svg")).toBe(true);
+    expect(svg.match(/class="unchanged wall"/g)).toHaveLength(4);
+    expect(svg).toContain(`class="removed window"`);
+    expect(svg).toContain(`class="added object" data-id="CHAIR"`);
+    expect(svg.match(/class="changed /g)).toHaveLength(2);
+    expect(svg.match(/class="previous /g)).toHaveLength(2);
+    expect(svg).toContain(`marker-end="url(#diff-arrow)"`);
+    expect(svg).toContain(">0.50 m</text>");
+    expect(svg).toContain(">Moved or resized</text>");
+
+    const changesOnly = renderStructureDiffSvg(diff, {
+      showUnchanged: false,
+      showLegend: false,
+      showDistances: false,
+    });
+    expect(changesOnly).not.toContain(`class="unchanged`);
+    expect(changesOnly).not.toContain(`class="legend"`);
+    expect(changesOnly).not.toContain("0.50 m");
+  });
+});
@@ -0,0 +1,177 @@
+import { act } from "@testing-library/react-native";
+
+import type { RoomPlanExport } from "../ExpoRoomplanView.types";
+import { sha256, utf8 } from "../bytes";
+import { writeExportFormats } from "../exportFormats";
+import { roomPlanMock, sampleCapturedStructureJson } from "../mock";
+import type { SessionExport } from "../scanSession";
+import { createMemoryScanStorage } from "../scanStorage";
+import { flushEvents, renderWithView, ViewHarness } from "./renderWithView";
+
+afterEach(() => {
+  roomPlanMock.reset();
+});
+
+async function finish(hook: ViewHarness) {
+  act(() => hook.current.controls.start());
+  let exported!: Promise<SessionExport | undefined>;
+  act(() => {
+    exported = hook.current.controls.finishScan();
+  });
+  await flushEvents();
+  return exported;
+}
+
+describe("sha256", () => {
+  it("matches the reference digests", () => {
+    expect(sha256(utf8(""))).toBe(
+      "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855"
+    );
+    expect(sha256(utf8("abc"))).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+    );
+    // Two blocks.
+    expect(
+      sha256(utf8("abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq"))
+    ).toBe("248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1");
+  });
+});
+
+describe("writeExportFormats", () => {
+  const jsonUrl = "file:///docs/Hall.json";
+  const exported = {
+    jsonUrl,
+    photoUrls: [],
+    files: [{ url: jsonUrl, format: "json" as const, size: 1, checksum: "" }],
+  };
+
+  it("writes the generated formats next to the JSON", async () => {
+    const storage = createMemoryScanStorage({
+      [jsonUrl]: JSON.stringify(sampleCapturedStructureJson),
+    });
+    const result = await writeExportFormats(exported, {
+      formats: ["usdz", "json", "svg", "obj", "glb"],
+      storage,
+      options: { svg: { showDimensions: false } },
+    });
+    expect(result.files!.map(({ url, format }) => [url, format])).toEqual([
+      [jsonUrl, "json"],
+      ["file:///docs/Hall.svg", "svg"],
+      ["file:///docs/Hall.obj", "obj"],
+      ["file:///docs/Hall.mtl", "obj"],
+      ["file:///docs/Hall.glb", "glb"],
+    ]);
+    const svg = storage.files.get("file:///docs/Hall.svg")!;
+    expect(svg.startsWith("<svg")).toBe(true);
+    const [, svgFile] = result.files!;
+    expect(svgFile.size).toBe(utf8(svg).length);
+    expect(svgFile.checksum).toBe(sha256(utf8(svg)));
+    expect(storage.files.get("file:///docs/Hall.obj")).toContain(
+      "mtllib Hall.mtl"
+    );
+    // Binary files are stored one character per byte: "glTF".
+    expect(storage.files.get("file:///docs/Hall.glb")!.slice(0, 4)).toBe(
+      "glTF"
+    );
+  });
+
+  it("explains what is missing", async () => {
+    await expect(
+      writeExportFormats(exported, { formats: ["json", "dxf"] })
+    ).rejects.toThrow("exportStorage is required to write dxf files.");
+    await expect(
+      writeExportFormats(exported, {
+        formats: ["dxf"],
+        storage: createMemoryScanStorage(),
+      })
+    ).rejects.toThrow("The export has no JSON file to convert.");
+    const { writeBytes: _, ...textOnly } = createMemoryScanStorage({
+      [jsonUrl]: JSON.stringify(sampleCapturedStructureJson),
+    });
+    await expect(
+      writeExportFormats(exported, { formats: ["glb"], storage: textOnly })
+    ).rejects.toThrow("exportStorage can't write binary glb files.");
+  });
+});
+
+describe("RoomPlanView export configuration", () => {
+  it("writes the requested formats into the directory with the file name template", async () => {
+    const hook = renderWithView({
+      scanName: "Hall",
+      sendFileLoc: false,
+      exportFormats: ["svg", "ply"],
+      exportDirectory: "/docs/scans/",
+      exportFileName: "{scanName}-{timestamp}",
+      exportStorage: roomPlanMock.storage,
+    });
+    const exported = (await finish(hook))!;
+    const base = exported.jsonUrl!.replace(/\.json$/, "");
+    expect(base).toMatch(/^file:\/\/\/docs\/scans\/Hall-\d+$/);
+    // The JSON is written too, since the other formats are generated from it.
+    expect(exported.scanUrl).toBeUndefined();
+    expect(
+      exported.files!.map((f) => [f.url.slice(base.length), f.format])
+    ).toEqual([
+      [".json", "json"],
+      [".svg", "svg"],
+      [".ply", "ply"],
+    ]);
+    expect(roomPlanMock.readFile(`${base}.ply`)).toMatch(/^ply\n/);
+    expect(hook.current.state.phase).toBe("exported");
+    expect(hook.current.state.lastExport).toEqual(exported);
+  });
+
+  it("asks the native view for the JSON the generated formats need", async () => {
+    const hook = renderWithView({
+      exportFormats: ["usdz", "gltf"],
+      exportStorage: roomPlanMock.storage,
+    });
+    const exported = (await finish(hook))!;
+    const native = roomPlanMock.events.find((e) => e.name === "onExported")!;
+    const formats = (files: { format: string }[]) => files.map((f) => f.format);
+    expect(formats((native.payload as RoomPlanExport).files!)).toEqual([
+      "usdz",
+      "json",
+    ]);
+    expect(formats(exported.files!)).toEqual(["usdz", "json", "gltf"]);
+  });
+
+  it("keeps delivering events after a callback throws", async () => {
+    const error = jest.spyOn(console, "error").mockImplementation(() => {});
+    const onStatus = jest.fn();
+    const hook = renderWithView({
+      exportFormats: ["svg"],
+      exportStorage: roomPlanMock.storage,
+      qualityCheck: false,
+      onStatus,
+      onExported: () => {
+        throw new Error("callback failed");
+      },
+    });
+    await finish(hook);
+    expect(error).toHaveBeenCalledWith(
+      "expo-roomplan: an event callback threw:",
+      new Error("callback failed")
+    );
+    // The OK status queued behind the export still arrives.
+    expect(onStatus).toHaveBeenCalledTimes(2);
+    error.mockRestore();
+  });
+
+  it("fails the export when a generated format can't be written", async () => {
+    const onExported = jest.fn();
+    const hook = renderWithView({ exportFormats: ["dxf"], onExported });
+    act(() => hook.current.controls.start());
+    let exported!: Promise<unknown>;
+    act(() => {
+      exported = hook.current.controls.finishScan();
+    });
+    const rejected = expect(exported).rejects.toThrow(
+      "Export failed: exportStorage is required to write dxf files."
+    );
+    await flushEvents();
+    await rejected;
+    expect(onExported).not.toHaveBeenCalled();
+    expect(hook.current.state.phase).toBe("error");
+  });
+});
@@ -0,0 +1,185 @@
+import { act } from "@testing-library/react-native";
+
+import { ExportPipelineProgress, runExportPipeline } from "../exportPipeline";
+import {
+  roomPlanMock,
+  sampleCapturedStructureJson,
+  sampleExportPayload,
+} from "../mock";
+import type { SessionExport } from "../scanSession";
+import { createMemoryScanStorage } from "../scanStorage";
+import { flushEvents, renderWithView } from "./renderWithView";
+
+afterEach(() => {
+  roomPlanMock.reset();
+});
+
+const exported = sampleExportPayload("Room");
+const storage = () =>
+  createMemoryScanStorage({
+    [exported.jsonUrl]: JSON.stringify(sampleCapturedStructureJson),
+  });
+
+describe("runExportPipeline", () => {
+  it("runs the steps in order and passes their artifacts on", async () => {
+    let clock = 0;
+    const seen: string[][] = [];
+    const result = await runExportPipeline(exported, {
+      storage: storage(),
+      now: () => (clock += 5),
+      processors: [
+        {
+          name: "count",
+          run: ({ structure, artifacts }) => {
+            seen.push(Object.keys(artifacts));
+            return { walls: structure!.walls.length };
+          },
+        },
+        {
+          name: "label",
+          run: ({ artifacts }) => {
+            seen.push(Object.keys(artifacts));
+            return { label: `${artifacts.walls} walls` };
+          },
+        },
+        { name: "noop", run: () => {} },
+      ],
+    });
+    expect(seen).toEqual([[], ["walls"]]);
+    expect(result).toEqual({
+      ok: true,
+      artifacts: { walls: 4, label: "4 walls" },
+      steps: [
+        {
+          name: "count",
+          status: "succeeded",
+          artifacts: ["walls"],
+          durationMs: 5,
+        },
+        {
+          name: "label",
+          status: "succeeded",
+          artifacts: ["label"],
+          durationMs: 5,
+        },
+        { name: "noop", status: "succeeded", artifacts: [], durationMs: 5 },
+      ],
+    });
+  });
+
+  it("records a failing step and carries on", async () => {
+    const progress: ExportPipelineProgress[] = [];
+    const result = await runExportPipeline(exported, {
+      storage: storage(),
+      onProgress: (p) => progress.push(p),
+      processors: [
+        {
+          name: "upload",
+          run: async () => {
+            throw new Error("offline");
+          },
+        },
+        { name: "measure", run: () => ({ measured: true }) },
+      ],
+    });
+    expect(result.ok).toBe(false);
+    expect(result.artifacts).toEqual({ measured: true });
+    expect(
+      result.steps.map(({ status, error }) => ({ status, error }))
+    ).toEqual([
+      { status: "failed", error: "offline" },
+      { status: "succeeded" },
+    ]);
+    expect(
+      progress.map(({ step, status, fraction }) => [step, status, fraction])
+    ).toEqual([
+      ["upload", "running", 0],
+      ["upload", "failed", 0.5],
+      ["measure", "running", 0.5],
+      ["measure", "succeeded", 1],
+    ]);
+    expect(progress[1]).toMatchObject({ index: 0, total: 2, error: "offline" });
+  });
+
+  it("reports a JSON it can't read", async () => {
+    const structures: unknown[] = [];
+    const result = await runExportPipeline(exported, {
+      storage: createMemoryScanStorage({ [exported.jsonUrl]: "{" }),
+      processors: [
+        {
+          name: "inspect",
+          run: ({ structure }) => {
+            structures.push(structure);
+          },
+        },
+      ],
+    });
+    expect(result.ok).toBe(true);
+    expect(result.structureError).toBeDefined();
+    expect(structures).toEqual([undefined]);
+
+    const missing = await runExportPipeline(exported, {
+      storage: createMemoryScanStorage(),
+      processors: [],
+    });
+    expect(missing.structureError).toBe(`No such file: ${exported.jsonUrl}`);
+  });
+});
+
+describe("useRoomPlanView exportPipeline", () => {
+  it("runs after the export and resolves the control with the result", async () => {
+    const onExported = jest.fn();
+    const onProgress = jest.fn();
+    let release!: () => void;
+    const hook = renderWithView({
+      scanName: "Room",
+      onExported,
+      exportStorage: roomPlanMock.storage,
+      exportPipeline: {
+        onProgress,
+        processors: [
+          {
+            name: "measure",
+            run: ({ structure }) => ({ doors: structure!.doors.length }),
+          },
+          {
+            name: "upload",
+            run: () =>
+              new Promise<void>((resolve) => {
+                release = resolve;
+              }),
+          },
+        ],
+      },
+    });
+    act(() => hook.current.controls.start());
+    let finished!: Promise<SessionExport | undefined>;
+    act(() => {
+      finished = hook.current.controls.finishScan();
+    });
+    await flushEvents();
+
+    // The files are in, the upload is still running.
+    expect(onExported).toHaveBeenCalledTimes(1);
+    expect(hook.current.state.lastExport?.pipeline).toBeUndefined();
+    expect(hook.current.state.exportProgress).toMatchObject({
+      step: "upload",
+      status: "running",
+      fraction: 0.5,
+    });
+
+    act(() => release());
+    await flushEvents();
+    const result = (await finished)!;
+    expect(result.pipeline).toMatchObject({
+      ok: true,
+      artifacts: { doors: 1 },
+    });
+    expect(result.jsonUrl).toBe(
+      onExported.mock.calls[0][0].nativeEvent.jsonUrl
+    );
+    expect(hook.current.state.lastExport).toEqual(result);
+    expect(hook.current.state.exportProgress).toBeUndefined();
+    expect(onProgress).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,204 @@
+import type {
+  CapturedStructure,
+  CapturedSurface,
+} from "../CapturedStructure.types";
+import { measureStructure } from "../measureStructure";
+import { sampleCapturedStructureJson } from "../mock";
+import { parseCapturedStructure } from "../parseCapturedStructure";
+
+const structure = parseCapturedStructure(sampleCapturedStructureJson);
+const [wallNorth, wallEast, wallSouth] = structure.walls;
+
+// A copy of `surface` moved `dx` metres along world x.
+function shifted<T extends { identifier: string; transform: number[] }>(
+  surface: T,
+  dx: number,
+  suffix = "-next"
+): T {
+  return {
+    ...surface,
+    identifier: `${surface.identifier}${suffix}`,
+    transform: surface.transform.map((v, i) => (i === 12 ? v + dx : v)),
+  };
+}
+
+describe("measureStructure", () => {
+  it("measures the sample bedroom", () => {
+    const report = measureStructure(structure);
+    expect(report).toMatchObject({
+      units: "metric",
+      lengthUnit: "m",
+      areaUnit: "m²",
+      volumeUnit: "m³",
+    });
+    expect(report.sections).toEqual([
+      {
+        label: "bedroom",
+        labels: ["bedroom"],
+        story: 0,
+        floorIdentifier: structure.floors[0].identifier,
+        floorArea: 12,
+        // 2 × 4 m and 2 × 3 m walls, 2.5 m high
+        grossWallArea: 35,
+        // A 0.9 × 2 m door and a 1.2 × 1.2 m window
+        openingArea: 3.24,
+        netWallArea: 31.76,
+        perimeter: 14,
+        ceilingHeight: 2.5,
+        volume: 30,
+        wallCount: 4,
+        doorCount: 1,
+        windowCount: 1,
+        openingCount: 0,
+      },
+    ]);
+    const { label, labels, floorIdentifier, story, ...space } =
+      report.sections[0];
+    expect(report.stories).toEqual([{ ...space, story: 0 }]);
+    expect(report.total).toEqual(space);
+  });
+
+  it("converts to imperial units", () => {
+    const { sections, areaUnit, lengthUnit, volumeUnit } = measureStructure(
+      structure,
+      { units: "imperial" }
+    );
+    expect([lengthUnit, areaUnit, volumeUnit]).toEqual(["ft", "ft²", "ft³"]);
+    expect(sections[0].floorArea).toBeCloseTo(129.167, 3);
+    expect(sections[0].perimeter).toBeCloseTo(45.932, 3);
+    expect(sections[0].ceilingHeight).toBeCloseTo(8.202, 3);
+    expect(sections[0].volume).toBeCloseTo(1059.44, 2);
+  });
+
+  it("measures exports without floors along their walls", () => {
+    const json = JSON.parse(JSON.stringify(sampleCapturedStructureJson));
+    delete json.floors;
+    delete json.rooms[0].floors;
+    const report = measureStructure(parseCapturedStructure(json));
+
+    expect(report.sections).toHaveLength(1);
+    expect(report.sections[0]).not.toHaveProperty("floorIdentifier");
+    expect(report.sections[0]).toMatchObject({
+      label: "bedroom",
+      labels: ["bedroom"],
+      floorArea: 12,
+      perimeter: 14,
+      grossWallArea: 35,
+      netWallArea: 31.76,
+      volume: 30,
+      wallCount: 4,
+    });
+    expect(report.total.floorArea).toBe(12);
+  });
+
+  it("keeps every section label of an open-plan floor", () => {
+    const report = measureStructure({
+      ...structure,
+      sections: [
+        { label: "kitchen", center: [-1, 0, 0], story: 0 },
+        { label: "diningRoom", center: [1, 0, 0], story: 0 },
+        // Outside every floor: matched to the nearest one.
+        { label: "livingRoom", center: [6, 0, 0], story: 0 },
+      ],
+    });
+    expect(report.sections).toHaveLength(1);
+    expect(report.sections[0].label).toBe("kitchen");
+    expect(report.sections[0].labels).toEqual([
+      "kitchen",
+      "diningRoom",
+      "livingRoom",
+    ]);
+  });
+
+  it("labels floors without a section as unidentified", () => {
+    const report = measureStructure({ ...structure, sections: [] });
+    expect(report.sections[0]).toMatchObject({
+      label: "unidentified",
+      labels: [],
+    });
+  });
+
+  it("counts a shared wall towards both rooms but once towards the story", () => {
+    // A second 4 m × 3 m room east of the sample, sharing its east wall.
+    const next: CapturedSurface[] = [
+      shifted(wallNorth, 4),
+      shifted(wallSouth, 4),
+      shifted(wallEast, 4),
+    ];
+    const report = measureStructure({
+      ...structure,
+      walls: [...structure.walls, ...next],
+      floors: [...structure.floors, shifted(structure.floors[0], 4)],
+      sections: [
+        ...structure.sections,
+        { label: "bathroom", center: [4, 0, 0], story: 0 },
+      ],
+    });
+
+    const [bedroom, bathroom] = report.sections;
+    expect(bedroom).toMatchObject({ label: "bedroom", wallCount: 4 });
+    expect(bathroom).toMatchObject({
+      label: "bathroom",
+      wallCount: 4,
+      floorArea: 12,
+      grossWallArea: 35,
+      // The door and window are in walls of the bedroom only.
+      openingArea: 0,
+    });
+    expect(report.stories[0]).toMatchObject({
+      wallCount: 7,
+      // The bedroom plus the 4 m north and south walls and the 3 m east wall of the bathroom
+      grossWallArea: 35 + 2 * 10 + 7.5,
+      floorArea: 24,
+      volume: 60,
+    });
+  });
+
+  it("reports each story separately", () => {
+    const upstairs = <T extends { story: number }>(item: T): T => ({
+      ...item,
+      story: 1,
+    });
+    const house: CapturedStructure = {
+      ...structure,
+      walls: [
+        ...structure.walls,
+        ...structure.walls.map((w) => upstairs(shifted(w, 0, "-1"))),
+      ],
+      floors: [
+        ...structure.floors,
+        ...structure.floors.map((f) => upstairs(shifted(f, 0, "-1"))),
+      ],
+    };
+    const report = measureStructure(house);
+    expect(report.stories.map((s) => [s.story, s.floorArea])).toEqual([
+      [0, 12],
+      [1, 12],
+    ]);
+    expect(report.sections.map((s) => [s.story, s.label])).toEqual([
+      [0, "bedroom"],
+      [1, "unidentified"],
+    ]);
+    expect(report.total).toMatchObject({
+      floorArea: 24,
+      volume: 60,
+      wallCount: 8,
+    });
+  });
+
+  it("returns zeros for an empty structure", () => {
+    const report = measureStructure({
+      rooms: [],
+      walls: [],
+      doors: [],
+      windows: [],
+      openings: [],
+      floors: [],
+      objects: [],
+      sections: [],
+    });
+    expect(report.sections).toEqual([]);
+    expect(report.stories).toEqual([]);
+    expect(report.total).toMatchObject({ floorArea: 0, wallCount: 0 });
+  });
+});
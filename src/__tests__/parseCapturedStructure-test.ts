@@ -0,0 +1,185 @@
+import { sampleCapturedStructureJson } from "../mock";
+import {
+  CapturedStructureParseError,
+  parseCapturedStructure,
+} from "../parseCapturedStructure";
+
+type JsonRecord = Record<string, unknown>;
+
+// A deep copy of the sample export that tests can break in place.
+function sample(): Record<string, JsonRecord[]> {
+  return JSON.parse(JSON.stringify(sampleCapturedStructureJson));
+}
+
+function issuesOf(json: unknown) {
+  try {
+    parseCapturedStructure(json);
+  } catch (e) {
+    expect(e).toBeInstanceOf(CapturedStructureParseError);
+    return (e as CapturedStructureParseError).issues;
+  }
+  throw new Error("expected parseCapturedStructure to throw");
+}
+
+describe("parseCapturedStructure", () => {
+  it("parses an export and flattens Swift enums", () => {
+    const structure = parseCapturedStructure(sampleCapturedStructureJson);
+    expect(structure.rooms).toHaveLength(1);
+    expect(structure.walls).toHaveLength(4);
+    expect(structure.walls[0]).toMatchObject({
+      category: "wall",
+      confidence: "high",
+      completedEdges: ["top", "bottom", "left", "right"],
+      story: 0,
+    });
+    expect(structure.walls[0]).not.toHaveProperty("parentIdentifier");
+    expect(structure.walls[0]).not.toHaveProperty("curve");
+    expect(structure.doors[0]).toMatchObject({
+      category: "door",
+      isOpen: true,
+      parentIdentifier: structure.walls[2].identifier,
+    });
+    expect(structure.objects.map((o) => o.category)).toEqual([
+      "bed",
+      "storage",
+    ]);
+    expect(structure.sections).toEqual([
+      { label: "bedroom", center: [0, 0, 0], story: 0 },
+    ]);
+  });
+
+  it("accepts the JSON text of an export", () => {
+    // Compared with a JSON round trip of the sample, which writes `-0` as `0`.
+    expect(
+      parseCapturedStructure(JSON.stringify(sampleCapturedStructureJson))
+    ).toEqual(parseCapturedStructure(sample()));
+  });
+
+  it("reads curve angles encoded as Measurement<UnitAngle>", () => {
+    const json = sample();
+    json.walls[0].curve = {
+      radius: 2,
+      startAngle: {
+        value: 90,
+        unit: { symbol: "°", converter: { coefficient: 1, constant: 0 } },
+      },
+      endAngle: {
+        value: Math.PI,
+        unit: {
+          symbol: "rad",
+          converter: { coefficient: 180 / Math.PI, constant: 0 },
+        },
+      },
+    };
+    json.walls[1].curve = {
+      radius: 1,
+      startAngle: { value: 0, unit: "rad" },
+      endAngle: 0.5,
+    };
+    const { walls } = parseCapturedStructure(json);
+    expect(walls[0].curve!.radius).toBe(2);
+    expect(walls[0].curve!.startAngle).toBeCloseTo(Math.PI / 2);
+    expect(walls[0].curve!.endAngle).toBeCloseTo(Math.PI);
+    expect(walls[1].curve).toEqual({ radius: 1, startAngle: 0, endAngle: 0.5 });
+  });
+
+  it("rejects a curve angle with an unknown unit", () => {
+    const json = sample();
+    json.walls[0].curve = {
+      radius: 1,
+      startAngle: { value: 1, unit: { symbol: "grad" } },
+      endAngle: 0,
+    };
+    expect(issuesOf(json)).toEqual([
+      {
+        path: "$.walls[0].curve.startAngle.unit",
+        message: expect.stringContaining("unknown angle unit"),
+      },
+    ]);
+  });
+
+  it("rejects values of the wrong type with their path", () => {
+    const json = sample();
+    json.walls[1].dimensions = [4, "2.5", 0];
+    json.objects[0].identifier = 7;
+    json.sections[0].story = null;
+    expect(issuesOf(json)).toEqual([
+      {
+        path: "$.walls[1].dimensions[1]",
+        message: "expected finite number, got string",
+      },
+      {
+        path: "$.objects[0].identifier",
+        message: "expected string, got number",
+      },
+      {
+        path: "$.sections[0].story",
+        message: "expected finite number, got null",
+      },
+    ]);
+  });
+
+  it("reports a missing or short transform", () => {
+    const json = sample();
+    delete json.walls[0].transform;
+    json.doors[0].transform = (json.doors[0].transform as number[]).slice(
+      0,
+      12
+    );
+    expect(issuesOf(json)).toEqual([
+      {
+        path: "$.walls[0].transform",
+        message: "expected array of 16 numbers, got undefined",
+      },
+      { path: "$.doors[0].transform", message: "expected 16 numbers, got 12" },
+    ]);
+  });
+
+  it("reports unknown enum cases", () => {
+    const json = sample();
+    json.objects[1].category = { piano: {} };
+    json.windows[0].confidence = { veryHigh: {} };
+    const issues = issuesOf(json);
+    expect(issues.map((issue) => issue.path)).toEqual([
+      "$.windows[0].confidence",
+      "$.objects[1].category",
+    ]);
+    expect(issues[1].message).toMatch(
+      /^unknown value "piano", expected one of/
+    );
+  });
+
+  it("reports problems inside rooms", () => {
+    const json = sample();
+    (json.rooms[0].floors as JsonRecord[])[0].category = "ceiling";
+    expect(issuesOf(json).map((issue) => issue.path)).toEqual([
+      "$.rooms[0].floors[0].category",
+    ]);
+  });
+
+  it("summarises every issue in the error message", () => {
+    const json = sample();
+    json.walls[0].story = "0";
+    json.walls[1].story = "0";
+    expect(() => parseCapturedStructure(json)).toThrow(
+      "Invalid CapturedStructure at $.walls[0].story: expected finite number, got string (and 1 more)"
+    );
+  });
+
+  it("rejects objects that are not an export", () => {
+    expect(issuesOf({})).toEqual([
+      { path: "$.walls", message: "expected array, got undefined" },
+    ]);
+    expect(issuesOf([])).toEqual([
+      { path: "$", message: "expected object, got array" },
+    ]);
+    expect(issuesOf("{")[0].message).toMatch(/^invalid JSON: /);
+  });
+
+  it("treats missing optional collections as empty", () => {
+    const { rooms, floors, objects } = parseCapturedStructure({ walls: [] });
+    expect(rooms).toEqual([]);
+    expect(floors).toEqual([]);
+    expect(objects).toEqual([]);
+  });
+});
@@ -0,0 +1,162 @@
+import type { CapturedStructure } from "../CapturedStructure.types";
+import { sampleCapturedStructureJson } from "../mock";
+import { parseCapturedStructure } from "../parseCapturedStructure";
+import { renderFloorPlanSvg } from "../renderFloorPlanSvg";
+
+const structure = parseCapturedStructure(sampleCapturedStructureJson);
+
+const EMPTY: CapturedStructure = {
+  rooms: [],
+  walls: [],
+  doors: [],
+  windows: [],
+  openings: [],
+  floors: [],
+  objects: [],
+  sections: [],
+};
+
+// The sample with a second story: the same room shifted 10 m east, with every identifier renamed.
+function twoStories(): CapturedStructure {
+  const upstairs = <T extends { identifier: string; story: number }>(
+    items: T[]
+  ) =>
+    items.map((item) => ({
+      ...item,
+      identifier: `${item.identifier}-1`,
+      story: 1,
+      ...("transform" in item
+        ? {
+            transform: (item as { transform: number[] }).transform.map((v, i) =>
+              i === 12 ? v + 10 : v
+            ),
+          }
+        : {}),
+    }));
+  return {
+    ...structure,
+    walls: [...structure.walls, ...upstairs(structure.walls)],
+    doors: [...structure.doors, ...upstairs(structure.doors)],
+  };
+}
+
+// Lines inside the top-level `<g class="...">` group; nested groups are written on a single line.
+function group(svg: string, name: string): string {
+  const lines = svg.split("\n");
+  const start = lines.findIndex((l) => l.startsWith(`<g class="${name}"`));
+  if (start < 0) return "";
+  const end = lines.indexOf("</g>", start);
+  return lines.slice(start + 1, end).join("\n");
+}
+
+function attr(svg: string, name: string): number {
+  return Number(svg.match(new RegExp(`<svg[^>]* ${name}="([^"]+)"`))![1]);
+}
+
+describe("renderFloorPlanSvg", () => {
+  it("renders the sample scan", () => {
+    expect(renderFloorPlanSvg(structure)).toMatchSnapshot();
+  });
+
+  it("draws walls, a gap per opening and object footprints", () => {
+    const svg = renderFloorPlanSvg(structure);
+    expect(group(svg, "walls").match(/<line /g)).toHaveLength(4);
+    expect(group(svg, "openings").match(/<line /g)).toHaveLength(2);
+    expect(group(svg, "objects")).toContain('class="object bed"');
+    expect(group(svg, "objects")).toContain('class="object storage"');
+    expect(renderFloorPlanSvg(structure, { showObjects: false })).not.toContain(
+      'class="objects"'
+    );
+  });
+
+  it("draws doors with their leaf and swing arc", () => {
+    const doors = group(renderFloorPlanSvg(structure), "doors");
+    const [door] = structure.doors;
+    expect(doors).toContain(
+      `<g data-id="${door.identifier}" data-open="true">`
+    );
+    expect(doors.match(/<line /g)).toHaveLength(1);
+    // The arc's radius is the door width: 0.9 m at 100 px per metre.
+    expect(doors).toMatch(
+      /<path d="M [\d.]+ [\d.]+ A 90 90 0 0 [01] [\d.]+ [\d.]+"/
+    );
+  });
+
+  it("draws windows as a double line", () => {
+    const windows = group(renderFloorPlanSvg(structure), "windows");
+    const [win] = structure.windows;
+    expect(windows).toContain(`<g data-id="${win.identifier}">`);
+    expect(windows.match(/<line /g)).toHaveLength(2);
+  });
+
+  it("labels wall lengths, rooms and the scale bar in metres", () => {
+    const svg = renderFloorPlanSvg(structure);
+    const dimensions = group(svg, "dimensions");
+    expect(dimensions.match(/>4\.00 m</g)).toHaveLength(2);
+    expect(dimensions.match(/>3\.00 m</g)).toHaveLength(2);
+    expect(group(svg, "labels")).toContain(">Bedroom</text>");
+    expect(group(svg, "scale-bar")).toContain(">1 m</text>");
+  });
+
+  it("labels lengths in feet and inches with imperial units", () => {
+    const svg = renderFloorPlanSvg(structure, { units: "imperial" });
+    const dimensions = group(svg, "dimensions");
+    expect(dimensions.match(/>13' 1&quot;</g)).toHaveLength(2);
+    expect(dimensions.match(/>9' 10&quot;</g)).toHaveLength(2);
+    expect(group(svg, "scale-bar")).toContain(">2 ft</text>");
+  });
+
+  it("leaves out annotations that are turned off", () => {
+    const svg = renderFloorPlanSvg(structure, {
+      showDimensions: false,
+      showRoomLabels: false,
+      showScaleBar: false,
+      padding: 0,
+    });
+    expect(svg).not.toContain("<text");
+    // Without annotations the plan fills the image: 4 m × 3 m at 100 px per metre.
+    expect(attr(svg, "width")).toBe(400);
+    expect(attr(svg, "height")).toBe(300);
+  });
+
+  it("uses custom room labels and escapes them", () => {
+    const svg = renderFloorPlanSvg(structure, {
+      roomLabels: { bedroom: "Kids' <Room>" },
+    });
+    expect(group(svg, "labels")).toContain(">Kids' &lt;Room&gt;</text>");
+  });
+
+  it("renders one story when story is set", () => {
+    const house = twoStories();
+    const ground = renderFloorPlanSvg(house, { story: 0 });
+    const upper = renderFloorPlanSvg(house, { story: 1 });
+    expect(ground).toBe(renderFloorPlanSvg(structure, { story: 0 }));
+    expect(group(upper, "walls").match(/<line /g)).toHaveLength(4);
+    expect(group(upper, "walls")).not.toContain(
+      `"${structure.walls[0].identifier}"`
+    );
+    // Floors, objects and sections are only on the ground floor.
+    expect(group(upper, "floors")).toBe("");
+    expect(upper).not.toContain('class="labels"');
+  });
+
+  it("draws every story on top of each other when story is omitted", () => {
+    const svg = renderFloorPlanSvg(twoStories());
+    expect(group(svg, "walls").match(/<line /g)).toHaveLength(8);
+    expect(group(svg, "doors").match(/<path /g)).toHaveLength(2);
+    // Wide enough for both rooms: the upper one is 10 m further east.
+    const ground = renderFloorPlanSvg(structure);
+    expect(attr(svg, "width") - attr(ground, "width")).toBe(1000);
+  });
+
+  it("renders an empty structure as an empty plan", () => {
+    const svg = renderFloorPlanSvg(EMPTY, { padding: 10 });
+    expect(svg.startsWith("<svg ")).toBe(true);
+    expect(svg.endsWith("</svg>")).toBe(true);
+    expect(group(svg, "walls")).toBe("");
+    expect(group(svg, "doors")).toBe("");
+    expect(svg).not.toContain('class="dimensions"');
+    expect(svg).not.toContain('class="labels"');
+    expect(attr(svg, "width")).toBe(2 * (10 + 12 * 3));
+  });
+});
@@ -0,0 +1,35 @@
+import { act, render } from "@testing-library/react-native";
+import React from "react";
+
+import { RoomPlanView } from "../RoomPlanView";
+import {
+  useRoomPlanView,
+  UseRoomPlanViewOptions,
+  UseRoomPlanViewReturn,
+} from "../useRoomPlanView";
+
+// Let events scheduled by the simulated native view fire inside `act`.
+export function flushEvents(ms = 10) {
+  return act(() => new Promise((resolve) => setTimeout(resolve, ms)));
+}
+
+/** The latest return value of the hook rendered by `renderWithView`. */
+export type ViewHarness = { readonly current: UseRoomPlanViewReturn };
+
+/** Renders the hook together with the (mocked) native view it drives. */
+export function renderWithView(
+  options: UseRoomPlanViewOptions = {}
+): ViewHarness {
+  const ref = { current: undefined as UseRoomPlanViewReturn | undefined };
+  function Harness() {
+    ref.current = useRoomPlanView(options);
+    return <RoomPlanView {...ref.current.viewProps} />;
+  }
+  render(<Harness />);
+  return {
+    get current() {
+      if (!ref.current) throw new Error("useRoomPlanView has not rendered");
+      return ref.current;
+    },
+  };
+}
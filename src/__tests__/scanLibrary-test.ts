@@ -0,0 +1,140 @@
+import { ExportType } from "../ExpoRoomplan.types";
+import {
+  MOCK_EXPORT_DIRECTORY,
+  sampleCapturedStructureJson,
+  sampleExportPayload,
+} from "../mock";
+import { createScanLibrary } from "../scanLibrary";
+import type { ScannedRoom } from "../scanSession";
+import { createMemoryScanStorage } from "../scanStorage";
+
+const LIBRARY = "file:///documents/scans/";
+
+function setup() {
+  const exported = sampleExportPayload("Kitchen");
+  const storage = createMemoryScanStorage({
+    [exported.jsonUrl]: JSON.stringify(sampleCapturedStructureJson),
+    [exported.scanUrl]: "usdz",
+    [`${MOCK_EXPORT_DIRECTORY}/audio.m4a`]: "audio",
+    [`${MOCK_EXPORT_DIRECTORY}/photo-1.jpg`]: "jpeg",
+  });
+  let id = 0;
+  let time = 1000;
+  const library = createScanLibrary({
+    storage,
+    directory: LIBRARY,
+    createId: () => `scan-${++id}`,
+    now: () => time++,
+  });
+  return { storage, library, exported };
+}
+
+describe("createScanLibrary", () => {
+  it("moves exported files into a folder per scan and records them", async () => {
+    const { storage, library, exported } = setup();
+    const room: ScannedRoom = {
+      index: 0,
+      identifier: "room-1",
+      name: "Kitchen",
+      story: 0,
+      startedAt: 0,
+      capturedAt: 0,
+      photoUrls: [],
+    };
+
+    const record = await library.saveScan(
+      {
+        ...exported,
+        audioUrl: `${MOCK_EXPORT_DIRECTORY}/audio.m4a`,
+        photoUrls: [`${MOCK_EXPORT_DIRECTORY}/photo-1.jpg`],
+      },
+      { exportType: ExportType.Parametric, rooms: [room] }
+    );
+
+    expect(record).toMatchObject({
+      id: "scan-1",
+      name: "Kitchen",
+      createdAt: 1000,
+      exportType: ExportType.Parametric,
+      roomCount: 1,
+      rooms: [{ identifier: "room-1", name: "Kitchen", story: 0 }],
+      files: {
+        jsonUrl: `${LIBRARY}scan-1/structure.json`,
+        scanUrl: `${LIBRARY}scan-1/scan.usdz`,
+        audioUrl: `${LIBRARY}scan-1/audio.m4a`,
+        photoUrls: [`${LIBRARY}scan-1/photos/photo-1.jpg`],
+      },
+    });
+    expect(record.measurements).toMatchObject({
+      units: "metric",
+      areaUnit: "m²",
+    });
+    expect(record.measurements!.floorArea).toBeGreaterThan(0);
+    expect([...storage.files.keys()].sort()).toEqual([
+      `${LIBRARY}manifest.json`,
+      `${LIBRARY}scan-1/audio.m4a`,
+      `${LIBRARY}scan-1/photos/photo-1.jpg`,
+      `${LIBRARY}scan-1/scan.usdz`,
+      `${LIBRARY}scan-1/structure.json`,
+    ]);
+  });
+
+  it("keeps the exported files when copying", async () => {
+    const { storage, library, exported } = setup();
+    await library.saveScan(exported, { copy: true });
+    expect(storage.files.has(exported.jsonUrl)).toBe(true);
+    expect(storage.files.has(`${LIBRARY}scan-1/structure.json`)).toBe(true);
+  });
+
+  it("lists, gets and deletes scans through the manifest", async () => {
+    const { storage, library, exported } = setup();
+    const [first, second] = await Promise.all([
+      library.saveScan(exported, { name: "First", copy: true }),
+      library.saveScan(exported, { name: "Second", units: "imperial" }),
+    ]);
+    expect(second.measurements?.areaUnit).toBe("ft²");
+
+    expect((await library.listScans()).map((s) => s.name)).toEqual([
+      "Second",
+      "First",
+    ]);
+    expect(await library.getScan(first.id)).toEqual(first);
+    expect(await library.getScan("missing")).toBeUndefined();
+
+    expect(await library.deleteScan(first.id)).toBe(true);
+    expect(await library.deleteScan(first.id)).toBe(false);
+    expect((await library.listScans()).map((s) => s.id)).toEqual([second.id]);
+    expect(
+      [...storage.files.keys()].some((url) => url.includes("/scan-1/"))
+    ).toBe(false);
+
+    // A new library on the same storage sees the same scans.
+    const reopened = createScanLibrary({ storage, directory: LIBRARY });
+    expect(await reopened.listScans()).toEqual([second]);
+  });
+
+  it("saves scans whose JSON can't be measured", async () => {
+    const { storage, library, exported } = setup();
+    storage.files.set(exported.jsonUrl, "not json");
+    const record = await library.saveScan(exported);
+    expect(record.roomCount).toBe(0);
+    expect(record.measurements).toBeUndefined();
+    expect(storage.files.get(`${LIBRARY}scan-1/structure.json`)).toBe(
+      "not json"
+    );
+  });
+
+  it("rejects exports without file URLs", async () => {
+    const { library } = setup();
+    await expect(library.saveScan({ photoUrls: [] })).rejects.toThrow(
+      "Set sendFileLoc to true"
+    );
+    expect(await library.listScans()).toEqual([]);
+  });
+
+  it("rejects a corrupt manifest", async () => {
+    const { storage, library } = setup();
+    storage.files.set(`${LIBRARY}manifest.json`, "{");
+    await expect(library.listScans()).rejects.toThrow("is not valid JSON");
+  });
+});
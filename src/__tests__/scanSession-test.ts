@@ -0,0 +1,637 @@
+import { ScanStatus } from "../ExpoRoomplan.types";
+import { RoomPlanError } from "../RoomPlanError";
+import {
+  ScanSessionAction,
+  ScanSessionState,
+  getScanSessionRejection,
+  initialScanSessionState,
+  parseSavedScanSession,
+  scanSessionReducer,
+  toSavedScanSession,
+} from "../scanSession";
+
+function run(
+  actions: ScanSessionAction[],
+  state: ScanSessionState = initialScanSessionState
+) {
+  return actions.reduce(scanSessionReducer, state);
+}
+
+const boom = new RoomPlanError("SESSION_FAILED", "boom");
+const ok: ScanSessionAction = { type: "status", status: ScanStatus.OK };
+const exported: ScanSessionAction = {
+  type: "exported",
+  payload: { jsonUrl: "file:///Room.json", photoUrls: [] },
+};
+
+describe("scanSessionReducer", () => {
+  it("starts idle", () => {
+    expect(initialScanSessionState).toEqual({
+      phase: "idle",
+      isRunning: false,
+      isPreviewVisible: false,
+      hasCapturedRoom: false,
+      isExportQueued: false,
+      rooms: [],
+      discardedRoomIds: [],
+      isAudioRecording: false,
+    });
+  });
+
+  it("walks through a finish flow that exports on finish", () => {
+    const actions: ScanSessionAction[] = [
+      { type: "start", at: 0 },
+      { type: "finish" },
+      { type: "preview", exportOnFinish: true },
+      exported,
+      ok,
+    ];
+    let state = initialScanSessionState;
+    const phases = actions.map((action) => {
+      state = scanSessionReducer(state, action);
+      return state.phase;
+    });
+    expect(phases).toEqual([
+      "scanning",
+      "processing",
+      "exporting",
+      "exported",
+      "exported",
+    ]);
+  });
+
+  it("waits in preview when exportOnFinish is false", () => {
+    const state = run([
+      { type: "start", at: 0 },
+      { type: "finish" },
+      { type: "preview", exportOnFinish: false },
+      ok,
+    ]);
+    expect(state).toMatchObject({
+      phase: "preview",
+      isPreviewVisible: true,
+      hasCapturedRoom: true,
+    });
+    expect(run([{ type: "export" }, exported], state).phase).toBe("exported");
+  });
+
+  it("returns to scanning once an added room is built", () => {
+    const adding = run([{ type: "start", at: 0 }, { type: "addRoom" }]);
+    expect(adding.phase).toBe("adding");
+    const next = scanSessionReducer(adding, ok);
+    expect(next).toMatchObject({ phase: "scanning", hasCapturedRoom: true });
+    // With a room available, an export runs right away.
+    expect(scanSessionReducer(next, { type: "export" }).phase).toBe(
+      "exporting"
+    );
+  });
+
+  it("queues an early export until the preview", () => {
+    const queued = run([{ type: "start", at: 0 }, { type: "export" }]);
+    expect(queued).toMatchObject({ phase: "scanning", isExportQueued: true });
+
+    const state = run(
+      [{ type: "finish" }, { type: "preview", exportOnFinish: false }],
+      queued
+    );
+    expect(state).toMatchObject({ phase: "exporting", isExportQueued: false });
+  });
+
+  it("drops a queued export when another room is added", () => {
+    const state = run([
+      { type: "start", at: 0 },
+      { type: "export" },
+      { type: "addRoom" },
+    ]);
+    expect(state.isExportQueued).toBe(false);
+  });
+
+  it("enters error and canceled from status events", () => {
+    const failed = run([
+      { type: "start", at: 0 },
+      { type: "status", status: ScanStatus.Error, error: boom },
+    ]);
+    expect(failed).toMatchObject({
+      phase: "error",
+      status: ScanStatus.Error,
+      lastError: boom,
+      isRunning: true,
+    });
+
+    const canceled = run([
+      { type: "start", at: 0 },
+      { type: "status", status: ScanStatus.Canceled },
+    ]);
+    expect(canceled.phase).toBe("canceled");
+  });
+
+  it("keeps scanning after a failed photo or audio recording", () => {
+    for (const code of ["PHOTO_FAILED", "AUDIO_FAILED"] as const) {
+      const error = new RoomPlanError(code, "No AR frame available.");
+      const state = run([
+        { type: "start", at: 0 },
+        { type: "status", status: ScanStatus.Error, error, autoClose: true },
+      ]);
+      expect(state).toMatchObject({
+        phase: "scanning",
+        status: ScanStatus.Error,
+        lastError: error,
+        isRunning: true,
+      });
+      expect(getScanSessionRejection(state, { type: "finish" })).toBe(
+        undefined
+      );
+      expect(getScanSessionRejection(state, { type: "addRoom" })).toBe(
+        undefined
+      );
+    }
+  });
+
+  it("closes the view on terminal statuses with autoClose", () => {
+    const closed = run([
+      { type: "start", at: 0 },
+      { type: "finish" },
+      { type: "preview", exportOnFinish: false },
+      { ...ok, autoClose: true },
+    ]);
+    expect(closed).toMatchObject({
+      phase: "idle",
+      isRunning: false,
+      isPreviewVisible: false,
+    });
+
+    const failed = run([
+      { type: "start", at: 0 },
+      { type: "status", status: ScanStatus.Error, autoClose: true },
+    ]);
+    expect(failed).toMatchObject({ phase: "error", isRunning: false });
+
+    const notStarted = run([
+      { type: "start", at: 0 },
+      { type: "status", status: ScanStatus.NotStarted, autoClose: true },
+    ]);
+    expect(notStarted).toMatchObject({ phase: "scanning", isRunning: true });
+  });
+
+  it("keeps the view open with autoClose until an export on finish arrives", () => {
+    // Native sends the OK for the built room before the export's onExported and final OK.
+    const exporting = run([
+      { type: "start", at: 0 },
+      { type: "finish" },
+      { type: "preview", exportOnFinish: true },
+      { ...ok, autoClose: true },
+    ]);
+    expect(exporting).toMatchObject({ phase: "exporting", isRunning: true });
+
+    const closed = run([exported, { ...ok, autoClose: true }], exporting);
+    expect(closed).toMatchObject({ phase: "exported", isRunning: false });
+  });
+
+  it("cancels active phases but keeps finished outcomes", () => {
+    expect(run([{ type: "start", at: 0 }, { type: "cancel" }]).phase).toBe(
+      "canceled"
+    );
+    const afterExport = run([
+      { type: "start", at: 0 },
+      { type: "finish" },
+      { type: "preview", exportOnFinish: true },
+      exported,
+      { type: "cancel" },
+    ]);
+    expect(afterExport).toMatchObject({
+      phase: "exported",
+      isRunning: false,
+      lastExport: { jsonUrl: "file:///Room.json", photoUrls: [] },
+    });
+  });
+
+  it("ignores stale events after the view was closed", () => {
+    const canceled = run([{ type: "start", at: 0 }, { type: "cancel" }]);
+    const state = run(
+      [{ type: "preview", exportOnFinish: true }, ok, exported],
+      canceled
+    );
+    expect(state.phase).toBe("canceled");
+    expect(state.isPreviewVisible).toBe(false);
+    // The files were written, so the export is still recorded.
+    expect(state.lastExport).toEqual(exported.payload);
+  });
+
+  it("starts a fresh session after a finished one", () => {
+    const state = run([
+      { type: "start", at: 0 },
+      { type: "status", status: ScanStatus.Error, error: boom },
+      { type: "cancel" },
+      { type: "start", at: 0 },
+    ]);
+    expect(state).toMatchObject({
+      phase: "scanning",
+      isRunning: true,
+      hasCapturedRoom: false,
+      lastError: undefined,
+    });
+  });
+
+  it("resets to the initial state from anywhere", () => {
+    const state = run([
+      { type: "start", at: 0 },
+      { type: "finish" },
+      { type: "reset" },
+    ]);
+    expect(state).toBe(initialScanSessionState);
+  });
+});
+
+describe("getScanSessionRejection", () => {
+  const scanning = run([{ type: "start", at: 0 }]);
+  const processing = run([{ type: "finish" }], scanning);
+  const exporting = run(
+    [{ type: "preview", exportOnFinish: true }],
+    processing
+  );
+
+  it.each<[string, ScanSessionState, ScanSessionAction, string | undefined]>([
+    [
+      "start while idle",
+      initialScanSessionState,
+      { type: "start", at: 0 },
+      undefined,
+    ],
+    [
+      "start while scanning",
+      scanning,
+      { type: "start", at: 0 },
+      "A scan is already running.",
+    ],
+    [
+      "cancel while idle",
+      initialScanSessionState,
+      { type: "cancel" },
+      "No scan is running.",
+    ],
+    [
+      "finish while idle",
+      initialScanSessionState,
+      { type: "finish" },
+      "No scan is running.",
+    ],
+    [
+      "finish while processing",
+      processing,
+      { type: "finish" },
+      "Cannot finish a scan while processing.",
+    ],
+    [
+      "addRoom while processing",
+      processing,
+      { type: "addRoom" },
+      "Cannot add a room while processing.",
+    ],
+    [
+      "addRoom while exporting",
+      exporting,
+      { type: "addRoom" },
+      "Cannot add a room while exporting.",
+    ],
+    [
+      "export while exporting",
+      exporting,
+      { type: "export" },
+      "An export is already in progress.",
+    ],
+    ["export while scanning", scanning, { type: "export" }, undefined],
+    [
+      "capturePhoto while idle",
+      initialScanSessionState,
+      { type: "capturePhoto" },
+      "No scan is running.",
+    ],
+  ])("%s", (_name, state, action, reason) => {
+    expect(getScanSessionRejection(state, action)).toBe(reason);
+  });
+
+  it("rejects exporting after an error before anything was captured", () => {
+    const failed = run(
+      [{ type: "status", status: ScanStatus.Error }],
+      scanning
+    );
+    expect(getScanSessionRejection(failed, { type: "export" })).toBe(
+      "Nothing has been captured to export."
+    );
+  });
+
+  it("leaves the state untouched when a control is rejected", () => {
+    expect(scanSessionReducer(processing, { type: "finish" })).toBe(processing);
+  });
+
+  it("never rejects native events", () => {
+    for (const action of [
+      ok,
+      exported,
+      { type: "preview", exportOnFinish: true },
+    ] as ScanSessionAction[]) {
+      expect(
+        getScanSessionRejection(initialScanSessionState, action)
+      ).toBeUndefined();
+    }
+  });
+});
+
+describe("rooms", () => {
+  const roomAdded = (index: number, capturedAt = 100 + index) =>
+    ({
+      type: "roomAdded",
+      room: { index, identifier: `room-${index}`, story: 0, capturedAt },
+    } as const);
+
+  it("tracks each room with its photos and timestamps", () => {
+    const state = run([
+      { type: "start", at: 10 },
+      { type: "photo", photoUrl: "file:///1.jpg" },
+      { type: "addRoom" },
+      roomAdded(0, 50),
+      ok,
+      { type: "photo", photoUrl: "file:///2.jpg" },
+      { type: "finish" },
+      roomAdded(1, 90),
+    ]);
+    expect(state.rooms).toEqual([
+      {
+        index: 0,
+        identifier: "room-0",
+        name: "Room 1",
+        story: 0,
+        startedAt: 10,
+        capturedAt: 50,
+        photoUrls: ["file:///1.jpg"],
+        audioUrl: undefined,
+      },
+      {
+        index: 1,
+        identifier: "room-1",
+        name: "Room 2",
+        story: 0,
+        startedAt: 50,
+        capturedAt: 90,
+        photoUrls: ["file:///2.jpg"],
+        audioUrl: undefined,
+      },
+    ]);
+    // Capture stopped after finishing, so no room is active.
+    expect(state.currentRoom).toBeUndefined();
+  });
+
+  it("carries a running recording over to the next room", () => {
+    const state = run([
+      { type: "start", at: 0 },
+      { type: "audio", status: "started", audioUrl: "file:///a.wav" },
+      { type: "addRoom" },
+      roomAdded(0),
+    ]);
+    expect(state.rooms[0].audioUrl).toBe("file:///a.wav");
+    expect(state.currentRoom).toMatchObject({
+      index: 1,
+      audioUrl: "file:///a.wav",
+    });
+
+    const stopped = run(
+      [
+        { type: "audio", status: "stopped", audioUrl: "file:///a.wav" },
+        { type: "addRoom" },
+        roomAdded(1),
+      ],
+      state
+    );
+    expect(stopped.rooms[1].audioUrl).toBe("file:///a.wav");
+    expect(stopped.currentRoom?.audioUrl).toBeUndefined();
+  });
+
+  it("renames and discards rooms", () => {
+    const captured = run([
+      { type: "start", at: 0 },
+      { type: "addRoom" },
+      roomAdded(0),
+      ok,
+      { type: "finish" },
+      roomAdded(1),
+    ]);
+    const state = run(
+      [
+        { type: "renameRoom", identifier: "room-0", name: "  Kitchen " },
+        { type: "discardRoom", identifier: "room-1" },
+      ],
+      captured
+    );
+    expect(state.rooms.map((r) => [r.index, r.name])).toEqual([[0, "Kitchen"]]);
+    expect(state.discardedRoomIds).toEqual(["room-1"]);
+
+    // Indices keep counting after a discard.
+    const next = run([{ type: "addRoom" }, roomAdded(2)], {
+      ...state,
+      phase: "preview",
+    });
+    expect(next.rooms.map((r) => r.index)).toEqual([0, 2]);
+  });
+
+  it("guards room controls", () => {
+    const state = run([
+      { type: "start", at: 0 },
+      { type: "finish" },
+      roomAdded(0),
+    ]);
+    expect(
+      getScanSessionRejection(state, {
+        type: "renameRoom",
+        identifier: "nope",
+        name: "Den",
+      })
+    ).toBe("No room with identifier nope.");
+    expect(
+      getScanSessionRejection(state, {
+        type: "renameRoom",
+        identifier: "room-0",
+        name: " ",
+      })
+    ).toBe("Room names cannot be empty.");
+
+    const exporting = run([{ type: "preview", exportOnFinish: true }], state);
+    expect(
+      getScanSessionRejection(exporting, {
+        type: "discardRoom",
+        identifier: "room-0",
+      })
+    ).toBe("Cannot discard a room while exporting.");
+
+    const empty = run(
+      [
+        { type: "preview", exportOnFinish: false },
+        { type: "discardRoom", identifier: "room-0" },
+      ],
+      state
+    );
+    expect(empty.hasCapturedRoom).toBe(false);
+    expect(getScanSessionRejection(empty, { type: "export" })).toBe(
+      "Every captured room was discarded."
+    );
+  });
+
+  it("keeps the latest live update until the room is built", () => {
+    const update = (index: number, walls: number): ScanSessionAction => ({
+      type: "roomUpdate",
+      room: {
+        index,
+        story: 0,
+        timestamp: 0,
+        counts: {
+          walls,
+          doors: 0,
+          windows: 0,
+          openings: 0,
+          floors: 0,
+          objects: 0,
+        },
+        walls: [],
+        doors: [],
+        windows: [],
+        openings: [],
+        objects: [],
+      },
+    });
+    expect(run([update(0, 1)]).liveRoom).toBeUndefined();
+
+    const scanning = run([
+      { type: "start", at: 0 },
+      update(0, 1),
+      update(0, 3),
+    ]);
+    expect(scanning.liveRoom?.counts.walls).toBe(3);
+
+    const next = run([{ type: "addRoom" }, roomAdded(0)], scanning);
+    expect(next.liveRoom).toBeUndefined();
+    expect(run([update(1, 2)], next).liveRoom?.index).toBe(1);
+    expect(
+      run([update(1, 2), { type: "cancel" }], next).liveRoom
+    ).toBeUndefined();
+  });
+
+  it("tracks the current instruction while capturing", () => {
+    const instruction = (
+      value: "normal" | "slowDown" | "turnOnLight"
+    ): ScanSessionAction => ({ type: "instruction", instruction: value });
+    expect(run([instruction("slowDown")]).currentInstruction).toBeUndefined();
+
+    const slow = run([{ type: "start", at: 0 }, instruction("slowDown")]);
+    expect(slow.currentInstruction).toBe("slowDown");
+    expect(
+      run([instruction("normal")], slow).currentInstruction
+    ).toBeUndefined();
+    expect(run([{ type: "addRoom" }], slow).currentInstruction).toBeUndefined();
+    expect(run([{ type: "finish" }], slow).currentInstruction).toBeUndefined();
+    expect(
+      run([instruction("turnOnLight"), { type: "cancel" }], slow)
+        .currentInstruction
+    ).toBeUndefined();
+  });
+
+  it("starts every session without rooms", () => {
+    const state = run([
+      { type: "start", at: 0 },
+      { type: "finish" },
+      roomAdded(0),
+      { type: "cancel" },
+      { type: "start", at: 5 },
+    ]);
+    expect(state.rooms).toEqual([]);
+    expect(state.currentRoom).toEqual({
+      index: 0,
+      startedAt: 5,
+      photoUrls: [],
+    });
+  });
+});
+
+describe("saved sessions", () => {
+  const roomAdded = (index: number): ScanSessionAction => ({
+    type: "roomAdded",
+    room: {
+      index,
+      identifier: `room-${index}`,
+      story: 0,
+      capturedAt: 100 + index,
+      roomUrl: `file:///Sessions/room-${index}.json`,
+      worldMapUrl: `file:///Sessions/room-${index}.arworldmap`,
+    },
+  });
+  const captured = run([
+    { type: "start", at: 0 },
+    { type: "addRoom" },
+    roomAdded(0),
+    ok,
+    { type: "addRoom" },
+    roomAdded(1),
+    ok,
+    { type: "renameRoom", identifier: "room-0", name: "Kitchen" },
+    { type: "discardRoom", identifier: "room-1" },
+    { type: "addRoom" },
+    roomAdded(2),
+  ]);
+
+  it("keeps what is needed to resume", () => {
+    const saved = toSavedScanSession(captured);
+    expect(saved).toEqual({
+      version: 1,
+      rooms: captured.rooms,
+      discardedRoomIds: ["room-1"],
+      worldMapUrl: "file:///Sessions/room-2.arworldmap",
+    });
+    expect(saved.rooms.map((r) => [r.name, r.roomUrl])).toEqual([
+      ["Kitchen", "file:///Sessions/room-0.json"],
+      ["Room 3", "file:///Sessions/room-2.json"],
+    ]);
+    expect(parseSavedScanSession(JSON.stringify(saved))).toEqual(saved);
+  });
+
+  it("continues with the next room when resuming", () => {
+    const resumeFrom = toSavedScanSession(captured);
+    const state = run([{ type: "start", at: 500, resumeFrom }]);
+    expect(state).toMatchObject({
+      phase: "scanning",
+      hasCapturedRoom: true,
+      rooms: resumeFrom.rooms,
+      discardedRoomIds: ["room-1"],
+      worldMapUrl: resumeFrom.worldMapUrl,
+      currentRoom: { index: 3, startedAt: 500, photoUrls: [] },
+    });
+    expect(getScanSessionRejection(state, { type: "export" })).toBeUndefined();
+
+    const next = run([{ type: "finish" }, roomAdded(3)], state);
+    expect(next.rooms.map((r) => [r.index, r.name])).toEqual([
+      [0, "Kitchen"],
+      [2, "Room 3"],
+      [3, "Room 4"],
+    ]);
+  });
+
+  it("refuses rooms whose data was not saved", () => {
+    const resumeFrom = toSavedScanSession(captured);
+    resumeFrom.rooms[1] = { ...resumeFrom.rooms[1], roomUrl: undefined };
+    const action: ScanSessionAction = { type: "start", at: 0, resumeFrom };
+    expect(getScanSessionRejection(initialScanSessionState, action)).toBe(
+      "Room 3 can't be resumed: its room data was not saved."
+    );
+    expect(run([action])).toBe(initialScanSessionState);
+  });
+
+  it.each([
+    ["text that isn't JSON", "{"],
+    ["an unknown version", { version: 2, rooms: [], discardedRoomIds: [] }],
+    [
+      "a malformed room",
+      { version: 1, rooms: [{ identifier: "x" }], discardedRoomIds: [] },
+    ],
+  ])("rejects %s", (_, json) => {
+    expect(() => parseSavedScanSession(json)).toThrow(
+      expect.objectContaining({ code: "RESUME_FAILED" })
+    );
+  });
+});
@@ -0,0 +1,199 @@
+import { sampleCapturedStructureJson } from "../mock";
+import { parseCapturedStructure } from "../parseCapturedStructure";
+import { toDxf } from "../toDxf";
+
+const structure = parseCapturedStructure(sampleCapturedStructureJson);
+
+type Entity = {
+  type: string;
+  codes: Map<number, string[]>;
+  vertices: [number, number][];
+};
+
+// Minimal DXF reader: splits the group code/value pairs into sections of entities, folding the
+// VERTEX records of a POLYLINE into it.
+function parseDxf(text: string) {
+  const lines = text.split("\n");
+  expect(lines.pop()).toBe("");
+  expect(lines.length % 2).toBe(0);
+  const pairs: [number, string][] = [];
+  for (let i = 0; i < lines.length; i += 2) {
+    pairs.push([Number(lines[i].trim()), lines[i + 1]]);
+  }
+  expect(pairs[pairs.length - 1]).toEqual([0, "EOF"]);
+
+  const sections: Record<string, Entity[]> = {};
+  let section: Entity[] | undefined;
+  let current: Entity | undefined;
+  let polyline: Entity | undefined;
+  for (const [code, value] of pairs) {
+    if (code === 0) {
+      if (value === "SECTION" || value === "EOF") continue;
+      if (value === "ENDSEC") {
+        section = undefined;
+        continue;
+      }
+      current = { type: value, codes: new Map(), vertices: [] };
+      if (value === "VERTEX" && polyline) continue;
+      if (value === "SEQEND") {
+        polyline = undefined;
+        continue;
+      }
+      section!.push(current);
+      if (value === "POLYLINE") polyline = current;
+      continue;
+    }
+    if (code === 2 && !section) {
+      // Header variables are collected into a single record.
+      current = { type: value, codes: new Map(), vertices: [] };
+      section = value === "HEADER" ? [current] : [];
+      sections[value] = section;
+      continue;
+    }
+    if (current!.type === "VERTEX" && polyline) {
+      if (code === 10) polyline.vertices.push([Number(value), 0]);
+      if (code === 20) {
+        polyline.vertices[polyline.vertices.length - 1][1] = Number(value);
+      }
+      continue;
+    }
+    current!.codes.set(code, [...(current!.codes.get(code) ?? []), value]);
+  }
+  return sections;
+}
+
+const get = (e: Entity, code: number) => e.codes.get(code)?.[0];
+const num = (e: Entity, code: number) => Number(get(e, code));
+const onLayer = (entities: Entity[], type: string, layer: string) =>
+  entities.filter((e) => e.type === type && get(e, 8) === layer);
+
+function polylineLength(e: Entity) {
+  let sum = 0;
+  for (let i = 1; i < e.vertices.length; i++) {
+    const [ax, ay] = e.vertices[i - 1];
+    const [bx, by] = e.vertices[i];
+    sum += Math.hypot(bx - ax, by - ay);
+  }
+  return sum;
+}
+
+describe("toDxf", () => {
+  it("writes the sections of an R12 drawing in millimetres", () => {
+    const sections = parseDxf(toDxf(structure));
+    expect(Object.keys(sections)).toEqual([
+      "HEADER",
+      "TABLES",
+      "BLOCKS",
+      "ENTITIES",
+    ]);
+    const [header] = sections.HEADER;
+    expect(header.codes.get(9)).toEqual([
+      "$ACADVER",
+      "$INSUNITS",
+      "$MEASUREMENT",
+      "$EXTMIN",
+      "$EXTMAX",
+    ]);
+    expect(get(header, 1)).toBe("AC1009");
+    expect(header.codes.get(70)).toEqual(["4", "1"]);
+  });
+
+  it("puts every category on its own layer per story", () => {
+    const { TABLES, BLOCKS, ENTITIES } = parseDxf(toDxf(structure));
+    const layers = TABLES.filter((e) => e.type === "LAYER").map((e) =>
+      get(e, 2)
+    );
+    expect(layers).toEqual([
+      "0",
+      "STORY0-FLOORS",
+      "STORY0-WALLS",
+      "STORY0-DOORS",
+      "STORY0-WINDOWS",
+      "STORY0-BED",
+      "STORY0-STORAGE",
+      "STORY0-DIMENSIONS",
+    ]);
+    for (const entity of ENTITIES) {
+      expect(layers).toContain(get(entity, 8));
+    }
+    const blocks = BLOCKS.filter((e) => e.type === "BLOCK").map((e) =>
+      get(e, 2)
+    );
+    for (const insert of ENTITIES.filter((e) => e.type === "INSERT")) {
+      expect(blocks).toContain(get(insert, 2));
+    }
+  });
+
+  it("draws walls as wide polylines broken at doors and windows", () => {
+    const { ENTITIES } = parseDxf(toDxf(structure));
+    const walls = onLayer(ENTITIES, "POLYLINE", "STORY0-WALLS");
+    for (const wall of walls) {
+      expect(num(wall, 40)).toBe(150);
+      expect(num(wall, 41)).toBe(150);
+    }
+    // 14 m of walls minus a 0.9 m door and a 1.2 m window.
+    const total = walls.reduce((sum, w) => sum + polylineLength(w), 0);
+    expect(total).toBeCloseTo(14000 - 900 - 1200);
+    // The north wall runs along y = 1500 with the window centred on it.
+    const north = walls
+      .filter((w) => w.vertices.every(([, y]) => y === 1500))
+      .map((w) => w.vertices.map(([x]) => x).sort((a, b) => a - b));
+    expect(north).toEqual([
+      [-2000, -600],
+      [600, 2000],
+    ]);
+  });
+
+  it("inserts scaled door and window blocks", () => {
+    const { ENTITIES } = parseDxf(toDxf(structure));
+    const [door] = onLayer(ENTITIES, "INSERT", "STORY0-DOORS");
+    expect(get(door, 2)).toBe("DOOR");
+    // Hinged at the east end of the gap in the south wall, running west and swinging into the room
+    // (mirrored, since the block's leaf opens to the left).
+    expect([num(door, 10), num(door, 20)]).toEqual([1450, -1500]);
+    expect(num(door, 50)).toBe(180);
+    expect(num(door, 41)).toBe(900);
+    expect(num(door, 42)).toBe(-900);
+    const [win] = onLayer(ENTITIES, "INSERT", "STORY0-WINDOWS");
+    expect(get(win, 2)).toBe("WINDOW");
+    expect(num(win, 41)).toBe(1200);
+    expect(num(win, 42)).toBe(75);
+    expect([num(win, 10), num(win, 20)]).toEqual([-600, 1500]);
+  });
+
+  it("outlines floors and objects and dimensions every wall", () => {
+    const { ENTITIES } = parseDxf(toDxf(structure));
+    const [floor] = onLayer(ENTITIES, "POLYLINE", "STORY0-FLOORS");
+    expect(num(floor, 70)).toBe(1);
+    expect(floor.vertices).toHaveLength(4);
+    const [bed] = onLayer(ENTITIES, "POLYLINE", "STORY0-BED");
+    expect(num(bed, 70)).toBe(1);
+    const xs = bed.vertices.map(([x]) => x);
+    expect(Math.max(...xs) - Math.min(...xs)).toBeCloseTo(1600);
+
+    const dimensions = onLayer(ENTITIES, "DIMENSION", "STORY0-DIMENSIONS");
+    expect(dimensions.map((d) => num(d, 42))).toEqual([4000, 3000, 4000, 3000]);
+    // The north wall's dimension sits outside the room, above y = 1500.
+    expect(num(dimensions[0], 20)).toBeGreaterThan(1500);
+  });
+
+  it("writes inches and honours the options", () => {
+    const { HEADER, TABLES, ENTITIES } = parseDxf(
+      toDxf(structure, {
+        units: "imperial",
+        showObjects: false,
+        showDimensions: false,
+        layerName: (category, story) => `L${story}_${category}`,
+      })
+    );
+    expect(HEADER[0].codes.get(70)).toEqual(["1", "0"]);
+    const [wall] = onLayer(ENTITIES, "POLYLINE", "L0_walls");
+    expect(num(wall, 40)).toBeCloseTo(150 / 25.4, 3);
+    expect(
+      TABLES.filter((e) => e.type === "LAYER").map((e) => get(e, 2))
+    ).toEqual(["0", "L0_floors", "L0_walls", "L0_doors", "L0_windows"]);
+    expect(ENTITIES.some((e) => e.type === "DIMENSION")).toBe(false);
+
+    expect(parseDxf(toDxf(structure, { story: 1 })).ENTITIES).toEqual([]);
+  });
+});
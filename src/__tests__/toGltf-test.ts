@@ -0,0 +1,158 @@
+import { buildStructureMesh, StructureMeshPart } from "../buildStructureMesh";
+import { sampleCapturedStructureJson } from "../mock";
+import { parseCapturedStructure } from "../parseCapturedStructure";
+import { toGlb, toGltf } from "../toGltf";
+
+const structure = parseCapturedStructure(sampleCapturedStructureJson);
+const NORTH_WALL = structure.walls[0].identifier;
+const SOUTH_WALL = structure.walls[2].identifier;
+
+// Area of the triangles of `part` whose normal points along `normal`.
+function facingArea(part: StructureMeshPart, normal: number[]): number {
+  let area = 0;
+  for (let i = 0; i < part.indices.length; i += 3) {
+    const [a, b, c] = part.indices
+      .slice(i, i + 3)
+      .map((v) => part.positions.slice(v * 3, v * 3 + 3));
+    const n = part.normals.slice(part.indices[i] * 3, part.indices[i] * 3 + 3);
+    if (n.some((v, k) => Math.abs(v - normal[k]) > 1e-6)) continue;
+    const ab = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+    const ac = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+    const cross = [
+      ab[1] * ac[2] - ab[2] * ac[1],
+      ab[2] * ac[0] - ab[0] * ac[2],
+      ab[0] * ac[1] - ab[1] * ac[0],
+    ];
+    // Counter-clockwise seen from the front, so the cross product follows the normal.
+    expect(cross[0] * n[0] + cross[1] * n[1] + cross[2] * n[2]).toBeGreaterThan(
+      0
+    );
+    area += Math.hypot(...cross) / 2;
+  }
+  return area;
+}
+
+function readGlb(glb: Uint8Array) {
+  const view = new DataView(glb.buffer, glb.byteOffset, glb.byteLength);
+  const jsonLength = view.getUint32(12, true);
+  const json = JSON.parse(
+    String.fromCharCode(...glb.subarray(20, 20 + jsonLength))
+  );
+  const binStart = 20 + jsonLength;
+  return {
+    magic: view.getUint32(0, true),
+    version: view.getUint32(4, true),
+    length: view.getUint32(8, true),
+    jsonType: view.getUint32(16, true),
+    binType: view.getUint32(binStart + 4, true),
+    json,
+    bin: new DataView(glb.buffer, glb.byteOffset + binStart + 8),
+  };
+}
+
+describe("buildStructureMesh", () => {
+  it("cuts doors and windows out of their walls", () => {
+    const parts = buildStructureMesh(structure);
+    const north = parts.find((p) => p.identifier === NORTH_WALL)!;
+    const south = parts.find((p) => p.identifier === SOUTH_WALL)!;
+    // The north wall faces +z and hosts a 1.2 m × 1.2 m window.
+    expect(facingArea(north, [0, 0, 1])).toBeCloseTo(4 * 2.5 - 1.2 * 1.2);
+    expect(facingArea(north, [0, 0, -1])).toBeCloseTo(4 * 2.5 - 1.2 * 1.2);
+    // The south wall hosts a 0.9 m × 2 m door.
+    expect(facingArea(south, [0, 0, -1])).toBeCloseTo(4 * 2.5 - 0.9 * 2);
+    // The window reveal: four 0.15 m deep sides around the hole.
+    expect(facingArea(north, [0, -1, 0])).toBeCloseTo(4 * 0.15 + 1.2 * 0.15);
+  });
+
+  it("builds floors and objects", () => {
+    const parts = buildStructureMesh(structure);
+    const floor = parts.find((p) => p.category === "floor")!;
+    expect(facingArea(floor, [0, 1, 0])).toBeCloseTo(12);
+    const bed = parts.find((p) => p.category === "bed")!;
+    expect(bed.indices).toHaveLength(36);
+    expect(facingArea(bed, [0, 1, 0])).toBeCloseTo(1.6 * 2);
+  });
+
+  it("fills closed openings and skips objects on request", () => {
+    const parts = buildStructureMesh(structure, { includeObjects: false });
+    // The window gets a pane; the door is open.
+    expect(parts.map((p) => p.category).sort()).toEqual([
+      "floor",
+      "wall",
+      "wall",
+      "wall",
+      "wall",
+      "window",
+    ]);
+    expect(
+      buildStructureMesh(structure, { story: 1, includeObjects: false })
+    ).toEqual([]);
+  });
+});
+
+describe("toGlb", () => {
+  it("writes a valid GLB container", () => {
+    const glb = toGlb(structure);
+    const { magic, version, length, jsonType, binType, json } = readGlb(glb);
+    expect(magic).toBe(0x46546c67);
+    expect(version).toBe(2);
+    expect(length).toBe(glb.byteLength);
+    expect(length % 4).toBe(0);
+    expect(jsonType).toBe(0x4e4f534a);
+    expect(binType).toBe(0x004e4942);
+    expect(json.asset.version).toBe("2.0");
+    expect(json.buffers).toEqual([{ byteLength: expect.any(Number) }]);
+  });
+
+  it("names nodes after the elements they contain", () => {
+    const { json } = readGlb(toGlb(structure));
+    const names: string[] = json.nodes.map((n: { name: string }) => n.name);
+    expect(names.slice(0, 2)).toEqual(["Structure", "Story 0"]);
+    expect(names).toContain(`wall-${NORTH_WALL}`);
+    expect(names).toContain(`bed-${structure.objects[0].identifier}`);
+    const window = json.nodes.find((n: { name: string }) =>
+      n.name.startsWith("window-")
+    );
+    expect(window.extras).toEqual({
+      identifier: structure.windows[0].identifier,
+      parentIdentifier: NORTH_WALL,
+      category: "window",
+      story: 0,
+    });
+    expect(json.materials.map((m: { name: string }) => m.name)).toEqual([
+      "floor",
+      "wall",
+      "window",
+      "bed",
+      "storage",
+    ]);
+    expect(json.materials[2].alphaMode).toBe("BLEND");
+  });
+
+  it("stores positions that match the accessor bounds", () => {
+    const { json, bin } = readGlb(toGlb(structure));
+    const accessor =
+      json.accessors[json.meshes[0].primitives[0].attributes.POSITION];
+    const bufferView = json.bufferViews[accessor.bufferView];
+    const ys: number[] = [];
+    for (let i = 0; i < accessor.count; i++) {
+      ys.push(bin.getFloat32(bufferView.byteOffset + i * 12 + 4, true));
+    }
+    expect(Math.min(...ys)).toBe(accessor.min[1]);
+    expect(Math.max(...ys)).toBe(accessor.max[1]);
+  });
+});
+
+describe("toGltf", () => {
+  it("embeds the same buffer as a data URI", () => {
+    const gltf = toGltf(structure, { colors: { wall: [1, 0, 0, 1] } });
+    const [buffer] = gltf.buffers;
+    expect(buffer.uri).toMatch(/^data:application\/octet-stream;base64,/);
+    const base64 = buffer.uri!.split(",")[1];
+    expect(base64).toHaveLength(Math.ceil(buffer.byteLength / 3) * 4);
+    expect(
+      gltf.materials.find((m) => m.name === "wall")!.pbrMetallicRoughness
+        .baseColorFactor
+    ).toEqual([1, 0, 0, 1]);
+  });
+});
@@ -0,0 +1,238 @@
+import { sampleCapturedStructureJson } from "../mock";
+import { parseCapturedStructure } from "../parseCapturedStructure";
+import { toIfc, toIfcGuid } from "../toIfc";
+
+const structure = parseCapturedStructure(sampleCapturedStructureJson);
+const [NORTH_WALL] = structure.walls;
+const [DOOR] = structure.doors;
+const [WINDOW] = structure.windows;
+
+type Arg = string | Arg[];
+type Instance = { id: string; type: string; args: Arg[] };
+
+// Split the attributes of a STEP instance, keeping strings and nested lists intact.
+function parseArgs(text: string): Arg[] {
+  const stack: Arg[][] = [[]];
+  let token = "";
+  let inString = false;
+  const flush = () => {
+    if (token) stack[stack.length - 1].push(token);
+    token = "";
+  };
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (inString) {
+      token += c;
+      if (c === "'" && text[i + 1] === "'") token += text[++i];
+      else if (c === "'") inString = false;
+    } else if (c === "'") {
+      inString = true;
+      token += c;
+    } else if (c === "(") {
+      stack.push([]);
+    } else if (c === ")") {
+      flush();
+      const list = stack.pop()!;
+      stack[stack.length - 1].push(list);
+    } else if (c === ",") {
+      flush();
+    } else {
+      token += c;
+    }
+  }
+  flush();
+  return stack[0];
+}
+
+function parseIfc(text: string) {
+  const data = text.slice(
+    text.indexOf("DATA;") + 5,
+    text.lastIndexOf("ENDSEC;")
+  );
+  const instances = new Map<string, Instance>();
+  for (const line of data.trim().split("\n")) {
+    const match = /^(#\d+)=([A-Z0-9]+)\((.*)\);$/.exec(line);
+    expect(match).not.toBeNull();
+    const [, id, type, args] = match!;
+    instances.set(id, { id, type, args: parseArgs(args) });
+  }
+  const ofType = (type: string) =>
+    [...instances.values()].filter((i) => i.type === type);
+  const ref = (value: Arg) => instances.get(value as string)!;
+  return { instances, ofType, ref };
+}
+
+const unquote = (value: Arg) => (value as string).slice(1, -1);
+const timestamp = new Date("2026-01-02T03:04:05Z");
+
+describe("toIfcGuid", () => {
+  it("compresses UUIDs into 22 characters", () => {
+    expect(toIfcGuid("00000000-0000-0000-0000-000000000000")).toBe(
+      "0000000000000000000000"
+    );
+    expect(toIfcGuid("FFFFFFFF-FFFF-FFFF-FFFF-FFFFFFFFFFFF")).toBe(
+      "3$$$$$$$$$$$$$$$$$$$$$"
+    );
+    expect(toIfcGuid("not a uuid")).toHaveLength(22);
+    expect(toIfcGuid("not a uuid")).toBe(toIfcGuid("not a uuid"));
+    expect(toIfcGuid("not a uuid")).not.toBe(toIfcGuid("not a uuid 2"));
+  });
+});
+
+describe("toIfc", () => {
+  const text = toIfc(structure, { projectName: "Flat 3", timestamp });
+  const { instances, ofType, ref } = parseIfc(text);
+
+  it("writes an IFC4 STEP file", () => {
+    expect(text.startsWith("ISO-10303-21;\nHEADER;\n")).toBe(true);
+    expect(text).toContain("FILE_NAME('Flat 3','2026-01-02T03:04:05'");
+    expect(text).toContain("FILE_SCHEMA(('IFC4'));");
+    expect(text.endsWith("ENDSEC;\nEND-ISO-10303-21;\n")).toBe(true);
+  });
+
+  it("only references instances that exist", () => {
+    const refs = (args: Arg[]): string[] =>
+      args.flatMap((a) =>
+        Array.isArray(a) ? refs(a) : a.startsWith("#") ? [a] : []
+      );
+    for (const instance of instances.values()) {
+      for (const id of refs(instance.args)) {
+        expect(instances.has(id)).toBe(true);
+      }
+    }
+  });
+
+  it("maps every element to its IFC entity", () => {
+    const count = (type: string) => ofType(type).length;
+    expect(count("IFCPROJECT")).toBe(1);
+    expect(count("IFCSITE")).toBe(1);
+    expect(count("IFCBUILDING")).toBe(1);
+    expect(count("IFCBUILDINGSTOREY")).toBe(1);
+    expect(count("IFCSPACE")).toBe(1);
+    expect(count("IFCWALLSTANDARDCASE")).toBe(4);
+    expect(count("IFCOPENINGELEMENT")).toBe(2);
+    expect(count("IFCDOOR")).toBe(1);
+    expect(count("IFCWINDOW")).toBe(1);
+    expect(count("IFCSLAB")).toBe(1);
+    expect(count("IFCFURNISHINGELEMENT")).toBe(2);
+  });
+
+  it("builds the spatial structure", () => {
+    const children = (parent: Instance) =>
+      ofType("IFCRELAGGREGATES")
+        .filter((r) => r.args[4] === parent.id)
+        .flatMap((r) => (r.args[5] as string[]).map((id) => ref(id).type));
+    const [project] = ofType("IFCPROJECT");
+    expect(unquote(project.args[2])).toBe("Flat 3");
+    expect(children(project)).toEqual(["IFCSITE"]);
+    expect(children(ofType("IFCSITE")[0])).toEqual(["IFCBUILDING"]);
+    expect(children(ofType("IFCBUILDING")[0])).toEqual(["IFCBUILDINGSTOREY"]);
+    const [storey] = ofType("IFCBUILDINGSTOREY");
+    expect(children(storey)).toEqual(["IFCSPACE"]);
+
+    const [contained] = ofType("IFCRELCONTAINEDINSPATIALSTRUCTURE");
+    expect(contained.args[5]).toBe(storey.id);
+    expect(
+      (contained.args[4] as string[]).map((id) => ref(id).type).sort()
+    ).toEqual([
+      "IFCDOOR",
+      "IFCFURNISHINGELEMENT",
+      "IFCFURNISHINGELEMENT",
+      "IFCSLAB",
+      "IFCWALLSTANDARDCASE",
+      "IFCWALLSTANDARDCASE",
+      "IFCWALLSTANDARDCASE",
+      "IFCWALLSTANDARDCASE",
+      "IFCWINDOW",
+    ]);
+
+    const [space] = ofType("IFCSPACE");
+    expect(unquote(space.args[2])).toBe("Bedroom");
+    expect(unquote(space.args[4])).toBe("bedroom");
+    expect(space.args[6]).not.toBe("$");
+  });
+
+  it("derives GlobalIds and tags from RoomPlan identifiers", () => {
+    const globalIds = [...instances.values()]
+      .filter((i) => /^'[0-9A-Za-z_$]{22}'$/.test(i.args[0] as string))
+      .map((i) => i.args[0]);
+    expect(new Set(globalIds).size).toBe(globalIds.length);
+
+    const wall = ofType("IFCWALLSTANDARDCASE").find(
+      (w) => unquote(w.args[7]) === NORTH_WALL.identifier
+    )!;
+    expect(unquote(wall.args[0])).toBe(toIfcGuid(NORTH_WALL.identifier));
+    // Exporting again produces the same ids.
+    expect(toIfc(structure, { projectName: "Flat 3", timestamp })).toBe(text);
+  });
+
+  it("voids host walls and fills the openings", () => {
+    const voids = ofType("IFCRELVOIDSELEMENT");
+    const fills = ofType("IFCRELFILLSELEMENT");
+    expect(voids).toHaveLength(2);
+    expect(fills).toHaveLength(2);
+
+    const window = ofType("IFCWINDOW")[0];
+    expect(unquote(window.args[7])).toBe(WINDOW.identifier);
+    const fill = fills.find((f) => f.args[5] === window.id)!;
+    const opening = ref(fill.args[4]);
+    expect(opening.type).toBe("IFCOPENINGELEMENT");
+    const host = ref(voids.find((v) => v.args[5] === opening.id)!.args[4]);
+    expect(unquote(host.args[7])).toBe(NORTH_WALL.identifier);
+
+    const door = ofType("IFCDOOR")[0];
+    expect(unquote(door.args[7])).toBe(DOOR.identifier);
+    expect([door.args[8], door.args[9], door.args[10]]).toEqual([
+      "2.",
+      "0.9",
+      ".DOOR.",
+    ]);
+  });
+
+  it("places and extrudes walls from their transforms", () => {
+    const wall = ofType("IFCWALLSTANDARDCASE").find(
+      (w) => unquote(w.args[7]) === NORTH_WALL.identifier
+    )!;
+    const placement = ref(ref(wall.args[5]).args[1]);
+    expect(placement.type).toBe("IFCAXIS2PLACEMENT3D");
+    // Bottom-left of the north wall: world (-2, 0, -1.5) is IFC (-2, 1.5, 0).
+    expect(ref(placement.args[0]).args[0]).toEqual(["-2.", "1.5", "0."]);
+    expect(ref(placement.args[2]).args[0]).toEqual(["1.", "0.", "0."]);
+
+    const shape = ref(wall.args[6]);
+    const body = (shape.args[2] as string[])
+      .map(ref)
+      .find((r) => r.args[1] === "'Body'")!;
+    const solid = ref((body.args[3] as string[])[0]);
+    expect(solid.type).toBe("IFCEXTRUDEDAREASOLID");
+    expect(solid.args[3]).toBe("2.5");
+    const profile = ref(solid.args[0]);
+    expect([profile.args[3], profile.args[4]]).toEqual(["4.", "0.15"]);
+
+    const [usage] = ofType("IFCMATERIALLAYERSETUSAGE");
+    const [association] = ofType("IFCRELASSOCIATESMATERIAL");
+    expect(association.args[5]).toBe(usage.id);
+    expect(association.args[4]).toHaveLength(4);
+  });
+
+  it("honours the options", () => {
+    const other = parseIfc(
+      toIfc(structure, {
+        includeObjects: false,
+        wallThickness: 0.2,
+        spaceNames: { bedroom: "Chambre à coucher" },
+        timestamp,
+      })
+    );
+    expect(other.ofType("IFCFURNISHINGELEMENT")).toHaveLength(0);
+    expect(other.ofType("IFCMATERIALLAYER")[0].args[1]).toBe("0.2");
+    expect(other.ofType("IFCSPACE")[0].args[2]).toBe(
+      "'Chambre \\X2\\00E0\\X0\\ coucher'"
+    );
+    expect(
+      parseIfc(toIfc(structure, { story: 1, timestamp })).ofType(
+        "IFCWALLSTANDARDCASE"
+      )
+    ).toHaveLength(0);
+  });
+});
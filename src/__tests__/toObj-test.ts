@@ -0,0 +1,139 @@
+import { StructureExportType } from "../ExpoRoomplan.types";
+import { buildStructureMesh } from "../buildStructureMesh";
+import { exportStructure } from "../exportStructure";
+import { sampleCapturedStructureJson } from "../mock";
+import { parseCapturedStructure } from "../parseCapturedStructure";
+import { toObj } from "../toObj";
+import { toPly } from "../toPly";
+
+const structure = parseCapturedStructure(sampleCapturedStructureJson);
+const parts = buildStructureMesh(structure);
+const vertexCount = parts.reduce((sum, p) => sum + p.positions.length / 3, 0);
+const triangleCount = parts.reduce((sum, p) => sum + p.indices.length / 3, 0);
+
+const linesStartingWith = (text: string, prefix: string) =>
+  text.split("\n").filter((l) => l.startsWith(prefix));
+
+describe("toObj", () => {
+  it("writes triangulated geometry with normals", () => {
+    const { obj } = toObj(structure);
+    expect(linesStartingWith(obj, "v ")).toHaveLength(vertexCount);
+    expect(linesStartingWith(obj, "vn ")).toHaveLength(vertexCount);
+    const faces = linesStartingWith(obj, "f ");
+    expect(faces).toHaveLength(triangleCount);
+    for (const face of faces) {
+      const corners = face.split(" ").slice(1);
+      expect(corners).toHaveLength(3);
+      for (const corner of corners) {
+        const [v, , vn] = corner.split("/").map(Number);
+        expect(v).toBe(vn);
+        expect(v).toBeGreaterThanOrEqual(1);
+        expect(v).toBeLessThanOrEqual(vertexCount);
+      }
+    }
+  });
+
+  it("names an object per element and a material per category", () => {
+    const { obj, mtl } = toObj(structure, {
+      mtlFileName: "bedroom.mtl",
+      colors: { wall: [1, 0, 0, 1] },
+    });
+    expect(linesStartingWith(obj, "mtllib ")).toEqual(["mtllib bedroom.mtl"]);
+    expect(linesStartingWith(obj, "g ")).toEqual(["g story-0"]);
+    expect(linesStartingWith(obj, "o ")).toEqual(
+      parts.map((p) => `o ${p.name}`)
+    );
+    const used = new Set(linesStartingWith(obj, "usemtl "));
+    const defined = linesStartingWith(mtl, "newmtl ");
+    expect(defined).toEqual([
+      "newmtl floor",
+      "newmtl wall",
+      "newmtl window",
+      "newmtl bed",
+      "newmtl storage",
+    ]);
+    expect([...used].map((l) => l.replace("usemtl", "newmtl"))).toEqual(
+      defined
+    );
+    expect(mtl).toContain("newmtl wall\nKa 1 0 0\nKd 1 0 0\nKs 0 0 0\nd 1\n");
+    expect(mtl).toContain("newmtl window\n");
+    expect(linesStartingWith(mtl, "d ")).toContain("d 0.35");
+  });
+});
+
+describe("toPly", () => {
+  it("writes a header that matches its elements", () => {
+    const ply = toPly(structure);
+    const lines = ply.trimEnd().split("\n");
+    const end = lines.indexOf("end_header");
+    const header = lines.slice(0, end);
+    expect(header.slice(0, 2)).toEqual(["ply", "format ascii 1.0"]);
+    expect(header).toContain(`element vertex ${vertexCount}`);
+    expect(header).toContain(`element face ${triangleCount}`);
+    expect(linesStartingWith(ply, "comment part ")).toEqual(
+      parts.map((p, i) => `comment part ${i} ${p.name}`)
+    );
+
+    const body = lines.slice(end + 1);
+    expect(body).toHaveLength(vertexCount + triangleCount);
+    const vertices = body.slice(0, vertexCount).map((l) => l.split(" "));
+    for (const v of vertices) expect(v).toHaveLength(10);
+    const faces = body.slice(vertexCount).map((l) => l.split(" ").map(Number));
+    for (const [count, a, b, c, part] of faces) {
+      expect(count).toBe(3);
+      for (const index of [a, b, c]) {
+        expect(index).toBeGreaterThanOrEqual(0);
+        expect(index).toBeLessThan(vertexCount);
+      }
+      expect(part).toBeLessThan(parts.length);
+    }
+  });
+
+  it("colours vertices by category", () => {
+    const ply = toPly(structure, {
+      includeObjects: false,
+      colors: { floor: [0, 0, 1, 1] },
+    });
+    const floorPart = buildStructureMesh(structure, {
+      includeObjects: false,
+    }).findIndex((p) => p.category === "floor");
+    const lines = ply.trimEnd().split("\n");
+    const vertices = lines.filter((l) => l.split(" ").length === 10);
+    const faces = lines.filter((l) => /^3 \d+ \d+ \d+ \d+$/.test(l));
+    const [, a] = faces
+      .map((l) => l.split(" ").map(Number))
+      .find((f) => f[4] === floorPart)!;
+    expect(vertices[a].split(" ").slice(6)).toEqual(["0", "0", "255", "255"]);
+  });
+});
+
+describe("exportStructure", () => {
+  it("writes the files of each format", () => {
+    const files = (type: StructureExportType) =>
+      exportStructure(structure, type, { name: "bedroom" }).map(
+        ({ name, mimeType }) => ({ name, mimeType })
+      );
+    expect(files(StructureExportType.Obj)).toEqual([
+      { name: "bedroom.obj", mimeType: "model/obj" },
+      { name: "bedroom.mtl", mimeType: "model/mtl" },
+    ]);
+    expect(files(StructureExportType.Ply)).toEqual([
+      { name: "bedroom.ply", mimeType: "application/x-ply" },
+    ]);
+    expect(files(StructureExportType.Svg)[0].name).toBe("bedroom.svg");
+    expect(files(StructureExportType.Dxf)[0].name).toBe("bedroom.dxf");
+    expect(files(StructureExportType.Ifc)[0].name).toBe("bedroom.ifc");
+    expect(files(StructureExportType.Gltf)[0].name).toBe("bedroom.gltf");
+
+    const [glb] = exportStructure(structure, StructureExportType.Glb);
+    expect(glb.name).toBe("structure.glb");
+    expect(glb.contents).toBeInstanceOf(Uint8Array);
+
+    const [obj] = exportStructure(structure, StructureExportType.Obj, {
+      name: "bedroom",
+      obj: { includeObjects: false },
+    });
+    expect(obj.contents).toContain("mtllib bedroom.mtl\n");
+    expect(obj.contents).not.toContain("o bed-");
+  });
+});
@@ -0,0 +1,165 @@
+import { act, renderHook } from "@testing-library/react-native";
+import { Platform } from "react-native";
+
+import { ExportType, ScanStatus } from "../ExpoRoomplan.types";
+import { MockExpoRoomplan, roomPlanMock } from "../mock";
+import useRoomPlan from "../useRoomPlan";
+
+beforeEach(() => {
+  jest.spyOn(console, "log").mockImplementation(() => {});
+});
+
+// Let events scheduled by the mock native module fire inside `act`.
+function flushEvents() {
+  return act(() => new Promise((resolve) => setTimeout(resolve, 0)));
+}
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  roomPlanMock.reset();
+});
+
+describe("useRoomPlan", () => {
+  it("starts in the NotStarted state", () => {
+    const { result } = renderHook(() => useRoomPlan());
+    expect(result.current.roomScanStatus).toBe(ScanStatus.NotStarted);
+    expect(result.current.scanUrl).toBeNull();
+    expect(result.current.jsonUrl).toBeNull();
+  });
+
+  it("starts a parametric capture without file URLs by default", async () => {
+    const startCapture = jest.spyOn(MockExpoRoomplan, "startCapture");
+    const { result } = renderHook(() => useRoomPlan());
+
+    await act(() => result.current.startRoomPlan("Living"));
+    await flushEvents();
+
+    expect(startCapture).toHaveBeenCalledWith(
+      "Living",
+      ExportType.Parametric,
+      false
+    );
+  });
+
+  it("passes exportType and sendFileLoc to the native module", async () => {
+    const startCapture = jest.spyOn(MockExpoRoomplan, "startCapture");
+    const { result } = renderHook(() =>
+      useRoomPlan({ exportType: ExportType.Model, sendFileLoc: true })
+    );
+
+    await act(() => result.current.startRoomPlan("Living"));
+    await flushEvents();
+
+    expect(startCapture).toHaveBeenCalledWith("Living", ExportType.Model, true);
+  });
+
+  it("updates status and URLs from onDismissEvent", async () => {
+    const { result } = renderHook(() => useRoomPlan({ sendFileLoc: true }));
+
+    await act(() => result.current.startRoomPlan("Office"));
+    await flushEvents();
+
+    expect(result.current.roomScanStatus).toBe(ScanStatus.OK);
+    expect(result.current.scanUrl).toBe("file:///mock/Export/Office.usdz");
+    expect(result.current.jsonUrl).toBe("file:///mock/Export/Office.json");
+  });
+
+  it("reports a canceled capture without URLs", async () => {
+    roomPlanMock.configure({ dismissStatus: ScanStatus.Canceled });
+    const { result } = renderHook(() => useRoomPlan({ sendFileLoc: true }));
+
+    await act(() => result.current.startRoomPlan("Office"));
+    await flushEvents();
+
+    expect(result.current.roomScanStatus).toBe(ScanStatus.Canceled);
+    expect(result.current.scanUrl).toBeNull();
+    expect(result.current.jsonUrl).toBeNull();
+  });
+
+  it("waits for a manual dismiss when autoDismiss is off", async () => {
+    roomPlanMock.configure({ autoDismiss: false });
+    const { result } = renderHook(() => useRoomPlan());
+
+    await act(() => result.current.startRoomPlan("Office"));
+    expect(result.current.roomScanStatus).toBe(ScanStatus.NotStarted);
+
+    roomPlanMock.dismiss(ScanStatus.Error);
+    await flushEvents();
+    expect(result.current.roomScanStatus).toBe(ScanStatus.Error);
+  });
+
+  it("reports why the capture failed", async () => {
+    roomPlanMock.configure({
+      startError: "Camera permission is denied or restricted.",
+      startErrorCode: "CAMERA_PERMISSION_DENIED",
+    });
+    const { result } = renderHook(() => useRoomPlan());
+
+    await act(() => result.current.startRoomPlan("Office"));
+    await flushEvents();
+    expect(result.current.roomScanStatus).toBe(ScanStatus.Error);
+    expect(result.current.error).toMatchObject({
+      code: "CAMERA_PERMISSION_DENIED",
+      message: "Camera permission is denied or restricted.",
+      recovery: "openSettings",
+    });
+  });
+
+  it("maps native rejections to error codes", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const notImplemented = Object.assign(
+      new Error("RoomPlan SDK is not available on Android."),
+      { code: "NOT_IMPLEMENTED" }
+    );
+    jest
+      .spyOn(MockExpoRoomplan, "startCapture")
+      .mockRejectedValue(notImplemented);
+    const { result } = renderHook(() => useRoomPlan());
+
+    await expect(result.current.startRoomPlan("Office")).rejects.toMatchObject({
+      name: "RoomPlanError",
+      code: "NOT_IMPLEMENTED",
+      message: "RoomPlan SDK is not available on Android.",
+    });
+  });
+
+  it("stops listening after unmount", async () => {
+    roomPlanMock.configure({ autoDismiss: false });
+    const { result, unmount } = renderHook(() => useRoomPlan());
+    await act(() => result.current.startRoomPlan("Office"));
+    unmount();
+
+    roomPlanMock.dismiss();
+    await flushEvents();
+    expect(console.log).not.toHaveBeenCalled();
+  });
+
+  it("keeps listening when another event's listeners are removed", async () => {
+    roomPlanMock.configure({ autoDismiss: false });
+    const other = jest.fn();
+    MockExpoRoomplan.addListener("onOther", other);
+    const { result } = renderHook(() => useRoomPlan());
+    await act(() => result.current.startRoomPlan("Office"));
+
+    MockExpoRoomplan.removeListeners(1);
+    MockExpoRoomplan.removeAllListeners("onOther");
+    roomPlanMock.dismiss(ScanStatus.Canceled);
+    await flushEvents();
+    expect(result.current.roomScanStatus).toBe(ScanStatus.Canceled);
+  });
+
+  it.each(["android", "web"] as const)("throws on %s", async (os) => {
+    jest.replaceProperty(Platform, "OS", os);
+    const startCapture = jest.spyOn(MockExpoRoomplan, "startCapture");
+    const { result } = renderHook(() => useRoomPlan());
+
+    await expect(result.current.startRoomPlan("Office")).rejects.toThrow(
+      "RoomPlan SDK only available on iOS."
+    );
+    await expect(result.current.startRoomPlan("Office")).rejects.toMatchObject({
+      code: "NOT_IMPLEMENTED",
+      recoverable: false,
+    });
+    expect(startCapture).not.toHaveBeenCalled();
+  });
+});
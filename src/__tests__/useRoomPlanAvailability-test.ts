@@ -0,0 +1,124 @@
+import { act, renderHook, waitFor } from "@testing-library/react-native";
+import { AppState, AppStateStatus } from "react-native";
+
+import { ExportType } from "../ExpoRoomplan.types";
+import ExpoRoomplanWeb from "../ExpoRoomplanModule.web";
+import { MockExpoRoomplan, roomPlanMock } from "../mock";
+import { useRoomPlanAvailability } from "../useRoomPlanAvailability";
+
+afterEach(() => {
+  roomPlanMock.reset();
+  jest.restoreAllMocks();
+});
+
+function withCapabilities(
+  changes: Partial<typeof roomPlanMock.scenario.capabilities>
+) {
+  roomPlanMock.configure({
+    capabilities: { ...roomPlanMock.scenario.capabilities, ...changes },
+  });
+}
+
+describe("useRoomPlanAvailability", () => {
+  it("reports a supported device with permissions as available", async () => {
+    const { result } = renderHook(() => useRoomPlanAvailability());
+    expect(result.current.status).toBe("loading");
+
+    await waitFor(() => expect(result.current.status).toBe("available"));
+    expect(result.current.isAvailable).toBe(true);
+    expect(result.current.capabilities).toMatchObject({
+      platform: "ios",
+      hasLiDAR: true,
+      osVersion: "17.4",
+    });
+  });
+
+  it("explains why RoomPlan can't run", async () => {
+    withCapabilities({
+      isSupported: false,
+      unsupportedReason: "device",
+      hasLiDAR: false,
+    });
+    const { result } = renderHook(() => useRoomPlanAvailability());
+    await waitFor(() => expect(result.current.status).toBe("unsupported"));
+    expect(result.current.isAvailable).toBe(false);
+    expect(result.current.capabilities?.unsupportedReason).toBe("device");
+  });
+
+  it("requests undetermined permissions", async () => {
+    withCapabilities({ camera: "undetermined", microphone: "undetermined" });
+    const { result } = renderHook(() => useRoomPlanAvailability());
+    await waitFor(() => expect(result.current.status).toBe("needsPermission"));
+
+    let permissions;
+    await act(async () => {
+      permissions = await result.current.requestPermissions();
+    });
+    // The microphone is only asked for when the hook needs it.
+    expect(permissions).toEqual({
+      camera: "granted",
+      microphone: "undetermined",
+    });
+    expect(result.current.status).toBe("available");
+  });
+
+  it("requires the microphone on request", async () => {
+    withCapabilities({ microphone: "undetermined" });
+    roomPlanMock.configure({ permissionResponse: "denied" });
+    const { result } = renderHook(() =>
+      useRoomPlanAvailability({ microphone: true })
+    );
+    await waitFor(() => expect(result.current.status).toBe("needsPermission"));
+
+    await act(() => result.current.requestPermissions());
+    expect(result.current.status).toBe("denied");
+    expect(result.current.capabilities?.microphone).toBe("denied");
+  });
+
+  it("checks again when the app returns to the foreground", async () => {
+    let onChange: (state: AppStateStatus) => void = () => {};
+    jest.spyOn(AppState, "addEventListener").mockImplementation((_, cb) => {
+      onChange = cb;
+      return { remove: () => {} };
+    });
+    withCapabilities({ camera: "denied" });
+    const { result } = renderHook(() => useRoomPlanAvailability());
+    await waitFor(() => expect(result.current.status).toBe("denied"));
+
+    // The user allowed the camera in Settings.
+    withCapabilities({ camera: "granted" });
+    await act(async () => onChange("active"));
+    expect(result.current.status).toBe("available");
+  });
+
+  it("keeps the error of a failed check", async () => {
+    jest
+      .spyOn(MockExpoRoomplan, "getCapabilities")
+      .mockRejectedValue(new Error("Native module missing."));
+    const { result } = renderHook(() => useRoomPlanAvailability());
+    await waitFor(() => expect(result.current.error).toBeDefined());
+    expect(result.current.error?.message).toBe("Native module missing.");
+    expect(result.current.status).toBe("loading");
+  });
+});
+
+describe("web module", () => {
+  it("reports RoomPlan as unsupported instead of throwing", async () => {
+    await expect(ExpoRoomplanWeb.getCapabilities()).resolves.toEqual({
+      platform: "web",
+      isSupported: false,
+      unsupportedReason: "platform",
+      hasLiDAR: false,
+      osVersion: "",
+      camera: "unavailable",
+      microphone: "unavailable",
+    });
+    await expect(ExpoRoomplanWeb.requestPermissions()).resolves.toEqual({
+      camera: "unavailable",
+      microphone: "unavailable",
+    });
+    await expect(
+      ExpoRoomplanWeb.startCapture("Office", ExportType.Parametric, false)
+    ).rejects.toThrow("RoomPlan is only available on iOS.");
+  });
+});
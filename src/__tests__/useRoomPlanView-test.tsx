@@ -0,0 +1,1091 @@
+import { act, renderHook, waitFor } from "@testing-library/react-native";
+
+import { ExportType, ScanStatus } from "../ExpoRoomplan.types";
+import { RoomPlanError, RoomPlanErrorCode } from "../RoomPlanError";
+import { roomPlanMock } from "../mock";
+import { parseCapturedStructure } from "../parseCapturedStructure";
+import { initialScanSessionState } from "../scanSession";
+import { CapturedPhoto, useRoomPlanView } from "../useRoomPlanView";
+import { flushEvents, renderWithView } from "./renderWithView";
+
+let now = 1_000;
+
+beforeEach(() => {
+  // Triggers are `Date.now()` values; make each one unique.
+  jest.spyOn(Date, "now").mockImplementation(() => ++now);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  roomPlanMock.reset();
+});
+
+function statusEvent(
+  status: ScanStatus,
+  errorMessage?: string,
+  errorCode?: RoomPlanErrorCode
+) {
+  return { nativeEvent: { status, errorCode, errorMessage } };
+}
+
+describe("useRoomPlanView", () => {
+  describe("defaults", () => {
+    it("returns idle view props", () => {
+      const { result } = renderHook(() => useRoomPlanView());
+      expect(result.current.viewProps).toMatchObject({
+        exportOnFinish: true,
+        sendFileLoc: true,
+        audioEnabled: false,
+        audioRunning: false,
+        stopAudioOnFinish: true,
+        running: false,
+        finishTrigger: undefined,
+        addAnotherTrigger: undefined,
+        exportTrigger: undefined,
+        capturePhotoTrigger: undefined,
+      });
+    });
+
+    it("returns idle state", () => {
+      const { result } = renderHook(() => useRoomPlanView());
+      expect(result.current.state).toEqual({
+        phase: "idle",
+        isRunning: false,
+        isPreviewVisible: false,
+        hasCapturedRoom: false,
+        isExportQueued: false,
+        rooms: [],
+        discardedRoomIds: [],
+        isAudioRecording: false,
+      });
+    });
+
+    it("passes identity options through to the view", () => {
+      const { result } = renderHook(() =>
+        useRoomPlanView({
+          scanName: "Kitchen",
+          exportType: ExportType.Mesh,
+          exportOnFinish: false,
+          sendFileLoc: false,
+          audioEnabled: true,
+          stopAudioOnFinish: false,
+          autoPhotoIntervalSec: 5,
+        })
+      );
+      expect(result.current.viewProps).toMatchObject({
+        scanName: "Kitchen",
+        exportType: ExportType.Mesh,
+        exportOnFinish: false,
+        sendFileLoc: false,
+        audioEnabled: true,
+        stopAudioOnFinish: false,
+        autoPhotoIntervalSec: 5,
+      });
+    });
+  });
+
+  describe("controls", () => {
+    it("start sets running and clears the previous error", () => {
+      const { result } = renderHook(() => useRoomPlanView());
+      act(() => {
+        result.current.viewProps.onStatus?.(
+          statusEvent(ScanStatus.Error, "boom")
+        );
+      });
+      expect(result.current.state.lastError?.message).toBe("boom");
+
+      let started: ReturnType<typeof result.current.controls.start>;
+      act(() => {
+        started = result.current.controls.start();
+      });
+      expect(started!).toEqual({ ok: true });
+      expect(result.current.viewProps.running).toBe(true);
+      expect(result.current.state.isRunning).toBe(true);
+      expect(result.current.state.phase).toBe("scanning");
+      expect(result.current.state.lastError).toBeUndefined();
+    });
+
+    it("reports NOT_IMPLEMENTED from the Android view", async () => {
+      const { result } = renderHook(() => useRoomPlanView());
+      const message = "RoomPlan SDK is not available on Android.";
+      let finished!: Promise<unknown>;
+      act(() => {
+        result.current.controls.start();
+        finished = result.current.controls.finishScan();
+      });
+      // The Android view answers the finish trigger and the start itself.
+      act(() => {
+        result.current.viewProps.onStatus?.({
+          nativeEvent: {
+            status: ScanStatus.Error,
+            errorCode: "NOT_IMPLEMENTED",
+            errorMessage: message,
+            trigger: result.current.viewProps.finishTrigger,
+          },
+        });
+        result.current.viewProps.onStatus?.(
+          statusEvent(ScanStatus.Error, message, "NOT_IMPLEMENTED")
+        );
+      });
+      await expect(finished).rejects.toMatchObject({
+        name: "RoomPlanError",
+        code: "NOT_IMPLEMENTED",
+        message,
+      });
+      expect(result.current.state.phase).toBe("error");
+      expect(result.current.state.lastError).toBeInstanceOf(RoomPlanError);
+      expect(result.current.state.lastError).toMatchObject({
+        code: "NOT_IMPLEMENTED",
+        recovery: "none",
+        recoverable: false,
+      });
+    });
+
+    it("cancel stops running and hides the preview", () => {
+      const { result } = renderHook(() => useRoomPlanView());
+      act(() => {
+        result.current.controls.start();
+        result.current.controls.finishScan();
+        result.current.viewProps.onPreview?.();
+      });
+      expect(result.current.state.isPreviewVisible).toBe(true);
+
+      act(() => result.current.controls.cancel());
+      expect(result.current.viewProps.running).toBe(false);
+      expect(result.current.state.phase).toBe("canceled");
+      expect(result.current.state.isPreviewVisible).toBe(false);
+    });
+
+    it("finishScan bumps finishTrigger once per scan", async () => {
+      const { result } = renderHook(() => useRoomPlanView());
+      act(() => result.current.controls.start());
+      act(() => {
+        result.current.controls.finishScan();
+      });
+      const first = result.current.viewProps.finishTrigger;
+      expect(first).toEqual(expect.any(Number));
+      expect(result.current.state.phase).toBe("processing");
+
+      await expect(result.current.controls.finishScan()).rejects.toThrow(
+        "Cannot finish a scan while processing."
+      );
+      expect(result.current.viewProps.finishTrigger).toBe(first);
+    });
+
+    it("addRoom bumps addAnotherTrigger and hides the preview", () => {
+      const { result } = renderHook(() =>
+        useRoomPlanView({ exportOnFinish: false })
+      );
+      act(() => {
+        result.current.controls.start();
+        result.current.controls.finishScan();
+        result.current.viewProps.onPreview?.();
+      });
+      expect(result.current.state.phase).toBe("preview");
+
+      act(() => {
+        result.current.controls.addRoom();
+      });
+      expect(result.current.viewProps.addAnotherTrigger).toEqual(
+        expect.any(Number)
+      );
+      expect(result.current.state.phase).toBe("adding");
+      expect(result.current.state.isPreviewVisible).toBe(false);
+    });
+
+    it("exportScan and capturePhoto bump their triggers", () => {
+      const { result } = renderHook(() => useRoomPlanView());
+      act(() => {
+        result.current.controls.start();
+        result.current.controls.exportScan();
+        result.current.controls.capturePhoto();
+      });
+      expect(result.current.viewProps.exportTrigger).toEqual(
+        expect.any(Number)
+      );
+      expect(result.current.viewProps.capturePhotoTrigger).toEqual(
+        expect.any(Number)
+      );
+      // Nothing has been captured yet, so the export waits for the first room.
+      expect(result.current.state.isExportQueued).toBe(true);
+    });
+
+    it.each([
+      ["finishScan", "No scan is running."],
+      ["addRoom", "No scan is running."],
+      ["exportScan", "No scan is running."],
+      ["capturePhoto", "No scan is running."],
+    ] as const)("rejects %s before start", async (control, reason) => {
+      const { result } = renderHook(() => useRoomPlanView());
+      await expect(result.current.controls[control]()).rejects.toThrow(reason);
+      expect(result.current.controls.cancel()).toEqual({ ok: false, reason });
+      expect(result.current.viewProps).toMatchObject({
+        running: false,
+        finishTrigger: undefined,
+        addAnotherTrigger: undefined,
+        exportTrigger: undefined,
+        capturePhotoTrigger: undefined,
+      });
+    });
+
+    it("rejects exportScan after cancel and start while running", async () => {
+      const { result } = renderHook(() => useRoomPlanView());
+      act(() => result.current.controls.start());
+      expect(result.current.controls.start()).toEqual({
+        ok: false,
+        reason: "A scan is already running.",
+      });
+      act(() => result.current.controls.cancel());
+      await expect(result.current.controls.exportScan()).rejects.toThrow(
+        "No scan is running."
+      );
+    });
+
+    it("startAudio and stopAudio toggle audioRunning", () => {
+      const { result } = renderHook(() => useRoomPlanView());
+      act(() => result.current.controls.startAudio());
+      expect(result.current.viewProps.audioRunning).toBe(true);
+      act(() => result.current.controls.stopAudio());
+      expect(result.current.viewProps.audioRunning).toBe(false);
+    });
+
+    it("setAutoPhotoInterval updates and clears the interval", () => {
+      const { result } = renderHook(() => useRoomPlanView());
+      act(() => result.current.controls.setAutoPhotoInterval(2));
+      expect(result.current.viewProps.autoPhotoIntervalSec).toBe(2);
+      act(() => result.current.controls.setAutoPhotoInterval(undefined));
+      expect(result.current.viewProps.autoPhotoIntervalSec).toBeUndefined();
+    });
+
+    it("reset restores the initial state and triggers", () => {
+      const { result } = renderHook(() =>
+        useRoomPlanView({ autoPhotoIntervalSec: 3 })
+      );
+      act(() => {
+        result.current.controls.start();
+        result.current.controls.finishScan();
+        result.current.controls.addRoom();
+        result.current.controls.exportScan();
+        result.current.controls.capturePhoto();
+        result.current.controls.startAudio();
+        result.current.controls.setAutoPhotoInterval(10);
+        result.current.viewProps.onPreview?.();
+        result.current.viewProps.onStatus?.(
+          statusEvent(ScanStatus.Error, "boom")
+        );
+        result.current.viewProps.onExported?.({
+          nativeEvent: { jsonUrl: "file:///a.json" },
+        });
+      });
+
+      act(() => result.current.controls.reset());
+
+      expect(result.current.viewProps).toMatchObject({
+        running: false,
+        finishTrigger: undefined,
+        addAnotherTrigger: undefined,
+        exportTrigger: undefined,
+        capturePhotoTrigger: undefined,
+        audioRunning: false,
+        autoPhotoIntervalSec: 3,
+      });
+      expect(result.current.state).toEqual(initialScanSessionState);
+    });
+
+    it("keeps control identities stable across renders", () => {
+      const { result, rerender } = renderHook(() => useRoomPlanView());
+      const controls = result.current.controls;
+      act(() => controls.start());
+      rerender({});
+      expect(result.current.controls.start).toBe(controls.start);
+      expect(result.current.controls.finishScan).toBe(controls.finishScan);
+      expect(result.current.controls.exportScan).toBe(controls.exportScan);
+    });
+  });
+
+  describe("events", () => {
+    it("records status and error messages", () => {
+      const { result } = renderHook(() => useRoomPlanView());
+      act(() =>
+        result.current.viewProps.onStatus?.(
+          statusEvent(
+            ScanStatus.Error,
+            "Camera permission is denied",
+            "CAMERA_PERMISSION_DENIED"
+          )
+        )
+      );
+      expect(result.current.state.status).toBe(ScanStatus.Error);
+      expect(result.current.state.lastError).toBeInstanceOf(RoomPlanError);
+      expect(result.current.state.lastError).toMatchObject({
+        code: "CAMERA_PERMISSION_DENIED",
+        message: "Camera permission is denied",
+        recovery: "openSettings",
+        recoverable: true,
+      });
+
+      act(() =>
+        result.current.viewProps.onStatus?.(statusEvent(ScanStatus.OK))
+      );
+      expect(result.current.state.status).toBe(ScanStatus.OK);
+      // An OK status does not clear a previous error.
+      expect(result.current.state.lastError?.code).toBe(
+        "CAMERA_PERMISSION_DENIED"
+      );
+    });
+
+    it.each([ScanStatus.OK, ScanStatus.Error, ScanStatus.Canceled])(
+      "stops running on %s when autoCloseOnTerminalStatus is set",
+      (status) => {
+        const { result } = renderHook(() =>
+          useRoomPlanView({ autoCloseOnTerminalStatus: true })
+        );
+        act(() => result.current.controls.start());
+        act(() => result.current.viewProps.onStatus?.(statusEvent(status)));
+        expect(result.current.state.isRunning).toBe(false);
+      }
+    );
+
+    it("keeps running on terminal status by default", () => {
+      const { result } = renderHook(() => useRoomPlanView());
+      act(() => result.current.controls.start());
+      act(() =>
+        result.current.viewProps.onStatus?.(statusEvent(ScanStatus.OK))
+      );
+      expect(result.current.state.isRunning).toBe(true);
+    });
+
+    it("keeps running on NotStarted even with autoCloseOnTerminalStatus", () => {
+      const { result } = renderHook(() =>
+        useRoomPlanView({ autoCloseOnTerminalStatus: true })
+      );
+      act(() => result.current.controls.start());
+      act(() =>
+        result.current.viewProps.onStatus?.(statusEvent(ScanStatus.NotStarted))
+      );
+      expect(result.current.state.isRunning).toBe(true);
+    });
+
+    it("tracks preview visibility and the last export", () => {
+      const { result } = renderHook(() => useRoomPlanView());
+      act(() => result.current.controls.start());
+      act(() => {
+        result.current.controls.finishScan();
+      });
+      act(() => result.current.viewProps.onPreview?.());
+      expect(result.current.state.isPreviewVisible).toBe(true);
+      expect(result.current.state.phase).toBe("exporting");
+
+      const nativeEvent = {
+        scanUrl: "file:///Room.usdz",
+        jsonUrl: "file:///Room.json",
+      };
+      act(() => result.current.viewProps.onExported?.({ nativeEvent }));
+      expect(result.current.state.lastExport).toEqual(nativeEvent);
+      expect(result.current.state.phase).toBe("exported");
+    });
+
+    it("forwards every event to the matching callback", () => {
+      const callbacks = {
+        onStatus: jest.fn(),
+        onPreview: jest.fn(),
+        onPhoto: jest.fn(),
+        onAudio: jest.fn(),
+        onAudioData: jest.fn(),
+        onExported: jest.fn(),
+      };
+      const { result } = renderHook(() => useRoomPlanView(callbacks));
+      const { viewProps } = result.current;
+      const status = statusEvent(ScanStatus.OK);
+      const photo = {
+        nativeEvent: { photoUrl: "file:///p.jpg", timestamp: 1 },
+      };
+      const audio = { nativeEvent: { status: "started" as const } };
+      const audioData = {
+        nativeEvent: { pcmData: "AAAA", sampleRate: 16000, timestamp: 1 },
+      };
+      const exported = { nativeEvent: { jsonUrl: "file:///Room.json" } };
+
+      act(() => {
+        viewProps.onStatus?.(status);
+        viewProps.onPreview?.();
+        viewProps.onPhoto?.(photo);
+        viewProps.onAudio?.(audio);
+        viewProps.onAudioData?.(audioData);
+        viewProps.onExported?.(exported);
+      });
+
+      expect(callbacks.onStatus).toHaveBeenCalledWith(status);
+      expect(callbacks.onPreview).toHaveBeenCalledTimes(1);
+      expect(callbacks.onPhoto).toHaveBeenCalledWith(photo);
+      expect(callbacks.onAudio).toHaveBeenCalledWith(audio);
+      expect(callbacks.onAudioData).toHaveBeenCalledWith(audioData);
+      expect(callbacks.onExported).toHaveBeenCalledWith(exported);
+    });
+
+    it("calls the latest callbacks without changing handler identity", () => {
+      const first = jest.fn();
+      const second = jest.fn();
+      const { result, rerender } = renderHook(
+        ({ onStatus }: { onStatus: jest.Mock }) =>
+          useRoomPlanView({ onStatus }),
+        { initialProps: { onStatus: first } }
+      );
+      const handler = result.current.viewProps.onStatus;
+
+      rerender({ onStatus: second });
+      expect(result.current.viewProps.onStatus).toBe(handler);
+
+      act(() =>
+        result.current.viewProps.onStatus?.(statusEvent(ScanStatus.OK))
+      );
+      expect(first).not.toHaveBeenCalled();
+      expect(second).toHaveBeenCalledTimes(1);
+    });
+
+    it("reads autoCloseOnTerminalStatus from the latest options", () => {
+      const { result, rerender } = renderHook(
+        ({ autoClose }: { autoClose: boolean }) =>
+          useRoomPlanView({ autoCloseOnTerminalStatus: autoClose }),
+        { initialProps: { autoClose: false } }
+      );
+      act(() => result.current.controls.start());
+      rerender({ autoClose: true });
+      act(() =>
+        result.current.viewProps.onStatus?.(statusEvent(ScanStatus.OK))
+      );
+      expect(result.current.state.isRunning).toBe(false);
+    });
+  });
+
+  describe("with the simulated native view", () => {
+    it("finishes, previews and exports a scan", async () => {
+      const onExported = jest.fn();
+      const hook = renderWithView({ scanName: "Bedroom", onExported });
+
+      act(() => hook.current.controls.start());
+      act(() => {
+        hook.current.controls.finishScan();
+      });
+
+      await waitFor(() => expect(onExported).toHaveBeenCalledTimes(1));
+      expect(hook.current.state.isPreviewVisible).toBe(true);
+      expect(hook.current.state.status).toBe(ScanStatus.OK);
+      expect(hook.current.state.phase).toBe("exported");
+      expect(hook.current.state.lastExport).toMatchObject({
+        scanUrl: "file:///mock/Export/Bedroom.usdz",
+        jsonUrl: "file:///mock/Export/Bedroom.json",
+      });
+
+      const json = roomPlanMock.readFile(
+        hook.current.state.lastExport!.jsonUrl!
+      );
+      expect(parseCapturedStructure(json).walls).toHaveLength(4);
+    });
+
+    it("does not export on finish when exportOnFinish is false", async () => {
+      const onExported = jest.fn();
+      const onPreview = jest.fn();
+      const hook = renderWithView({
+        exportOnFinish: false,
+        onExported,
+        onPreview,
+      });
+
+      act(() => hook.current.controls.start());
+      act(() => {
+        hook.current.controls.finishScan();
+      });
+      await waitFor(() => expect(onPreview).toHaveBeenCalled());
+      expect(onExported).not.toHaveBeenCalled();
+
+      act(() => {
+        hook.current.controls.exportScan();
+      });
+      await waitFor(() => expect(onExported).toHaveBeenCalledTimes(1));
+    });
+
+    it("queues an export requested before any room is captured", async () => {
+      const onExported = jest.fn();
+      const hook = renderWithView({ exportOnFinish: false, onExported });
+
+      act(() => hook.current.controls.start());
+      act(() => {
+        hook.current.controls.exportScan();
+      });
+      await act(() => new Promise((resolve) => setTimeout(resolve, 10)));
+      expect(onExported).not.toHaveBeenCalled();
+
+      act(() => {
+        hook.current.controls.finishScan();
+      });
+      await waitFor(() => expect(onExported).toHaveBeenCalledTimes(1));
+    });
+
+    it("omits file URLs when sendFileLoc is false", async () => {
+      const onExported = jest.fn();
+      const hook = renderWithView({ sendFileLoc: false, onExported });
+
+      act(() => hook.current.controls.start());
+      act(() => {
+        hook.current.controls.finishScan();
+      });
+      await waitFor(() => expect(onExported).toHaveBeenCalled());
+      expect(onExported.mock.calls[0][0].nativeEvent).toEqual({
+        photoUrls: [],
+        trigger: hook.current.viewProps.finishTrigger,
+      });
+    });
+
+    it("includes captured photos in the export", async () => {
+      const onPhoto = jest.fn();
+      const onExported = jest.fn();
+      const hook = renderWithView({ scanName: "Den", onPhoto, onExported });
+
+      act(() => hook.current.controls.start());
+      act(() => {
+        hook.current.controls.capturePhoto();
+      });
+      await waitFor(() => expect(onPhoto).toHaveBeenCalledTimes(1));
+      const { photoUrl } = onPhoto.mock.calls[0][0].nativeEvent;
+
+      act(() => {
+        hook.current.controls.finishScan();
+      });
+      await waitFor(() => expect(onExported).toHaveBeenCalled());
+      expect(onExported.mock.calls[0][0].nativeEvent.photoUrls).toEqual([
+        photoUrl,
+      ]);
+    });
+
+    it("stops on a start error with autoCloseOnTerminalStatus", async () => {
+      roomPlanMock.configure({
+        startError: "RoomPlan is not supported on this device.",
+      });
+      const hook = renderWithView({ autoCloseOnTerminalStatus: true });
+
+      act(() => hook.current.controls.start());
+      await waitFor(() =>
+        expect(hook.current.state.lastError).toMatchObject({
+          code: "UNSUPPORTED_DEVICE",
+          message: "RoomPlan is not supported on this device.",
+          recoverable: false,
+        })
+      );
+      expect(hook.current.state.status).toBe(ScanStatus.Error);
+      expect(hook.current.state.isRunning).toBe(false);
+    });
+
+    it("surfaces export failures", async () => {
+      roomPlanMock.configure({ exportError: "disk full" });
+      const onExported = jest.fn();
+      const hook = renderWithView({ onExported });
+
+      act(() => hook.current.controls.start());
+      act(() => {
+        hook.current.controls.finishScan();
+      });
+      await waitFor(() =>
+        expect(hook.current.state.lastError).toMatchObject({
+          code: "EXPORT_FAILED",
+          message: "Export failed: disk full",
+          recovery: "retry",
+        })
+      );
+      expect(hook.current.state.phase).toBe("error");
+      expect(onExported).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("promise-based controls", () => {
+    it("finishScan resolves with the export when exportOnFinish is set", async () => {
+      const hook = renderWithView({ scanName: "Hall" });
+      act(() => hook.current.controls.start());
+
+      let exported!: Promise<unknown>;
+      act(() => {
+        exported = hook.current.controls.finishScan();
+      });
+      await flushEvents();
+      await expect(exported).resolves.toEqual({
+        scanUrl: "file:///mock/Export/Hall.usdz",
+        jsonUrl: "file:///mock/Export/Hall.json",
+        photoUrls: [],
+        files: [
+          {
+            url: "file:///mock/Export/Hall.usdz",
+            format: "usdz",
+            size: 0,
+            checksum:
+              "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855",
+          },
+          {
+            url: "file:///mock/Export/Hall.json",
+            format: "json",
+            size: expect.any(Number),
+            checksum: expect.stringMatching(/^[0-9a-f]{64}$/),
+          },
+        ],
+      });
+    });
+
+    it("finishScan resolves with the export when autoCloseOnTerminalStatus is set", async () => {
+      const hook = renderWithView({
+        scanName: "Hall",
+        autoCloseOnTerminalStatus: true,
+      });
+      act(() => hook.current.controls.start());
+
+      let exported!: Promise<unknown>;
+      act(() => {
+        exported = hook.current.controls.finishScan();
+      });
+      await flushEvents();
+      await expect(exported).resolves.toMatchObject({
+        jsonUrl: "file:///mock/Export/Hall.json",
+      });
+      // The view closes on the OK that follows the export, not the one for the built room.
+      const statuses = roomPlanMock.events
+        .filter((e) => e.name === "onStatus" || e.name === "onExported")
+        .map((e) => e.name);
+      expect(statuses).toEqual(["onStatus", "onExported", "onStatus"]);
+      expect(hook.current.state).toMatchObject({
+        phase: "exported",
+        isRunning: false,
+      });
+    });
+
+    it("finishScan resolves once the preview is shown without exportOnFinish", async () => {
+      const hook = renderWithView({ exportOnFinish: false });
+      act(() => hook.current.controls.start());
+
+      let finished!: Promise<unknown>;
+      act(() => {
+        finished = hook.current.controls.finishScan();
+      });
+      await flushEvents();
+      await expect(finished).resolves.toBeUndefined();
+      expect(hook.current.state.phase).toBe("preview");
+
+      let exported!: Promise<unknown>;
+      act(() => {
+        exported = hook.current.controls.exportScan();
+      });
+      await flushEvents();
+      await expect(exported).resolves.toMatchObject({
+        jsonUrl: "file:///mock/Export/Room.json",
+      });
+    });
+
+    it("addRoom resolves once the room is built", async () => {
+      const hook = renderWithView();
+      act(() => hook.current.controls.start());
+
+      let added!: Promise<void>;
+      act(() => {
+        added = hook.current.controls.addRoom();
+      });
+      await flushEvents();
+      await expect(added).resolves.toBeUndefined();
+      expect(hook.current.state).toMatchObject({
+        phase: "scanning",
+        hasCapturedRoom: true,
+      });
+    });
+
+    it("settles concurrent calls with their own events", async () => {
+      const onPhoto = jest.fn();
+      const hook = renderWithView({ exportOnFinish: false, onPhoto });
+      act(() => hook.current.controls.start());
+
+      let photos: Promise<CapturedPhoto>[] = [];
+      let queuedExport!: Promise<unknown>;
+      let finished!: Promise<unknown>;
+      act(() => {
+        photos = [
+          hook.current.controls.capturePhoto(),
+          hook.current.controls.capturePhoto(),
+        ];
+        queuedExport = hook.current.controls.exportScan();
+        finished = hook.current.controls.finishScan();
+      });
+      // The second photo is sent once the first one has arrived.
+      await flushEvents();
+      await flushEvents();
+
+      const [first, second] = await Promise.all(photos);
+      expect(onPhoto).toHaveBeenCalledTimes(2);
+      expect(first.photoUrl).toBe(
+        onPhoto.mock.calls[0][0].nativeEvent.photoUrl
+      );
+      expect(second.photoUrl).toBe(
+        onPhoto.mock.calls[1][0].nativeEvent.photoUrl
+      );
+      expect(first.photoUrl).not.toBe(second.photoUrl);
+      await expect(finished).resolves.toBeUndefined();
+      await expect(queuedExport).resolves.toMatchObject({
+        jsonUrl: "file:///mock/Export/Room.json",
+      });
+    });
+
+    it("rejects with the native error message", async () => {
+      roomPlanMock.configure({ exportError: "disk full" });
+      const hook = renderWithView();
+      act(() => hook.current.controls.start());
+
+      let exported!: Promise<unknown>;
+      act(() => {
+        exported = hook.current.controls.finishScan();
+      });
+      await flushEvents();
+      await expect(exported).rejects.toThrow("Export failed: disk full");
+      await expect(exported).rejects.toMatchObject({
+        code: "EXPORT_FAILED",
+        recovery: "retry",
+      });
+    });
+
+    it("keeps pending calls when a background photo fails", async () => {
+      roomPlanMock.configure({ delayMs: 20 });
+      const hook = renderWithView();
+      act(() => hook.current.controls.start());
+
+      let exported!: Promise<unknown>;
+      act(() => {
+        exported = hook.current.controls.finishScan();
+      });
+      // The auto-photo timer sends no trigger.
+      act(() => {
+        hook.current.viewProps.onStatus?.(
+          statusEvent(
+            ScanStatus.Error,
+            "No AR frame available.",
+            "PHOTO_FAILED"
+          )
+        );
+      });
+      expect(hook.current.state.lastError?.code).toBe("PHOTO_FAILED");
+      await flushEvents(60);
+      await expect(exported).resolves.toMatchObject({
+        jsonUrl: "file:///mock/Export/Room.json",
+      });
+    });
+
+    it("rejects after the timeout", async () => {
+      roomPlanMock.configure({ delayMs: 50 });
+      const hook = renderWithView();
+      act(() => hook.current.controls.start());
+
+      let exported!: Promise<unknown>;
+      act(() => {
+        exported = hook.current.controls.finishScan({ timeoutMs: 5 });
+      });
+      await flushEvents(60);
+      await expect(exported).rejects.toThrow(
+        "RoomPlan finish timed out after 5 ms."
+      );
+      await expect(exported).rejects.toMatchObject({ code: "TIMEOUT" });
+    });
+
+    it("uses controlTimeoutMs as the default timeout", async () => {
+      roomPlanMock.configure({ delayMs: 50 });
+      const hook = renderWithView({ controlTimeoutMs: 5 });
+      act(() => hook.current.controls.start());
+
+      let photo!: Promise<unknown>;
+      act(() => {
+        photo = hook.current.controls.capturePhoto();
+      });
+      await flushEvents(60);
+      await expect(photo).rejects.toThrow(
+        "RoomPlan photo timed out after 5 ms."
+      );
+    });
+
+    it("rejects when the signal is aborted", async () => {
+      roomPlanMock.configure({ delayMs: 50 });
+      const hook = renderWithView();
+      act(() => hook.current.controls.start());
+
+      const controller = new AbortController();
+      let exported!: Promise<unknown>;
+      act(() => {
+        exported = hook.current.controls.finishScan({
+          signal: controller.signal,
+        });
+      });
+      controller.abort();
+      await expect(exported).rejects.toThrow("RoomPlan finish was aborted.");
+      await expect(exported).rejects.toMatchObject({ code: "ABORTED" });
+      await flushEvents(60);
+    });
+
+    it("rejects pending calls on cancel and unmount", async () => {
+      const { result, unmount } = renderHook(() => useRoomPlanView());
+      act(() => {
+        result.current.controls.start();
+      });
+
+      let finished!: Promise<unknown>;
+      act(() => {
+        finished = result.current.controls.finishScan();
+      });
+      act(() => {
+        result.current.controls.cancel();
+      });
+      await expect(finished).rejects.toThrow("Scan was canceled.");
+      await expect(finished).rejects.toMatchObject({ code: "CANCELED" });
+
+      act(() => {
+        result.current.controls.start();
+      });
+      let photo!: Promise<unknown>;
+      act(() => {
+        photo = result.current.controls.capturePhoto();
+      });
+      unmount();
+      await expect(photo).rejects.toThrow("RoomPlan view was unmounted.");
+      await expect(photo).rejects.toMatchObject({ code: "VIEW_CLOSED" });
+    });
+  });
+
+  describe("rooms", () => {
+    it("tracks captured rooms and reports them with onRoomAdded", async () => {
+      const onRoomAdded = jest.fn();
+      const hook = renderWithView({ exportOnFinish: false, onRoomAdded });
+      act(() => hook.current.controls.start());
+
+      let added!: Promise<void>;
+      act(() => {
+        added = hook.current.controls.addRoom();
+      });
+      await flushEvents();
+      await added;
+      act(() => {
+        hook.current.controls.capturePhoto();
+      });
+      await flushEvents();
+      act(() => {
+        hook.current.controls.finishScan();
+      });
+      await flushEvents();
+
+      expect(onRoomAdded).toHaveBeenCalledTimes(2);
+      const { rooms } = hook.current.state;
+      expect(rooms.map((r) => [r.index, r.name])).toEqual([
+        [0, "Room 1"],
+        [1, "Room 2"],
+      ]);
+      expect(rooms[0].identifier).toBe(
+        onRoomAdded.mock.calls[0][0].nativeEvent.identifier
+      );
+      expect(rooms[1].photoUrls).toHaveLength(1);
+
+      act(() => {
+        expect(
+          hook.current.controls.renameRoom(rooms[0].identifier, "Kitchen")
+        ).toEqual({ ok: true });
+      });
+      expect(hook.current.state.rooms[0].name).toBe("Kitchen");
+    });
+
+    it("ends the room being captured when the scan is canceled", async () => {
+      const onRoomAdded = jest.fn();
+      const hook = renderWithView({ exportOnFinish: false, onRoomAdded });
+      act(() => hook.current.controls.start());
+      await flushEvents();
+      act(() => hook.current.controls.cancel());
+      await flushEvents();
+
+      // Like the native view, stopping the session still builds the room and reports it.
+      const ended = roomPlanMock.events
+        .filter((e) => e.name === "onRoomAdded" || e.name === "onStatus")
+        .map((e) => e.name);
+      expect(ended).toEqual(["onRoomAdded", "onStatus"]);
+      expect(onRoomAdded).toHaveBeenCalledTimes(1);
+      // The session is over, so the room isn't added to it.
+      expect(hook.current.state).toMatchObject({
+        phase: "canceled",
+        rooms: [],
+      });
+    });
+
+    it("keeps the room being captured in liveRoom", async () => {
+      const onRoomUpdate = jest.fn();
+      const hook = renderWithView({ exportOnFinish: false, onRoomUpdate });
+      expect(hook.current.viewProps.onRoomUpdate).toBeDefined();
+      act(() => hook.current.controls.start());
+      await flushEvents();
+
+      expect(onRoomUpdate).toHaveBeenCalledTimes(1);
+      const { liveRoom } = hook.current.state;
+      expect(liveRoom).toEqual(onRoomUpdate.mock.calls[0][0].nativeEvent);
+      expect(liveRoom!.index).toBe(0);
+      expect(liveRoom!.counts).toEqual({
+        walls: 4,
+        doors: 1,
+        windows: 1,
+        openings: 0,
+        floors: 1,
+        objects: 2,
+      });
+      expect(liveRoom!.walls[0].height).toBeCloseTo(2.5);
+      expect(liveRoom!.objects[0]).toMatchObject({
+        category: "bed",
+        center: [-0.8, 0.25, -0.4],
+      });
+
+      // Capture of the next room starts over.
+      let added!: Promise<void>;
+      act(() => {
+        added = hook.current.controls.addRoom();
+      });
+      await flushEvents();
+      await added;
+      expect(onRoomUpdate).toHaveBeenCalledTimes(2);
+      expect(hook.current.state.liveRoom!.index).toBe(1);
+
+      act(() => {
+        hook.current.controls.finishScan();
+      });
+      await flushEvents();
+      expect(hook.current.state.liveRoom).toBeUndefined();
+    });
+
+    it("reports RoomPlan's guidance in currentInstruction", async () => {
+      roomPlanMock.configure({ instructions: ["moveCloseToWall", "slowDown"] });
+      const onInstruction = jest.fn();
+      const hook = renderWithView({ coachingEnabled: false, onInstruction });
+      expect(hook.current.viewProps.coachingEnabled).toBe(false);
+      act(() => hook.current.controls.start());
+      await flushEvents();
+
+      expect(
+        onInstruction.mock.calls.map(([e]) => e.nativeEvent.instruction)
+      ).toEqual(["moveCloseToWall", "slowDown"]);
+      expect(hook.current.state.currentInstruction).toBe("slowDown");
+
+      act(() => hook.current.controls.cancel());
+      expect(hook.current.state.currentInstruction).toBeUndefined();
+    });
+
+    it("leaves discarded rooms out of the export", async () => {
+      const hook = renderWithView({ exportOnFinish: false });
+      act(() => hook.current.controls.start());
+      act(() => {
+        hook.current.controls.finishScan();
+      });
+      await flushEvents();
+
+      const [room] = hook.current.state.rooms;
+      act(() => {
+        hook.current.controls.discardRoom(room.identifier);
+      });
+      expect(hook.current.viewProps.discardedRoomIds).toEqual([
+        room.identifier,
+      ]);
+      await expect(hook.current.controls.exportScan()).rejects.toThrow(
+        "Every captured room was discarded."
+      );
+    });
+
+    it("resumes a saved session", async () => {
+      const first = renderWithView({ exportOnFinish: false });
+      expect(first.current.savedSession).toBeUndefined();
+      act(() => first.current.controls.start());
+      let added!: Promise<void>;
+      act(() => {
+        added = first.current.controls.addRoom();
+      });
+      await flushEvents();
+      await added;
+      act(() => {
+        first.current.controls.renameRoom(
+          first.current.state.rooms[0].identifier,
+          "Kitchen"
+        );
+      });
+      // Stored e.g. with AsyncStorage, then read back after the app restarted.
+      const saved = JSON.parse(JSON.stringify(first.current.savedSession));
+      expect(saved.rooms).toEqual(first.current.state.rooms);
+      expect(saved.rooms[0].roomUrl).toMatch(/^file:\/\/\/mock\/Sessions\//);
+      expect(saved.worldMapUrl).toMatch(/\.arworldmap$/);
+      roomPlanMock.reset();
+
+      const hook = renderWithView({ exportOnFinish: false, resumeFrom: saved });
+      act(() => hook.current.controls.start());
+      expect(hook.current.viewProps.resumeFrom).toEqual({
+        rooms: [
+          {
+            identifier: saved.rooms[0].identifier,
+            roomUrl: saved.rooms[0].roomUrl,
+          },
+        ],
+        worldMapUrl: saved.worldMapUrl,
+      });
+      expect(hook.current.state.rooms).toEqual(saved.rooms);
+      expect(hook.current.state.currentRoom?.index).toBe(1);
+
+      act(() => {
+        added = hook.current.controls.addRoom();
+      });
+      await flushEvents();
+      await added;
+      const { rooms } = hook.current.state;
+      expect(rooms.map((r) => [r.index, r.name])).toEqual([
+        [0, "Kitchen"],
+        [1, "Room 2"],
+      ]);
+      expect(rooms[1].identifier).not.toBe(rooms[0].identifier);
+
+      let exported!: Promise<unknown>;
+      act(() => {
+        exported = hook.current.controls.exportScan();
+      });
+      await flushEvents();
+      await expect(exported).resolves.toMatchObject({
+        jsonUrl: expect.any(String),
+      });
+    });
+
+    it("reports a session that can't be resumed", async () => {
+      roomPlanMock.configure({ resumeError: "The scanned area wasn't found." });
+      const resumeFrom = {
+        version: 1 as const,
+        rooms: [
+          {
+            index: 0,
+            identifier: "room-0",
+            name: "Room 1",
+            story: 0,
+            startedAt: 0,
+            capturedAt: 1,
+            photoUrls: [],
+          },
+        ],
+        discardedRoomIds: [],
+      };
+      const hook = renderWithView({ resumeFrom });
+      act(() => {
+        expect(hook.current.controls.start()).toEqual({
+          ok: false,
+          reason: "Room 1 can't be resumed: its room data was not saved.",
+        });
+      });
+
+      const saved = {
+        ...resumeFrom,
+        rooms: [{ ...resumeFrom.rooms[0], roomUrl: "file:///gone.json" }],
+      };
+      const resumed = renderWithView({ resumeFrom: saved });
+      act(() => resumed.current.controls.start());
+      await flushEvents();
+      expect(resumed.current.state.phase).toBe("error");
+      expect(resumed.current.state.lastError).toMatchObject({
+        code: "RESUME_FAILED",
+        message: "The scanned area wasn't found.",
+        recovery: "restartScan",
+      });
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { act } from "@testing-library/react-native";
+
+import type { CapturedStructure } from "../CapturedStructure.types";
+import { roomPlanMock, sampleCapturedStructureJson } from "../mock";
+import { parseCapturedStructure } from "../parseCapturedStructure";
+import { validateScan } from "../validateScan";
+import { flushEvents, renderWithView } from "./renderWithView";
+
+afterEach(() => {
+  roomPlanMock.reset();
+});
+
+const structure = parseCapturedStructure(sampleCapturedStructureJson);
+const [north, east, south, west] = structure.walls;
+const [bed] = structure.objects;
+
+const codes = (s: CapturedStructure) =>
+  validateScan(s).issues.map((i) => [i.code, i.severity]);
+
+describe("validateScan", () => {
+  it("passes a complete scan", () => {
+    expect(validateScan(structure)).toEqual({
+      score: 100,
+      grade: "good",
+      passed: true,
+      issues: [],
+    });
+  });
+
+  it("reports low confidence and walls that weren't fully seen", () => {
+    const report = validateScan({
+      ...structure,
+      walls: [
+        { ...north, confidence: "low" },
+        { ...east, completedEdges: ["left", "right"] },
+        south,
+        west,
+      ],
+    });
+    expect(report.issues).toEqual([
+      expect.objectContaining({
+        code: "lowConfidence",
+        severity: "warning",
+        identifiers: [north.identifier],
+        story: 0,
+      }),
+      expect.objectContaining({
+        code: "incompleteEdges",
+        message: "The top and bottom edges of a wall weren't fully seen.",
+        identifiers: [east.identifier],
+      }),
+    ]);
+    expect(report).toMatchObject({ score: 90, grade: "good", passed: true });
+    for (const issue of report.issues) expect(issue.action).toBeTruthy();
+  });
+
+  it("finds a room that isn't closed", () => {
+    const report = validateScan({ ...structure, walls: [east, south, west] });
+    expect(
+      report.issues.map((i) => [i.code, i.severity, i.identifiers])
+    ).toEqual([
+      ["openWallLoop", "error", [east.identifier]],
+      ["openWallLoop", "error", [west.identifier]],
+      ["floorWithoutWalls", "warning", [structure.floors[0].identifier]],
+    ]);
+    expect(report.issues[2].message).toBe(
+      "4 m of a floor's outline has no wall along it."
+    );
+    expect(report).toMatchObject({ score: 55, grade: "fair", passed: false });
+  });
+
+  it("finds floors without walls, duplicate objects and odd dimensions", () => {
+    const [door] = structure.doors;
+    expect(
+      codes({
+        ...structure,
+        walls: [],
+        doors: [{ ...door, dimensions: [5, 2, 0] }],
+        objects: [
+          ...structure.objects,
+          {
+            ...bed,
+            identifier: "BED-2",
+            transform: bed.transform.map((v, i) =>
+              i === 12 ? v + 0.1 : v
+            ) as typeof bed.transform,
+          },
+        ],
+      })
+    ).toEqual([
+      ["noWalls", "error"],
+      ["floorWithoutWalls", "error"],
+      ["implausibleDimensions", "warning"],
+      ["overlappingObjects", "warning"],
+    ]);
+    expect(
+      validateScan(
+        { ...structure, walls: [] },
+        { ignore: ["noWalls", "floorWithoutWalls"] }
+      ).issues
+    ).toEqual([]);
+  });
+});
+
+describe("useRoomPlanView qualityReport", () => {
+  it("checks every export read through exportStorage", async () => {
+    const hook = renderWithView({ exportStorage: roomPlanMock.storage });
+    expect(hook.current.state.qualityReport).toBeUndefined();
+    act(() => hook.current.controls.start());
+    let exported!: Promise<unknown>;
+    act(() => {
+      exported = hook.current.controls.finishScan();
+    });
+    await flushEvents();
+    await exported;
+    expect(hook.current.state.qualityReport).toEqual(validateScan(structure));
+
+    act(() => hook.current.controls.reset());
+    expect(hook.current.state.qualityReport).toBeUndefined();
+  });
+
+  it("can be turned off", async () => {
+    const hook = renderWithView({
+      exportStorage: roomPlanMock.storage,
+      qualityCheck: false,
+    });
+    act(() => hook.current.controls.start());
+    act(() => {
+      hook.current.controls.finishScan();
+    });
+    await flushEvents();
+    expect(hook.current.state.lastExport).toBeDefined();
+    expect(hook.current.state.qualityReport).toBeUndefined();
+  });
+});
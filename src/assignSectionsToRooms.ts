@@ -0,0 +1,48 @@
+import type {
+  CapturedSection,
+  CapturedStructure,
+} from "./CapturedStructure.types";
+import type { ScannedRoom } from "./scanSession";
+
+/**
+ * A section of the exported structure together with the room it was captured in.
+ */
+export type RoomSection = CapturedSection & {
+  /** The room from `state.rooms` this section belongs to, or `undefined` when it can't be told. */
+  room?: ScannedRoom;
+};
+
+/**
+ * Associate the sections of an exported structure with the rooms tracked in `state.rooms`, so that
+ * "bedroom" can be shown as "Guest room" or grouped per named room.
+ *
+ * Rooms are matched by `identifier`. When the identifiers don't line up but the structure holds as
+ * many rooms as `rooms`, they are matched by position. A structure without a `rooms` list is matched
+ * to the only room when there is exactly one.
+ *
+ * @param structure A structure returned by {@link parseCapturedStructure}.
+ * @param rooms `state.rooms` from {@link useRoomPlanView} at the time of the export.
+ * @example
+ * ```ts
+ * const sections = assignSectionsToRooms(structure, state.rooms);
+ * sections.map((s) => `${s.room?.name ?? "Unknown"}: ${s.label}`);
+ * ```
+ */
+export function assignSectionsToRooms(
+  structure: CapturedStructure,
+  rooms: ScannedRoom[]
+): RoomSection[] {
+  if (structure.rooms.length === 0) {
+    const room = rooms.length === 1 ? rooms[0] : undefined;
+    return structure.sections.map((section) => ({ ...section, room }));
+  }
+
+  const byIdentifier = new Map(rooms.map((r) => [r.identifier, r]));
+  const byPosition = structure.rooms.length === rooms.length;
+  return structure.rooms.flatMap((captured, i) => {
+    const room =
+      byIdentifier.get(captured.identifier) ??
+      (byPosition ? rooms[i] : undefined);
+    return captured.sections.map((section) => ({ ...section, room }));
+  });
+}
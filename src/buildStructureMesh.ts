@@ -0,0 +1,307 @@
+import type {
+  CapturedObject,
+  CapturedStructure,
+  CapturedSurface,
+  ObjectCategory,
+  SurfaceCategory,
+  Transform4x4,
+  Vector3,
+} from "./CapturedStructure.types";
+import {
+  filterStory,
+  inverseTransformPoint,
+  toPlan,
+  transformPoint,
+  translationOf,
+  triangulatePolygon,
+} from "./planGeometry";
+
+/**
+ * Options for {@link buildStructureMesh}.
+ */
+export type StructureMeshOptions = {
+  /** Only build elements on this story. Builds every story when omitted. */
+  story?: number;
+  /** Thickness walls are extruded to, in metres. Defaults to `0.15`. */
+  wallThickness?: number;
+  /** Add a box for every object. Defaults to `true`. */
+  includeObjects?: boolean;
+  /** Fill windows with a pane and closed doors with a leaf. Defaults to `true`. */
+  includeOpenings?: boolean;
+};
+
+/**
+ * Triangles of one wall, floor, door, window or object, in world space (metres, y up).
+ */
+export type StructureMeshPart = {
+  /** `<category>-<identifier>`, e.g. `wall-6A1C41C8-…`. */
+  name: string;
+  identifier: string;
+  parentIdentifier?: string;
+  category: SurfaceCategory | ObjectCategory;
+  story: number;
+  /** Vertex positions as x, y, z triples. */
+  positions: number[];
+  /** Unit vertex normals as x, y, z triples, one per vertex. */
+  normals: number[];
+  /** Three vertex indices per triangle, counter-clockwise seen from the front. */
+  indices: number[];
+};
+
+const OPENING_DEPTH = 0.02;
+
+type Mesh = Pick<StructureMeshPart, "positions" | "normals" | "indices">;
+
+function sub(a: Vector3, b: Vector3): Vector3 {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function rotate(t: Transform4x4, v: Vector3): Vector3 {
+  return sub(transformPoint(t, v), translationOf(t));
+}
+
+/**
+ * Append a flat convex polygon. The winding is chosen so that the front faces along `normal`.
+ */
+function addFace(mesh: Mesh, corners: Vector3[], normal: Vector3) {
+  const [a, b, c] = corners;
+  const ab = sub(b, a);
+  const ac = sub(c, a);
+  const facing =
+    (ab[1] * ac[2] - ab[2] * ac[1]) * normal[0] +
+    (ab[2] * ac[0] - ab[0] * ac[2]) * normal[1] +
+    (ab[0] * ac[1] - ab[1] * ac[0]) * normal[2];
+  const ordered = facing < 0 ? [...corners].reverse() : corners;
+  const base = mesh.positions.length / 3;
+  for (const p of ordered) {
+    mesh.positions.push(...p);
+    mesh.normals.push(...normal);
+  }
+  for (let i = 1; i < ordered.length - 1; i++) {
+    mesh.indices.push(base, base + i, base + i + 1);
+  }
+}
+
+/** Append the six faces of a box of `size` centred on the origin of `t`. */
+function addBox(mesh: Mesh, t: Transform4x4, size: Vector3) {
+  const [hx, hy, hz] = size.map((s) => s / 2);
+  const at = (x: number, y: number, z: number) =>
+    transformPoint(t, [x * hx, y * hy, z * hz]);
+  for (const axis of [0, 1, 2]) {
+    for (const sign of [-1, 1]) {
+      const normal: Vector3 = [0, 0, 0];
+      normal[axis] = sign;
+      // The two axes spanning this face.
+      const u = (axis + 1) % 3;
+      const v = (axis + 2) % 3;
+      const corner = (su: number, sv: number) => {
+        const p = [0, 0, 0];
+        p[axis] = sign;
+        p[u] = su;
+        p[v] = sv;
+        return at(p[0], p[1], p[2]);
+      };
+      addFace(
+        mesh,
+        [corner(-1, -1), corner(1, -1), corner(1, 1), corner(-1, 1)],
+        rotate(t, normal)
+      );
+    }
+  }
+}
+
+/**
+ * Extrude a wall to `thickness` and cut out the doors, windows and openings it hosts.
+ *
+ * The wall face is split along every cutout edge into a grid; cells outside the cutouts become the
+ * front and back faces, and every cell edge that borders a cutout or the wall outline gets a side
+ * face, which produces the reveals around doors and windows.
+ */
+function addWall(
+  mesh: Mesh,
+  wall: CapturedSurface,
+  cutouts: CapturedSurface[],
+  thickness: number
+) {
+  const [width, height] = wall.dimensions;
+  const hw = width / 2;
+  const hh = height / 2;
+  const clamp = (n: number, limit: number) =>
+    Math.max(-limit, Math.min(limit, n));
+
+  const holes = cutouts
+    .map((o) => {
+      const [cx, cy] = inverseTransformPoint(
+        wall.transform,
+        translationOf(o.transform)
+      );
+      const [w, h] = o.dimensions;
+      return {
+        minX: clamp(cx - w / 2, hw),
+        maxX: clamp(cx + w / 2, hw),
+        minY: clamp(cy - h / 2, hh),
+        maxY: clamp(cy + h / 2, hh),
+      };
+    })
+    .filter((r) => r.maxX - r.minX > 1e-6 && r.maxY - r.minY > 1e-6);
+
+  const breaks = (values: number[]) =>
+    [...new Set(values.map((v) => Math.round(v * 1e6) / 1e6))].sort(
+      (a, b) => a - b
+    );
+  const xs = breaks([-hw, hw, ...holes.flatMap((r) => [r.minX, r.maxX])]);
+  const ys = breaks([-hh, hh, ...holes.flatMap((r) => [r.minY, r.maxY])]);
+  const solid = (i: number, j: number) => {
+    if (i < 0 || j < 0 || i >= xs.length - 1 || j >= ys.length - 1) {
+      return false;
+    }
+    const x = (xs[i] + xs[i + 1]) / 2;
+    const y = (ys[j] + ys[j + 1]) / 2;
+    return !holes.some(
+      (r) => x > r.minX && x < r.maxX && y > r.minY && y < r.maxY
+    );
+  };
+
+  const t = wall.transform;
+  const hz = thickness / 2;
+  const at = (x: number, y: number, z: number) => transformPoint(t, [x, y, z]);
+  const dir = (x: number, y: number, z: number) => rotate(t, [x, y, z]);
+
+  for (let i = 0; i < xs.length - 1; i++) {
+    for (let j = 0; j < ys.length - 1; j++) {
+      if (!solid(i, j)) continue;
+      const [x0, x1, y0, y1] = [xs[i], xs[i + 1], ys[j], ys[j + 1]];
+      for (const z of [hz, -hz]) {
+        addFace(
+          mesh,
+          [at(x0, y0, z), at(x1, y0, z), at(x1, y1, z), at(x0, y1, z)],
+          dir(0, 0, Math.sign(z))
+        );
+      }
+      if (!solid(i - 1, j)) {
+        addFace(
+          mesh,
+          [at(x0, y0, -hz), at(x0, y0, hz), at(x0, y1, hz), at(x0, y1, -hz)],
+          dir(-1, 0, 0)
+        );
+      }
+      if (!solid(i + 1, j)) {
+        addFace(
+          mesh,
+          [at(x1, y0, -hz), at(x1, y0, hz), at(x1, y1, hz), at(x1, y1, -hz)],
+          dir(1, 0, 0)
+        );
+      }
+      if (!solid(i, j - 1)) {
+        addFace(
+          mesh,
+          [at(x0, y0, -hz), at(x1, y0, -hz), at(x1, y0, hz), at(x0, y0, hz)],
+          dir(0, -1, 0)
+        );
+      }
+      if (!solid(i, j + 1)) {
+        addFace(
+          mesh,
+          [at(x0, y1, -hz), at(x1, y1, -hz), at(x1, y1, hz), at(x0, y1, hz)],
+          dir(0, 1, 0)
+        );
+      }
+    }
+  }
+}
+
+/** Append a floor outline, facing up and down so it can be seen from either side. */
+function addFloor(mesh: Mesh, floor: CapturedSurface) {
+  const [w, h] = floor.dimensions;
+  const corners: Vector3[] = floor.polygonCorners.length
+    ? floor.polygonCorners
+    : [
+        [-w / 2, -h / 2, 0],
+        [w / 2, -h / 2, 0],
+        [w / 2, h / 2, 0],
+        [-w / 2, h / 2, 0],
+      ];
+  const points = corners.map((c) => transformPoint(floor.transform, c));
+  for (const [a, b, c] of triangulatePolygon(points.map(toPlan))) {
+    const triangle = [points[a], points[b], points[c]];
+    addFace(mesh, triangle, [0, 1, 0]);
+    addFace(mesh, triangle, [0, -1, 0]);
+  }
+}
+
+function part(
+  item: CapturedSurface | CapturedObject,
+  build: (mesh: Mesh) => void
+): StructureMeshPart {
+  const mesh: Mesh = { positions: [], normals: [], indices: [] };
+  build(mesh);
+  return {
+    name: `${item.category}-${item.identifier}`,
+    identifier: item.identifier,
+    parentIdentifier: item.parentIdentifier,
+    category: item.category,
+    story: item.story,
+    ...mesh,
+  };
+}
+
+/**
+ * Turn an exported structure into triangle meshes: walls extruded to `wallThickness` with their
+ * doors, windows and openings cut out, floors from their outlines, and a box for every object.
+ * Curved walls are built straight across their chord.
+ *
+ * The result is plain arrays in world space, shared by the glTF, OBJ and PLY exporters and usable
+ * for custom ones.
+ *
+ * @param structure A structure returned by {@link parseCapturedStructure}.
+ * @example
+ * ```ts
+ * const parts = buildStructureMesh(structure, { includeObjects: false });
+ * const triangles = parts.reduce((n, p) => n + p.indices.length / 3, 0);
+ * ```
+ */
+export function buildStructureMesh(
+  structure: CapturedStructure,
+  options: StructureMeshOptions = {}
+): StructureMeshPart[] {
+  const {
+    story,
+    wallThickness = 0.15,
+    includeObjects = true,
+    includeOpenings = true,
+  } = options;
+  const s = story === undefined ? structure : filterStory(structure, story);
+  const openings = [...s.doors, ...s.windows, ...s.openings];
+  const parts: StructureMeshPart[] = [];
+
+  for (const floor of s.floors) {
+    parts.push(part(floor, (mesh) => addFloor(mesh, floor)));
+  }
+  for (const wall of s.walls) {
+    const cutouts = openings.filter(
+      (o) => o.parentIdentifier === wall.identifier
+    );
+    parts.push(
+      part(wall, (mesh) => addWall(mesh, wall, cutouts, wallThickness))
+    );
+  }
+  if (includeOpenings) {
+    for (const o of [...s.doors, ...s.windows]) {
+      if (o.isOpen) continue;
+      const [w, h] = o.dimensions;
+      parts.push(
+        part(o, (mesh) => addBox(mesh, o.transform, [w, h, OPENING_DEPTH]))
+      );
+    }
+  }
+  if (includeObjects) {
+    for (const object of s.objects) {
+      parts.push(
+        part(object, (mesh) =>
+          addBox(mesh, object.transform, object.dimensions)
+        )
+      );
+    }
+  }
+  return parts;
+}
@@ -0,0 +1,188 @@
+import { ExportType } from "./ExpoRoomplan.types";
+import type { RoomPlanExportFormat } from "./ExpoRoomplanView.types";
+import { generatedFormats } from "./exportFormats";
+
+/**
+ * Options of the `RoomBuilder` that builds each captured room.
+ *
+ * - `beautifyObjects`: straighten and align object boxes; without it objects keep the geometry
+ *   RoomPlan detected.
+ */
+export type RoomBuilderOption = "beautifyObjects";
+
+/**
+ * Options of the `StructureBuilder` that merges the captured rooms on export.
+ *
+ * - `beautifyObjects`: straighten and align object boxes again across rooms.
+ */
+export type StructureBuilderOption = "beautifyObjects";
+
+/**
+ * Options applied when the scan is exported.
+ */
+export type CaptureExportConfig = {
+  /** USDZ export mode. Overrides the `exportType` prop. Defaults to `ExportType.Parametric`. */
+  exportType?: ExportType;
+  /** Indent the exported JSON. Defaults to `false`. */
+  prettyPrintJson?: boolean;
+};
+
+/**
+ * How RoomPlan captures, builds and exports a scan, passed as `captureConfig` to
+ * {@link RoomPlanView} or {@link useRoomPlanView}. Every field is optional; leaving one out keeps
+ * RoomPlan's usual behaviour.
+ */
+export type RoomPlanCaptureConfig = {
+  /** Show RoomPlan's coaching overlay. Overrides the `coachingEnabled` prop. Defaults to `true`. */
+  coachingEnabled?: boolean;
+  /** Defaults to `["beautifyObjects"]`; pass `[]` to keep raw object geometry. Applies to rooms captured afterwards. */
+  roomBuilderOptions?: RoomBuilderOption[];
+  /** Defaults to `["beautifyObjects"]`; pass `[]` to keep raw object geometry in exports. */
+  structureBuilderOptions?: StructureBuilderOption[];
+  export?: CaptureExportConfig;
+};
+
+/** A {@link RoomPlanCaptureConfig} with every default filled in, as sent to the native view. */
+export type ResolvedCaptureConfig = {
+  coachingEnabled: boolean;
+  roomBuilderOptions: RoomBuilderOption[];
+  structureBuilderOptions: StructureBuilderOption[];
+  export: Required<CaptureExportConfig>;
+};
+
+/** The other props {@link resolveCaptureConfig} checks the config against. */
+export type CaptureConfigContext = {
+  coachingEnabled?: boolean;
+  exportType?: ExportType;
+  exportFormats?: RoomPlanExportFormat[];
+};
+
+const BUILDER_OPTIONS: string[] = ["beautifyObjects"];
+const EXPORT_TYPES: string[] = Object.values(ExportType);
+
+function builderOptions<T extends string>(
+  name: string,
+  value: T[] | undefined,
+  warnings: string[]
+): T[] {
+  if (value === undefined) return ["beautifyObjects" as T];
+  if (!Array.isArray(value)) {
+    warnings.push(`captureConfig.${name} must be an array; using the default.`);
+    return ["beautifyObjects" as T];
+  }
+  const known = value.filter((option) => {
+    if (BUILDER_OPTIONS.includes(option)) return true;
+    warnings.push(
+      `Unknown captureConfig.${name} value "${option}"; it is ignored.`
+    );
+    return false;
+  });
+  return Array.from(new Set(known));
+}
+
+/**
+ * Fill in the defaults of a {@link RoomPlanCaptureConfig} and explain what in it won't work as
+ * written: unknown values, settings that contradict the `coachingEnabled` or `exportType` props,
+ * and settings with no effect given `exportFormats`. `RoomPlanView` logs these warnings with
+ * `console.warn` in development and uses the resolved config either way.
+ *
+ * @param config The `captureConfig` prop.
+ * @param context The view's other props.
+ * @example
+ * ```ts
+ * const { warnings } = resolveCaptureConfig(
+ *   { export: { exportType: ExportType.Mesh } },
+ *   { exportFormats: ["json"] }
+ * );
+ * // ['captureConfig.export.exportType has no effect without "usdz" in exportFormats.']
+ * ```
+ */
+export function resolveCaptureConfig(
+  config: RoomPlanCaptureConfig = {},
+  context: CaptureConfigContext = {}
+): { config: ResolvedCaptureConfig; warnings: string[] } {
+  const warnings: string[] = [];
+  const { exportFormats } = context;
+
+  let coachingEnabled = context.coachingEnabled ?? true;
+  if (config.coachingEnabled !== undefined) {
+    if (typeof config.coachingEnabled !== "boolean") {
+      warnings.push("captureConfig.coachingEnabled must be a boolean.");
+    } else {
+      if (
+        context.coachingEnabled !== undefined &&
+        context.coachingEnabled !== config.coachingEnabled
+      ) {
+        warnings.push(
+          "coachingEnabled and captureConfig.coachingEnabled disagree; using captureConfig."
+        );
+      }
+      coachingEnabled = config.coachingEnabled;
+    }
+  }
+
+  const roomBuilderOptions = builderOptions<RoomBuilderOption>(
+    "roomBuilderOptions",
+    config.roomBuilderOptions,
+    warnings
+  );
+  const structureBuilderOptions = builderOptions<StructureBuilderOption>(
+    "structureBuilderOptions",
+    config.structureBuilderOptions,
+    warnings
+  );
+  if (
+    !roomBuilderOptions.includes("beautifyObjects") &&
+    structureBuilderOptions.includes("beautifyObjects")
+  ) {
+    warnings.push(
+      'Rooms keep raw objects but structureBuilderOptions beautifies them again on export; leave "beautifyObjects" out of both to export raw objects.'
+    );
+  }
+
+  const exportConfig = config.export ?? {};
+  let exportType = context.exportType ?? ExportType.Parametric;
+  if (exportConfig.exportType !== undefined) {
+    if (!EXPORT_TYPES.includes(exportConfig.exportType)) {
+      warnings.push(
+        `Unknown captureConfig.export.exportType "${exportConfig.exportType}"; using ${exportType}.`
+      );
+    } else {
+      if (
+        context.exportType !== undefined &&
+        context.exportType !== exportConfig.exportType
+      ) {
+        warnings.push(
+          "exportType and captureConfig.export.exportType disagree; using captureConfig."
+        );
+      }
+      exportType = exportConfig.exportType;
+      if (exportFormats && !exportFormats.includes("usdz")) {
+        warnings.push(
+          'captureConfig.export.exportType has no effect without "usdz" in exportFormats.'
+        );
+      }
+    }
+  }
+  const prettyPrintJson = !!exportConfig.prettyPrintJson;
+  if (
+    prettyPrintJson &&
+    exportFormats &&
+    !exportFormats.includes("json") &&
+    generatedFormats(exportFormats).length === 0
+  ) {
+    warnings.push(
+      'captureConfig.export.prettyPrintJson has no effect without "json" in exportFormats.'
+    );
+  }
+
+  return {
+    config: {
+      coachingEnabled,
+      roomBuilderOptions,
+      structureBuilderOptions,
+      export: { exportType, prettyPrintJson },
+    },
+    warnings,
+  };
+}
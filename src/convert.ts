@@ -0,0 +1,75 @@
+// Entry point for `expo-roomplan/convert`: everything here is plain TypeScript without native
+// modules or React, so it can be imported in Node, e.g. to convert uploaded scans on a server.
+export type * from "./CapturedStructure.types";
+export {
+  parseCapturedStructure,
+  CapturedStructureParseError,
+} from "./parseCapturedStructure";
+export type { CapturedStructureIssue } from "./parseCapturedStructure";
+export type { MeasurementUnits } from "./units";
+export { measureStructure } from "./measureStructure";
+export type {
+  MeasureStructureOptions,
+  MeasurementReport,
+} from "./measureStructure";
+export { renderFloorPlanSvg } from "./renderFloorPlanSvg";
+export { validateScan } from "./validateScan";
+export type {
+  ScanIssue,
+  ScanIssueCode,
+  ScanQualityReport,
+  ValidateScanOptions,
+} from "./validateScan";
+export { diffStructures } from "./diffStructures";
+export type {
+  DiffStructuresOptions,
+  StructureAlignment,
+  StructureDiff,
+  StructureElementDiff,
+  StructureElementKind,
+} from "./diffStructures";
+export { renderStructureDiffSvg } from "./renderStructureDiffSvg";
+export type {
+  StructureDiffSvgOptions,
+  StructureDiffTheme,
+} from "./renderStructureDiffSvg";
+export { buildStructureMesh } from "./buildStructureMesh";
+export type {
+  StructureMeshOptions,
+  StructureMeshPart,
+} from "./buildStructureMesh";
+export { toGltf, toGlb } from "./toGltf";
+export type { GltfOptions, GltfDocument, GltfColor } from "./toGltf";
+export { toDxf } from "./toDxf";
+export type { DxfOptions, DxfLayerCategory } from "./toDxf";
+export { toIfc, toIfcGuid } from "./toIfc";
+export type { IfcOptions } from "./toIfc";
+export { toObj } from "./toObj";
+export type { ObjOptions, ObjFiles } from "./toObj";
+export { toPly } from "./toPly";
+export type { PlyOptions } from "./toPly";
+export { StructureExportType } from "./ExpoRoomplan.types";
+export { exportStructure } from "./exportStructure";
+export type {
+  ExportStructureOptions,
+  StructureExportFile,
+} from "./exportStructure";
+export type {
+  RoomPlanExport,
+  RoomPlanExportFormat,
+  ExportedFile,
+} from "./ExpoRoomplanView.types";
+export type { ScanStorage } from "./scanStorage";
+export { createMemoryScanStorage } from "./scanStorage";
+export { writeExportFormats } from "./exportFormats";
+export type { WriteExportFormatsOptions } from "./exportFormats";
+export { runExportPipeline } from "./exportPipeline";
+export type {
+  ExportArtifacts,
+  ExportPipelineOptions,
+  ExportPipelineProgress,
+  ExportPipelineResult,
+  ExportPipelineStep,
+  ExportProcessor,
+  ExportProcessorContext,
+} from "./exportPipeline";
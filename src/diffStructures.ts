@@ -0,0 +1,492 @@
+import type {
+  CapturedObject,
+  CapturedStructure,
+  CapturedSurface,
+  ObjectCategory,
+  SurfaceCategory,
+  Vector3,
+} from "./CapturedStructure.types";
+import {
+  multiplyTransforms,
+  surfaceSegment,
+  translationOf,
+  yawOf,
+  yawTransform,
+} from "./planGeometry";
+
+/** Kind of element compared by {@link diffStructures}. Floors and sections are not compared. */
+export type StructureElementKind =
+  | "wall"
+  | "door"
+  | "window"
+  | "opening"
+  | "object";
+
+/**
+ * Rigid transform that maps the second structure of a diff into the coordinates of the first: a
+ * rotation of `yaw` radians about the vertical axis followed by `translation` in metres.
+ */
+export type StructureAlignment = {
+  yaw: number;
+  translation: Vector3;
+  /**
+   * How it was found: from elements with the same identifier in both scans, by fitting the walls
+   * and objects of one scan onto the other, or not at all (`align: false` or nothing to align).
+   */
+  method: "identifier" | "geometry" | "none";
+};
+
+/**
+ * How one wall, door, window, opening or object differs between two scans.
+ */
+export type StructureElementDiff = {
+  kind: StructureElementKind;
+  category: SurfaceCategory | ObjectCategory;
+  story: number;
+  /**
+   * `added` and `removed` elements are only in the second or the first scan. Elements in both are
+   * `changed` when they moved or were resized, otherwise `unchanged`.
+   */
+  status: "added" | "removed" | "changed" | "unchanged";
+  /** The element in the first scan. */
+  before?: CapturedSurface | CapturedObject;
+  /** The element in the second scan, with its transform mapped into the first scan's coordinates. */
+  after?: CapturedSurface | CapturedObject;
+  /** How `before` and `after` were paired. */
+  matchedBy?: "identifier" | "geometry";
+  /** Whether the centre moved or the element turned by more than the tolerances. */
+  moved: boolean;
+  /** Whether any dimension changed by more than `resizeTolerance`. */
+  resized: boolean;
+  /** Movement of the centre in metres, in the first scan's coordinates. */
+  displacement?: Vector3;
+  /** Length of `displacement` in metres. */
+  distance?: number;
+  /** Turn about the vertical axis in radians, between -π and π (-π/2 and π/2 for surfaces). */
+  rotation?: number;
+  /** Width, height and depth of `after` minus those of `before`, in metres. */
+  dimensionDelta?: Vector3;
+};
+
+/**
+ * Result of {@link diffStructures}.
+ */
+export type StructureDiff = {
+  alignment: StructureAlignment;
+  /** Every compared element of both scans: first those of the first scan, then the added ones. */
+  elements: StructureElementDiff[];
+  added: StructureElementDiff[];
+  removed: StructureElementDiff[];
+  /** Elements in both scans that moved, including those that were also resized. */
+  moved: StructureElementDiff[];
+  /** Elements in both scans that were resized, including those that also moved. */
+  resized: StructureElementDiff[];
+};
+
+/**
+ * Options for {@link diffStructures}.
+ */
+export type DiffStructuresOptions = {
+  /**
+   * Align the second scan onto the first before comparing. Turn off when both scans share a
+   * coordinate system, e.g. a relocalised session. Defaults to `true`.
+   */
+  align?: boolean;
+  /** Furthest apart in metres two elements without a common identifier can be and still pair up. Defaults to `1`. */
+  matchDistance?: number;
+  /** Displacement in metres below which an element counts as not moved. Defaults to `0.05`. */
+  moveTolerance?: number;
+  /** Turn in radians below which an element counts as not moved. Defaults to 5°. */
+  rotationTolerance?: number;
+  /** Change of any dimension in metres below which an element counts as not resized. Defaults to `0.05`. */
+  resizeTolerance?: number;
+};
+
+type Element = {
+  kind: StructureElementKind;
+  item: CapturedSurface | CapturedObject;
+};
+
+type Pair = { a: Element; b: Element; by: "identifier" | "geometry" };
+
+const KINDS: [
+  StructureElementKind,
+  (s: CapturedStructure) => Element["item"][]
+][] = [
+  ["wall", (s) => s.walls],
+  ["door", (s) => s.doors],
+  ["window", (s) => s.windows],
+  ["opening", (s) => s.openings],
+  ["object", (s) => s.objects],
+];
+
+// Walls facing further apart than this can't be the same wall.
+const MAX_WALL_TURN = Math.PI / 6;
+
+function elementsOf(structure: CapturedStructure): Element[] {
+  return KINDS.flatMap(([kind, list]) =>
+    list(structure).map((item) => ({ kind, item }))
+  );
+}
+
+/** Angle in (-π, π], or in (-π/2, π/2] when `halfTurn` is set. */
+function wrapAngle(angle: number, halfTurn = false): number {
+  const period = halfTurn ? Math.PI : 2 * Math.PI;
+  let a = angle % period;
+  if (a > period / 2) a -= period;
+  if (a <= -period / 2) a += period;
+  return a;
+}
+
+function sameKind(a: Element, b: Element): boolean {
+  return (
+    a.kind === b.kind &&
+    a.item.category === b.item.category &&
+    a.item.story === b.item.story
+  );
+}
+
+function centreDistance(a: Element, b: Element): number {
+  const [ax, ay, az] = translationOf(a.item.transform);
+  const [bx, by, bz] = translationOf(b.item.transform);
+  return Math.hypot(bx - ax, by - ay, bz - az);
+}
+
+/** Whether two elements could be the same one, judging by their orientation. */
+function compatible(a: Element, b: Element): boolean {
+  if (a.kind === "object") return true;
+  const turn = yawOf(b.item.transform) - yawOf(a.item.transform);
+  return Math.abs(wrapAngle(turn, true)) <= MAX_WALL_TURN;
+}
+
+function applyAlignment<T extends Element["item"]>(
+  item: T,
+  alignment: StructureAlignment
+): T {
+  if (alignment.method === "none") return item;
+  const m = yawTransform(alignment.yaw, alignment.translation);
+  return { ...item, transform: multiplyTransforms(m, item.transform) };
+}
+
+/**
+ * Least-squares rigid alignment of `from` onto `to` about the vertical axis (2D Procrustes on the
+ * floor plane, mean offset vertically).
+ */
+function fitAlignment(
+  from: Vector3[],
+  to: Vector3[]
+): Pick<StructureAlignment, "yaw" | "translation"> {
+  const mean = (points: Vector3[]) =>
+    points
+      .reduce<Vector3>(
+        (acc, p) => [acc[0] + p[0], acc[1] + p[1], acc[2] + p[2]],
+        [0, 0, 0]
+      )
+      .map((v) => v / points.length) as Vector3;
+  const mb = mean(from);
+  const ma = mean(to);
+  let dot = 0;
+  let cross = 0;
+  from.forEach((q, i) => {
+    const p = to[i];
+    const [qx, qz] = [q[0] - mb[0], q[2] - mb[2]];
+    const [px, pz] = [p[0] - ma[0], p[2] - ma[2]];
+    dot += px * qx + pz * qz;
+    cross += px * qz - pz * qx;
+  });
+  const yaw = dot === 0 && cross === 0 ? 0 : Math.atan2(cross, dot);
+  return { yaw, translation: translationFor(yaw, mb, ma) };
+}
+
+/** Translation that, after rotating by `yaw`, moves `from` onto `to`. */
+function translationFor(yaw: number, from: Vector3, to: Vector3): Vector3 {
+  const c = Math.cos(yaw);
+  const s = Math.sin(yaw);
+  return [
+    to[0] - (c * from[0] + s * from[2]),
+    to[1] - from[1],
+    to[2] - (-s * from[0] + c * from[2]),
+  ];
+}
+
+function alignByIdentifier(pairs: Pair[]): StructureAlignment {
+  // As in alignByGeometry, prefer the walls.
+  const walls = pairs.filter((p) => p.a.kind === "wall");
+  const anchors = walls.length >= 2 ? walls : pairs;
+  if (anchors.length === 1) {
+    const [{ a, b }] = anchors;
+    const yaw = yawOf(a.item.transform) - yawOf(b.item.transform);
+    return {
+      yaw,
+      translation: translationFor(
+        yaw,
+        translationOf(b.item.transform),
+        translationOf(a.item.transform)
+      ),
+      method: "identifier",
+    };
+  }
+  return {
+    ...fitAlignment(
+      anchors.map((p) => translationOf(p.b.item.transform)),
+      anchors.map((p) => translationOf(p.a.item.transform))
+    ),
+    method: "identifier",
+  };
+}
+
+/**
+ * Pair up elements greedily, closest first. `b` must already be in `a`'s coordinates.
+ */
+function matchByGeometry(
+  a: Element[],
+  b: Element[],
+  maxDistance: number
+): [number, number][] {
+  const candidates: { i: number; j: number; cost: number }[] = [];
+  a.forEach((ea, i) =>
+    b.forEach((eb, j) => {
+      if (!sameKind(ea, eb) || !compatible(ea, eb)) return;
+      const cost = centreDistance(ea, eb);
+      if (cost <= maxDistance) candidates.push({ i, j, cost });
+    })
+  );
+  candidates.sort((x, y) => x.cost - y.cost);
+  const usedA = new Set<number>();
+  const usedB = new Set<number>();
+  const matches: [number, number][] = [];
+  for (const { i, j } of candidates) {
+    if (usedA.has(i) || usedB.has(j)) continue;
+    usedA.add(i);
+    usedB.add(j);
+    matches.push([i, j]);
+  }
+  return matches;
+}
+
+/**
+ * Try every way of laying a wall of `b` onto a wall of `a` of similar length, keep the one under
+ * which most elements find a partner, then refine it over those partners.
+ */
+function alignByGeometry(
+  a: Element[],
+  b: Element[],
+  maxDistance: number
+): StructureAlignment | undefined {
+  const wallsA = a.filter((e) => e.kind === "wall");
+  const wallsB = b.filter((e) => e.kind === "wall");
+  let best:
+    | { alignment: StructureAlignment; count: number; cost: number }
+    | undefined;
+
+  for (const wa of wallsA) {
+    const segA = surfaceSegment(wa.item as CapturedSurface);
+    const angleA = Math.atan2(
+      segA.end[1] - segA.start[1],
+      segA.end[0] - segA.start[0]
+    );
+    for (const wb of wallsB) {
+      if (Math.abs(wa.item.dimensions[0] - wb.item.dimensions[0]) > maxDistance)
+        continue;
+      const segB = surfaceSegment(wb.item as CapturedSurface);
+      const angleB = Math.atan2(
+        segB.end[1] - segB.start[1],
+        segB.end[0] - segB.start[0]
+      );
+      for (const flip of [0, Math.PI]) {
+        const yaw = wrapAngle(angleB - angleA + flip);
+        const alignment: StructureAlignment = {
+          yaw,
+          translation: translationFor(
+            yaw,
+            translationOf(wb.item.transform),
+            translationOf(wa.item.transform)
+          ),
+          method: "geometry",
+        };
+        const aligned = b.map((e) => ({
+          ...e,
+          item: applyAlignment(e.item, alignment),
+        }));
+        const matches = matchByGeometry(a, aligned, maxDistance);
+        const cost = matches.reduce(
+          (sum, [i, j]) => sum + centreDistance(a[i], aligned[j]),
+          0
+        );
+        if (
+          !best ||
+          matches.length > best.count ||
+          (matches.length === best.count && cost < best.cost - 1e-9)
+        ) {
+          best = { alignment, count: matches.length, cost };
+        }
+      }
+    }
+  }
+  if (!best) return undefined;
+
+  const aligned = b.map((e) => ({
+    ...e,
+    item: applyAlignment(e.item, best!.alignment),
+  }));
+  // Walls rarely move between scans, furniture often does, so fit the walls when there are enough.
+  const matches = matchByGeometry(a, aligned, maxDistance);
+  const walls = matches.filter(([i]) => a[i].kind === "wall");
+  const anchors = walls.length >= 2 ? walls : matches;
+  if (anchors.length < 2) return best.alignment;
+  return {
+    ...fitAlignment(
+      anchors.map(([, j]) => translationOf(b[j].item.transform)),
+      anchors.map(([i]) => translationOf(a[i].item.transform))
+    ),
+    method: "geometry",
+  };
+}
+
+/**
+ * Compare two scans of the same space, e.g. before and after a renovation, and report which walls,
+ * doors, windows, openings and objects were added, removed, moved or resized.
+ *
+ * RoomPlan starts every session in a new coordinate system, so the second scan is first aligned
+ * onto the first: from the elements both scans share an identifier with when there are any,
+ * otherwise by fitting its walls and objects onto the first scan's. Elements are then paired by
+ * identifier, and the rest by kind, category, story and distance. Displacements, turns and
+ * dimension deltas are measured in the first scan's coordinates.
+ *
+ * @param a The earlier scan, as returned by {@link parseCapturedStructure}.
+ * @param b The later scan.
+ * @param options Alignment, matching distance and the tolerances below which nothing changed.
+ * @example
+ * ```ts
+ * const diff = diffStructures(before, after);
+ * for (const change of diff.moved) {
+ *   console.log(change.category, `moved ${change.distance!.toFixed(2)} m`);
+ * }
+ * const svg = renderStructureDiffSvg(diff);
+ * ```
+ */
+export function diffStructures(
+  a: CapturedStructure,
+  b: CapturedStructure,
+  options: DiffStructuresOptions = {}
+): StructureDiff {
+  const {
+    align = true,
+    matchDistance = 1,
+    moveTolerance = 0.05,
+    rotationTolerance = (5 * Math.PI) / 180,
+    resizeTolerance = 0.05,
+  } = options;
+  const elementsA = elementsOf(a);
+  const elementsB = elementsOf(b);
+
+  const pairs: Pair[] = [];
+  const idsB = new Map(
+    elementsB.map((e) => [`${e.kind}:${e.item.identifier}`, e])
+  );
+  const pairedA = new Set<Element>();
+  const pairedB = new Set<Element>();
+  for (const ea of elementsA) {
+    const eb = idsB.get(`${ea.kind}:${ea.item.identifier}`);
+    if (!eb || pairedB.has(eb)) continue;
+    pairs.push({ a: ea, b: eb, by: "identifier" });
+    pairedA.add(ea);
+    pairedB.add(eb);
+  }
+
+  const identity: StructureAlignment = {
+    yaw: 0,
+    translation: [0, 0, 0],
+    method: "none",
+  };
+  const alignment = !align
+    ? identity
+    : pairs.length
+    ? alignByIdentifier(pairs)
+    : alignByGeometry(elementsA, elementsB, matchDistance) ?? identity;
+
+  const aligned = new Map(
+    elementsB.map((e) => [e, { ...e, item: applyAlignment(e.item, alignment) }])
+  );
+  const restA = elementsA.filter((e) => !pairedA.has(e));
+  const restB = elementsB.filter((e) => !pairedB.has(e));
+  for (const [i, j] of matchByGeometry(
+    restA,
+    restB.map((e) => aligned.get(e)!),
+    matchDistance
+  )) {
+    pairs.push({ a: restA[i], b: restB[j], by: "geometry" });
+    pairedA.add(restA[i]);
+    pairedB.add(restB[j]);
+  }
+
+  const pairOf = new Map(pairs.map((p) => [p.a, p]));
+  const elements: StructureElementDiff[] = [];
+  for (const ea of elementsA) {
+    const pair = pairOf.get(ea);
+    const base = {
+      kind: ea.kind,
+      category: ea.item.category,
+      story: ea.item.story,
+    };
+    if (!pair) {
+      elements.push({
+        ...base,
+        status: "removed",
+        before: ea.item,
+        moved: false,
+        resized: false,
+      });
+      continue;
+    }
+    const after = aligned.get(pair.b)!.item;
+    const [ax, ay, az] = translationOf(ea.item.transform);
+    const [bx, by, bz] = translationOf(after.transform);
+    const displacement: Vector3 = [bx - ax, by - ay, bz - az];
+    const distance = Math.hypot(...displacement);
+    const rotation = wrapAngle(
+      yawOf(after.transform) - yawOf(ea.item.transform),
+      ea.kind !== "object"
+    );
+    const dimensionDelta = after.dimensions.map(
+      (d, k) => d - ea.item.dimensions[k]
+    ) as Vector3;
+    const moved =
+      distance > moveTolerance || Math.abs(rotation) > rotationTolerance;
+    const resized = dimensionDelta.some((d) => Math.abs(d) > resizeTolerance);
+    elements.push({
+      ...base,
+      status: moved || resized ? "changed" : "unchanged",
+      before: ea.item,
+      after,
+      matchedBy: pair.by,
+      moved,
+      resized,
+      displacement,
+      distance,
+      rotation,
+      dimensionDelta,
+    });
+  }
+  for (const eb of elementsB) {
+    if (pairedB.has(eb)) continue;
+    elements.push({
+      kind: eb.kind,
+      category: eb.item.category,
+      story: eb.item.story,
+      status: "added",
+      after: aligned.get(eb)!.item,
+      moved: false,
+      resized: false,
+    });
+  }
+
+  return {
+    alignment,
+    elements,
+    added: elements.filter((e) => e.status === "added"),
+    removed: elements.filter((e) => e.status === "removed"),
+    moved: elements.filter((e) => e.moved),
+    resized: elements.filter((e) => e.resized),
+  };
+}
@@ -0,0 +1,87 @@
+import { StructureExportType } from "./ExpoRoomplan.types";
+import type {
+  ExportedFile,
+  RoomPlanExport,
+  RoomPlanExportFormat,
+} from "./ExpoRoomplanView.types";
+import { utf8, sha256 } from "./bytes";
+import { ExportStructureOptions, exportStructure } from "./exportStructure";
+import { parseCapturedStructure } from "./parseCapturedStructure";
+import type { ScanStorage } from "./scanStorage";
+
+/** Formats RoomPlan writes itself; everything else is generated from the JSON. */
+export const NATIVE_FORMATS: RoomPlanExportFormat[] = ["usdz", "json"];
+
+/**
+ * Options for {@link writeExportFormats}.
+ */
+export type WriteExportFormatsOptions = {
+  /** Requested formats. `usdz` and `json` are skipped, RoomPlan has already written them. */
+  formats: RoomPlanExportFormat[];
+  /** Reads the exported JSON and writes the new files next to it. */
+  storage?: ScanStorage;
+  /** Options for each format, see {@link exportStructure}. */
+  options?: Omit<ExportStructureOptions, "name">;
+};
+
+/** @internal The requested formats that are generated in JavaScript. */
+export function generatedFormats(formats: RoomPlanExportFormat[] = []) {
+  return formats.filter((f) => !NATIVE_FORMATS.includes(f));
+}
+
+/**
+ * Generate the formats RoomPlan can't write from the JSON of an export, e.g. `svg` or `gltf`, and
+ * save them next to it with the same base name. Resolves with `exported` plus the new
+ * {@link ExportedFile}s in `files`.
+ *
+ * {@link RoomPlanView} calls this for its `exportFormats`; call it yourself to convert an export
+ * later, e.g. in Node.
+ *
+ * @example
+ * ```ts
+ * const withPlan = await writeExportFormats(exported, {
+ *   formats: ["svg", "obj"],
+ *   storage: createFileSystemScanStorage(FileSystem),
+ * });
+ * ```
+ */
+export async function writeExportFormats(
+  exported: RoomPlanExport,
+  { formats, storage, options }: WriteExportFormatsOptions
+): Promise<RoomPlanExport> {
+  const generated = generatedFormats(formats);
+  if (generated.length === 0) return exported;
+  if (!storage) {
+    throw new Error(
+      `exportStorage is required to write ${generated.join(", ")} files.`
+    );
+  }
+  const { jsonUrl } = exported;
+  const text = jsonUrl ? await storage.readText(jsonUrl) : null;
+  if (!jsonUrl || text === null) {
+    throw new Error("The export has no JSON file to convert.");
+  }
+  const structure = parseCapturedStructure(text);
+  const slash = jsonUrl.lastIndexOf("/") + 1;
+  const directory = jsonUrl.slice(0, slash);
+  const name = jsonUrl.slice(slash).replace(/\.json$/, "");
+
+  const files: ExportedFile[] = [...(exported.files ?? [])];
+  for (const format of generated) {
+    const type = format.toUpperCase() as StructureExportType;
+    for (const file of exportStructure(structure, type, { ...options, name })) {
+      const url = directory + file.name;
+      const bytes =
+        typeof file.contents === "string" ? utf8(file.contents) : file.contents;
+      if (typeof file.contents === "string") {
+        await storage.writeText(url, file.contents);
+      } else if (storage.writeBytes) {
+        await storage.writeBytes(url, file.contents);
+      } else {
+        throw new Error(`exportStorage can't write binary ${format} files.`);
+      }
+      files.push({ url, format, size: bytes.length, checksum: sha256(bytes) });
+    }
+  }
+  return { ...exported, files };
+}
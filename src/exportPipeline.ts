@@ -0,0 +1,206 @@
+import type { CapturedStructure } from "./CapturedStructure.types";
+import type { RoomPlanExport } from "./ExpoRoomplanView.types";
+import { parseCapturedStructure } from "./parseCapturedStructure";
+import type { ScanStorage } from "./scanStorage";
+
+/** Named results of export processors, e.g. `{ measurements, planSvg, uploadUrl }`. */
+export type ExportArtifacts = Record<string, unknown>;
+
+/**
+ * What an {@link ExportProcessor} receives.
+ */
+export type ExportProcessorContext = {
+  /** The `onExported` payload, without its trigger. */
+  exported: RoomPlanExport;
+  /** The exported JSON, parsed. `undefined` when the export has no JSON or it can't be read. */
+  structure?: CapturedStructure;
+  /** Artifacts added by the processors that ran before this one. */
+  artifacts: Readonly<ExportArtifacts>;
+  /** The pipeline's storage, to read exported files or write new ones. */
+  storage?: ScanStorage;
+};
+
+/**
+ * One step of an export pipeline. Steps run in order; the artifacts a step returns are merged into
+ * the result and passed on to the following steps. A step that throws is recorded as failed and
+ * the pipeline carries on with the next one.
+ *
+ * @example
+ * ```ts
+ * const measure: ExportProcessor = {
+ *   name: "measure",
+ *   run: ({ structure }) => ({ measurements: measureStructure(structure!) }),
+ * };
+ * ```
+ */
+export type ExportProcessor = {
+  /** Identifies the step in progress events and in the result. */
+  name: string;
+  run(
+    context: ExportProcessorContext
+  ): ExportArtifacts | void | Promise<ExportArtifacts | void>;
+};
+
+/**
+ * Sent with `onProgress` when a step starts and when it ends.
+ */
+export type ExportPipelineProgress = {
+  /** Name of the step. */
+  step: string;
+  /** Position of the step, starting at 0. */
+  index: number;
+  /** Number of steps in the pipeline. */
+  total: number;
+  status: "running" | "succeeded" | "failed";
+  /** Error message of a failed step. */
+  error?: string;
+  /** Share of the steps that have ended, from 0 to 1. */
+  fraction: number;
+};
+
+/**
+ * How one step of a pipeline went.
+ */
+export type ExportPipelineStep = {
+  name: string;
+  status: "succeeded" | "failed";
+  /** Error message of a failed step. */
+  error?: string;
+  /** Keys of the artifacts the step added. */
+  artifacts: string[];
+  durationMs: number;
+};
+
+/**
+ * Result of {@link runExportPipeline}.
+ */
+export type ExportPipelineResult = {
+  /** Whether every step succeeded. */
+  ok: boolean;
+  /** Every artifact added by the steps. When two steps add the same key, the later one wins. */
+  artifacts: ExportArtifacts;
+  steps: ExportPipelineStep[];
+  /** Why the exported JSON couldn't be parsed, if it couldn't. */
+  structureError?: string;
+};
+
+/**
+ * Options for {@link runExportPipeline} and the `exportPipeline` option of `useRoomPlanView`.
+ */
+export type ExportPipelineOptions = {
+  /** The steps, in the order they run. */
+  processors: ExportProcessor[];
+  /** Reads the exported JSON for `structure`; also handed to the processors. */
+  storage?: ScanStorage;
+  /** Called when each step starts and ends. */
+  onProgress?: (progress: ExportPipelineProgress) => void;
+  /** Current time in milliseconds, for `durationMs`. Defaults to `Date.now`. */
+  now?: () => number;
+};
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function loadStructure(
+  exported: RoomPlanExport,
+  storage?: ScanStorage
+): Promise<{ structure?: CapturedStructure; structureError?: string }> {
+  if (!exported.jsonUrl || !storage) return {};
+  try {
+    const text = await storage.readText(exported.jsonUrl);
+    if (text === null) {
+      return { structureError: `No such file: ${exported.jsonUrl}` };
+    }
+    return { structure: parseCapturedStructure(text) };
+  } catch (error) {
+    return { structureError: errorMessage(error) };
+  }
+}
+
+/**
+ * Run post-processing steps over an export, e.g. measure it, render a plan, zip the files and upload
+ * them. The exported JSON is read through `storage` and parsed once for every step.
+ *
+ * Steps run one after the other. Each one's errors are caught and recorded in its
+ * {@link ExportPipelineStep}, so a failing upload doesn't lose the measurements; the returned
+ * promise never rejects because of a step.
+ *
+ * `useRoomPlanView` runs this for its `exportPipeline` option after every export. It is plain
+ * TypeScript, so the same steps can run in Node, e.g. against exports uploaded to a server.
+ *
+ * @param exported An `onExported` payload with file URLs.
+ * @param options The steps, the storage to read files from and a progress callback.
+ * @example
+ * ```ts
+ * const result = await runExportPipeline(exported, {
+ *   storage: createFileSystemScanStorage(FileSystem),
+ *   processors: [measure, plan, upload],
+ *   onProgress: ({ step, status }) => console.log(step, status),
+ * });
+ * if (!result.ok) console.warn(result.steps.filter((s) => s.status === "failed"));
+ * ```
+ */
+export async function runExportPipeline(
+  exported: RoomPlanExport,
+  options: ExportPipelineOptions
+): Promise<ExportPipelineResult> {
+  const { processors, storage, onProgress, now = Date.now } = options;
+  const { structure, structureError } = await loadStructure(exported, storage);
+  const artifacts: ExportArtifacts = {};
+  const steps: ExportPipelineStep[] = [];
+  const total = processors.length;
+
+  const report = (progress: Omit<ExportPipelineProgress, "total">) => {
+    try {
+      onProgress?.({ ...progress, total });
+    } catch {
+      // A broken progress callback must not stop the pipeline.
+    }
+  };
+
+  for (const [index, processor] of processors.entries()) {
+    const { name } = processor;
+    report({ step: name, index, status: "running", fraction: index / total });
+    const startedAt = now();
+    let step: ExportPipelineStep;
+    try {
+      const added = await processor.run({
+        exported,
+        structure,
+        artifacts: { ...artifacts },
+        storage,
+      });
+      Object.assign(artifacts, added);
+      step = {
+        name,
+        status: "succeeded",
+        artifacts: Object.keys(added ?? {}),
+        durationMs: now() - startedAt,
+      };
+    } catch (error) {
+      step = {
+        name,
+        status: "failed",
+        error: errorMessage(error),
+        artifacts: [],
+        durationMs: now() - startedAt,
+      };
+    }
+    steps.push(step);
+    report({
+      step: name,
+      index,
+      status: step.status,
+      error: step.error,
+      fraction: (index + 1) / total,
+    });
+  }
+
+  return {
+    ok: steps.every((s) => s.status === "succeeded"),
+    artifacts,
+    steps,
+    ...(structureError ? { structureError } : {}),
+  };
+}
@@ -0,0 +1,120 @@
+import type { CapturedStructure } from "./CapturedStructure.types";
+import { StructureExportType } from "./ExpoRoomplan.types";
+import { FloorPlanSvgOptions, renderFloorPlanSvg } from "./renderFloorPlanSvg";
+import { DxfOptions, toDxf } from "./toDxf";
+import { GltfOptions, toGlb, toGltf } from "./toGltf";
+import { IfcOptions, toIfc } from "./toIfc";
+import { ObjOptions, toObj } from "./toObj";
+import { PlyOptions, toPly } from "./toPly";
+
+/**
+ * Options for {@link exportStructure}: the base file name and the options passed on to the
+ * converter of each format.
+ */
+export type ExportStructureOptions = {
+  /** File name without extension. Defaults to `"structure"`. */
+  name?: string;
+  svg?: FloorPlanSvgOptions;
+  gltf?: GltfOptions;
+  dxf?: DxfOptions;
+  ifc?: IfcOptions;
+  obj?: Omit<ObjOptions, "mtlFileName">;
+  ply?: PlyOptions;
+};
+
+/**
+ * A file produced by {@link exportStructure}.
+ */
+export type StructureExportFile = {
+  /** File name including its extension, e.g. `structure.obj`. */
+  name: string;
+  mimeType: string;
+  /** Text for text formats, bytes for binary ones (`GLB`). */
+  contents: string | Uint8Array;
+};
+
+/**
+ * Convert an exported structure into one of the {@link StructureExportType} formats.
+ *
+ * Most formats produce one file; `OBJ` produces the `.obj` and the `.mtl` it refers to. Each
+ * format is written by its own converter ({@link renderFloorPlanSvg}, {@link toGltf},
+ * {@link toGlb}, {@link toDxf}, {@link toIfc}, {@link toObj} and {@link toPly}), which takes the
+ * options under its key.
+ *
+ * @param structure A structure returned by {@link parseCapturedStructure}.
+ * @param type The format to write.
+ * @param options The base file name and options for the converter.
+ * @example
+ * ```ts
+ * for (const file of exportStructure(structure, StructureExportType.Obj, { name: scanName })) {
+ *   await FileSystem.writeAsStringAsync(dir + file.name, file.contents as string);
+ * }
+ * ```
+ */
+export function exportStructure(
+  structure: CapturedStructure,
+  type: StructureExportType,
+  options: ExportStructureOptions = {}
+): StructureExportFile[] {
+  const { name = "structure" } = options;
+  switch (type) {
+    case StructureExportType.Svg:
+      return [
+        {
+          name: `${name}.svg`,
+          mimeType: "image/svg+xml",
+          contents: renderFloorPlanSvg(structure, options.svg),
+        },
+      ];
+    case StructureExportType.Gltf:
+      return [
+        {
+          name: `${name}.gltf`,
+          mimeType: "model/gltf+json",
+          contents: JSON.stringify(toGltf(structure, options.gltf)),
+        },
+      ];
+    case StructureExportType.Glb:
+      return [
+        {
+          name: `${name}.glb`,
+          mimeType: "model/gltf-binary",
+          contents: toGlb(structure, options.gltf),
+        },
+      ];
+    case StructureExportType.Dxf:
+      return [
+        {
+          name: `${name}.dxf`,
+          mimeType: "image/vnd.dxf",
+          contents: toDxf(structure, options.dxf),
+        },
+      ];
+    case StructureExportType.Ifc:
+      return [
+        {
+          name: `${name}.ifc`,
+          mimeType: "application/x-step",
+          contents: toIfc(structure, options.ifc),
+        },
+      ];
+    case StructureExportType.Obj: {
+      const { obj, mtl } = toObj(structure, {
+        ...options.obj,
+        mtlFileName: `${name}.mtl`,
+      });
+      return [
+        { name: `${name}.obj`, mimeType: "model/obj", contents: obj },
+        { name: `${name}.mtl`, mimeType: "model/mtl", contents: mtl },
+      ];
+    }
+    case StructureExportType.Ply:
+      return [
+        {
+          name: `${name}.ply`,
+          mimeType: "application/x-ply",
+          contents: toPly(structure, options.ply),
+        },
+      ];
+  }
+}
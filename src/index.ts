@@ -1,11 +1,168 @@
 export { default as ExpoRoomplan } from "./ExpoRoomplanModule";
 export { default as useRoomPlan } from "./useRoomPlan";
 export { RoomPlanView } from "./RoomPlanView";
-export type { RoomPlanViewProps } from "./ExpoRoomplanView.types";
+export type {
+  RoomPlanViewProps,
+  RoomPlanExport,
+  RoomAddedEvent,
+  RoomUpdateEvent,
+  LiveSurface,
+  LiveObject,
+  RoomPlanInstruction,
+  InstructionEvent,
+  RoomPlanExportFormat,
+  ExportedFile,
+  RoomPlanResumeSource,
+} from "./ExpoRoomplanView.types";
 export * from "./ExpoRoomplan.types";
+export { RoomPlanError, isRoomPlanErrorCode } from "./RoomPlanError";
+export type { RoomPlanErrorCode, RoomPlanRecovery } from "./RoomPlanError";
+export { useRoomPlanAvailability } from "./useRoomPlanAvailability";
+export type {
+  RoomPlanAvailability,
+  RoomPlanAvailabilityStatus,
+  UseRoomPlanAvailabilityOptions,
+} from "./useRoomPlanAvailability";
 export { useRoomPlanView } from "./useRoomPlanView";
+export type {
+  UseRoomPlanViewOptions,
+  UseRoomPlanViewReturn,
+  ControlResult,
+  CapturedPhoto,
+} from "./useRoomPlanView";
+export type { AsyncControl, ControlOptions } from "./pendingControls";
+export {
+  scanSessionReducer,
+  getScanSessionRejection,
+  initialScanSessionState,
+  toSavedScanSession,
+  parseSavedScanSession,
+} from "./scanSession";
+export type {
+  ScanPhase,
+  ScanSessionState,
+  ScanSessionAction,
+  ScannedRoom,
+  ActiveRoom,
+  SessionExport,
+  SavedScanSession,
+} from "./scanSession";
+export { assignSectionsToRooms } from "./assignSectionsToRooms";
+export type { RoomSection } from "./assignSectionsToRooms";
+export { createScanLibrary } from "./scanLibrary";
+export type {
+  ScanLibrary,
+  ScanLibraryOptions,
+  ScanRecord,
+  SaveScanOptions,
+} from "./scanLibrary";
+export {
+  createMemoryScanStorage,
+  createFileSystemScanStorage,
+} from "./scanStorage";
+export type {
+  ScanStorage,
+  MemoryScanStorage,
+  FileSystemModule,
+} from "./scanStorage";
 export {
   RoomPlanProvider,
   useRoomPlanContext,
   RoomPlanViewConsumer,
+  useOptionalRoomPlanContext,
 } from "./RoomPlanProvider";
+export { resolveCaptureConfig } from "./captureConfig";
+export type {
+  RoomPlanCaptureConfig,
+  CaptureExportConfig,
+  CaptureConfigContext,
+  ResolvedCaptureConfig,
+  RoomBuilderOption,
+  StructureBuilderOption,
+} from "./captureConfig";
+export { RoomPlanMiniMap } from "./RoomPlanMiniMap";
+export type { RoomPlanMiniMapProps, MiniMapTheme } from "./RoomPlanMiniMap";
+export { layoutMiniMap, liveRoomFromStructure } from "./layoutMiniMap";
+export { RoomPlanViewer } from "./RoomPlanViewer";
+export type { RoomPlanViewerProps } from "./RoomPlanViewer";
+export { layoutStructure3d } from "./layoutStructure3d";
+export type {
+  Structure3dFace,
+  Structure3dLayout,
+  Structure3dLayoutOptions,
+} from "./layoutStructure3d";
+export type {
+  MiniMapBox,
+  MiniMapLayout,
+  MiniMapLayoutOptions,
+  MiniMapSegment,
+} from "./layoutMiniMap";
+export type * from "./CapturedStructure.types";
+export {
+  parseCapturedStructure,
+  CapturedStructureParseError,
+} from "./parseCapturedStructure";
+export type { CapturedStructureIssue } from "./parseCapturedStructure";
+export { renderFloorPlanSvg } from "./renderFloorPlanSvg";
+export type { FloorPlanSvgOptions, FloorPlanTheme } from "./renderFloorPlanSvg";
+export { validateScan } from "./validateScan";
+export type {
+  ScanIssue,
+  ScanIssueCode,
+  ScanQualityReport,
+  ValidateScanOptions,
+} from "./validateScan";
+export { diffStructures } from "./diffStructures";
+export type {
+  DiffStructuresOptions,
+  StructureAlignment,
+  StructureDiff,
+  StructureElementDiff,
+  StructureElementKind,
+} from "./diffStructures";
+export { renderStructureDiffSvg } from "./renderStructureDiffSvg";
+export type {
+  StructureDiffSvgOptions,
+  StructureDiffTheme,
+} from "./renderStructureDiffSvg";
+export type { MeasurementUnits } from "./units";
+export { measureStructure } from "./measureStructure";
+export type {
+  MeasureStructureOptions,
+  MeasurementReport,
+  SectionMeasurements,
+  SpaceMeasurements,
+  StoryMeasurements,
+} from "./measureStructure";
+export { buildStructureMesh } from "./buildStructureMesh";
+export type {
+  StructureMeshOptions,
+  StructureMeshPart,
+} from "./buildStructureMesh";
+export { toGltf, toGlb } from "./toGltf";
+export type { GltfOptions, GltfDocument, GltfColor } from "./toGltf";
+export { toDxf } from "./toDxf";
+export type { DxfOptions, DxfLayerCategory } from "./toDxf";
+export { toIfc, toIfcGuid } from "./toIfc";
+export type { IfcOptions } from "./toIfc";
+export { toObj } from "./toObj";
+export type { ObjOptions, ObjFiles } from "./toObj";
+export { toPly } from "./toPly";
+export type { PlyOptions } from "./toPly";
+export { exportStructure } from "./exportStructure";
+export type {
+  ExportStructureOptions,
+  StructureExportFile,
+} from "./exportStructure";
+export { writeExportFormats } from "./exportFormats";
+export type { WriteExportFormatsOptions } from "./exportFormats";
+export { runExportPipeline } from "./exportPipeline";
+export type {
+  ExportArtifacts,
+  ExportPipelineOptions,
+  ExportPipelineProgress,
+  ExportPipelineResult,
+  ExportPipelineStep,
+  ExportProcessor,
+  ExportProcessorContext,
+} from "./exportPipeline";
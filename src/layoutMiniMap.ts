@@ -0,0 +1,244 @@
+import type {
+  CapturedStructure,
+  CapturedSurface,
+  ObjectCategory,
+} from "./CapturedStructure.types";
+import type {
+  LiveObject,
+  LiveSurface,
+  RoomUpdateEvent,
+} from "./ExpoRoomplanView.types";
+import {
+  PlanPoint,
+  PlanProjection,
+  boundsOf,
+  distance,
+  fitPlanProjection,
+  projectPoint,
+  surfaceSegment,
+  translationOf,
+  yawOf,
+} from "./planGeometry";
+
+/** A wall, door, window or opening of a {@link MiniMapLayout}, in pixels. */
+export type MiniMapSegment = {
+  identifier: string;
+  kind: "wall" | "door" | "window" | "opening";
+  start: PlanPoint;
+  end: PlanPoint;
+  /** Midpoint of the segment. */
+  center: PlanPoint;
+  length: number;
+  /** Clockwise rotation from the page's `x` axis in radians, as used by a `rotate` transform. */
+  angle: number;
+};
+
+/** An object of a {@link MiniMapLayout}: its footprint as a rotated rectangle, in pixels. */
+export type MiniMapBox = {
+  identifier: string;
+  category: ObjectCategory;
+  center: PlanPoint;
+  width: number;
+  depth: number;
+  /** Clockwise rotation from the page's `x` axis in radians. */
+  angle: number;
+  /** The footprint's corners. */
+  corners: PlanPoint[];
+};
+
+/**
+ * A live room laid out for drawing in a fixed area, see {@link layoutMiniMap}. Every position is in
+ * pixels from the top-left corner.
+ */
+export type MiniMapLayout = {
+  width: number;
+  height: number;
+  /** Maps plan points in metres to the pixels used here. */
+  projection: PlanProjection;
+  /** Walls first, then doors, windows and openings, so openings are drawn over their walls. */
+  segments: MiniMapSegment[];
+  objects: MiniMapBox[];
+  /** Where the device is and the clockwise direction it faces in radians, when known. */
+  device?: { position: PlanPoint; heading: number };
+};
+
+/**
+ * Options for {@link layoutMiniMap}.
+ */
+export type MiniMapLayoutOptions = {
+  /** Width of the drawing area in pixels. */
+  width: number;
+  /** Height of the drawing area in pixels. */
+  height: number;
+  /** Blank margin in pixels. Defaults to `12`. */
+  padding?: number;
+  /** Most pixels per metre, so the first walls found aren't drawn huge. Defaults to `40`. */
+  maxScale?: number;
+  /** Lay out objects. Defaults to `true`. */
+  showObjects?: boolean;
+  /** Keep the device in view. Defaults to `true`. */
+  showDevice?: boolean;
+};
+
+function boxCorners(object: LiveObject): PlanPoint[] {
+  const [x, , z] = object.center;
+  const [w, , d] = object.dimensions;
+  // Local `x` and `z` axes of the object on the floor plane.
+  const ax: PlanPoint = [Math.cos(object.yaw), -Math.sin(object.yaw)];
+  const az: PlanPoint = [Math.sin(object.yaw), Math.cos(object.yaw)];
+  return [
+    [-1, -1],
+    [1, -1],
+    [1, 1],
+    [-1, 1],
+  ].map(([i, j]) => [
+    x + (ax[0] * w * i + az[0] * d * j) / 2,
+    z + (ax[1] * w * i + az[1] * d * j) / 2,
+  ]);
+}
+
+/**
+ * Fit the room being captured into a `width` × `height` area and compute where to draw each wall,
+ * door, window, opening and object and the device, e.g. for {@link RoomPlanMiniMap} or a custom
+ * overlay. Plain TypeScript, so it can be tested without a device.
+ *
+ * It is oriented like {@link renderFloorPlanSvg}: world `x` to the right and world `z` down the page.
+ *
+ * @param room A `RoomUpdateEvent` such as `state.liveRoom`, or `undefined` before the first update.
+ * @param options The drawing area and what to include.
+ * @example
+ * ```ts
+ * const layout = layoutMiniMap(state.liveRoom, { width: 160, height: 160 });
+ * for (const wall of layout.segments) console.log(wall.kind, wall.start, wall.end);
+ * ```
+ */
+export function layoutMiniMap(
+  room: RoomUpdateEvent | undefined,
+  options: MiniMapLayoutOptions
+): MiniMapLayout {
+  const {
+    width,
+    height,
+    padding = 12,
+    maxScale = 40,
+    showObjects = true,
+    showDevice = true,
+  } = options;
+  const surfaces: [MiniMapSegment["kind"], LiveSurface[]][] = room
+    ? [
+        ["wall", room.walls],
+        ["door", room.doors],
+        ["window", room.windows],
+        ["opening", room.openings],
+      ]
+    : [];
+  const objects = showObjects && room ? room.objects : [];
+  const corners = objects.map(boxCorners);
+  const device = showDevice ? room?.device : undefined;
+
+  const bounds = boundsOf([
+    ...surfaces.flatMap(([, list]) => list.flatMap((s) => [s.start, s.end])),
+    ...corners.flat(),
+    ...(device ? [device.position] : []),
+  ]) ?? { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+  const projection = fitPlanProjection(
+    bounds,
+    width,
+    height,
+    padding,
+    maxScale
+  );
+  const px = (point: PlanPoint) => projectPoint(projection, point);
+
+  const segments = surfaces.flatMap(([kind, list]) =>
+    list.map((surface): MiniMapSegment => {
+      const start = px(surface.start);
+      const end = px(surface.end);
+      return {
+        identifier: surface.identifier,
+        kind,
+        start,
+        end,
+        center: [(start[0] + end[0]) / 2, (start[1] + end[1]) / 2],
+        length: distance(start, end),
+        angle: Math.atan2(end[1] - start[1], end[0] - start[0]),
+      };
+    })
+  );
+
+  return {
+    width,
+    height,
+    projection,
+    segments,
+    objects: objects.map((object, i) => ({
+      identifier: object.identifier,
+      category: object.category,
+      center: px([object.center[0], object.center[2]]),
+      width: object.dimensions[0] * projection.scale,
+      depth: object.dimensions[2] * projection.scale,
+      // A yaw turns world `x` towards `-z`, which is up the page.
+      angle: -object.yaw,
+      corners: corners[i].map(px),
+    })),
+    device: device && {
+      position: px(device.position),
+      heading: device.heading,
+    },
+  };
+}
+
+function liveSurface(surface: CapturedSurface): LiveSurface {
+  const { start, end } = surfaceSegment(surface);
+  const live: LiveSurface = {
+    identifier: surface.identifier,
+    start,
+    end,
+    height: surface.dimensions[1],
+    confidence: surface.confidence,
+  };
+  if (surface.parentIdentifier) {
+    live.parentIdentifier = surface.parentIdentifier;
+  }
+  if (surface.category === "door") live.isOpen = !!surface.isOpen;
+  return live;
+}
+
+/**
+ * Describe an exported structure the way `onRoomUpdate` describes the room being captured, e.g. to
+ * draw a finished scan with {@link layoutMiniMap} or {@link RoomPlanMiniMap}. Floors are only
+ * counted and there is no `device`.
+ *
+ * @param structure A parsed export, see {@link parseCapturedStructure}. Pass one story of it with
+ *   `filterStory` to draw a single floor.
+ */
+export function liveRoomFromStructure(
+  structure: CapturedStructure
+): RoomUpdateEvent {
+  const { walls, doors, windows, openings, floors, objects } = structure;
+  return {
+    index: 0,
+    story: walls[0]?.story ?? 0,
+    timestamp: Date.now(),
+    counts: {
+      walls: walls.length,
+      doors: doors.length,
+      windows: windows.length,
+      openings: openings.length,
+      floors: floors.length,
+      objects: objects.length,
+    },
+    walls: walls.map(liveSurface),
+    doors: doors.map(liveSurface),
+    windows: windows.map(liveSurface),
+    openings: openings.map(liveSurface),
+    objects: objects.map((o) => ({
+      identifier: o.identifier,
+      category: o.category,
+      center: translationOf(o.transform),
+      dimensions: o.dimensions,
+      yaw: yawOf(o.transform),
+      confidence: o.confidence,
+    })),
+  };
+}
@@ -0,0 +1,295 @@
+import type {
+  CapturedObject,
+  CapturedStructure,
+  CapturedSurface,
+  ObjectCategory,
+  Transform4x4,
+  Vector3,
+} from "./CapturedStructure.types";
+import {
+  PlanPoint,
+  boundsOf,
+  filterStory,
+  fitPlanProjection,
+  projectPoint,
+  translationOf,
+} from "./planGeometry";
+
+/**
+ * A flat rectangle of a {@link Structure3dLayout}: a `width` × `height` view centred in the drawing
+ * area and moved into place by `matrix`.
+ */
+export type Structure3dFace = {
+  /** Identifier of the element, plus the side for object faces, e.g. `"…:top"`. */
+  key: string;
+  kind: "wall" | "door" | "window" | "opening" | "object";
+  /** Set for object faces. */
+  category?: ObjectCategory;
+  /** Size of the untransformed rectangle in pixels. */
+  width: number;
+  height: number;
+  /**
+   * Column-major 4 × 4 matrix for a React Native `matrix` transform (CSS `matrix3d` on web). It maps
+   * the rectangle, placed with its centre on the centre of the area, onto the screen.
+   */
+  matrix: number[];
+  /** Where the centre of the face is drawn, in pixels from the top-left corner. */
+  center: PlanPoint;
+  /** Distance towards the viewer in metres; faces are sorted by it, furthest first. */
+  depth: number;
+  /** How much light the face catches, from `0` to `1`, for simple shading. */
+  light: number;
+};
+
+/**
+ * An exported structure laid out as a simple 3D view, see {@link layoutStructure3d}.
+ */
+export type Structure3dLayout = {
+  width: number;
+  height: number;
+  /** Pixels per metre. */
+  scale: number;
+  /** Back to front, so drawing them in order hides what is behind. */
+  faces: Structure3dFace[];
+};
+
+/**
+ * Options for {@link layoutStructure3d}.
+ */
+export type Structure3dLayoutOptions = {
+  /** Width of the drawing area in pixels. */
+  width: number;
+  /** Height of the drawing area in pixels. */
+  height: number;
+  /** Blank margin in pixels. Defaults to `12`. */
+  padding?: number;
+  /** Rotation of the model about the vertical axis in radians. Defaults to `π / 6`. */
+  yaw?: number;
+  /** How far the view looks down, from `0` (level) to `π / 2` (plan view), in radians. Defaults to `π / 5`. */
+  pitch?: number;
+  /** Only lay out this story. Lays out every story when omitted. */
+  story?: number;
+  /** Lay out object boxes. Defaults to `true`. */
+  showObjects?: boolean;
+};
+
+// Drawn after walls at the same depth, so doors and windows show on their wall.
+const KIND_ORDER: Structure3dFace["kind"][] = [
+  "wall",
+  "opening",
+  "window",
+  "door",
+  "object",
+];
+
+type Face = Omit<Structure3dFace, "matrix" | "center" | "depth" | "light"> & {
+  /** Centre in world space. */
+  origin: Vector3;
+  /** World directions of the rectangle's right and down edges, per metre. */
+  u: Vector3;
+  v: Vector3;
+  normal?: Vector3;
+  /** Identifier of the wall a door, window or opening sits in. */
+  parent?: string;
+};
+
+const scaled = (v: Vector3, k: number): Vector3 => [
+  v[0] * k,
+  v[1] * k,
+  v[2] * k,
+];
+const added = (a: Vector3, b: Vector3): Vector3 => [
+  a[0] + b[0],
+  a[1] + b[1],
+  a[2] + b[2],
+];
+
+// Perpendicular to both edges of a face; the front of a surface and the outside of a box face.
+function faceNormal(face: Face): Vector3 {
+  if (face.normal) return face.normal;
+  const { u, v } = face;
+  return [
+    u[1] * v[2] - u[2] * v[1],
+    u[2] * v[0] - u[0] * v[2],
+    u[0] * v[1] - u[1] * v[0],
+  ];
+}
+
+function axes(t: Transform4x4) {
+  const x: Vector3 = [t[0], t[1], t[2]];
+  const y: Vector3 = [t[4], t[5], t[6]];
+  const z: Vector3 = [t[8], t[9], t[10]];
+  return { x, y, z };
+}
+
+function surfaceFace(surface: CapturedSurface, kind: Face["kind"]): Face {
+  const { x, y } = axes(surface.transform);
+  return {
+    key: surface.identifier,
+    kind,
+    width: surface.dimensions[0],
+    height: surface.dimensions[1],
+    origin: translationOf(surface.transform),
+    u: x,
+    v: scaled(y, -1),
+    parent: surface.parentIdentifier,
+  };
+}
+
+function objectFaces(object: CapturedObject): Face[] {
+  const { x, y, z } = axes(object.transform);
+  const [w, h, d] = object.dimensions;
+  const center = translationOf(object.transform);
+  const face = (
+    side: string,
+    normal: Vector3,
+    offset: number,
+    u: Vector3,
+    v: Vector3,
+    width: number,
+    height: number
+  ): Face => ({
+    key: `${object.identifier}:${side}`,
+    kind: "object",
+    category: object.category,
+    width,
+    height,
+    origin: added(center, scaled(normal, offset)),
+    u,
+    v,
+    normal,
+  });
+  const down = scaled(y, -1);
+  return [
+    face("front", z, d / 2, x, down, w, h),
+    face("back", scaled(z, -1), d / 2, x, down, w, h),
+    face("right", x, w / 2, z, down, d, h),
+    face("left", scaled(x, -1), w / 2, z, down, d, h),
+    face("top", y, h / 2, x, z, w, d),
+  ];
+}
+
+/**
+ * Lay out an exported structure as a simple 3D view drawn with flat rectangles: walls, doors,
+ * windows and openings as their rectangles and objects as boxes, seen from above at an angle with a
+ * parallel projection. {@link RoomPlanViewer} draws it with plain views in `3d` mode, so it needs no
+ * WebGL or 3D library; use {@link toGltf} for a real model.
+ *
+ * Faces are sorted back to front by their centres, which is enough for a room; long walls may
+ * overlap objects in front of them at some angles.
+ *
+ * @param structure A parsed export, see {@link parseCapturedStructure}.
+ * @param options The drawing area and the view angle.
+ * @example
+ * ```ts
+ * const { faces } = layoutStructure3d(structure, { width: 400, height: 300, yaw: Math.PI / 4 });
+ * ```
+ */
+export function layoutStructure3d(
+  structure: CapturedStructure,
+  options: Structure3dLayoutOptions
+): Structure3dLayout {
+  const {
+    width,
+    height,
+    padding = 12,
+    yaw = Math.PI / 6,
+    pitch = Math.PI / 5,
+    story,
+    showObjects = true,
+  } = options;
+  const source =
+    story === undefined ? structure : filterStory(structure, story);
+
+  const cosYaw = Math.cos(yaw);
+  const sinYaw = Math.sin(yaw);
+  const cosPitch = Math.cos(pitch);
+  const sinPitch = Math.sin(pitch);
+  // Screen `x`, screen `y` (down) and distance towards the viewer, in metres.
+  const view = ([x, y, z]: Vector3): Vector3 => {
+    const rx = x * cosYaw - z * sinYaw;
+    const rz = x * sinYaw + z * cosYaw;
+    return [rx, -y * cosPitch + rz * sinPitch, y * sinPitch + rz * cosPitch];
+  };
+
+  // Boxes only show the sides facing the viewer; surfaces are seen from both sides.
+  const faces: Face[] = [
+    ...source.walls.map((s) => surfaceFace(s, "wall")),
+    ...source.openings.map((s) => surfaceFace(s, "opening")),
+    ...source.windows.map((s) => surfaceFace(s, "window")),
+    ...source.doors.map((s) => surfaceFace(s, "door")),
+    ...(showObjects ? source.objects.flatMap(objectFaces) : []),
+  ].filter(
+    (face) => face.kind !== "object" || view(faceNormal(face))[2] > 1e-6
+  );
+
+  const corners = faces.flatMap((face) =>
+    [
+      [-1, -1],
+      [1, -1],
+      [1, 1],
+      [-1, 1],
+    ].map(([i, j]) => {
+      const corner = added(
+        face.origin,
+        added(
+          scaled(face.u, (face.width / 2) * i),
+          scaled(face.v, (face.height / 2) * j)
+        )
+      );
+      const [sx, sy] = view(corner);
+      return [sx, sy] as PlanPoint;
+    })
+  );
+  const bounds = boundsOf(corners) ?? { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+  const projection = fitPlanProjection(bounds, width, height, padding);
+  const { scale } = projection;
+
+  // Doors, windows and openings are sorted with the wall they sit in.
+  const wallDepths = new Map<string, number>();
+  for (const face of faces) {
+    if (face.kind === "wall") wallDepths.set(face.key, view(face.origin)[2]);
+  }
+  // Lit from above and from the viewer, so tops and sides of boxes get different shades.
+  const lightOf = (face: Face) => {
+    const normal = faceNormal(face);
+    const facing = Math.abs(view(normal)[2]);
+    return Math.min(1, 0.55 + 0.3 * Math.max(0, normal[1]) + 0.25 * facing);
+  };
+
+  return {
+    width,
+    height,
+    scale,
+    faces: faces
+      .map((face): Structure3dFace => {
+        const [sx, sy, depth] = view(face.origin);
+        const center = projectPoint(projection, [sx, sy]);
+        const [ux, uy] = view(face.u);
+        const [vx, vy] = view(face.v);
+        const wallDepth = face.parent ? wallDepths.get(face.parent) : undefined;
+        return {
+          key: face.key,
+          kind: face.kind,
+          ...(face.category ? { category: face.category } : {}),
+          width: face.width * scale,
+          height: face.height * scale,
+          // prettier-ignore
+          matrix: [
+            ux, uy, 0, 0,
+            vx, vy, 0, 0,
+            0, 0, 1, 0,
+            center[0] - width / 2, center[1] - height / 2, 0, 1,
+          ],
+          center,
+          depth: wallDepth ?? depth,
+          light: lightOf(face),
+        };
+      })
+      .sort(
+        (a, b) =>
+          a.depth - b.depth ||
+          KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind)
+      ),
+  };
+}
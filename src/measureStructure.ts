@@ -0,0 +1,302 @@
+import type {
+  CapturedStructure,
+  CapturedSurface,
+  SectionLabel,
+} from "./CapturedStructure.types";
+import {
+  PlanPoint,
+  centroidOf,
+  distance,
+  distanceToPolygonEdge,
+  filterStory,
+  floorPolygon,
+  getStories,
+  pointInPolygon,
+  polygonArea,
+  polygonPerimeter,
+  surfaceSegment,
+  toPlan,
+  wallOutline,
+} from "./planGeometry";
+import {
+  MeasurementUnits,
+  convertArea,
+  convertLength,
+  convertVolume,
+} from "./units";
+
+/**
+ * Options for {@link measureStructure}.
+ */
+export type MeasureStructureOptions = {
+  /** Unit system of the returned numbers. Defaults to `"metric"`. */
+  units?: MeasurementUnits;
+  /**
+   * Maximum distance in metres between a wall and a floor outline for the wall to count towards
+   * that floor. Defaults to `0.3`.
+   */
+  wallTolerance?: number;
+};
+
+/**
+ * Measurements of one space, story or the whole structure. Lengths, areas and volumes are in the
+ * units named by the enclosing {@link MeasurementReport}.
+ */
+export type SpaceMeasurements = {
+  floorArea: number;
+  /** Total wall area including doors, windows and openings. */
+  grossWallArea: number;
+  /** Combined area of doors, windows and openings in the walls. */
+  openingArea: number;
+  /** Wall area with doors, windows and openings subtracted. */
+  netWallArea: number;
+  /** Length of the floor outline. */
+  perimeter: number;
+  /** Height of the tallest wall. */
+  ceilingHeight: number;
+  /** Floor area multiplied by ceiling height. */
+  volume: number;
+  wallCount: number;
+  doorCount: number;
+  windowCount: number;
+  openingCount: number;
+};
+
+/**
+ * Measurements of a single floor and its surrounding walls.
+ */
+export type SectionMeasurements = SpaceMeasurements & {
+  /** Label of the section inside this floor, or `"unidentified"` when RoomPlan found none. */
+  label: SectionLabel;
+  /** Every section label inside this floor, e.g. `["kitchen", "diningRoom"]` in an open-plan space. */
+  labels: SectionLabel[];
+  story: number;
+  /**
+   * Identifier of the floor surface this space was measured from. Missing when the export has no
+   * floors and the story was measured along its walls instead.
+   */
+  floorIdentifier?: string;
+};
+
+/** Measurements of every space on one story. */
+export type StoryMeasurements = SpaceMeasurements & { story: number };
+
+/**
+ * Serializable result of {@link measureStructure}.
+ */
+export type MeasurementReport = {
+  units: MeasurementUnits;
+  lengthUnit: "m" | "ft";
+  areaUnit: "m²" | "ft²";
+  volumeUnit: "m³" | "ft³";
+  sections: SectionMeasurements[];
+  stories: StoryMeasurements[];
+  total: SpaceMeasurements;
+};
+
+type RawSpace = {
+  floorArea: number;
+  perimeter: number;
+  walls: CapturedSurface[];
+  openings: CapturedSurface[];
+};
+
+const EMPTY: SpaceMeasurements = {
+  floorArea: 0,
+  grossWallArea: 0,
+  openingArea: 0,
+  netWallArea: 0,
+  perimeter: 0,
+  ceilingHeight: 0,
+  volume: 0,
+  wallCount: 0,
+  doorCount: 0,
+  windowCount: 0,
+  openingCount: 0,
+};
+
+function round(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
+
+function surfaceArea(surface: CapturedSurface): number {
+  return surface.dimensions[0] * surface.dimensions[1];
+}
+
+function measureSpace(
+  space: RawSpace,
+  units: MeasurementUnits
+): SpaceMeasurements {
+  const grossWallArea = space.walls.reduce((sum, w) => sum + surfaceArea(w), 0);
+  // An opening can never remove more than the walls it sits in.
+  const openingArea = Math.min(
+    space.openings.reduce((sum, o) => sum + surfaceArea(o), 0),
+    grossWallArea
+  );
+  const ceilingHeight = space.walls.reduce(
+    (max, w) => Math.max(max, w.dimensions[1]),
+    0
+  );
+  const count = (category: CapturedSurface["category"]) =>
+    space.openings.filter((o) => o.category === category).length;
+
+  return {
+    floorArea: round(convertArea(space.floorArea, units)),
+    grossWallArea: round(convertArea(grossWallArea, units)),
+    openingArea: round(convertArea(openingArea, units)),
+    netWallArea: round(convertArea(grossWallArea - openingArea, units)),
+    perimeter: round(convertLength(space.perimeter, units)),
+    ceilingHeight: round(convertLength(ceilingHeight, units)),
+    volume: round(convertVolume(space.floorArea * ceilingHeight, units)),
+    wallCount: space.walls.length,
+    doorCount: count("door"),
+    windowCount: count("window"),
+    openingCount: count("opening"),
+  };
+}
+
+function sumSpaces(spaces: SpaceMeasurements[]): SpaceMeasurements {
+  return spaces.reduce<SpaceMeasurements>(
+    (acc, s) => ({
+      floorArea: round(acc.floorArea + s.floorArea),
+      grossWallArea: round(acc.grossWallArea + s.grossWallArea),
+      openingArea: round(acc.openingArea + s.openingArea),
+      netWallArea: round(acc.netWallArea + s.netWallArea),
+      perimeter: round(acc.perimeter + s.perimeter),
+      ceilingHeight: Math.max(acc.ceilingHeight, s.ceilingHeight),
+      volume: round(acc.volume + s.volume),
+      wallCount: acc.wallCount + s.wallCount,
+      doorCount: acc.doorCount + s.doorCount,
+      windowCount: acc.windowCount + s.windowCount,
+      openingCount: acc.openingCount + s.openingCount,
+    }),
+    EMPTY
+  );
+}
+
+/**
+ * Derive floor area, wall area, perimeter, ceiling height and volume from an exported structure.
+ *
+ * Each floor surface is treated as one space. Sections are matched to the floor that contains their
+ * centre, and walls to every floor whose outline they run along, so a wall between two rooms counts
+ * towards both rooms but only once towards its story. Doors, windows and openings are subtracted from
+ * the wall named by their `parentIdentifier`. Exports without floors, such as those of older iOS
+ * versions, are measured as one space per story, outlined by its walls and labelled by its sections.
+ *
+ * The report only contains plain numbers and strings, so it can be stored, sent over the network or
+ * kept in React state next to `state.lastExport`.
+ *
+ * @param structure A structure returned by {@link parseCapturedStructure}.
+ * @param options Unit system and matching tolerance.
+ * @example
+ * ```ts
+ * const report = measureStructure(structure, { units: "imperial" });
+ * const kitchen = report.sections.find((s) => s.label === "kitchen");
+ * console.log(`${kitchen?.floorArea} ${report.areaUnit}`);
+ * ```
+ */
+export function measureStructure(
+  structure: CapturedStructure,
+  options: MeasureStructureOptions = {}
+): MeasurementReport {
+  const { units = "metric", wallTolerance = 0.3 } = options;
+
+  const sections: SectionMeasurements[] = [];
+  const stories: StoryMeasurements[] = [];
+
+  for (const story of getStories(structure)) {
+    const s = filterStory(structure, story);
+    // Without floors the story's walls outline a single space.
+    const spaces: { polygon: PlanPoint[]; floorIdentifier?: string }[] =
+      s.floors.length || !s.walls.length
+        ? s.floors.map((floor) => ({
+            polygon: floorPolygon(floor),
+            floorIdentifier: floor.identifier,
+          }))
+        : [{ polygon: wallOutline(s.walls) }];
+    const polygons = spaces.map((space) => space.polygon);
+    const openings = [...s.doors, ...s.windows, ...s.openings];
+    const openingsOf = (walls: CapturedSurface[]) => {
+      const ids = new Set(walls.map((w) => w.identifier));
+      return openings.filter(
+        (o) => o.parentIdentifier !== undefined && ids.has(o.parentIdentifier)
+      );
+    };
+
+    // Attach each wall to every floor it borders, falling back to the nearest floor.
+    const wallsByFloor: CapturedSurface[][] = polygons.map(() => []);
+    for (const wall of s.walls) {
+      const seg = surfaceSegment(wall);
+      const mid: PlanPoint = centroidOf([seg.start, seg.end]);
+      const distances = polygons.map((p) => distanceToPolygonEdge(mid, p));
+      const near = distances
+        .map((d, i) => (d <= wallTolerance ? i : -1))
+        .filter((i) => i >= 0);
+      if (near.length) {
+        near.forEach((i) => wallsByFloor[i].push(wall));
+      } else if (distances.length) {
+        wallsByFloor[distances.indexOf(Math.min(...distances))].push(wall);
+      }
+    }
+
+    // Attach each section to the floor containing its centre, falling back to the nearest floor.
+    const labelsByFloor: SectionLabel[][] = polygons.map(() => []);
+    for (const section of s.sections) {
+      const center = toPlan(section.center);
+      let index = polygons.findIndex((p) => pointInPolygon(center, p));
+      if (index < 0 && polygons.length) {
+        const distances = polygons.map((p) => distance(center, centroidOf(p)));
+        index = distances.indexOf(Math.min(...distances));
+      }
+      if (index >= 0) labelsByFloor[index].push(section.label);
+    }
+
+    spaces.forEach(({ polygon, floorIdentifier }, i) => {
+      const labels = labelsByFloor[i];
+      const section: SectionMeasurements = {
+        label: labels[0] ?? "unidentified",
+        labels,
+        story,
+        ...measureSpace(
+          {
+            floorArea: polygonArea(polygon),
+            perimeter: polygonPerimeter(polygon),
+            walls: wallsByFloor[i],
+            openings: openingsOf(wallsByFloor[i]),
+          },
+          units
+        ),
+      };
+      if (floorIdentifier !== undefined) {
+        section.floorIdentifier = floorIdentifier;
+      }
+      sections.push(section);
+    });
+
+    const storyWalls = measureSpace(
+      {
+        floorArea: polygons.reduce((sum, p) => sum + polygonArea(p), 0),
+        perimeter: polygons.reduce((sum, p) => sum + polygonPerimeter(p), 0),
+        walls: s.walls,
+        openings: openingsOf(s.walls),
+      },
+      units
+    );
+    // Volume is summed per space so that rooms with different ceiling heights are respected.
+    const storyVolume = sections
+      .filter((section) => section.story === story)
+      .reduce((sum, section) => sum + section.volume, 0);
+    stories.push({ story, ...storyWalls, volume: round(storyVolume) });
+  }
+
+  const isImperial = units === "imperial";
+  return {
+    units,
+    lengthUnit: isImperial ? "ft" : "m",
+    areaUnit: isImperial ? "ft²" : "m²",
+    volumeUnit: isImperial ? "ft³" : "m³",
+    sections,
+    stories,
+    total: sumSpaces(stories),
+  };
+}
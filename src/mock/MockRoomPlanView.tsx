@@ -0,0 +1,335 @@
+import * as React from "react";
+import { useEffect, useRef } from "react";
+import { View } from "react-native";
+
+import { ScanStatus } from "../ExpoRoomplan.types";
+import type {
+  RoomPlanViewProps,
+  RoomUpdateEvent,
+} from "../ExpoRoomplanView.types";
+import type { RoomPlanErrorCode } from "../RoomPlanError";
+import { liveRoomFromStructure } from "../layoutMiniMap";
+import { parseCapturedStructure } from "../parseCapturedStructure";
+import { useNativeExportProps } from "../useNativeExportProps";
+import { MOCK_EXPORT_DIRECTORY, MOCK_SESSION_DIRECTORY } from "./fixtures";
+import {
+  cancelScheduled,
+  roomPlanMock,
+  schedule,
+  writeExport,
+} from "./roomPlanMock";
+
+type Timer = ReturnType<typeof setTimeout>;
+
+/**
+ * Mirrors the state machine of the native `RoomPlanCaptureUIView` without a camera: every capture
+ * that ends produces one room, and events are scheduled through {@link roomPlanMock}.
+ */
+class MockCaptureSession {
+  props: RoomPlanViewProps = {};
+  private isRunning = false;
+  /** Identifiers of the rooms captured or restored in this session. */
+  private capturedRooms: string[] = [];
+  /** Whether a room is being captured, i.e. started and not yet ended by a finish or add-another. */
+  private isCapturing = false;
+  private pendingFinish = false;
+  private pendingExport = false;
+  private previewEmitted = false;
+  private pendingExportTrigger?: number;
+  private endCaptureTrigger?: number;
+  private isAudioRecording = false;
+  private audioUrl?: string;
+  private photoUrls: string[] = [];
+  private photoTimer?: ReturnType<typeof setInterval>;
+  private timers = new Set<Timer>();
+
+  private emit(name: keyof RoomPlanViewProps, payload?: object) {
+    const timer = schedule({ name, payload }, () => {
+      this.timers.delete(timer);
+      const handler = this.props[name] as ((e: unknown) => void) | undefined;
+      handler?.(payload === undefined ? undefined : { nativeEvent: payload });
+    });
+    this.timers.add(timer);
+  }
+
+  private sendStatus(status: ScanStatus, trigger?: number) {
+    this.emit("onStatus", withTrigger({ status }, trigger));
+  }
+
+  private sendError(
+    errorCode: RoomPlanErrorCode,
+    errorMessage: string,
+    trigger?: number
+  ) {
+    this.emit(
+      "onStatus",
+      withTrigger(
+        { status: ScanStatus.Error, errorCode, errorMessage },
+        trigger
+      )
+    );
+  }
+
+  setRunning(running: boolean) {
+    if (running === this.isRunning) return;
+    this.isRunning = running;
+    if (running) {
+      const { startError, startErrorCode } = roomPlanMock.scenario;
+      if (startError) {
+        this.sendError(startErrorCode, startError);
+        return;
+      }
+      const { resumeFrom } = this.props;
+      const { resumeError } = roomPlanMock.scenario;
+      if (resumeFrom && resumeError) {
+        this.sendError("RESUME_FAILED", resumeError);
+        return;
+      }
+      this.previewEmitted = false;
+      this.capturedRooms = resumeFrom?.rooms.map((r) => r.identifier) ?? [];
+      this.pendingExport = false;
+      this.pendingExportTrigger = undefined;
+      this.setAutoPhotoInterval(this.props.autoPhotoIntervalSec);
+      this.startRoom();
+    } else {
+      this.clearPhotoTimer();
+      if (this.isAudioRecording) this.setAudioRunning(false);
+      // Stopping the native session ends the room being captured, which still runs `didEndWith`.
+      if (this.isCapturing) this.endCapture();
+    }
+  }
+
+  finish(trigger?: number) {
+    this.pendingFinish = true;
+    this.endCaptureTrigger = trigger;
+    this.endCapture();
+  }
+
+  addAnother(trigger?: number) {
+    this.pendingFinish = false;
+    this.pendingExport = false;
+    this.pendingExportTrigger = undefined;
+    this.previewEmitted = false;
+    this.endCaptureTrigger = trigger;
+    this.endCapture();
+  }
+
+  export(trigger?: number) {
+    if (this.capturedRooms.length === 0) {
+      this.pendingExport = true;
+      this.pendingExportTrigger = trigger;
+      return;
+    }
+    this.exportResults(trigger);
+  }
+
+  capturePhoto(trigger?: number) {
+    const timestamp = Date.now();
+    const photoUrl = `${MOCK_EXPORT_DIRECTORY}/${
+      this.props.scanName ?? "Room"
+    }_${timestamp}.jpg`;
+    this.photoUrls.push(photoUrl);
+    this.emit("onPhoto", withTrigger({ photoUrl, timestamp }, trigger));
+  }
+
+  setAudioRunning(running: boolean) {
+    if (running) {
+      this.audioUrl = `${MOCK_EXPORT_DIRECTORY}/${
+        this.props.scanName ?? "Room"
+      }.wav`;
+      this.isAudioRecording = true;
+      this.emit("onAudio", { status: "started", audioUrl: this.audioUrl });
+    } else if (this.isAudioRecording) {
+      this.isAudioRecording = false;
+      this.emit("onAudio", { status: "stopped", audioUrl: this.audioUrl });
+    }
+  }
+
+  setAutoPhotoInterval(sec?: number) {
+    this.clearPhotoTimer();
+    if (this.isRunning && sec && sec > 0) {
+      this.photoTimer = setInterval(() => this.capturePhoto(), sec * 1000);
+    }
+  }
+
+  dispose() {
+    this.clearPhotoTimer();
+    this.timers.forEach(cancelScheduled);
+    this.timers.clear();
+  }
+
+  private clearPhotoTimer() {
+    if (this.photoTimer) clearInterval(this.photoTimer);
+    this.photoTimer = undefined;
+  }
+
+  // Equivalent of `captureSession(_:didEndWith:error:)` once the room has been built.
+  private endCapture() {
+    this.isCapturing = false;
+    const exports: (number | undefined)[] = [];
+    const trigger = this.endCaptureTrigger;
+    this.endCaptureTrigger = undefined;
+    const identifier = this.nextRoomIdentifier();
+    this.capturedRooms.push(identifier);
+    this.emit("onRoomAdded", {
+      index: this.capturedRooms.length - 1,
+      identifier,
+      story: 0,
+      capturedAt: Date.now(),
+      roomUrl: `${MOCK_SESSION_DIRECTORY}/${identifier}.json`,
+      worldMapUrl: `${MOCK_SESSION_DIRECTORY}/${identifier}.arworldmap`,
+    });
+    if (this.pendingFinish && !this.previewEmitted) {
+      if ((this.props.stopAudioOnFinish ?? true) && this.isAudioRecording) {
+        this.setAudioRunning(false);
+      }
+      this.emit("onPreview", withTrigger({}, trigger));
+      this.previewEmitted = true;
+      if (this.props.exportOnFinish ?? true) exports.push(trigger);
+      this.pendingFinish = false;
+    }
+    if (this.pendingExport) {
+      this.pendingExport = false;
+      exports.push(this.pendingExportTrigger);
+      this.pendingExportTrigger = undefined;
+    } else {
+      this.sendStatus(ScanStatus.OK, trigger);
+    }
+    // Native exports in a `Task`, so the OK for the built room arrives before `onExported`.
+    exports.forEach((exportTrigger) => this.exportResults(exportTrigger));
+    if (!this.previewEmitted && this.isRunning) this.startRoom();
+  }
+
+  // Capture of the next room plays the scenario's instructions and "detects" its structure in one go.
+  private startRoom() {
+    this.isCapturing = true;
+    const { instructions, structure } = roomPlanMock.scenario;
+    for (const instruction of instructions) {
+      this.emit("onInstruction", { instruction, timestamp: Date.now() });
+    }
+    const update = mockRoomUpdate(structure, this.capturedRooms.length);
+    if (update) this.emit("onRoomUpdate", update);
+  }
+
+  // The first free identifier, skipping rooms restored or discarded in a resumed session.
+  private nextRoomIdentifier() {
+    const taken = new Set([
+      ...this.capturedRooms,
+      ...(this.props.discardedRoomIds ?? []),
+    ]);
+    let index = this.capturedRooms.length;
+    while (taken.has(mockRoomIdentifier(index))) index += 1;
+    return mockRoomIdentifier(index);
+  }
+
+  private exportResults(trigger?: number) {
+    const discarded = new Set(this.props.discardedRoomIds);
+    const kept = this.capturedRooms.filter((id) => !discarded.has(id));
+    if (kept.length === 0) {
+      this.sendError(
+        "EXPORT_FAILED",
+        "Export failed: every captured room was discarded.",
+        trigger
+      );
+      return;
+    }
+    const { exportError } = roomPlanMock.scenario;
+    if (exportError) {
+      this.sendError("EXPORT_FAILED", `Export failed: ${exportError}`, trigger);
+      return;
+    }
+    const { exportFormats, exportDirectory, exportFileName } = this.props;
+    const { files, ...urls } = writeExport(this.props.scanName ?? "Room", {
+      formats: exportFormats,
+      directory: exportDirectory,
+      fileName: exportFileName,
+    });
+    const payload: Record<string, unknown> = {};
+    if (this.props.sendFileLoc || exportFormats) {
+      Object.assign(payload, urls, { files });
+    }
+    if (this.audioUrl) payload.audioUrl = this.audioUrl;
+    payload.photoUrls = [...this.photoUrls];
+    this.emit("onExported", withTrigger(payload, trigger));
+    this.sendStatus(ScanStatus.OK);
+  }
+}
+
+// The first room matches the fixture's room identifier so exports can be associated back to it.
+function mockRoomIdentifier(index: number) {
+  return `6A1C41C8-30D2-4D36-9E53-5A1B1E6D${index
+    .toString(16)
+    .padStart(4, "0")}`;
+}
+
+// What the native view would report after detecting every element of `json`, or nothing when the
+// scenario's structure isn't valid.
+function mockRoomUpdate(
+  json: unknown,
+  index: number
+): RoomUpdateEvent | undefined {
+  let structure;
+  try {
+    structure = parseCapturedStructure(json);
+  } catch {
+    return undefined;
+  }
+  return {
+    ...liveRoomFromStructure(structure),
+    index,
+    // Standing where capture started, facing world -z.
+    device: { position: [0, 0], heading: -Math.PI / 2 },
+  };
+}
+
+// Native events echo the trigger value that caused them, when there is one.
+function withTrigger<T extends object>(payload: T, trigger?: number) {
+  return trigger === undefined ? payload : { ...payload, trigger };
+}
+
+function useTrigger(
+  value: number | undefined,
+  handler: (trigger: number) => void
+) {
+  useEffect(() => {
+    if (value !== undefined) handler(value);
+    // Triggers are edge-based: only a new value fires the handler.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [value]);
+}
+
+/**
+ * Drop-in replacement for {@link RoomPlanView} that needs no device. It reacts to `running` and the
+ * numeric triggers the same way the native view does and fires scripted `onStatus`, `onPreview`,
+ * `onExported`, `onRoomAdded`, `onRoomUpdate`, `onInstruction`, `onPhoto` and `onAudio` events.
+ * Configure the script with {@link roomPlanMock}.
+ */
+export function MockRoomPlanView(viewProps: RoomPlanViewProps) {
+  // The session plays the native view, which only sees what RoomPlanView passes on.
+  const props = useNativeExportProps(viewProps);
+  const sessionRef = useRef<MockCaptureSession | null>(null);
+  if (!sessionRef.current) sessionRef.current = new MockCaptureSession();
+  const session = sessionRef.current;
+  session.props = props;
+
+  useEffect(() => () => session.dispose(), [session]);
+
+  useEffect(() => {
+    session.setRunning(props.running ?? false);
+  }, [session, props.running]);
+
+  useEffect(() => {
+    session.setAutoPhotoInterval(props.autoPhotoIntervalSec);
+  }, [session, props.autoPhotoIntervalSec]);
+
+  useEffect(() => {
+    session.setAudioRunning(props.audioRunning ?? false);
+  }, [session, props.audioRunning]);
+
+  useTrigger(props.exportTrigger, (t) => session.export(t));
+  useTrigger(props.finishTrigger, (t) => session.finish(t));
+  useTrigger(props.addAnotherTrigger, (t) => session.addAnother(t));
+  useTrigger(props.capturePhotoTrigger, (t) => session.capturePhoto(t));
+
+  return <View testID="RoomPlanView" style={props.style} />;
+}
@@ -0,0 +1,154 @@
+/**
+ * Sample data shaped exactly like the files the native module writes on export.
+ * Used by the mock native layer and handy as input for the pure-TS helpers in tests.
+ */
+
+type Matrix = number[];
+
+// Rotation of `degrees` about the vertical axis followed by a translation, column-major.
+function rotateY(degrees: number, [x, y, z]: number[]): Matrix {
+  const r = (degrees * Math.PI) / 180;
+  const c = Math.round(Math.cos(r) * 1e6) / 1e6;
+  const s = Math.round(Math.sin(r) * 1e6) / 1e6;
+  return [c, 0, -s, 0, 0, 1, 0, 0, s, 0, c, 0, x, y, z, 1];
+}
+
+function surface(
+  identifier: string,
+  category: object,
+  degrees: number,
+  position: number[],
+  dimensions: number[],
+  parentIdentifier: string | null = null
+) {
+  return {
+    identifier,
+    parentIdentifier,
+    category,
+    confidence: { high: {} },
+    dimensions,
+    transform: rotateY(degrees, position),
+    completedEdges: [{ top: {} }, { bottom: {} }, { left: {} }, { right: {} }],
+    polygonCorners: [],
+    curve: null,
+    story: 0,
+  };
+}
+
+const WALL_NORTH = "6A1C41C8-30D2-4D36-9E53-5A1B1E6D0001";
+const WALL_EAST = "6A1C41C8-30D2-4D36-9E53-5A1B1E6D0002";
+const WALL_SOUTH = "6A1C41C8-30D2-4D36-9E53-5A1B1E6D0003";
+const WALL_WEST = "6A1C41C8-30D2-4D36-9E53-5A1B1E6D0004";
+
+const walls = [
+  surface(WALL_NORTH, { wall: {} }, 0, [0, 1.25, -1.5], [4, 2.5, 0]),
+  surface(WALL_EAST, { wall: {} }, -90, [2, 1.25, 0], [3, 2.5, 0]),
+  surface(WALL_SOUTH, { wall: {} }, 180, [0, 1.25, 1.5], [4, 2.5, 0]),
+  surface(WALL_WEST, { wall: {} }, 90, [-2, 1.25, 0], [3, 2.5, 0]),
+];
+const doors = [
+  surface(
+    "6A1C41C8-30D2-4D36-9E53-5A1B1E6D0101",
+    { door: { isOpen: true } },
+    180,
+    [1, 1, 1.5],
+    [0.9, 2, 0],
+    WALL_SOUTH
+  ),
+];
+const windows = [
+  surface(
+    "6A1C41C8-30D2-4D36-9E53-5A1B1E6D0201",
+    { window: {} },
+    0,
+    [0, 1.5, -1.5],
+    [1.2, 1.2, 0],
+    WALL_NORTH
+  ),
+];
+const floors = [
+  {
+    ...surface(
+      "6A1C41C8-30D2-4D36-9E53-5A1B1E6D0301",
+      { floor: {} },
+      0,
+      [0, 0, 0],
+      [4, 3, 0]
+    ),
+    // Floors lie in their local xy-plane, rotated -90° about x into the world floor.
+    transform: [1, 0, 0, 0, 0, 0, -1, 0, 0, 1, 0, 0, 0, 0, 0, 1],
+    completedEdges: [],
+    polygonCorners: [
+      [-2, -1.5, 0],
+      [2, -1.5, 0],
+      [2, 1.5, 0],
+      [-2, 1.5, 0],
+    ],
+  },
+];
+const objects = [
+  {
+    identifier: "6A1C41C8-30D2-4D36-9E53-5A1B1E6D0401",
+    parentIdentifier: null,
+    category: { bed: {} },
+    confidence: { high: {} },
+    dimensions: [1.6, 0.5, 2],
+    transform: rotateY(0, [-0.8, 0.25, -0.4]),
+    story: 0,
+  },
+  {
+    identifier: "6A1C41C8-30D2-4D36-9E53-5A1B1E6D0402",
+    parentIdentifier: null,
+    category: { storage: {} },
+    confidence: { medium: {} },
+    dimensions: [1, 2, 0.6],
+    transform: rotateY(-90, [1.65, 1, -0.6]),
+    story: 0,
+  },
+];
+const sections = [{ label: { bedroom: {} }, center: [0, 0, 0], story: 0 }];
+
+/**
+ * A single 4 m × 3 m bedroom with one door, one window, a bed and a wardrobe, encoded the way
+ * `JSONEncoder().encode(structure)` writes a `CapturedStructure`.
+ */
+export const sampleCapturedStructureJson = {
+  rooms: [
+    {
+      identifier: "6A1C41C8-30D2-4D36-9E53-5A1B1E6D0000",
+      story: 0,
+      version: 2,
+      walls,
+      doors,
+      windows,
+      openings: [],
+      floors,
+      objects,
+      sections,
+    },
+  ],
+  walls,
+  doors,
+  windows,
+  openings: [],
+  floors,
+  objects,
+  sections,
+};
+
+/** Directory used for every export URL produced by the mock native layer. */
+export const MOCK_EXPORT_DIRECTORY = "file:///mock/Export";
+
+/** Directory of the rooms and world maps the mock native layer "saves" for `resumeFrom`. */
+export const MOCK_SESSION_DIRECTORY = "file:///mock/Sessions";
+
+/**
+ * The `onExported` payload the native view sends for `scanName` when `sendFileLoc` is true.
+ */
+export function sampleExportPayload(scanName = "Room") {
+  return {
+    scanUrl: `${MOCK_EXPORT_DIRECTORY}/${scanName}.usdz`,
+    jsonUrl: `${MOCK_EXPORT_DIRECTORY}/${scanName}.json`,
+    photoUrls: [] as string[],
+  };
+}
@@ -0,0 +1,9 @@
+export { MockRoomPlanView } from "./MockRoomPlanView";
+export { MockExpoRoomplan, roomPlanMock } from "./roomPlanMock";
+export type { MockRoomPlanEvent, MockRoomPlanScenario } from "./roomPlanMock";
+export {
+  MOCK_EXPORT_DIRECTORY,
+  MOCK_SESSION_DIRECTORY,
+  sampleCapturedStructureJson,
+  sampleExportPayload,
+} from "./fixtures";
@@ -0,0 +1,287 @@
+import {
+  ExportType,
+  ScanStatus,
+  type ExpoRoomPlanModuleType,
+  type PermissionState,
+  type RoomPlanCapabilities,
+} from "../ExpoRoomplan.types";
+import type {
+  ExportedFile,
+  RoomPlanExportFormat,
+  RoomPlanInstruction,
+} from "../ExpoRoomplanView.types";
+import type { RoomPlanErrorCode } from "../RoomPlanError";
+import { sha256, utf8 } from "../bytes";
+import { MemoryScanStorage, createMemoryScanStorage } from "../scanStorage";
+import { MOCK_EXPORT_DIRECTORY, sampleCapturedStructureJson } from "./fixtures";
+
+/**
+ * Scripted behaviour of the mock native layer. Every field is optional; see {@link roomPlanMock.configure}.
+ */
+export type MockRoomPlanScenario = {
+  /** Milliseconds to wait before each scripted event. Defaults to `0`. */
+  delayMs: number;
+  /** Decoded JSON "written" on export and returned by {@link roomPlanMock.readFile}. */
+  structure: unknown;
+  /** Sent in order with `onInstruction` each time capture of a room starts. Defaults to none. */
+  instructions: RoomPlanInstruction[];
+  /** When set, starting a capture fails with this message, e.g. "RoomPlan is not supported on this device.". */
+  startError?: string;
+  /** Code sent with `startError`. Defaults to `"UNSUPPORTED_DEVICE"`. */
+  startErrorCode: RoomPlanErrorCode;
+  /** When set, exports fail with "Export failed: <message>". */
+  exportError?: string;
+  /** When set, starting with `resumeFrom` fails with this message and a `RESUME_FAILED` code. */
+  resumeError?: string;
+  /** Status sent with `onDismissEvent` after `startCapture`. Defaults to `ScanStatus.OK`. */
+  dismissStatus: ScanStatus;
+  /** Dismiss automatically after `startCapture`. Set to `false` to call {@link roomPlanMock.dismiss} yourself. */
+  autoDismiss: boolean;
+  /**
+   * Resolved by `getCapabilities`. Defaults to a supported iPhone with LiDAR and both permissions
+   * granted; set e.g. `{ ...roomPlanMock.scenario.capabilities, camera: "undetermined" }`.
+   */
+  capabilities: RoomPlanCapabilities;
+  /** What the user answers when `requestPermissions` asks for an `undetermined` permission. Defaults to `"granted"`. */
+  permissionResponse: PermissionState;
+};
+
+/** An event emitted by the mock native layer, recorded for assertions. */
+export type MockRoomPlanEvent = { name: string; payload: unknown };
+
+type Listener = (event: unknown) => void;
+
+const DEFAULT_SCENARIO: MockRoomPlanScenario = {
+  delayMs: 0,
+  structure: sampleCapturedStructureJson,
+  instructions: [],
+  startErrorCode: "UNSUPPORTED_DEVICE",
+  dismissStatus: ScanStatus.OK,
+  autoDismiss: true,
+  capabilities: {
+    platform: "ios",
+    isSupported: true,
+    hasLiDAR: true,
+    osVersion: "17.4",
+    camera: "granted",
+    microphone: "granted",
+  },
+  permissionResponse: "granted",
+};
+
+let scenario: MockRoomPlanScenario = { ...DEFAULT_SCENARIO };
+let events: MockRoomPlanEvent[] = [];
+let storage = createMemoryScanStorage();
+let pendingCapture:
+  | { scanName: string; exportType: ExportType; sendFileLoc: boolean }
+  | undefined;
+const listeners = new Map<string, Set<Listener>>();
+const timers = new Set<ReturnType<typeof setTimeout>>();
+
+/**
+ * Controls the mock native layer used by `expo-roomplan/mock` and `expo-roomplan/jest-setup`.
+ */
+export const roomPlanMock = {
+  /** Merge `changes` into the current scenario. */
+  configure(changes: Partial<MockRoomPlanScenario>) {
+    scenario = { ...scenario, ...changes };
+  },
+
+  /** Current scenario. */
+  get scenario(): Readonly<MockRoomPlanScenario> {
+    return scenario;
+  },
+
+  /** Every event emitted since the last {@link roomPlanMock.reset}, in order. */
+  get events(): readonly MockRoomPlanEvent[] {
+    return events;
+  },
+
+  /** Restore the default scenario, cancel scheduled events and forget emitted events and files. */
+  reset() {
+    scenario = { ...DEFAULT_SCENARIO };
+    events = [];
+    storage = createMemoryScanStorage();
+    pendingCapture = undefined;
+    timers.forEach(clearTimeout);
+    timers.clear();
+  },
+
+  /** Contents of a file "written" by a mock export, e.g. the `jsonUrl` from `onExported`. */
+  readFile(url: string): string | undefined {
+    return storage.files.get(url);
+  },
+
+  /**
+   * The files "written" by mock exports as a {@link ScanStorage}, e.g. to pass as `exportStorage`
+   * or to `createScanLibrary`. Replaced by {@link roomPlanMock.reset}.
+   */
+  get storage(): MemoryScanStorage {
+    return storage;
+  },
+
+  /**
+   * Finish the capture started by `ExpoRoomplan.startCapture` with the given status.
+   * Only needed when `autoDismiss` is `false`.
+   */
+  dismiss(status: ScanStatus = scenario.dismissStatus) {
+    const capture = pendingCapture;
+    pendingCapture = undefined;
+    const payload: Record<string, unknown> = { status };
+    if (capture && status === ScanStatus.OK && capture.sendFileLoc) {
+      const { scanUrl, jsonUrl } = writeExport(capture.scanName);
+      Object.assign(payload, { scanUrl, jsonUrl });
+    }
+    emitModuleEvent("onDismissEvent", payload);
+  },
+};
+
+/** @internal Record an event and run `fire` after the scripted delay. */
+export function schedule(event: MockRoomPlanEvent, fire: () => void) {
+  const timer = setTimeout(() => {
+    timers.delete(timer);
+    events.push(event);
+    fire();
+  }, scenario.delayMs);
+  timers.add(timer);
+  return timer;
+}
+
+/** @internal Cancel an event scheduled with {@link schedule}. */
+export function cancelScheduled(timer: ReturnType<typeof setTimeout>) {
+  clearTimeout(timer);
+  timers.delete(timer);
+}
+
+/** @internal Export settings of the mock view, see `RoomPlanViewProps`. */
+export type MockExportConfig = {
+  formats?: RoomPlanExportFormat[];
+  directory?: string;
+  fileName?: string;
+};
+
+// Same tokens as `exportFileName` in the native view.
+function resolveFileName(template: string, scanName: string, now: Date) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const date =
+    `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}-` +
+    `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`;
+  return template
+    .split("{scanName}")
+    .join(scanName)
+    .split("{timestamp}")
+    .join(String(now.getTime()))
+    .split("{date}")
+    .join(date);
+}
+
+function directoryUrl(directory: string) {
+  const url = directory.startsWith("/") ? `file://${directory}` : directory;
+  return url.replace(/\/+$/, "");
+}
+
+/**
+ * @internal Store the structure JSON and USDZ of an export the way the native view does and return
+ * their URLs and file metadata.
+ */
+export function writeExport(scanName: string, config: MockExportConfig = {}) {
+  const {
+    formats = ["usdz", "json"],
+    directory = MOCK_EXPORT_DIRECTORY,
+    fileName = "{scanName}",
+  } = config;
+  const base = `${directoryUrl(directory)}/${resolveFileName(
+    fileName,
+    scanName,
+    new Date()
+  )}`;
+  const result: { scanUrl?: string; jsonUrl?: string; files: ExportedFile[] } =
+    { files: [] };
+  const write = (format: RoomPlanExportFormat, contents: string) => {
+    const url = `${base}.${format}`;
+    const bytes = utf8(contents);
+    storage.files.set(url, contents);
+    result.files.push({
+      url,
+      format,
+      size: bytes.length,
+      checksum: sha256(bytes),
+    });
+    return url;
+  };
+  if (formats.includes("usdz")) result.scanUrl = write("usdz", "");
+  if (formats.includes("json")) {
+    result.jsonUrl = write("json", JSON.stringify(scenario.structure));
+  }
+  return result;
+}
+
+function emitModuleEvent(name: string, payload: unknown) {
+  schedule({ name, payload }, () => {
+    listeners.get(name)?.forEach((listener) => listener(payload));
+  });
+}
+
+/**
+ * Stand-in for the `ExpoRoomPlan` native module. `startCapture` pretends to present the capture
+ * controller and, unless `autoDismiss` is disabled, emits `onDismissEvent` like the native flow.
+ */
+export const MockExpoRoomplan: Required<ExpoRoomPlanModuleType> = {
+  async startCapture(scanName, exportType, sendFileLoc) {
+    pendingCapture = { scanName, exportType, sendFileLoc };
+    if (scenario.startError) {
+      pendingCapture = undefined;
+      emitModuleEvent("onDismissEvent", {
+        status: ScanStatus.Error,
+        errorCode: scenario.startErrorCode,
+        errorMessage: scenario.startError,
+      });
+      return;
+    }
+    if (scenario.autoDismiss) roomPlanMock.dismiss();
+  },
+
+  async stopCapture() {
+    pendingCapture = undefined;
+  },
+
+  async getCapabilities() {
+    return { ...scenario.capabilities };
+  },
+
+  async requestPermissions(options = {}) {
+    const { capabilities, permissionResponse } = scenario;
+    const answer = (state: PermissionState) =>
+      state === "undetermined" ? permissionResponse : state;
+    const camera = answer(capabilities.camera);
+    const microphone = options.microphone
+      ? answer(capabilities.microphone)
+      : capabilities.microphone;
+    scenario = {
+      ...scenario,
+      capabilities: { ...capabilities, camera, microphone },
+    };
+    return { camera, microphone };
+  },
+
+  async deleteSavedSession(session) {
+    for (const { roomUrl } of session.rooms) {
+      if (roomUrl) storage.files.delete(roomUrl);
+    }
+    if (session.worldMapUrl) storage.files.delete(session.worldMapUrl);
+  },
+
+  addListener(eventName, listener) {
+    const set = listeners.get(eventName) ?? new Set();
+    set.add(listener);
+    listeners.set(eventName, set);
+    return { remove: () => set.delete(listener) };
+  },
+
+  // Bookkeeping for the native side of the emitter; like there, it leaves JS listeners alone.
+  removeListeners(_count) {},
+
+  removeAllListeners(eventName) {
+    listeners.delete(eventName);
+  },
+};
@@ -0,0 +1,16 @@
+/**
+ * Jest setup file that replaces the native `ExpoRoomPlan` module and `ExpoRoomPlanView` with the
+ * device-free mocks from this folder, so the real hooks and provider can run headlessly.
+ *
+ * Reference it from your Jest config as `setupFiles: ["expo-roomplan/jest-setup"]` and call
+ * `roomPlanMock.reset()` between tests.
+ */
+jest.mock("../ExpoRoomplanModule", () => ({
+  __esModule: true,
+  default: require("./roomPlanMock").MockExpoRoomplan,
+}));
+
+jest.mock("../RoomPlanView", () => ({
+  __esModule: true,
+  RoomPlanView: require("./MockRoomPlanView").MockRoomPlanView,
+}));
@@ -0,0 +1,497 @@
+import type {
+  CapturedObject,
+  CapturedRoom,
+  CapturedSection,
+  CapturedStructure,
+  CapturedSurface,
+  ConfidenceLevel,
+  ObjectCategory,
+  SectionLabel,
+  SurfaceCategory,
+  SurfaceCurve,
+  SurfaceEdge,
+  Transform4x4,
+  Vector3,
+} from "./CapturedStructure.types";
+
+/**
+ * A single problem found while validating exported RoomPlan JSON.
+ */
+export type CapturedStructureIssue = {
+  /** JSONPath-like location of the problem, e.g. `$.walls[2].transform[5]`. */
+  path: string;
+  message: string;
+};
+
+/**
+ * Thrown by {@link parseCapturedStructure} when the input does not match the RoomPlan export format.
+ * Every problem found is listed in {@link CapturedStructureParseError.issues}.
+ */
+export class CapturedStructureParseError extends Error {
+  readonly issues: CapturedStructureIssue[];
+
+  constructor(issues: CapturedStructureIssue[]) {
+    const [first] = issues;
+    const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : "";
+    super(
+      `Invalid CapturedStructure at ${first.path}: ${first.message}${more}`
+    );
+    this.name = "CapturedStructureParseError";
+    this.issues = issues;
+  }
+}
+
+const SURFACE_CATEGORIES: readonly SurfaceCategory[] = [
+  "wall",
+  "door",
+  "window",
+  "opening",
+  "floor",
+];
+const CONFIDENCE_LEVELS: readonly ConfidenceLevel[] = ["low", "medium", "high"];
+const SURFACE_EDGES: readonly SurfaceEdge[] = [
+  "top",
+  "bottom",
+  "left",
+  "right",
+];
+const OBJECT_CATEGORIES: readonly ObjectCategory[] = [
+  "storage",
+  "refrigerator",
+  "stove",
+  "bed",
+  "sink",
+  "washerDryer",
+  "toilet",
+  "bathtub",
+  "oven",
+  "dishwasher",
+  "table",
+  "sofa",
+  "chair",
+  "fireplace",
+  "television",
+  "stairs",
+];
+const SECTION_LABELS: readonly SectionLabel[] = [
+  "livingRoom",
+  "bedroom",
+  "bathroom",
+  "kitchen",
+  "diningRoom",
+  "unidentified",
+];
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+/**
+ * Collects issues while walking the decoded JSON so that all problems can be reported at once.
+ */
+class Reader {
+  readonly issues: CapturedStructureIssue[] = [];
+
+  fail(path: string, message: string): undefined {
+    this.issues.push({ path, message });
+    return undefined;
+  }
+
+  object(value: unknown, path: string): Json | undefined {
+    if (isObject(value)) return value;
+    return this.fail(path, `expected object, got ${describe(value)}`);
+  }
+
+  number(value: unknown, path: string): number | undefined {
+    if (typeof value === "number" && Number.isFinite(value)) return value;
+    return this.fail(path, `expected finite number, got ${describe(value)}`);
+  }
+
+  string(value: unknown, path: string): string | undefined {
+    if (typeof value === "string") return value;
+    return this.fail(path, `expected string, got ${describe(value)}`);
+  }
+
+  optionalString(value: unknown, path: string): string | undefined {
+    if (value === undefined || value === null) return undefined;
+    return this.string(value, path);
+  }
+
+  numbers(value: unknown, path: string, length: number): number[] | undefined {
+    if (!Array.isArray(value)) {
+      return this.fail(
+        path,
+        `expected array of ${length} numbers, got ${describe(value)}`
+      );
+    }
+    if (value.length !== length) {
+      return this.fail(path, `expected ${length} numbers, got ${value.length}`);
+    }
+    const result = value.map((item, i) => this.number(item, `${path}[${i}]`));
+    return result.every((n) => n !== undefined)
+      ? (result as number[])
+      : undefined;
+  }
+
+  array<T>(
+    value: unknown,
+    path: string,
+    item: (value: unknown, path: string) => T | undefined,
+    optional = false
+  ): T[] | undefined {
+    if (optional && (value === undefined || value === null)) return [];
+    if (!Array.isArray(value)) {
+      return this.fail(path, `expected array, got ${describe(value)}`);
+    }
+    const result = value.map((entry, i) => item(entry, `${path}[${i}]`));
+    return result.every((entry) => entry !== undefined)
+      ? (result as T[])
+      : undefined;
+  }
+
+  /**
+   * Reads a Swift enum. `JSONEncoder` writes cases as `{"case": {...}}`; plain strings are accepted too.
+   * Returns the case name and its associated values.
+   */
+  enumCase<T extends string>(
+    value: unknown,
+    path: string,
+    cases: readonly T[]
+  ): { name: T; values: Json } | undefined {
+    let name: unknown = value;
+    let values: Json = {};
+    if (isObject(value)) {
+      const keys = Object.keys(value);
+      if (keys.length !== 1) {
+        return this.fail(
+          path,
+          `expected a single enum case, got keys [${keys.join(", ")}]`
+        );
+      }
+      name = keys[0];
+      values = isObject(value[keys[0]]) ? (value[keys[0]] as Json) : {};
+    }
+    if (typeof name !== "string") {
+      return this.fail(path, `expected enum case, got ${describe(value)}`);
+    }
+    if (!cases.includes(name as T)) {
+      return this.fail(
+        path,
+        `unknown value "${name}", expected one of ${cases.join(", ")}`
+      );
+    }
+    return { name: name as T, values };
+  }
+}
+
+function readVector3(
+  r: Reader,
+  value: unknown,
+  path: string
+): Vector3 | undefined {
+  return r.numbers(value, path, 3) as Vector3 | undefined;
+}
+
+function readTransform(
+  r: Reader,
+  value: unknown,
+  path: string
+): Transform4x4 | undefined {
+  return r.numbers(value, path, 16) as Transform4x4 | undefined;
+}
+
+// Symbols of the `UnitAngle`s RoomPlan is known to use, in radians per unit.
+const ANGLE_UNITS: Record<string, number> = {
+  rad: 1,
+  "°": Math.PI / 180,
+  deg: Math.PI / 180,
+};
+
+/**
+ * Reads an angle in radians. Curve angles are `Measurement<UnitAngle>`, which `JSONEncoder` writes as
+ * `{"value": 90, "unit": {"symbol": "°", "converter": {"coefficient": 1, "constant": 0}}}`; the
+ * converter maps to degrees, the base unit of `UnitAngle`. Plain numbers are taken as radians.
+ */
+function readAngle(
+  r: Reader,
+  value: unknown,
+  path: string
+): number | undefined {
+  if (!isObject(value)) return r.number(value, path);
+  const amount = r.number(value.value, `${path}.value`);
+  if (amount === undefined) return undefined;
+  const unit = value.unit;
+  const converter = isObject(unit) ? unit.converter : undefined;
+  if (isObject(converter)) {
+    const coefficient = r.number(
+      converter.coefficient,
+      `${path}.unit.converter.coefficient`
+    );
+    const constant =
+      converter.constant === undefined
+        ? 0
+        : r.number(converter.constant, `${path}.unit.converter.constant`);
+    if (coefficient === undefined || constant === undefined) return undefined;
+    return ((amount * coefficient + constant) * Math.PI) / 180;
+  }
+  const symbol = isObject(unit) ? unit.symbol : unit;
+  if (typeof symbol === "string" && symbol in ANGLE_UNITS) {
+    return amount * ANGLE_UNITS[symbol];
+  }
+  return r.fail(
+    `${path}.unit`,
+    `unknown angle unit, expected one of ${Object.keys(ANGLE_UNITS).join(", ")}`
+  );
+}
+
+function readCurve(
+  r: Reader,
+  value: unknown,
+  path: string
+): SurfaceCurve | undefined {
+  const obj = r.object(value, path);
+  if (!obj) return undefined;
+  const radius = r.number(obj.radius, `${path}.radius`);
+  const startAngle = readAngle(r, obj.startAngle, `${path}.startAngle`);
+  const endAngle = readAngle(r, obj.endAngle, `${path}.endAngle`);
+  if (
+    radius === undefined ||
+    startAngle === undefined ||
+    endAngle === undefined
+  ) {
+    return undefined;
+  }
+  return { radius, startAngle, endAngle };
+}
+
+function readSurface(
+  r: Reader,
+  value: unknown,
+  path: string
+): CapturedSurface | undefined {
+  const obj = r.object(value, path);
+  if (!obj) return undefined;
+  const before = r.issues.length;
+
+  const identifier = r.string(obj.identifier, `${path}.identifier`);
+  const parentIdentifier = r.optionalString(
+    obj.parentIdentifier,
+    `${path}.parentIdentifier`
+  );
+  const category = r.enumCase(
+    obj.category,
+    `${path}.category`,
+    SURFACE_CATEGORIES
+  );
+  const confidence = r.enumCase(
+    obj.confidence,
+    `${path}.confidence`,
+    CONFIDENCE_LEVELS
+  );
+  const dimensions = readVector3(r, obj.dimensions, `${path}.dimensions`);
+  const transform = readTransform(r, obj.transform, `${path}.transform`);
+  const completedEdges = r.array(
+    obj.completedEdges,
+    `${path}.completedEdges`,
+    (edge, edgePath) => r.enumCase(edge, edgePath, SURFACE_EDGES)?.name,
+    true
+  );
+  const polygonCorners = r.array(
+    obj.polygonCorners,
+    `${path}.polygonCorners`,
+    (corner, cornerPath) => readVector3(r, corner, cornerPath),
+    true
+  );
+  const curve =
+    obj.curve === undefined || obj.curve === null
+      ? undefined
+      : readCurve(r, obj.curve, `${path}.curve`);
+  const story =
+    obj.story === undefined ? 0 : r.number(obj.story, `${path}.story`);
+
+  if (r.issues.length > before) return undefined;
+
+  const surface: CapturedSurface = {
+    identifier: identifier!,
+    category: category!.name,
+    confidence: confidence!.name,
+    dimensions: dimensions!,
+    transform: transform!,
+    completedEdges: completedEdges!,
+    polygonCorners: polygonCorners!,
+    story: story!,
+  };
+  if (parentIdentifier !== undefined)
+    surface.parentIdentifier = parentIdentifier;
+  if (category!.name === "door")
+    surface.isOpen = category!.values.isOpen === true;
+  if (curve) surface.curve = curve;
+  return surface;
+}
+
+function readObject(
+  r: Reader,
+  value: unknown,
+  path: string
+): CapturedObject | undefined {
+  const obj = r.object(value, path);
+  if (!obj) return undefined;
+  const before = r.issues.length;
+
+  const identifier = r.string(obj.identifier, `${path}.identifier`);
+  const parentIdentifier = r.optionalString(
+    obj.parentIdentifier,
+    `${path}.parentIdentifier`
+  );
+  const category = r.enumCase(
+    obj.category,
+    `${path}.category`,
+    OBJECT_CATEGORIES
+  );
+  const confidence = r.enumCase(
+    obj.confidence,
+    `${path}.confidence`,
+    CONFIDENCE_LEVELS
+  );
+  const dimensions = readVector3(r, obj.dimensions, `${path}.dimensions`);
+  const transform = readTransform(r, obj.transform, `${path}.transform`);
+  const story =
+    obj.story === undefined ? 0 : r.number(obj.story, `${path}.story`);
+
+  if (r.issues.length > before) return undefined;
+
+  const object: CapturedObject = {
+    identifier: identifier!,
+    category: category!.name,
+    confidence: confidence!.name,
+    dimensions: dimensions!,
+    transform: transform!,
+    story: story!,
+  };
+  if (parentIdentifier !== undefined)
+    object.parentIdentifier = parentIdentifier;
+  return object;
+}
+
+function readSection(
+  r: Reader,
+  value: unknown,
+  path: string
+): CapturedSection | undefined {
+  const obj = r.object(value, path);
+  if (!obj) return undefined;
+  const label = r.enumCase(obj.label, `${path}.label`, SECTION_LABELS);
+  const center = readVector3(r, obj.center, `${path}.center`);
+  const story =
+    obj.story === undefined ? 0 : r.number(obj.story, `${path}.story`);
+  if (!label || !center || story === undefined) return undefined;
+  return { label: label.name, center, story };
+}
+
+type Contents = Omit<CapturedStructure, "rooms">;
+
+function readContents(
+  r: Reader,
+  obj: Json,
+  path: string
+): Contents | undefined {
+  const before = r.issues.length;
+  const surfaces = (key: string, optional = true) =>
+    r.array(
+      obj[key],
+      `${path}.${key}`,
+      (v, p) => readSurface(r, v, p),
+      optional
+    );
+
+  const contents = {
+    // Every export has `walls`; requiring it keeps unrelated objects such as `{}` from passing.
+    walls: surfaces("walls", false),
+    doors: surfaces("doors"),
+    windows: surfaces("windows"),
+    openings: surfaces("openings"),
+    floors: surfaces("floors"),
+    objects: r.array(
+      obj.objects,
+      `${path}.objects`,
+      (v, p) => readObject(r, v, p),
+      true
+    ),
+    sections: r.array(
+      obj.sections,
+      `${path}.sections`,
+      (v, p) => readSection(r, v, p),
+      true
+    ),
+  };
+  return r.issues.length > before ? undefined : (contents as Contents);
+}
+
+function readRoom(
+  r: Reader,
+  value: unknown,
+  path: string
+): CapturedRoom | undefined {
+  const obj = r.object(value, path);
+  if (!obj) return undefined;
+  const identifier = r.string(obj.identifier, `${path}.identifier`);
+  const story =
+    obj.story === undefined ? 0 : r.number(obj.story, `${path}.story`);
+  const contents = readContents(r, obj, path);
+  if (identifier === undefined || story === undefined || !contents)
+    return undefined;
+  return { identifier, story, ...contents };
+}
+
+/**
+ * Parse and validate the JSON written next to the USDZ by an export (`<scanName>.json`).
+ *
+ * Accepts either the raw JSON text or an already decoded value. Swift enums encoded as
+ * `{"case": {}}` are flattened to plain strings, and `null` optionals are omitted.
+ *
+ * @param json The file contents, or the result of `JSON.parse` on them.
+ * @returns A typed {@link CapturedStructure}.
+ * @throws {CapturedStructureParseError} Listing the path of every malformed value.
+ * @example
+ * ```ts
+ * const text = await FileSystem.readAsStringAsync(state.lastExport.jsonUrl);
+ * const structure = parseCapturedStructure(text);
+ * console.log(structure.walls.length);
+ * ```
+ */
+export function parseCapturedStructure(json: unknown): CapturedStructure {
+  let value = json;
+  if (typeof json === "string") {
+    try {
+      value = JSON.parse(json);
+    } catch (e) {
+      throw new CapturedStructureParseError([
+        { path: "$", message: `invalid JSON: ${(e as Error).message}` },
+      ]);
+    }
+  }
+
+  const r = new Reader();
+  const obj = r.object(value, "$");
+  if (obj) {
+    const rooms = r.array(
+      obj.rooms,
+      "$.rooms",
+      (v, p) => readRoom(r, v, p),
+      true
+    );
+    const contents = readContents(r, obj, "$");
+    if (rooms && contents && r.issues.length === 0) {
+      return { rooms, ...contents };
+    }
+  }
+  throw new CapturedStructureParseError(r.issues);
+}
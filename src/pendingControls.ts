@@ -0,0 +1,154 @@
+import { RoomPlanError } from "./RoomPlanError";
+
+/**
+ * Options accepted by the promise-based controls of {@link useRoomPlanView}.
+ */
+export type ControlOptions = {
+  /**
+   * Reject if the native view has not answered after this many milliseconds. Defaults to the
+   * `controlTimeoutMs` option of the hook; `0` waits forever.
+   */
+  timeoutMs?: number;
+  /** Reject early when this signal is aborted. The native work itself is not interrupted. */
+  signal?: AbortSignal;
+};
+
+/**
+ * A control that waits for the native view. It can be passed straight to `onPress`; the press event
+ * is ignored.
+ */
+export type AsyncControl<T> = {
+  (options?: ControlOptions): Promise<T>;
+  (event: object): Promise<T>;
+};
+
+/** Controls that wait for a native event. */
+export type PendingControlKind = "finish" | "addRoom" | "export" | "photo";
+
+type Entry = {
+  kind: PendingControlKind;
+  /** Settles the promise of `add<T>`; callers pass the `T` of the control's `kind`. */
+  resolve: (value: unknown) => void;
+  reject: (error: RoomPlanError) => void;
+};
+
+/**
+ * Promises of in-flight controls, keyed by the trigger value sent to the native view. The native
+ * view echoes that value in the event that answers it, so concurrent calls settle independently.
+ *
+ * A trigger prop only holds one value per render, so calls of the same kind are sent one after
+ * another: a second `capturePhoto` is sent once the first has settled.
+ *
+ * @internal
+ */
+export class PendingControls {
+  private entries = new Map<number, Entry>();
+  private tails = new Map<PendingControlKind, Promise<unknown>>();
+
+  /**
+   * Register a control identified by `trigger`, call `send` once no earlier control of the same kind
+   * is in flight, and return a promise settled by {@link resolve} or {@link reject}.
+   */
+  add<T>(
+    kind: PendingControlKind,
+    trigger: number,
+    { timeoutMs = 0, signal }: ControlOptions,
+    send: () => void
+  ): Promise<T> {
+    const promise = new Promise<T>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const onAbort = () =>
+        this.reject(
+          trigger,
+          new RoomPlanError("ABORTED", `RoomPlan ${kind} was aborted.`)
+        );
+      const settle = () => {
+        if (timer) clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        this.entries.delete(trigger);
+      };
+      this.entries.set(trigger, {
+        kind,
+        resolve: (value) => {
+          settle();
+          resolve(value as T);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        },
+      });
+
+      if (signal?.aborted) return onAbort();
+      signal?.addEventListener("abort", onAbort);
+      if (timeoutMs > 0) {
+        timer = setTimeout(
+          () =>
+            this.reject(
+              trigger,
+              new RoomPlanError(
+                "TIMEOUT",
+                `RoomPlan ${kind} timed out after ${timeoutMs} ms.`
+              )
+            ),
+          timeoutMs
+        );
+      }
+    });
+    // Callers may fire and forget (e.g. `onPress={controls.finishScan}`); don't report those
+    // rejections as unhandled. Awaiting the returned promise still throws.
+    promise.catch(() => {});
+
+    const previous = this.tails.get(kind);
+    const sendIfPending = () => {
+      if (this.entries.has(trigger)) send();
+    };
+    if (previous) previous.then(sendIfPending, sendIfPending);
+    else sendIfPending();
+    this.tails.set(kind, promise);
+    const clearTail = () => {
+      if (this.tails.get(kind) === promise) this.tails.delete(kind);
+    };
+    promise.then(clearTail, clearTail);
+    return promise;
+  }
+
+  /** Whether a control of one of `kinds` is waiting for `trigger`. */
+  has(kinds: PendingControlKind[], trigger: number | undefined) {
+    const entry = trigger === undefined ? undefined : this.entries.get(trigger);
+    return !!entry && kinds.includes(entry.kind);
+  }
+
+  /** Resolve the control of one of `kinds` sent with `trigger`, if any. */
+  resolve(
+    kinds: PendingControlKind[],
+    trigger: number | undefined,
+    value?: unknown
+  ) {
+    if (trigger !== undefined && this.has(kinds, trigger)) {
+      this.entries.get(trigger)!.resolve(value);
+    }
+  }
+
+  /** Reject the control sent with `trigger`, if any. */
+  reject(trigger: number | undefined, error: RoomPlanError) {
+    if (trigger !== undefined) this.entries.get(trigger)?.reject(error);
+  }
+
+  /**
+   * Reject every control still waiting, e.g. when the scan is canceled or the view unmounts.
+   * Controls sent with a trigger in `keep` are left to settle on their own.
+   */
+  rejectAll(error: RoomPlanError, keep?: ReadonlySet<number>) {
+    [...this.entries]
+      .filter(([trigger]) => !keep?.has(trigger))
+      .forEach(([, entry]) => entry.reject(error));
+  }
+}
+
+/** A control promise that rejects right away with `INVALID_STATE` because the control was not allowed. */
+export function rejectedControl<T>(reason: string): Promise<T> {
+  const promise = Promise.reject<T>(new RoomPlanError("INVALID_STATE", reason));
+  promise.catch(() => {});
+  return promise;
+}
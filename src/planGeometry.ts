@@ -0,0 +1,488 @@
+import type {
+  CapturedObject,
+  CapturedStructure,
+  CapturedSurface,
+  Transform4x4,
+  Vector3,
+} from "./CapturedStructure.types";
+
+/**
+ * A point on the floor plane in metres: world `x` and world `z`.
+ * Looking down from above, `x` grows to the right and `z` grows towards the viewer (down the page).
+ */
+export type PlanPoint = [number, number];
+
+/** A straight segment on the floor plane. */
+export type PlanSegment = { start: PlanPoint; end: PlanPoint };
+
+/** Axis-aligned bounds on the floor plane. */
+export type PlanBounds = {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+};
+
+/**
+ * Apply a column-major 4x4 transform to a point in local space.
+ */
+export function transformPoint(t: Transform4x4, v: Vector3): Vector3 {
+  const [x, y, z] = v;
+  return [
+    t[0] * x + t[4] * y + t[8] * z + t[12],
+    t[1] * x + t[5] * y + t[9] * z + t[13],
+    t[2] * x + t[6] * y + t[10] * z + t[14],
+  ];
+}
+
+/** Drop the vertical axis of a world-space point. */
+export function toPlan(v: Vector3): PlanPoint {
+  return [v[0], v[2]];
+}
+
+/** World-space translation of a transform. */
+export function translationOf(t: Transform4x4): Vector3 {
+  return [t[12], t[13], t[14]];
+}
+
+/**
+ * Project a wall, door, window or opening onto the floor plane as the segment along its width.
+ */
+export function surfaceSegment(surface: CapturedSurface): PlanSegment {
+  const half = surface.dimensions[0] / 2;
+  return {
+    start: toPlan(transformPoint(surface.transform, [-half, 0, 0])),
+    end: toPlan(transformPoint(surface.transform, [half, 0, 0])),
+  };
+}
+
+/**
+ * Unit normal of a surface on the floor plane (its local `+z` axis), or `[0, 0]` for horizontal surfaces.
+ */
+export function surfaceNormal(surface: CapturedSurface): PlanPoint {
+  const t = surface.transform;
+  return normalize([t[8], t[10]]);
+}
+
+/**
+ * Outline of a floor on the floor plane. Uses `polygonCorners` when present and falls back to the
+ * rectangle described by `dimensions`.
+ */
+export function floorPolygon(surface: CapturedSurface): PlanPoint[] {
+  const [w, h] = surface.dimensions;
+  const corners: Vector3[] = surface.polygonCorners.length
+    ? surface.polygonCorners
+    : [
+        [-w / 2, -h / 2, 0],
+        [w / 2, -h / 2, 0],
+        [w / 2, h / 2, 0],
+        [-w / 2, h / 2, 0],
+      ];
+  return corners.map((c) => toPlan(transformPoint(surface.transform, c)));
+}
+
+/**
+ * Outline traced along a set of walls, for exports without floor surfaces. Starting from the first
+ * wall, each next wall is the one with an end closest to where the previous wall ended; the outline
+ * has one corner per wall.
+ */
+export function wallOutline(walls: CapturedSurface[]): PlanPoint[] {
+  const remaining = walls.map(surfaceSegment);
+  const first = remaining.shift();
+  if (!first) return [];
+  const outline: PlanPoint[] = [first.start];
+  let end = first.end;
+  while (remaining.length) {
+    let best = 0;
+    let reversed = false;
+    let bestDistance = Infinity;
+    remaining.forEach((seg, i) => {
+      const toStart = distance(end, seg.start);
+      const toEnd = distance(end, seg.end);
+      if (Math.min(toStart, toEnd) < bestDistance) {
+        best = i;
+        reversed = toEnd < toStart;
+        bestDistance = Math.min(toStart, toEnd);
+      }
+    });
+    const [next] = remaining.splice(best, 1);
+    outline.push(reversed ? next.end : next.start);
+    end = reversed ? next.start : next.end;
+  }
+  return outline;
+}
+
+/**
+ * Footprint of an object's bounding box on the floor plane, as four corners.
+ */
+export function objectFootprint(object: CapturedObject): PlanPoint[] {
+  const [w, , d] = object.dimensions;
+  const corners: Vector3[] = [
+    [-w / 2, 0, -d / 2],
+    [w / 2, 0, -d / 2],
+    [w / 2, 0, d / 2],
+    [-w / 2, 0, d / 2],
+  ];
+  return corners.map((c) => toPlan(transformPoint(object.transform, c)));
+}
+
+/** Sorted list of the story indices present in a structure. */
+export function getStories(structure: CapturedStructure): number[] {
+  const stories = new Set<number>();
+  for (const list of [
+    structure.walls,
+    structure.doors,
+    structure.windows,
+    structure.openings,
+    structure.floors,
+    structure.objects,
+    structure.sections,
+  ]) {
+    for (const item of list) stories.add(item.story);
+  }
+  return [...stories].sort((a, b) => a - b);
+}
+
+/**
+ * Copy of a structure keeping only the elements on the given story.
+ */
+export function filterStory(
+  structure: CapturedStructure,
+  story: number
+): CapturedStructure {
+  const onStory = <T extends { story: number }>(items: T[]) =>
+    items.filter((item) => item.story === story);
+  return {
+    rooms: structure.rooms.filter((room) => room.story === story),
+    walls: onStory(structure.walls),
+    doors: onStory(structure.doors),
+    windows: onStory(structure.windows),
+    openings: onStory(structure.openings),
+    floors: onStory(structure.floors),
+    objects: onStory(structure.objects),
+    sections: onStory(structure.sections),
+  };
+}
+
+/** Bounds of a set of points, or `undefined` when empty. */
+export function boundsOf(points: PlanPoint[]): PlanBounds | undefined {
+  if (!points.length) return undefined;
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const [x, y] of points) {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+  return { minX, minY, maxX, maxY };
+}
+
+/**
+ * Maps plan points in metres to pixels: `(point - origin) * scale + offset`, with `y` down the
+ * page like world `z`. Shared by the SVG renderers and {@link RoomPlanMiniMap}.
+ */
+export type PlanProjection = {
+  /** Plan point drawn at `offset`. */
+  origin: PlanPoint;
+  /** Pixels per metre. */
+  scale: number;
+  offset: PlanPoint;
+};
+
+/** Project a plan point to pixels. */
+export function projectPoint(
+  projection: PlanProjection,
+  [x, y]: PlanPoint
+): PlanPoint {
+  const { origin, scale, offset } = projection;
+  return [
+    (x - origin[0]) * scale + offset[0],
+    (y - origin[1]) * scale + offset[1],
+  ];
+}
+
+/** Projection at `scale` pixels per metre that draws the top-left corner of `bounds` at `margin`. */
+export function planProjection(
+  bounds: PlanBounds,
+  scale: number,
+  margin: number
+): PlanProjection {
+  return {
+    origin: [bounds.minX, bounds.minY],
+    scale,
+    offset: [margin, margin],
+  };
+}
+
+/**
+ * Largest projection that fits `bounds` into `width` × `height` pixels, `padding` pixels from each
+ * edge, centred. `maxScale` caps the pixels per metre, e.g. so a single wall isn't drawn
+ * across the whole area.
+ */
+export function fitPlanProjection(
+  bounds: PlanBounds,
+  width: number,
+  height: number,
+  padding = 0,
+  maxScale = Infinity
+): PlanProjection {
+  const spanX = bounds.maxX - bounds.minX;
+  const spanY = bounds.maxY - bounds.minY;
+  const fit = Math.min(
+    spanX > 0 ? (width - padding * 2) / spanX : Infinity,
+    spanY > 0 ? (height - padding * 2) / spanY : Infinity
+  );
+  // A single point has no size to fit: draw it at the centre without scaling.
+  const scale = Math.max(0, Math.min(fit, maxScale));
+  return {
+    origin: [(bounds.minX + bounds.maxX) / 2, (bounds.minY + bounds.maxY) / 2],
+    scale: Number.isFinite(scale) ? scale : 0,
+    offset: [width / 2, height / 2],
+  };
+}
+
+/** Euclidean distance between two plan points. */
+export function distance(a: PlanPoint, b: PlanPoint): number {
+  return Math.hypot(b[0] - a[0], b[1] - a[1]);
+}
+
+/** Scale a vector to unit length, or return `[0, 0]` for a zero vector. */
+export function normalize(v: PlanPoint): PlanPoint {
+  const length = Math.hypot(v[0], v[1]);
+  return length > 1e-9 ? [v[0] / length, v[1] / length] : [0, 0];
+}
+
+/** Unsigned area of a simple polygon (shoelace formula). */
+export function polygonArea(points: PlanPoint[]): number {
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    const [x2, y2] = points[(i + 1) % points.length];
+    sum += x1 * y2 - x2 * y1;
+  }
+  return Math.abs(sum) / 2;
+}
+
+/** Length of the closed outline of a polygon. */
+export function polygonPerimeter(points: PlanPoint[]): number {
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    sum += distance(points[i], points[(i + 1) % points.length]);
+  }
+  return sum;
+}
+
+/** Arithmetic mean of a set of points, or `[0, 0]` when empty. */
+export function centroidOf(points: PlanPoint[]): PlanPoint {
+  if (!points.length) return [0, 0];
+  const sum = points.reduce<PlanPoint>(
+    (acc, [x, y]) => [acc[0] + x, acc[1] + y],
+    [0, 0]
+  );
+  return [sum[0] / points.length, sum[1] / points.length];
+}
+
+/** Whether a point lies inside a simple polygon (even-odd rule). */
+export function pointInPolygon(
+  point: PlanPoint,
+  polygon: PlanPoint[]
+): boolean {
+  const [px, py] = point;
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if (yi > py !== yj > py && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** Shortest distance from a point to a segment. */
+export function distanceToSegment(point: PlanPoint, seg: PlanSegment): number {
+  const [ax, ay] = seg.start;
+  const [bx, by] = seg.end;
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t =
+    lengthSq > 0
+      ? Math.max(
+          0,
+          Math.min(1, ((point[0] - ax) * dx + (point[1] - ay) * dy) / lengthSq)
+        )
+      : 0;
+  return distance(point, [ax + t * dx, ay + t * dy]);
+}
+
+/** Shortest distance from a point to the outline of a polygon. */
+export function distanceToPolygonEdge(
+  point: PlanPoint,
+  polygon: PlanPoint[]
+): number {
+  let best = Infinity;
+  for (let i = 0; i < polygon.length; i++) {
+    const seg = { start: polygon[i], end: polygon[(i + 1) % polygon.length] };
+    best = Math.min(best, distanceToSegment(point, seg));
+  }
+  return best;
+}
+
+/**
+ * Map a world-space point into the local space of a rigid transform (rotation and translation only,
+ * which is what RoomPlan produces).
+ */
+export function inverseTransformPoint(t: Transform4x4, v: Vector3): Vector3 {
+  const x = v[0] - t[12];
+  const y = v[1] - t[13];
+  const z = v[2] - t[14];
+  return [
+    t[0] * x + t[1] * y + t[2] * z,
+    t[4] * x + t[5] * y + t[6] * z,
+    t[8] * x + t[9] * y + t[10] * z,
+  ];
+}
+
+/** Twice the signed area of a polygon; positive when its points run counter-clockwise. */
+function signedArea2(points: PlanPoint[]): number {
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    const [x2, y2] = points[(i + 1) % points.length];
+    sum += x1 * y2 - x2 * y1;
+  }
+  return sum;
+}
+
+/**
+ * Split a simple polygon into triangles by ear clipping. Returns index triples into `points` with the
+ * same winding as the polygon. Works for concave outlines such as L-shaped rooms.
+ */
+export function triangulatePolygon(
+  points: PlanPoint[]
+): [number, number, number][] {
+  const ccw = signedArea2(points) >= 0;
+  const cross = (a: PlanPoint, b: PlanPoint, c: PlanPoint) => {
+    const z = (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]);
+    return ccw ? z : -z;
+  };
+  const remaining = points.map((_, i) => i);
+  const triangles: [number, number, number][] = [];
+
+  while (remaining.length > 3) {
+    let clipped = false;
+    for (let i = 0; i < remaining.length; i++) {
+      const prev = remaining[(i + remaining.length - 1) % remaining.length];
+      const curr = remaining[i];
+      const next = remaining[(i + 1) % remaining.length];
+      const [a, b, c] = [points[prev], points[curr], points[next]];
+      if (cross(a, b, c) <= 1e-12) continue;
+      const blocked = remaining.some(
+        (j) =>
+          j !== prev &&
+          j !== curr &&
+          j !== next &&
+          cross(a, b, points[j]) >= 0 &&
+          cross(b, c, points[j]) >= 0 &&
+          cross(c, a, points[j]) >= 0
+      );
+      if (blocked) continue;
+      triangles.push([prev, curr, next]);
+      remaining.splice(i, 1);
+      clipped = true;
+      break;
+    }
+    // Degenerate or self-intersecting outline: fall back to a fan over what is left.
+    if (!clipped) {
+      for (let i = 1; i < remaining.length - 1; i++) {
+        triangles.push([remaining[0], remaining[i], remaining[i + 1]]);
+      }
+      return triangles;
+    }
+  }
+  if (remaining.length === 3) {
+    triangles.push([remaining[0], remaining[1], remaining[2]]);
+  }
+  return triangles;
+}
+
+/**
+ * Rotation of a transform about the vertical axis in radians: the angle `yaw` for which the
+ * transform's local `x` axis equals a rotation of world `x` by `yaw` about world `y`.
+ */
+export function yawOf(t: Transform4x4): number {
+  return Math.atan2(-t[2], t[0]);
+}
+
+/** A rotation by `yaw` radians about the vertical axis followed by a translation. */
+export function yawTransform(yaw: number, translation: Vector3): Transform4x4 {
+  const c = Math.cos(yaw);
+  const s = Math.sin(yaw);
+  const [x, y, z] = translation;
+  return [c, 0, -s, 0, 0, 1, 0, 0, s, 0, c, 0, x, y, z, 1];
+}
+
+/** Product `a · b` of two column-major transforms: applies `b`, then `a`. */
+export function multiplyTransforms(
+  a: Transform4x4,
+  b: Transform4x4
+): Transform4x4 {
+  const out = new Array<number>(16);
+  for (let col = 0; col < 4; col++) {
+    for (let row = 0; row < 4; row++) {
+      let sum = 0;
+      for (let k = 0; k < 4; k++) sum += a[k * 4 + row] * b[col * 4 + k];
+      out[col * 4 + row] = sum;
+    }
+  }
+  return out as Transform4x4;
+}
+
+/**
+ * Intersection of two convex polygons (Sutherland–Hodgman), e.g. two object footprints. Both must
+ * wind the same way; the result is empty when they don't overlap.
+ */
+export function clipConvexPolygon(
+  subject: PlanPoint[],
+  clip: PlanPoint[]
+): PlanPoint[] {
+  const orientation = signedArea2(clip) >= 0 ? 1 : -1;
+  const inside = (p: PlanPoint, a: PlanPoint, b: PlanPoint) =>
+    orientation *
+      ((b[0] - a[0]) * (p[1] - a[1]) - (b[1] - a[1]) * (p[0] - a[0])) >=
+    0;
+  const intersect = (
+    p: PlanPoint,
+    q: PlanPoint,
+    a: PlanPoint,
+    b: PlanPoint
+  ): PlanPoint => {
+    const [x1, y1, x2, y2] = [p[0], p[1], q[0], q[1]];
+    const [x3, y3, x4, y4] = [a[0], a[1], b[0], b[1]];
+    const d = (x1 - x2) * (y3 - y4) - (y1 - y2) * (x3 - x4);
+    const t = ((x1 - x3) * (y3 - y4) - (y1 - y3) * (x3 - x4)) / d;
+    return [x1 + t * (x2 - x1), y1 + t * (y2 - y1)];
+  };
+  let output = subject;
+  for (let i = 0; i < clip.length && output.length; i++) {
+    const a = clip[i];
+    const b = clip[(i + 1) % clip.length];
+    const input = output;
+    output = [];
+    for (let j = 0; j < input.length; j++) {
+      const p = input[j];
+      const q = input[(j + 1) % input.length];
+      if (inside(q, a, b)) {
+        if (!inside(p, a, b)) output.push(intersect(p, q, a, b));
+        output.push(q);
+      } else if (inside(p, a, b)) {
+        output.push(intersect(p, q, a, b));
+      }
+    }
+  }
+  return output;
+}
@@ -0,0 +1,437 @@
+import type {
+  CapturedStructure,
+  CapturedSurface,
+  SectionLabel,
+} from "./CapturedStructure.types";
+import {
+  PlanBounds,
+  PlanPoint,
+  boundsOf,
+  centroidOf,
+  distance,
+  filterStory,
+  floorPolygon,
+  objectFootprint,
+  planProjection,
+  projectPoint,
+  surfaceNormal,
+  surfaceSegment,
+  toPlan,
+} from "./planGeometry";
+import { MeasurementUnits, convertLength, formatLength } from "./units";
+
+/**
+ * Colours and stroke widths used by {@link renderFloorPlanSvg}.
+ */
+export type FloorPlanTheme = {
+  background: string;
+  floor: string;
+  wall: string;
+  door: string;
+  window: string;
+  object: string;
+  text: string;
+  dimension: string;
+  fontFamily: string;
+  /** Font size in pixels. */
+  fontSize: number;
+};
+
+/**
+ * Options for {@link renderFloorPlanSvg}.
+ */
+export type FloorPlanSvgOptions = {
+  /** Only render elements on this story. Renders every story, on top of each other, when omitted. */
+  story?: number;
+  /** Pixels per metre. Defaults to `100`. */
+  scale?: number;
+  /** Blank margin around the plan in pixels. Defaults to `40`. */
+  padding?: number;
+  /** Drawn thickness of walls in metres. Defaults to `0.15`. */
+  wallThickness?: number;
+  /** Unit system for dimension labels and the scale bar. Defaults to `"metric"`. */
+  units?: MeasurementUnits;
+  /** Draw object footprints. Defaults to `true`. */
+  showObjects?: boolean;
+  /** Draw section labels such as "Kitchen" at each section centre. Defaults to `true`. */
+  showRoomLabels?: boolean;
+  /** Draw a length annotation alongside every wall. Defaults to `true`. */
+  showDimensions?: boolean;
+  /** Draw a scale bar in the bottom-left corner. Defaults to `true`. */
+  showScaleBar?: boolean;
+  /** Override the text shown for section labels, e.g. for localisation. */
+  roomLabels?: Partial<Record<SectionLabel, string>>;
+  /** Override colours and typography. */
+  theme?: Partial<FloorPlanTheme>;
+};
+
+const DEFAULT_THEME: FloorPlanTheme = {
+  background: "#ffffff",
+  floor: "#f4f4f4",
+  wall: "#222222",
+  door: "#555555",
+  window: "#3b82f6",
+  object: "#9ca3af",
+  text: "#111111",
+  dimension: "#6b7280",
+  fontFamily: "Helvetica, Arial, sans-serif",
+  fontSize: 12,
+};
+
+const DEFAULT_ROOM_LABELS: Record<SectionLabel, string> = {
+  livingRoom: "Living Room",
+  bedroom: "Bedroom",
+  bathroom: "Bathroom",
+  kitchen: "Kitchen",
+  diningRoom: "Dining Room",
+  unidentified: "Room",
+};
+
+const SCALE_BAR_STEPS = [0.5, 1, 2, 5, 10, 20, 50];
+
+function fmt(n: number): string {
+  const rounded = Math.round(n * 100) / 100;
+  return Object.is(rounded, -0) ? "0" : String(rounded);
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function points(list: PlanPoint[]): string {
+  return list.map(([x, y]) => `${fmt(x)},${fmt(y)}`).join(" ");
+}
+
+function line(a: PlanPoint, b: PlanPoint, attrs: string): string {
+  const extra = attrs ? ` ${attrs}` : "";
+  return `<line x1="${fmt(a[0])}" y1="${fmt(a[1])}" x2="${fmt(b[0])}" y2="${fmt(
+    b[1]
+  )}"${extra}/>`;
+}
+
+/**
+ * Render a top-down floor plan of an exported structure as an SVG document.
+ *
+ * Walls are drawn as thick lines, doors as a gap with a leaf and swing arc, windows as a gap with a
+ * double line, openings as a plain gap and objects as their bounding-box footprint. The output is a
+ * deterministic string, so it can be written to a file, fed to `react-native-svg`'s `SvgXml` or
+ * compared in snapshot tests.
+ *
+ * @param structure A structure returned by {@link parseCapturedStructure}.
+ * @param options Story selection, scale, annotations and styling.
+ * @returns An `<svg>` document sized to fit the plan.
+ * @example
+ * ```ts
+ * const svg = renderFloorPlanSvg(structure, { story: 0, units: "imperial" });
+ * ```
+ */
+export function renderFloorPlanSvg(
+  structure: CapturedStructure,
+  options: FloorPlanSvgOptions = {}
+): string {
+  const {
+    story,
+    scale = 100,
+    padding = 40,
+    wallThickness = 0.15,
+    units = "metric",
+    showObjects = true,
+    showRoomLabels = true,
+    showDimensions = true,
+    showScaleBar = true,
+  } = options;
+  const theme = { ...DEFAULT_THEME, ...options.theme };
+  const labels = { ...DEFAULT_ROOM_LABELS, ...options.roomLabels };
+  const s = story === undefined ? structure : filterStory(structure, story);
+
+  const openingsOf = [...s.doors, ...s.windows, ...s.openings];
+  const wallSegments = s.walls.map(surfaceSegment);
+  const floorPolygons = s.floors.map(floorPolygon);
+  const footprints = showObjects ? s.objects.map(objectFootprint) : [];
+
+  const bounds: PlanBounds = boundsOf([
+    ...wallSegments.flatMap((seg) => [seg.start, seg.end]),
+    ...floorPolygons.flat(),
+    ...footprints.flat(),
+    ...openingsOf.flatMap((o) => {
+      const seg = surfaceSegment(o);
+      return [seg.start, seg.end];
+    }),
+  ]) ?? { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+
+  // Dimension labels and the scale bar need extra room outside the plan.
+  const margin = padding + (showDimensions ? theme.fontSize * 3 : 0);
+  const bottom = showScaleBar ? theme.fontSize * 3 : 0;
+  const width = (bounds.maxX - bounds.minX) * scale + margin * 2;
+  const height = (bounds.maxY - bounds.minY) * scale + margin * 2 + bottom;
+
+  const projection = planProjection(bounds, scale, margin);
+  const px = (point: PlanPoint): PlanPoint => projectPoint(projection, point);
+  const wallStroke = fmt(wallThickness * scale);
+
+  const out: string[] = [];
+  out.push(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${fmt(
+      width
+    )}" height="${fmt(height)}" viewBox="0 0 ${fmt(width)} ${fmt(height)}">`
+  );
+  out.push(`<rect width="100%" height="100%" fill="${theme.background}"/>`);
+
+  out.push(`<g class="floors" fill="${theme.floor}" stroke="none">`);
+  s.floors.forEach((floor, i) => {
+    out.push(
+      `<polygon data-id="${escapeXml(floor.identifier)}" points="${points(
+        floorPolygons[i].map(px)
+      )}"/>`
+    );
+  });
+  out.push(`</g>`);
+
+  if (showObjects) {
+    out.push(
+      `<g class="objects" fill="${theme.object}" fill-opacity="0.35" stroke="${theme.object}" stroke-width="1">`
+    );
+    s.objects.forEach((object, i) => {
+      out.push(
+        `<polygon class="object ${object.category}" data-id="${escapeXml(
+          object.identifier
+        )}" points="${points(footprints[i].map(px))}"/>`
+      );
+    });
+    out.push(`</g>`);
+  }
+
+  out.push(
+    `<g class="walls" stroke="${theme.wall}" stroke-width="${wallStroke}" stroke-linecap="square">`
+  );
+  s.walls.forEach((wall, i) => {
+    const seg = wallSegments[i];
+    out.push(
+      line(
+        px(seg.start),
+        px(seg.end),
+        `data-id="${escapeXml(wall.identifier)}"`
+      )
+    );
+  });
+  out.push(`</g>`);
+
+  // Cut a gap into the host wall for every door, window and opening.
+  out.push(
+    `<g class="openings" stroke="${theme.background}" stroke-width="${fmt(
+      wallThickness * scale + 2
+    )}">`
+  );
+  for (const opening of openingsOf) {
+    const seg = surfaceSegment(opening);
+    out.push(
+      line(
+        px(seg.start),
+        px(seg.end),
+        `data-id="${escapeXml(opening.identifier)}"`
+      )
+    );
+  }
+  out.push(`</g>`);
+
+  out.push(`<g class="windows" stroke="${theme.window}" stroke-width="1.5">`);
+  for (const win of s.windows) {
+    out.push(renderWindow(win, px, wallThickness * scale));
+  }
+  out.push(`</g>`);
+
+  out.push(
+    `<g class="doors" stroke="${theme.door}" stroke-width="1.5" fill="none">`
+  );
+  for (const door of s.doors) {
+    out.push(renderDoor(door, px));
+  }
+  out.push(`</g>`);
+
+  const textAttrs = `font-family="${escapeXml(theme.fontFamily)}" font-size="${
+    theme.fontSize
+  }"`;
+
+  if (showDimensions && s.walls.length) {
+    const center = centroidOf(
+      wallSegments.flatMap((seg) => [seg.start, seg.end])
+    );
+    out.push(
+      `<g class="dimensions" stroke="${theme.dimension}" fill="${theme.dimension}" stroke-width="1" ${textAttrs}>`
+    );
+    s.walls.forEach((wall, i) => {
+      out.push(
+        renderDimension(
+          wallSegments[i],
+          wall,
+          center,
+          px,
+          (wallThickness * scale) / 2 + theme.fontSize,
+          formatLength(wall.dimensions[0], units)
+        )
+      );
+    });
+    out.push(`</g>`);
+  }
+
+  if (showRoomLabels && s.sections.length) {
+    out.push(
+      `<g class="labels" fill="${theme.text}" text-anchor="middle" dominant-baseline="middle" ${textAttrs}>`
+    );
+    for (const section of s.sections) {
+      const [x, y] = px(toPlan(section.center));
+      out.push(
+        `<text x="${fmt(x)}" y="${fmt(y)}">${escapeXml(
+          labels[section.label]
+        )}</text>`
+      );
+    }
+    out.push(`</g>`);
+  }
+
+  if (showScaleBar) {
+    out.push(
+      renderScaleBar(
+        bounds,
+        scale,
+        units,
+        margin,
+        height - bottom,
+        theme,
+        textAttrs
+      )
+    );
+  }
+
+  out.push(`</svg>`);
+  return out.join("\n");
+}
+
+function renderWindow(
+  win: CapturedSurface,
+  px: (p: PlanPoint) => PlanPoint,
+  thicknessPx: number
+): string {
+  const seg = surfaceSegment(win);
+  const [nx, ny] = surfaceNormal(win);
+  const offset = thicknessPx / 4;
+  const shift = (p: PlanPoint, k: number): PlanPoint => [
+    p[0] + nx * k,
+    p[1] + ny * k,
+  ];
+  const a = px(seg.start);
+  const b = px(seg.end);
+  return [
+    `<g data-id="${escapeXml(win.identifier)}">`,
+    line(shift(a, offset), shift(b, offset), ""),
+    line(shift(a, -offset), shift(b, -offset), ""),
+    `</g>`,
+  ].join("");
+}
+
+function renderDoor(
+  door: CapturedSurface,
+  px: (p: PlanPoint) => PlanPoint
+): string {
+  const seg = surfaceSegment(door);
+  const [nx, ny] = surfaceNormal(door);
+  const hinge = px(seg.start);
+  const closed = px(seg.end);
+  const radius = distance(hinge, closed);
+  // The leaf is drawn fully open, perpendicular to the wall on the door's front side.
+  const leaf: PlanPoint = [hinge[0] + nx * radius, hinge[1] + ny * radius];
+  const cross =
+    (leaf[0] - hinge[0]) * (closed[1] - hinge[1]) -
+    (leaf[1] - hinge[1]) * (closed[0] - hinge[0]);
+  const sweep = cross > 0 ? 1 : 0;
+  return [
+    `<g data-id="${escapeXml(door.identifier)}"${
+      door.isOpen ? ` data-open="true"` : ""
+    }>`,
+    line(hinge, leaf, ""),
+    `<path d="M ${fmt(leaf[0])} ${fmt(leaf[1])} A ${fmt(radius)} ${fmt(
+      radius
+    )} 0 0 ${sweep} ${fmt(closed[0])} ${fmt(
+      closed[1]
+    )}" stroke-dasharray="4 3"/>`,
+    `</g>`,
+  ].join("");
+}
+
+function renderDimension(
+  seg: { start: PlanPoint; end: PlanPoint },
+  wall: CapturedSurface,
+  center: PlanPoint,
+  px: (p: PlanPoint) => PlanPoint,
+  offsetPx: number,
+  label: string
+): string {
+  let [nx, ny] = surfaceNormal(wall);
+  // Place the annotation on the outside of the plan.
+  const mid: PlanPoint = [
+    (seg.start[0] + seg.end[0]) / 2,
+    (seg.start[1] + seg.end[1]) / 2,
+  ];
+  if ((mid[0] - center[0]) * nx + (mid[1] - center[1]) * ny < 0) {
+    nx = -nx;
+    ny = -ny;
+  }
+  const shift = (p: PlanPoint, k: number): PlanPoint => [
+    p[0] + nx * k,
+    p[1] + ny * k,
+  ];
+  const a = shift(px(seg.start), offsetPx);
+  const b = shift(px(seg.end), offsetPx);
+  const tick = 4;
+  const text = shift(px(mid), offsetPx + 8);
+  let angle = (Math.atan2(b[1] - a[1], b[0] - a[0]) * 180) / Math.PI;
+  if (angle > 90) angle -= 180;
+  if (angle <= -90) angle += 180;
+  return [
+    `<g data-id="${escapeXml(wall.identifier)}">`,
+    line(a, b, ""),
+    line(shift(a, -tick), shift(a, tick), ""),
+    line(shift(b, -tick), shift(b, tick), ""),
+    `<text x="${fmt(text[0])}" y="${fmt(
+      text[1]
+    )}" text-anchor="middle" dominant-baseline="middle" stroke="none" transform="rotate(${fmt(
+      angle
+    )} ${fmt(text[0])} ${fmt(text[1])})">${escapeXml(label)}</text>`,
+    `</g>`,
+  ].join("");
+}
+
+function renderScaleBar(
+  bounds: PlanBounds,
+  scale: number,
+  units: MeasurementUnits,
+  x: number,
+  y: number,
+  theme: FloorPlanTheme,
+  textAttrs: string
+): string {
+  // Pick the longest round length that fits in a quarter of the plan width.
+  const unitLength = convertLength(1, units);
+  const available = Math.max((bounds.maxX - bounds.minX) / 4, 0) * unitLength;
+  const step =
+    [...SCALE_BAR_STEPS].reverse().find((n) => n <= available) ??
+    SCALE_BAR_STEPS[0];
+  const length = (step / unitLength) * scale;
+  const barY = y + theme.fontSize;
+  return [
+    `<g class="scale-bar" stroke="${theme.text}" fill="${theme.text}" stroke-width="2" ${textAttrs}>`,
+    line([x, barY], [x + length, barY], ""),
+    line([x, barY - 4], [x, barY + 4], ""),
+    line([x + length, barY - 4], [x + length, barY + 4], ""),
+    `<text x="${fmt(x + length + 6)}" y="${fmt(
+      barY
+    )}" dominant-baseline="middle" stroke="none">${step} ${
+      units === "imperial" ? "ft" : "m"
+    }</text>`,
+    `</g>`,
+  ].join("\n");
+}
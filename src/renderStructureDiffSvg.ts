@@ -0,0 +1,285 @@
+import type {
+  CapturedObject,
+  CapturedSurface,
+} from "./CapturedStructure.types";
+import type { StructureDiff, StructureElementDiff } from "./diffStructures";
+import {
+  PlanBounds,
+  PlanPoint,
+  boundsOf,
+  objectFootprint,
+  planProjection,
+  projectPoint,
+  surfaceSegment,
+  toPlan,
+  translationOf,
+} from "./planGeometry";
+import { MeasurementUnits, formatLength } from "./units";
+
+/**
+ * Colours and typography used by {@link renderStructureDiffSvg}.
+ */
+export type StructureDiffTheme = {
+  background: string;
+  /** Elements that didn't change. */
+  unchanged: string;
+  added: string;
+  removed: string;
+  /** Where a moved or resized element is now. */
+  changed: string;
+  /** Where a moved or resized element was, drawn dashed. */
+  previous: string;
+  text: string;
+  fontFamily: string;
+  /** Font size in pixels. */
+  fontSize: number;
+};
+
+/**
+ * Options for {@link renderStructureDiffSvg}.
+ */
+export type StructureDiffSvgOptions = {
+  /** Only render elements on this story. Renders every story when omitted. */
+  story?: number;
+  /** Pixels per metre. Defaults to `100`. */
+  scale?: number;
+  /** Blank margin around the plan in pixels. Defaults to `40`. */
+  padding?: number;
+  /** Drawn thickness of walls in metres. Defaults to `0.15`. */
+  wallThickness?: number;
+  /** Unit system for the displacement labels. Defaults to `"metric"`. */
+  units?: MeasurementUnits;
+  /** Draw the elements that didn't change. Defaults to `true`. */
+  showUnchanged?: boolean;
+  /** Label every moved element with the distance it moved. Defaults to `true`. */
+  showDistances?: boolean;
+  /** Draw a legend under the plan. Defaults to `true`. */
+  showLegend?: boolean;
+  /** Override the legend text, e.g. for localisation. */
+  legendLabels?: Partial<Record<"added" | "removed" | "changed", string>>;
+  /** Override colours and typography. */
+  theme?: Partial<StructureDiffTheme>;
+};
+
+const DEFAULT_THEME: StructureDiffTheme = {
+  background: "#ffffff",
+  unchanged: "#9ca3af",
+  added: "#16a34a",
+  removed: "#dc2626",
+  changed: "#f59e0b",
+  previous: "#6b7280",
+  text: "#111111",
+  fontFamily: "Helvetica, Arial, sans-serif",
+  fontSize: 12,
+};
+
+const DEFAULT_LEGEND_LABELS = {
+  added: "Added",
+  removed: "Removed",
+  changed: "Moved or resized",
+};
+
+function fmt(n: number): string {
+  const rounded = Math.round(n * 100) / 100;
+  return Object.is(rounded, -0) ? "0" : String(rounded);
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function outline(
+  item: CapturedSurface | CapturedObject,
+  kind: string
+): PlanPoint[] {
+  if (kind === "object") return objectFootprint(item as CapturedObject);
+  const { start, end } = surfaceSegment(item as CapturedSurface);
+  return [start, end];
+}
+
+/**
+ * Render a {@link StructureDiff} as a top-down SVG overlay of both scans, in the first scan's
+ * coordinates: added elements in green, removed ones in red and dashed, moved or resized ones in
+ * amber where they are now, dashed grey where they were and with an arrow between the two.
+ *
+ * Like {@link renderFloorPlanSvg} it returns a deterministic string. Every shape carries the
+ * element's `data-id` and a class with its status and kind, e.g. `removed door`.
+ *
+ * @param diff A diff returned by {@link diffStructures}.
+ * @param options Story selection, scale, labels and styling.
+ * @returns An `<svg>` document sized to fit both scans.
+ * @example
+ * ```ts
+ * const svg = renderStructureDiffSvg(diffStructures(before, after), { showUnchanged: false });
+ * ```
+ */
+export function renderStructureDiffSvg(
+  diff: StructureDiff,
+  options: StructureDiffSvgOptions = {}
+): string {
+  const {
+    story,
+    scale = 100,
+    padding = 40,
+    wallThickness = 0.15,
+    units = "metric",
+    showUnchanged = true,
+    showDistances = true,
+    showLegend = true,
+  } = options;
+  const theme = { ...DEFAULT_THEME, ...options.theme };
+  const legendLabels = { ...DEFAULT_LEGEND_LABELS, ...options.legendLabels };
+  const elements = diff.elements.filter(
+    (e) =>
+      (story === undefined || e.story === story) &&
+      (showUnchanged || e.status !== "unchanged")
+  );
+
+  const bounds: PlanBounds = boundsOf(
+    elements.flatMap((e) =>
+      [e.before, e.after].flatMap((item) => (item ? outline(item, e.kind) : []))
+    )
+  ) ?? { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+  const legendHeight = showLegend ? theme.fontSize * 3 : 0;
+  const width = (bounds.maxX - bounds.minX) * scale + padding * 2;
+  const height =
+    (bounds.maxY - bounds.minY) * scale + padding * 2 + legendHeight;
+  const projection = planProjection(bounds, scale, padding);
+  const px = (point: PlanPoint): PlanPoint => projectPoint(projection, point);
+
+  const shape = (
+    e: StructureElementDiff,
+    item: CapturedSurface | CapturedObject,
+    className: string,
+    attrs: string
+  ) => {
+    const id = `data-id="${escapeXml(item.identifier)}"`;
+    const cls = `class="${className} ${e.kind}"`;
+    const points = outline(item, e.kind).map(px);
+    if (e.kind === "object") {
+      const list = points.map(([x, y]) => `${fmt(x)},${fmt(y)}`).join(" ");
+      return `<polygon ${cls} ${id} points="${list}" fill-opacity="0.25" stroke-width="1.5" ${attrs}/>`;
+    }
+    const stroke =
+      (e.kind === "wall" ? wallThickness : wallThickness / 2) * scale;
+    const [[x1, y1], [x2, y2]] = points;
+    return `<line ${cls} ${id} x1="${fmt(x1)}" y1="${fmt(y1)}" x2="${fmt(
+      x2
+    )}" y2="${fmt(y2)}" stroke-width="${fmt(
+      stroke
+    )}" stroke-linecap="square" ${attrs}/>`;
+  };
+  const paint = (colour: string) => `stroke="${colour}" fill="${colour}"`;
+  const dashed = `stroke-dasharray="6 4"`;
+
+  const out: string[] = [];
+  out.push(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${fmt(
+      width
+    )}" height="${fmt(height)}" viewBox="0 0 ${fmt(width)} ${fmt(height)}">`
+  );
+  out.push(`<rect width="100%" height="100%" fill="${theme.background}"/>`);
+  out.push(
+    `<defs><marker id="diff-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="${theme.changed}"/></marker></defs>`
+  );
+
+  const group = (name: string, shapes: string[]) => {
+    if (!shapes.length) return;
+    out.push(`<g class="${name}">`, ...shapes, `</g>`);
+  };
+  group(
+    "unchanged",
+    elements
+      .filter((e) => e.status === "unchanged")
+      .map((e) => shape(e, e.before!, "unchanged", paint(theme.unchanged)))
+  );
+  const changed = elements.filter((e) => e.status === "changed");
+  group(
+    "previous",
+    changed.map((e) =>
+      shape(e, e.before!, "previous", `${paint(theme.previous)} ${dashed}`)
+    )
+  );
+  group(
+    "removed",
+    elements
+      .filter((e) => e.status === "removed")
+      .map((e) =>
+        shape(e, e.before!, "removed", `${paint(theme.removed)} ${dashed}`)
+      )
+  );
+  group(
+    "added",
+    elements
+      .filter((e) => e.status === "added")
+      .map((e) => shape(e, e.after!, "added", paint(theme.added)))
+  );
+  group(
+    "changed",
+    changed.map((e) => shape(e, e.after!, "changed", paint(theme.changed)))
+  );
+
+  const textAttrs = `font-family="${escapeXml(theme.fontFamily)}" font-size="${
+    theme.fontSize
+  }"`;
+  const moves = changed
+    .filter((e) => e.moved && e.distance! > 0)
+    .map((e) => {
+      const [x1, y1] = px(toPlan(translationOf(e.before!.transform)));
+      const [x2, y2] = px(toPlan(translationOf(e.after!.transform)));
+      const arrow = `<line x1="${fmt(x1)}" y1="${fmt(y1)}" x2="${fmt(
+        x2
+      )}" y2="${fmt(y2)}" marker-end="url(#diff-arrow)"/>`;
+      const label = showDistances
+        ? `<text x="${fmt((x1 + x2) / 2)}" y="${fmt(
+            (y1 + y2) / 2 - 4
+          )}" text-anchor="middle" stroke="none" fill="${
+            theme.text
+          }">${escapeXml(formatLength(e.distance!, units))}</text>`
+        : "";
+      return `<g data-id="${escapeXml(
+        e.after!.identifier
+      )}">${arrow}${label}</g>`;
+    });
+  if (moves.length) {
+    out.push(
+      `<g class="moves" stroke="${theme.changed}" stroke-width="1.5" ${textAttrs}>`,
+      ...moves,
+      `</g>`
+    );
+  }
+
+  if (showLegend) {
+    const y = height - legendHeight / 2;
+    const entries: [keyof typeof DEFAULT_LEGEND_LABELS, string][] = [
+      ["added", theme.added],
+      ["removed", theme.removed],
+      ["changed", theme.changed],
+    ];
+    out.push(`<g class="legend" ${textAttrs}>`);
+    let x = padding;
+    for (const [key, colour] of entries) {
+      const text = legendLabels[key];
+      out.push(
+        `<rect x="${fmt(x)}" y="${fmt(y - theme.fontSize / 2)}" width="${
+          theme.fontSize
+        }" height="${theme.fontSize}" fill="${colour}"/>`,
+        `<text x="${fmt(x + theme.fontSize * 1.5)}" y="${fmt(
+          y
+        )}" dominant-baseline="middle" fill="${theme.text}">${escapeXml(
+          text
+        )}</text>`
+      );
+      // Rough text width, enough to keep the entries apart.
+      x += theme.fontSize * (3 + text.length * 0.6);
+    }
+    out.push(`</g>`);
+  }
+
+  out.push(`</svg>`);
+  return out.join("\n");
+}
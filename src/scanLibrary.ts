@@ -0,0 +1,271 @@
+import type { ExportType } from "./ExpoRoomplan.types";
+import type { RoomPlanExport } from "./ExpoRoomplanView.types";
+import {
+  MeasurementReport,
+  SpaceMeasurements,
+  measureStructure,
+} from "./measureStructure";
+import { parseCapturedStructure } from "./parseCapturedStructure";
+import type { ScannedRoom } from "./scanSession";
+import type { ScanStorage } from "./scanStorage";
+import type { MeasurementUnits } from "./units";
+
+/**
+ * One saved scan, as stored in the library manifest.
+ */
+export type ScanRecord = {
+  id: string;
+  name: string;
+  /** When the scan was saved, in milliseconds since the epoch. */
+  createdAt: number;
+  exportType?: ExportType;
+  /** Number of rooms in the exported structure. */
+  roomCount: number;
+  /** Names the user gave the rooms, see `state.rooms`. */
+  rooms?: { identifier: string; name: string; story: number }[];
+  /** Totals of the whole structure, when the JSON could be read. */
+  measurements?: SpaceMeasurements &
+    Pick<MeasurementReport, "units" | "lengthUnit" | "areaUnit" | "volumeUnit">;
+  /** Durable copies of the exported files, inside the library directory. */
+  files: RoomPlanExport & { photoUrls: string[] };
+};
+
+/**
+ * Options for {@link ScanLibrary.saveScan}.
+ */
+export type SaveScanOptions = {
+  /** Display name. Defaults to the exported file's base name, e.g. "Kitchen" for `Kitchen.usdz`. */
+  name?: string;
+  /** Export mode the scan was made with, stored for reference. */
+  exportType?: ExportType;
+  /** `state.rooms` at the time of the export, to keep the names the user gave them. */
+  rooms?: ScannedRoom[];
+  /** Unit system of the stored measurements. Defaults to `"metric"`. */
+  units?: MeasurementUnits;
+  /** Copy instead of move the exported files. Defaults to `false`. */
+  copy?: boolean;
+};
+
+/**
+ * Durable storage for exported scans, created with {@link createScanLibrary}.
+ */
+export type ScanLibrary = {
+  /**
+   * Move the files of an `onExported` payload into the library and add them to the manifest.
+   * The export must include file URLs, i.e. `sendFileLoc` must be true.
+   */
+  saveScan(
+    exported: RoomPlanExport,
+    options?: SaveScanOptions
+  ): Promise<ScanRecord>;
+  /** Every saved scan, newest first. */
+  listScans(): Promise<ScanRecord[]>;
+  /** A saved scan, or `undefined` when there is none with this id. */
+  getScan(id: string): Promise<ScanRecord | undefined>;
+  /** Delete a saved scan and its files. Resolves with `false` when there was nothing to delete. */
+  deleteScan(id: string): Promise<boolean>;
+};
+
+/**
+ * Options for {@link createScanLibrary}.
+ */
+export type ScanLibraryOptions = {
+  /** Where files are read and written, e.g. {@link createFileSystemScanStorage}. */
+  storage: ScanStorage;
+  /** Durable directory for the library, e.g. `FileSystem.documentDirectory + "scans/"`. */
+  directory: string;
+  /** Generate ids for new scans. Defaults to a time-based id. */
+  createId?: () => string;
+  /** Current time in milliseconds. Defaults to `Date.now`. */
+  now?: () => number;
+};
+
+type Manifest = { version: 1; scans: ScanRecord[] };
+
+const MANIFEST_FILE = "manifest.json";
+
+function basename(url: string): string {
+  return decodeURIComponent(url.split(/[?#]/)[0].split("/").pop() ?? "");
+}
+
+function stripExtension(name: string): string {
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.slice(0, dot) : name;
+}
+
+function extensionOf(url: string): string {
+  const name = basename(url);
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.slice(dot) : "";
+}
+
+function defaultId(): string {
+  return Date.now().toString(36) + "-" + Math.random().toString(36).slice(2, 8);
+}
+
+/**
+ * Create a scan library that keeps exports in `directory` with a `manifest.json` describing them.
+ *
+ * Exports normally land in the temporary directory and are overwritten when a `scanName` is
+ * reused. Saving moves them into a folder per scan, so they survive both.
+ *
+ * @example
+ * ```ts
+ * const library = createScanLibrary({ storage, directory });
+ *
+ * useRoomPlanView({
+ *   onExported: async (e) => {
+ *     const record = await library.saveScan(e.nativeEvent, { name: "Kitchen", rooms: state.rooms });
+ *     console.log(record.measurements?.floorArea);
+ *   },
+ * });
+ * ```
+ */
+export function createScanLibrary(options: ScanLibraryOptions): ScanLibrary {
+  const { storage, createId = defaultId, now = Date.now } = options;
+  const directory = options.directory.endsWith("/")
+    ? options.directory
+    : options.directory + "/";
+  const manifestUrl = directory + MANIFEST_FILE;
+
+  // Manifest updates run one after another so concurrent saves don't overwrite each other.
+  let queue: Promise<unknown> = Promise.resolve();
+  function serialized<T>(task: () => Promise<T>): Promise<T> {
+    const result = queue.then(task);
+    queue = result.catch(() => {});
+    return result;
+  }
+
+  async function readManifest(): Promise<Manifest> {
+    const text = await storage.readText(manifestUrl);
+    if (!text) return { version: 1, scans: [] };
+    try {
+      const manifest = JSON.parse(text) as Manifest;
+      return Array.isArray(manifest.scans)
+        ? manifest
+        : { version: 1, scans: [] };
+    } catch {
+      throw new Error(
+        `Scan library manifest at ${manifestUrl} is not valid JSON.`
+      );
+    }
+  }
+
+  async function writeManifest(manifest: Manifest) {
+    await storage.makeDirectory(directory);
+    await storage.writeText(manifestUrl, JSON.stringify(manifest, null, 2));
+  }
+
+  async function describe(
+    jsonUrl: string | undefined,
+    { rooms, units = "metric" }: SaveScanOptions
+  ): Promise<Pick<ScanRecord, "roomCount" | "measurements">> {
+    const text = jsonUrl ? await storage.readText(jsonUrl) : null;
+    if (!text) return { roomCount: rooms?.length ?? 0 };
+    try {
+      const structure = parseCapturedStructure(text);
+      const report = measureStructure(structure, { units });
+      return {
+        roomCount: structure.rooms.length || (structure.floors.length ? 1 : 0),
+        measurements: {
+          units: report.units,
+          lengthUnit: report.lengthUnit,
+          areaUnit: report.areaUnit,
+          volumeUnit: report.volumeUnit,
+          ...report.total,
+        },
+      };
+    } catch {
+      // Keep the files even if the JSON can't be read; the scan is what matters.
+      return { roomCount: rooms?.length ?? 0 };
+    }
+  }
+
+  return {
+    saveScan(exported, saveOptions = {}) {
+      const { scanUrl, jsonUrl, audioUrl, photoUrls = [] } = exported;
+      if (!scanUrl && !jsonUrl) {
+        return Promise.reject(
+          new Error(
+            "Nothing to save: the export has no file URLs. Set sendFileLoc to true."
+          )
+        );
+      }
+
+      return serialized(async () => {
+        const id = createId();
+        const scanDirectory = `${directory}${id}/`;
+        const transfer = saveOptions.copy ? storage.copy : storage.move;
+        await storage.makeDirectory(scanDirectory);
+
+        const files: ScanRecord["files"] = { photoUrls: [] };
+        if (jsonUrl) {
+          files.jsonUrl = `${scanDirectory}structure.json`;
+          await transfer(jsonUrl, files.jsonUrl);
+        }
+        if (scanUrl) {
+          files.scanUrl = `${scanDirectory}scan.usdz`;
+          await transfer(scanUrl, files.scanUrl);
+        }
+        if (audioUrl) {
+          files.audioUrl = `${scanDirectory}audio${extensionOf(audioUrl)}`;
+          await transfer(audioUrl, files.audioUrl);
+        }
+        if (photoUrls.length) {
+          await storage.makeDirectory(`${scanDirectory}photos/`);
+          for (const photoUrl of photoUrls) {
+            const to = `${scanDirectory}photos/${basename(photoUrl)}`;
+            await transfer(photoUrl, to);
+            files.photoUrls.push(to);
+          }
+        }
+
+        const record: ScanRecord = {
+          id,
+          name:
+            saveOptions.name ??
+            stripExtension(basename(scanUrl ?? jsonUrl ?? "")),
+          createdAt: now(),
+          exportType: saveOptions.exportType,
+          ...(await describe(files.jsonUrl, saveOptions)),
+          rooms: saveOptions.rooms?.map(({ identifier, name, story }) => ({
+            identifier,
+            name,
+            story,
+          })),
+          files,
+        };
+        const manifest = await readManifest();
+        manifest.scans.push(record);
+        await writeManifest(manifest);
+        return record;
+      });
+    },
+
+    listScans() {
+      return serialized(async () => {
+        const { scans } = await readManifest();
+        return [...scans].sort((a, b) => b.createdAt - a.createdAt);
+      });
+    },
+
+    getScan(id) {
+      return serialized(async () => {
+        const { scans } = await readManifest();
+        return scans.find((s) => s.id === id);
+      });
+    },
+
+    deleteScan(id) {
+      return serialized(async () => {
+        const manifest = await readManifest();
+        const index = manifest.scans.findIndex((s) => s.id === id);
+        if (index < 0) return false;
+        manifest.scans.splice(index, 1);
+        await storage.remove(`${directory}${id}/`);
+        await writeManifest(manifest);
+        return true;
+      });
+    },
+  };
+}
@@ -0,0 +1,589 @@
+import { ScanStatus } from "./ExpoRoomplan.types";
+import type {
+  RoomAddedEvent,
+  RoomPlanExport,
+  RoomPlanInstruction,
+  RoomUpdateEvent,
+} from "./ExpoRoomplanView.types";
+import { keepsScanRunning, RoomPlanError } from "./RoomPlanError";
+import type {
+  ExportPipelineProgress,
+  ExportPipelineResult,
+} from "./exportPipeline";
+import type { ScanQualityReport } from "./validateScan";
+
+/**
+ * Where a capture session is in its lifecycle.
+ *
+ * - `idle`: nothing has been started, or the view was closed before anything was captured.
+ * - `scanning`: the camera is capturing a room.
+ * - `adding`: the current room is being finalised before capture continues with another one.
+ * - `processing`: capture stopped after `finishScan` and RoomPlan is building the room.
+ * - `preview`: the iOS preview UI is shown and the scan can be exported.
+ * - `exporting`: the USDZ and JSON files are being written.
+ * - `exported`: the last export finished; the scan can be exported again or extended with `addRoom`.
+ * - `error`: the native view reported an error.
+ * - `canceled`: the scan was canceled.
+ */
+export type ScanPhase =
+  | "idle"
+  | "scanning"
+  | "adding"
+  | "processing"
+  | "preview"
+  | "exporting"
+  | "exported"
+  | "error"
+  | "canceled";
+
+/**
+ * A room captured in the current session. Rooms keep their `index` when others are discarded.
+ */
+export type ScannedRoom = {
+  /** Position in capture order, starting at 0. */
+  index: number;
+  /** `CapturedRoom.identifier`, also found in `rooms[].identifier` of the exported JSON. */
+  identifier: string;
+  /** User-assigned name. Defaults to "Room 1", "Room 2", … */
+  name: string;
+  /** Floor the room is on, as reported by RoomPlan. */
+  story: number;
+  /** When capture of this room started, in milliseconds since the epoch. */
+  startedAt: number;
+  /** When RoomPlan finished building the room, in milliseconds since the epoch. */
+  capturedAt: number;
+  /** Photos taken while this room was being captured. */
+  photoUrls: string[];
+  /** The recording that was running while this room was being captured, if any. */
+  audioUrl?: string;
+  /** File holding the encoded room, needed to resume the scan with `resumeFrom`. */
+  roomUrl?: string;
+};
+
+/** The room currently being captured. It becomes a {@link ScannedRoom} once RoomPlan has built it. */
+export type ActiveRoom = Pick<
+  ScannedRoom,
+  "index" | "startedAt" | "photoUrls" | "audioUrl"
+>;
+
+/** An export as kept in {@link ScanSessionState.lastExport}: its files plus the `exportPipeline` result. */
+export type SessionExport = RoomPlanExport & {
+  pipeline?: ExportPipelineResult;
+};
+
+/**
+ * Serializable state of a capture session, as tracked by {@link useRoomPlanView}.
+ */
+export type ScanSessionState = {
+  phase: ScanPhase;
+  /** Whether the native view is open (the `running` prop). */
+  isRunning: boolean;
+  /** Latest status reported by the native view. */
+  status?: ScanStatus;
+  /** True once the iOS preview UI has been presented for the current finish flow. */
+  isPreviewVisible: boolean;
+  /** True once at least one room has been captured in this session, so an export can run. */
+  hasCapturedRoom: boolean;
+  /** True when an export was requested before any room was captured. */
+  isExportQueued: boolean;
+  /**
+   * Details of the last successful export, if any. With an `exportPipeline`, `pipeline` holds the
+   * aggregated result once every step has run.
+   */
+  lastExport?: SessionExport;
+  /** Progress of the `exportPipeline` step running right now, if any. */
+  exportProgress?: ExportPipelineProgress;
+  /** {@link validateScan} report of the last export, once its JSON has been checked. */
+  qualityReport?: ScanQualityReport;
+  /** Last error reported by the native view, if any. Audio errors are recorded without ending the scan. */
+  lastError?: RoomPlanError;
+  /** Rooms captured so far, in capture order, without discarded ones. */
+  rooms: ScannedRoom[];
+  /** The room being captured right now. */
+  currentRoom?: ActiveRoom;
+  /** What RoomPlan has detected of the room being captured so far, as last reported by `onRoomUpdate`. */
+  liveRoom?: RoomUpdateEvent;
+  /** Guidance RoomPlan is giving right now, e.g. `slowDown`; `undefined` while scanning goes fine. */
+  currentInstruction?: Exclude<RoomPlanInstruction, "normal">;
+  /** Identifiers of rooms left out of the next export. */
+  discardedRoomIds: string[];
+  /** ARKit world map saved with the last room, used to line up new rooms when resuming. */
+  worldMapUrl?: string;
+  /** Whether audio is being recorded. */
+  isAudioRecording: boolean;
+};
+
+/**
+ * The part of a {@link ScanSessionState} needed to continue a scan later, e.g. after the app was
+ * closed: plain JSON, to store with `JSON.stringify` and pass back as `resumeFrom`. See
+ * {@link toSavedScanSession} and {@link parseSavedScanSession}.
+ */
+export type SavedScanSession = {
+  /** Format version, for reading sessions saved by other versions of this package. */
+  version: 1;
+  /** Captured rooms with their names, photos and `roomUrl`s. */
+  rooms: ScannedRoom[];
+  /** Rooms discarded before saving; kept so room indices and names continue where they were. */
+  discardedRoomIds: string[];
+  worldMapUrl?: string;
+};
+
+/**
+ * Inputs of {@link scanSessionReducer}: user controls and events reported by the native view.
+ *
+ * Controls are guarded by {@link getScanSessionRejection}. Events describe something that already
+ * happened natively, so they are never rejected, but events that arrive after the view was closed
+ * do not move the session out of its current phase.
+ */
+export type ScanSessionAction =
+  | {
+      type: "start";
+      /** Current time in milliseconds, used as the first room's `startedAt`. */
+      at: number;
+      /** Rooms of an earlier session to continue from. */
+      resumeFrom?: SavedScanSession;
+    }
+  | { type: "cancel" }
+  | { type: "finish" }
+  | { type: "addRoom" }
+  | { type: "export" }
+  | { type: "capturePhoto" }
+  | { type: "renameRoom"; identifier: string; name: string }
+  | { type: "discardRoom"; identifier: string }
+  | { type: "reset" }
+  | {
+      type: "status";
+      status: ScanStatus;
+      /** Built from the event's `errorCode` and `errorMessage` with `RoomPlanError.fromEvent`. */
+      error?: RoomPlanError;
+      /** Close the view on `OK`, `Error` and `Canceled` (`autoCloseOnTerminalStatus`). */
+      autoClose?: boolean;
+    }
+  | {
+      type: "preview";
+      /** Whether the native view exports right after presenting the preview. */
+      exportOnFinish: boolean;
+    }
+  | { type: "exported"; payload: RoomPlanExport }
+  | { type: "exportProgress"; progress: ExportPipelineProgress }
+  | { type: "qualityReport"; report: ScanQualityReport }
+  | {
+      type: "exportProcessed";
+      payload: RoomPlanExport;
+      pipeline: ExportPipelineResult;
+    }
+  | { type: "roomAdded"; room: RoomAddedEvent }
+  | { type: "roomUpdate"; room: RoomUpdateEvent }
+  | { type: "instruction"; instruction: RoomPlanInstruction }
+  | { type: "photo"; photoUrl: string }
+  | {
+      type: "audio";
+      status: "started" | "stopped" | "error";
+      audioUrl?: string;
+      error?: RoomPlanError;
+    };
+
+/** State of a session that has not been started. */
+export const initialScanSessionState: ScanSessionState = {
+  phase: "idle",
+  isRunning: false,
+  isPreviewVisible: false,
+  hasCapturedRoom: false,
+  isExportQueued: false,
+  rooms: [],
+  discardedRoomIds: [],
+  isAudioRecording: false,
+};
+
+const TERMINAL_STATUSES: ScanStatus[] = [
+  ScanStatus.OK,
+  ScanStatus.Error,
+  ScanStatus.Canceled,
+];
+
+const FINISHED_PHASES: ScanPhase[] = ["exported", "error", "canceled"];
+
+/**
+ * Explain why `action` is not allowed in `state`, or return `undefined` when it is.
+ *
+ * @example
+ * ```ts
+ * getScanSessionRejection(initialScanSessionState, { type: "export" });
+ * // "No scan is running."
+ * ```
+ */
+export function getScanSessionRejection(
+  state: ScanSessionState,
+  action: ScanSessionAction
+): string | undefined {
+  const { phase, isRunning } = state;
+  switch (action.type) {
+    case "start": {
+      if (isRunning) return "A scan is already running.";
+      const unsaved = action.resumeFrom?.rooms.find((r) => !r.roomUrl);
+      return unsaved
+        ? `${unsaved.name} can't be resumed: its room data was not saved.`
+        : undefined;
+    }
+    case "cancel":
+    case "capturePhoto":
+      return isRunning ? undefined : "No scan is running.";
+    case "finish":
+      if (!isRunning) return "No scan is running.";
+      return phase === "scanning" || phase === "adding"
+        ? undefined
+        : `Cannot finish a scan while ${phase}.`;
+    case "addRoom":
+      if (!isRunning) return "No scan is running.";
+      return phase === "scanning" || phase === "preview" || phase === "exported"
+        ? undefined
+        : `Cannot add a room while ${phase}.`;
+    case "export":
+      if (!isRunning) return "No scan is running.";
+      if (phase === "exporting") return "An export is already in progress.";
+      if (state.rooms.length === 0 && state.discardedRoomIds.length > 0) {
+        return "Every captured room was discarded.";
+      }
+      if (phase === "error" && !state.hasCapturedRoom) {
+        return "Nothing has been captured to export.";
+      }
+      return undefined;
+    case "renameRoom":
+    case "discardRoom":
+      if (!state.rooms.some((r) => r.identifier === action.identifier)) {
+        return `No room with identifier ${action.identifier}.`;
+      }
+      if (action.type === "renameRoom" && !action.name.trim()) {
+        return "Room names cannot be empty.";
+      }
+      if (action.type === "discardRoom" && phase === "exporting") {
+        return "Cannot discard a room while exporting.";
+      }
+      return undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Pure reducer behind {@link useRoomPlanView}. Actions rejected by {@link getScanSessionRejection}
+ * return `state` unchanged.
+ */
+export function scanSessionReducer(
+  state: ScanSessionState,
+  action: ScanSessionAction
+): ScanSessionState {
+  if (getScanSessionRejection(state, action)) return state;
+
+  switch (action.type) {
+    case "start": {
+      // A resumed session goes on with the next room, as if `addRoom` had been called.
+      const {
+        rooms = [],
+        discardedRoomIds = [],
+        worldMapUrl,
+      } = action.resumeFrom ?? {};
+      return {
+        ...state,
+        phase: "scanning",
+        isRunning: true,
+        isPreviewVisible: false,
+        hasCapturedRoom: rooms.length > 0,
+        isExportQueued: false,
+        lastError: undefined,
+        rooms,
+        currentRoom: {
+          index: rooms.length + discardedRoomIds.length,
+          startedAt: action.at,
+          photoUrls: [],
+        },
+        liveRoom: undefined,
+        currentInstruction: undefined,
+        discardedRoomIds,
+        worldMapUrl,
+      };
+    }
+    case "cancel":
+      return {
+        ...state,
+        phase: FINISHED_PHASES.includes(state.phase) ? state.phase : "canceled",
+        isRunning: false,
+        isPreviewVisible: false,
+        isExportQueued: false,
+        currentRoom: undefined,
+        liveRoom: undefined,
+        currentInstruction: undefined,
+      };
+    case "finish":
+      return { ...state, phase: "processing", currentInstruction: undefined };
+    case "addRoom":
+      // Like the native view, continuing the scan drops a queued export.
+      return {
+        ...state,
+        phase: "adding",
+        isPreviewVisible: false,
+        isExportQueued: false,
+        currentInstruction: undefined,
+      };
+    case "export":
+      if (state.hasCapturedRoom && state.phase !== "processing") {
+        return { ...state, phase: "exporting" };
+      }
+      return { ...state, isExportQueued: true };
+    case "capturePhoto":
+      return state;
+    case "renameRoom":
+      return {
+        ...state,
+        rooms: state.rooms.map((r) =>
+          r.identifier === action.identifier
+            ? { ...r, name: action.name.trim() }
+            : r
+        ),
+      };
+    case "discardRoom": {
+      const rooms = state.rooms.filter(
+        (r) => r.identifier !== action.identifier
+      );
+      return {
+        ...state,
+        rooms,
+        hasCapturedRoom: rooms.length > 0,
+        discardedRoomIds: [...state.discardedRoomIds, action.identifier],
+      };
+    }
+    case "reset":
+      return initialScanSessionState;
+    case "status":
+      return reduceStatus(state, action);
+    case "preview":
+      if (!state.isRunning) return state;
+      return {
+        ...state,
+        phase:
+          action.exportOnFinish || state.isExportQueued
+            ? "exporting"
+            : "preview",
+        isPreviewVisible: true,
+        hasCapturedRoom: true,
+        isExportQueued: false,
+      };
+    case "exported":
+      return {
+        ...state,
+        phase: state.isRunning ? "exported" : state.phase,
+        hasCapturedRoom: state.hasCapturedRoom || state.isRunning,
+        isExportQueued: false,
+        lastExport: { ...action.payload },
+        qualityReport: undefined,
+      };
+    case "exportProgress":
+      return { ...state, exportProgress: action.progress };
+    case "qualityReport":
+      return { ...state, qualityReport: action.report };
+    case "exportProcessed":
+      return {
+        ...state,
+        exportProgress: undefined,
+        lastExport: { ...action.payload, pipeline: action.pipeline },
+      };
+    case "roomAdded":
+      return reduceRoomAdded(state, action.room);
+    case "roomUpdate":
+      if (!state.isRunning) return state;
+      return { ...state, liveRoom: action.room };
+    case "instruction":
+      if (!state.isRunning) return state;
+      return {
+        ...state,
+        currentInstruction:
+          action.instruction === "normal" ? undefined : action.instruction,
+      };
+    case "photo":
+      if (!state.currentRoom) return state;
+      return {
+        ...state,
+        currentRoom: {
+          ...state.currentRoom,
+          photoUrls: [...state.currentRoom.photoUrls, action.photoUrl],
+        },
+      };
+    case "audio": {
+      const isAudioRecording = action.status === "started";
+      const { currentRoom } = state;
+      return {
+        ...state,
+        isAudioRecording,
+        lastError: action.error ?? state.lastError,
+        currentRoom:
+          currentRoom && isAudioRecording && action.audioUrl
+            ? { ...currentRoom, audioUrl: action.audioUrl }
+            : currentRoom,
+      };
+    }
+  }
+}
+
+function reduceRoomAdded(
+  state: ScanSessionState,
+  event: RoomAddedEvent
+): ScanSessionState {
+  if (!state.isRunning) return state;
+  const index = state.rooms.length + state.discardedRoomIds.length;
+  const active = state.currentRoom ?? {
+    index,
+    startedAt: event.capturedAt,
+    photoUrls: [],
+  };
+  const room: ScannedRoom = {
+    index,
+    identifier: event.identifier,
+    name: `Room ${index + 1}`,
+    story: event.story,
+    startedAt: active.startedAt,
+    capturedAt: event.capturedAt,
+    photoUrls: active.photoUrls,
+    audioUrl: active.audioUrl,
+    roomUrl: event.roomUrl,
+  };
+  // After `addRoom` capture continues with the next room; after `finishScan` it has stopped.
+  const continues = state.phase === "adding";
+  return {
+    ...state,
+    hasCapturedRoom: true,
+    rooms: [...state.rooms, room],
+    worldMapUrl: event.worldMapUrl ?? state.worldMapUrl,
+    liveRoom: undefined,
+    currentRoom: continues
+      ? {
+          index: index + 1,
+          startedAt: event.capturedAt,
+          photoUrls: [],
+          audioUrl: state.isAudioRecording ? active.audioUrl : undefined,
+        }
+      : undefined,
+  };
+}
+
+function reduceStatus(
+  state: ScanSessionState,
+  action: Extract<ScanSessionAction, { type: "status" }>
+): ScanSessionState {
+  const { status, error, autoClose } = action;
+  const next: ScanSessionState = { ...state, status };
+  if (error) next.lastError = error;
+  if (!state.isRunning) return next;
+
+  // A failed photo or audio recording leaves the capture, and so the phase, as it was.
+  const continues =
+    status === ScanStatus.Error && !!error && keepsScanRunning(error.code);
+  if (status === ScanStatus.Error && !continues) {
+    next.phase = "error";
+    next.isExportQueued = false;
+  } else if (status === ScanStatus.Canceled) {
+    next.phase = "canceled";
+    next.isExportQueued = false;
+  } else if (status === ScanStatus.OK) {
+    // Every room the native view finishes building is followed by an OK status.
+    if (state.phase === "adding") {
+      next.phase = "scanning";
+      next.hasCapturedRoom = true;
+    } else if (state.phase === "processing") {
+      next.phase = "preview";
+      next.hasCapturedRoom = true;
+    }
+    // While exporting, an OK is for the room built before it; only `exported` ends the export.
+  }
+
+  const exporting = status === ScanStatus.OK && next.phase === "exporting";
+  if (
+    autoClose &&
+    TERMINAL_STATUSES.includes(status) &&
+    !exporting &&
+    !continues
+  ) {
+    next.isRunning = false;
+    next.isPreviewVisible = false;
+    next.isExportQueued = false;
+    next.currentRoom = undefined;
+    next.liveRoom = undefined;
+    next.currentInstruction = undefined;
+    if (!FINISHED_PHASES.includes(next.phase)) next.phase = "idle";
+  }
+  return next;
+}
+
+/**
+ * What of `state` to store to resume the scan later with `resumeFrom`.
+ *
+ * @example
+ * ```ts
+ * await storage.writeText(sessionUrl, JSON.stringify(toSavedScanSession(state)));
+ * ```
+ */
+export function toSavedScanSession(
+  state: Pick<ScanSessionState, "rooms" | "discardedRoomIds" | "worldMapUrl">
+): SavedScanSession {
+  const saved: SavedScanSession = {
+    version: 1,
+    rooms: state.rooms,
+    discardedRoomIds: state.discardedRoomIds,
+  };
+  if (state.worldMapUrl) saved.worldMapUrl = state.worldMapUrl;
+  return saved;
+}
+
+const isString = (value: unknown): value is string => typeof value === "string";
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+function isScannedRoom(value: unknown): value is ScannedRoom {
+  const room = value as ScannedRoom | null;
+  return (
+    typeof room === "object" &&
+    room !== null &&
+    isNumber(room.index) &&
+    isString(room.identifier) &&
+    isString(room.name) &&
+    isNumber(room.story) &&
+    isNumber(room.startedAt) &&
+    isNumber(room.capturedAt) &&
+    Array.isArray(room.photoUrls) &&
+    room.photoUrls.every(isString) &&
+    (room.audioUrl === undefined || isString(room.audioUrl)) &&
+    (room.roomUrl === undefined || isString(room.roomUrl))
+  );
+}
+
+/**
+ * Read a session stored with {@link toSavedScanSession}, as JSON text or parsed.
+ *
+ * @throws {RoomPlanError} `RESUME_FAILED` when `json` isn't a saved session of a known version.
+ */
+export function parseSavedScanSession(json: unknown): SavedScanSession {
+  let value = json;
+  if (typeof json === "string") {
+    try {
+      value = JSON.parse(json);
+    } catch {
+      value = undefined;
+    }
+  }
+  const saved = value as SavedScanSession | null;
+  if (
+    typeof saved !== "object" ||
+    saved === null ||
+    saved.version !== 1 ||
+    !Array.isArray(saved.rooms) ||
+    !saved.rooms.every(isScannedRoom) ||
+    !Array.isArray(saved.discardedRoomIds) ||
+    !saved.discardedRoomIds.every(isString) ||
+    (saved.worldMapUrl !== undefined && !isString(saved.worldMapUrl))
+  ) {
+    throw new RoomPlanError(
+      "RESUME_FAILED",
+      "Not a saved scan session this version can read."
+    );
+  }
+  return saved;
+}
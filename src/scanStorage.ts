@@ -0,0 +1,142 @@
+import { toBase64 } from "./bytes";
+
+/**
+ * File operations used by {@link createScanLibrary}. Paths are `file://` URLs or any other string
+ * the adapter understands; directories end with `/`.
+ */
+export interface ScanStorage {
+  /** Contents of a text file, or `null` when it doesn't exist. */
+  readText(url: string): Promise<string | null>;
+  /** Create or replace a text file. */
+  writeText(url: string, contents: string): Promise<void>;
+  /** Create or replace a binary file, e.g. a `.glb` export. Optional for adapters that only store text. */
+  writeBytes?(url: string, contents: Uint8Array): Promise<void>;
+  /** Move a file, replacing anything at `to`. */
+  move(from: string, to: string): Promise<void>;
+  /** Copy a file, replacing anything at `to`. */
+  copy(from: string, to: string): Promise<void>;
+  /** Delete a file or a directory with everything in it. Missing paths are ignored. */
+  remove(url: string): Promise<void>;
+  /** Create a directory and any missing parents. */
+  makeDirectory(url: string): Promise<void>;
+}
+
+/**
+ * {@link ScanStorage} that keeps files in a `Map`. Handy in tests and on platforms without a file
+ * system; nothing survives a reload. Binary files are stored as one character per byte.
+ */
+export type MemoryScanStorage = ScanStorage & {
+  /** Every stored file by URL. */
+  readonly files: Map<string, string>;
+};
+
+/**
+ * Create an in-memory {@link ScanStorage}, optionally pre-filled with `files`.
+ *
+ * @example
+ * ```ts
+ * const storage = createMemoryScanStorage({
+ *   "file:///tmp/Export/Room.json": JSON.stringify(structureJson),
+ * });
+ * ```
+ */
+export function createMemoryScanStorage(
+  files: Record<string, string> = {}
+): MemoryScanStorage {
+  const map = new Map(Object.entries(files));
+  const missing = (url: string) => new Error(`No such file: ${url}`);
+
+  return {
+    files: map,
+    async readText(url) {
+      return map.get(url) ?? null;
+    },
+    async writeText(url, contents) {
+      map.set(url, contents);
+    },
+    async writeBytes(url, contents) {
+      let text = "";
+      for (const byte of contents) text += String.fromCharCode(byte);
+      map.set(url, text);
+    },
+    async move(from, to) {
+      const contents = map.get(from);
+      if (contents === undefined) throw missing(from);
+      map.delete(from);
+      map.set(to, contents);
+    },
+    async copy(from, to) {
+      const contents = map.get(from);
+      if (contents === undefined) throw missing(from);
+      map.set(to, contents);
+    },
+    async remove(url) {
+      for (const key of [...map.keys()]) {
+        if (key === url || (url.endsWith("/") && key.startsWith(url))) {
+          map.delete(key);
+        }
+      }
+    },
+    async makeDirectory() {},
+  };
+}
+
+/**
+ * The parts of `expo-file-system` (the `expo-file-system/legacy` API) used by
+ * {@link createFileSystemScanStorage}.
+ */
+export type FileSystemModule = {
+  getInfoAsync(url: string): Promise<{ exists: boolean }>;
+  readAsStringAsync(url: string): Promise<string>;
+  writeAsStringAsync(
+    url: string,
+    contents: string,
+    options?: { encoding?: "utf8" | "base64" }
+  ): Promise<void>;
+  moveAsync(options: { from: string; to: string }): Promise<void>;
+  copyAsync(options: { from: string; to: string }): Promise<void>;
+  deleteAsync(url: string, options?: { idempotent?: boolean }): Promise<void>;
+  makeDirectoryAsync(
+    url: string,
+    options?: { intermediates?: boolean }
+  ): Promise<void>;
+};
+
+/**
+ * Create a {@link ScanStorage} on top of `expo-file-system`. The module is passed in so this package
+ * doesn't depend on it.
+ *
+ * @example
+ * ```ts
+ * import * as FileSystem from "expo-file-system/legacy";
+ *
+ * const library = createScanLibrary({
+ *   storage: createFileSystemScanStorage(FileSystem),
+ *   directory: FileSystem.documentDirectory + "scans/",
+ * });
+ * ```
+ */
+export function createFileSystemScanStorage(fs: FileSystemModule): ScanStorage {
+  const replace = async (to: string) => {
+    await fs.deleteAsync(to, { idempotent: true });
+  };
+  return {
+    async readText(url) {
+      const info = await fs.getInfoAsync(url);
+      return info.exists ? fs.readAsStringAsync(url) : null;
+    },
+    writeText: (url, contents) => fs.writeAsStringAsync(url, contents),
+    writeBytes: (url, contents) =>
+      fs.writeAsStringAsync(url, toBase64(contents), { encoding: "base64" }),
+    async move(from, to) {
+      await replace(to);
+      await fs.moveAsync({ from, to });
+    },
+    async copy(from, to) {
+      await replace(to);
+      await fs.copyAsync({ from, to });
+    },
+    remove: (url) => fs.deleteAsync(url, { idempotent: true }),
+    makeDirectory: (url) => fs.makeDirectoryAsync(url, { intermediates: true }),
+  };
+}
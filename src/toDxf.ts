@@ -0,0 +1,468 @@
+import type {
+  CapturedStructure,
+  CapturedSurface,
+  ObjectCategory,
+} from "./CapturedStructure.types";
+import {
+  PlanPoint,
+  boundsOf,
+  centroidOf,
+  floorPolygon,
+  getStories,
+  inverseTransformPoint,
+  objectFootprint,
+  surfaceNormal,
+  surfaceSegment,
+  translationOf,
+} from "./planGeometry";
+import type { MeasurementUnits } from "./units";
+
+/** What a DXF layer holds. Objects get one layer per category, e.g. `"bed"`. */
+export type DxfLayerCategory =
+  | "walls"
+  | "doors"
+  | "windows"
+  | "floors"
+  | "dimensions"
+  | ObjectCategory;
+
+/**
+ * Options for {@link toDxf}.
+ */
+export type DxfOptions = {
+  /** Only include elements on this story. Includes every story when omitted. */
+  story?: number;
+  /** `"metric"` writes millimetres, `"imperial"` inches. Defaults to `"metric"`. */
+  units?: MeasurementUnits;
+  /** Width of the wall polylines in metres. Defaults to `0.15`. */
+  wallThickness?: number;
+  /** Outline floors. Defaults to `true`. */
+  showFloors?: boolean;
+  /** Outline object footprints. Defaults to `true`. */
+  showObjects?: boolean;
+  /** Add an aligned dimension to every wall. Defaults to `true`. */
+  showDimensions?: boolean;
+  /** Distance between a wall and its dimension line in metres. Defaults to `0.4`. */
+  dimensionOffset?: number;
+  /** Name of the layer holding `category` on `story`. Defaults to e.g. `STORY0-WALLS`. */
+  layerName?: (category: DxfLayerCategory, story: number) => string;
+};
+
+const SCALE: Record<MeasurementUnits, number> = {
+  metric: 1000,
+  imperial: 1000 / 25.4,
+};
+
+// `$INSUNITS` codes.
+const INSUNITS: Record<MeasurementUnits, number> = { metric: 4, imperial: 1 };
+
+// AutoCAD colour index per layer category; objects share one colour.
+const LAYER_COLORS: Partial<Record<DxfLayerCategory, number>> = {
+  walls: 7,
+  doors: 3,
+  windows: 5,
+  floors: 8,
+  dimensions: 1,
+};
+const OBJECT_COLOR = 4;
+
+const DOOR_BLOCK = "DOOR";
+const WINDOW_BLOCK = "WINDOW";
+
+function defaultLayerName(category: DxfLayerCategory, story: number): string {
+  return `STORY${story}-${category.toUpperCase()}`;
+}
+
+function num(n: number): string {
+  const rounded = Math.round(n * 10000) / 10000;
+  return Object.is(rounded, -0) ? "0" : String(rounded);
+}
+
+/** Group code/value pairs, one per line as DXF expects. */
+class DxfWriter {
+  readonly lines: string[] = [];
+
+  pair(code: number, value: string | number) {
+    this.lines.push(
+      String(code),
+      typeof value === "number" ? num(value) : value
+    );
+  }
+
+  point(x: number, y: number, offset = 0) {
+    this.pair(10 + offset, x);
+    this.pair(20 + offset, y);
+    this.pair(30 + offset, 0);
+  }
+
+  append(other: DxfWriter) {
+    this.lines.push(...other.lines);
+  }
+
+  toString() {
+    return this.lines.join("\n") + "\n";
+  }
+}
+
+/**
+ * Spans along the width of `wall`, measured from its start, where a door, window or opening cuts
+ * through it.
+ */
+function wallGaps(
+  wall: CapturedSurface,
+  openings: CapturedSurface[]
+): [number, number][] {
+  const half = wall.dimensions[0] / 2;
+  return openings
+    .filter((o) => o.parentIdentifier === wall.identifier)
+    .map((o): [number, number] => {
+      const [cx] = inverseTransformPoint(
+        wall.transform,
+        translationOf(o.transform)
+      );
+      const w = o.dimensions[0] / 2;
+      return [
+        Math.max(0, cx - w + half),
+        Math.min(wall.dimensions[0], cx + w + half),
+      ];
+    })
+    .filter(([a, b]) => b > a)
+    .sort((a, b) => a[0] - b[0]);
+}
+
+/**
+ * Write a 2D floor plan of an exported structure as an ASCII DXF (AutoCAD R12) drawing for CAD
+ * tools.
+ *
+ * Walls are polylines whose width is the wall thickness, broken at every door, window and opening.
+ * Doors and windows are inserts of the `DOOR` and `WINDOW` blocks, scaled to their width; doors
+ * swing to the side RoomPlan reports as their front. Floors and object footprints are closed
+ * polylines and every wall gets an aligned dimension. Each category sits on its own layer per
+ * story, e.g. `STORY0-WALLS` or `STORY1-BED`.
+ *
+ * Coordinates are world `x` and `-z`, so north stays up as in {@link renderFloorPlanSvg}, in
+ * millimetres or inches.
+ *
+ * @param structure A structure returned by {@link parseCapturedStructure}.
+ * @param options Story selection, units, layers and annotations.
+ * @returns The contents of a `.dxf` file.
+ * @example
+ * ```ts
+ * const dxf = toDxf(structure, { units: "imperial" });
+ * await FileSystem.writeAsStringAsync(FileSystem.documentDirectory + "plan.dxf", dxf);
+ * ```
+ */
+export function toDxf(
+  structure: CapturedStructure,
+  options: DxfOptions = {}
+): string {
+  const {
+    units = "metric",
+    wallThickness = 0.15,
+    showFloors = true,
+    showObjects = true,
+    showDimensions = true,
+    dimensionOffset = 0.4,
+    layerName = defaultLayerName,
+  } = options;
+  const scale = SCALE[units];
+  const stories =
+    options.story === undefined ? getStories(structure) : [options.story];
+  const onStories = <T extends { story: number }>(items: T[]) =>
+    items.filter((item) => stories.includes(item.story));
+  const walls = onStories(structure.walls);
+  const doors = onStories(structure.doors);
+  const windows = onStories(structure.windows);
+  const openings = [...doors, ...windows, ...onStories(structure.openings)];
+  const floors = showFloors ? onStories(structure.floors) : [];
+  const objects = showObjects ? onStories(structure.objects) : [];
+
+  // Plan points are in metres with z growing south; DXF y grows north.
+  const at = ([x, z]: PlanPoint): PlanPoint => [x * scale, -z * scale];
+  const along = (
+    seg: { start: PlanPoint; end: PlanPoint },
+    d: number
+  ): PlanPoint => {
+    const length = Math.hypot(
+      seg.end[0] - seg.start[0],
+      seg.end[1] - seg.start[1]
+    );
+    const k = length > 0 ? d / length : 0;
+    return [
+      seg.start[0] + (seg.end[0] - seg.start[0]) * k,
+      seg.start[1] + (seg.end[1] - seg.start[1]) * k,
+    ];
+  };
+
+  const layers = new Map<string, number>();
+  const layer = (category: DxfLayerCategory, story: number) => {
+    const name = layerName(category, story);
+    if (!layers.has(name)) {
+      layers.set(name, LAYER_COLORS[category] ?? OBJECT_COLOR);
+    }
+    return name;
+  };
+
+  const entities = new DxfWriter();
+  const extents: PlanPoint[] = [];
+  const polyline = (
+    name: string,
+    points: PlanPoint[],
+    { closed = false, width = 0 } = {}
+  ) => {
+    entities.pair(0, "POLYLINE");
+    entities.pair(8, name);
+    entities.pair(66, 1);
+    entities.point(0, 0);
+    entities.pair(70, closed ? 1 : 0);
+    if (width) {
+      entities.pair(40, width);
+      entities.pair(41, width);
+    }
+    for (const p of points) {
+      const [x, y] = at(p);
+      extents.push([x, y]);
+      entities.pair(0, "VERTEX");
+      entities.pair(8, name);
+      entities.point(x, y);
+    }
+    entities.pair(0, "SEQEND");
+    entities.pair(8, name);
+  };
+  const insert = (
+    name: string,
+    block: string,
+    origin: PlanPoint,
+    xScale: number,
+    yScale: number,
+    rotation: number
+  ) => {
+    const [x, y] = at(origin);
+    entities.pair(0, "INSERT");
+    entities.pair(8, name);
+    entities.pair(2, block);
+    entities.point(x, y);
+    entities.pair(41, xScale);
+    entities.pair(42, yScale);
+    entities.pair(50, rotation);
+  };
+  // Direction of a segment in DXF degrees, and which side of it a plan normal lies on.
+  const angleOf = (seg: { start: PlanPoint; end: PlanPoint }) => {
+    const [ax, ay] = at(seg.start);
+    const [bx, by] = at(seg.end);
+    return (Math.atan2(by - ay, bx - ax) * 180) / Math.PI;
+  };
+  const sideOf = (
+    seg: { start: PlanPoint; end: PlanPoint },
+    normal: PlanPoint
+  ) => {
+    const [ax, ay] = at(seg.start);
+    const [bx, by] = at(seg.end);
+    const [nx, ny] = [normal[0], -normal[1]];
+    return (bx - ax) * ny - (by - ay) * nx >= 0 ? 1 : -1;
+  };
+
+  for (const floor of floors) {
+    polyline(layer("floors", floor.story), floorPolygon(floor), {
+      closed: true,
+    });
+  }
+
+  for (const wall of walls) {
+    const seg = surfaceSegment(wall);
+    const length = wall.dimensions[0];
+    let from = 0;
+    for (const [start, end] of [
+      ...wallGaps(wall, openings),
+      [length, length] as [number, number],
+    ]) {
+      if (start > from) {
+        polyline(
+          layer("walls", wall.story),
+          [along(seg, from), along(seg, start)],
+          { width: wallThickness * scale }
+        );
+      }
+      from = Math.max(from, end);
+    }
+  }
+
+  for (const door of doors) {
+    const seg = surfaceSegment(door);
+    const width = door.dimensions[0] * scale;
+    insert(
+      layer("doors", door.story),
+      DOOR_BLOCK,
+      seg.start,
+      width,
+      width * sideOf(seg, surfaceNormal(door)),
+      angleOf(seg)
+    );
+  }
+
+  for (const win of windows) {
+    const seg = surfaceSegment(win);
+    insert(
+      layer("windows", win.story),
+      WINDOW_BLOCK,
+      seg.start,
+      win.dimensions[0] * scale,
+      (wallThickness / 2) * scale,
+      angleOf(seg)
+    );
+  }
+
+  for (const object of objects) {
+    polyline(layer(object.category, object.story), objectFootprint(object), {
+      closed: true,
+    });
+  }
+
+  if (showDimensions && walls.length) {
+    const center = centroidOf(
+      walls.flatMap((w) => {
+        const seg = surfaceSegment(w);
+        return [seg.start, seg.end];
+      })
+    );
+    for (const wall of walls) {
+      const seg = surfaceSegment(wall);
+      let [nx, nz] = surfaceNormal(wall);
+      // Place the dimension on the outside of the plan, like the SVG renderer.
+      const [mx, mz] = centroidOf([seg.start, seg.end]);
+      if ((mx - center[0]) * nx + (mz - center[1]) * nz < 0) {
+        nx = -nx;
+        nz = -nz;
+      }
+      const offset = dimensionOffset + wallThickness / 2;
+      const [ax, ay] = at(seg.start);
+      const [bx, by] = at(seg.end);
+      const [dx, dy] = at([seg.end[0] + nx * offset, seg.end[1] + nz * offset]);
+      const [tx, ty] = at([mx + nx * offset, mz + nz * offset]);
+      const name = layer("dimensions", wall.story);
+      entities.pair(0, "DIMENSION");
+      entities.pair(8, name);
+      entities.point(dx, dy);
+      entities.point(tx, ty, 1);
+      // Aligned dimension with the text at the position given in 11/21.
+      entities.pair(70, 1 + 128);
+      entities.pair(1, "");
+      entities.pair(3, "STANDARD");
+      entities.point(ax, ay, 3);
+      entities.point(bx, by, 4);
+      entities.pair(42, wall.dimensions[0] * scale);
+      extents.push([dx, dy]);
+    }
+  }
+
+  const dxf = new DxfWriter();
+  const bounds = boundsOf(extents) ?? { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+
+  dxf.pair(0, "SECTION");
+  dxf.pair(2, "HEADER");
+  dxf.pair(9, "$ACADVER");
+  dxf.pair(1, "AC1009");
+  dxf.pair(9, "$INSUNITS");
+  dxf.pair(70, INSUNITS[units]);
+  dxf.pair(9, "$MEASUREMENT");
+  dxf.pair(70, units === "metric" ? 1 : 0);
+  dxf.pair(9, "$EXTMIN");
+  dxf.point(bounds.minX, bounds.minY);
+  dxf.pair(9, "$EXTMAX");
+  dxf.point(bounds.maxX, bounds.maxY);
+  dxf.pair(0, "ENDSEC");
+
+  dxf.pair(0, "SECTION");
+  dxf.pair(2, "TABLES");
+  dxf.pair(0, "TABLE");
+  dxf.pair(2, "LTYPE");
+  dxf.pair(70, 1);
+  dxf.pair(0, "LTYPE");
+  dxf.pair(2, "CONTINUOUS");
+  dxf.pair(70, 0);
+  dxf.pair(3, "Solid line");
+  dxf.pair(72, 65);
+  dxf.pair(73, 0);
+  dxf.pair(40, 0);
+  dxf.pair(0, "ENDTAB");
+  dxf.pair(0, "TABLE");
+  dxf.pair(2, "LAYER");
+  dxf.pair(70, layers.size + 1);
+  for (const [name, color] of [["0", 7] as const, ...layers]) {
+    dxf.pair(0, "LAYER");
+    dxf.pair(2, name);
+    dxf.pair(70, 0);
+    dxf.pair(62, color);
+    dxf.pair(6, "CONTINUOUS");
+  }
+  dxf.pair(0, "ENDTAB");
+  dxf.pair(0, "TABLE");
+  dxf.pair(2, "STYLE");
+  dxf.pair(70, 1);
+  dxf.pair(0, "STYLE");
+  dxf.pair(2, "STANDARD");
+  dxf.pair(70, 0);
+  dxf.pair(40, 0);
+  dxf.pair(41, 1);
+  dxf.pair(3, "txt");
+  dxf.pair(0, "ENDTAB");
+  dxf.pair(0, "TABLE");
+  dxf.pair(2, "DIMSTYLE");
+  dxf.pair(70, 1);
+  dxf.pair(0, "DIMSTYLE");
+  dxf.pair(2, "STANDARD");
+  dxf.pair(70, 0);
+  // Text height and arrow size of 100 mm or 4 in.
+  dxf.pair(140, 0.1 * scale);
+  dxf.pair(41, 0.1 * scale);
+  dxf.pair(0, "ENDTAB");
+  dxf.pair(0, "ENDSEC");
+
+  // Blocks are drawn for a width of 1 and scaled by each insert. Their entities sit on layer 0 so
+  // they take the layer of the insert.
+  dxf.pair(0, "SECTION");
+  dxf.pair(2, "BLOCKS");
+  const block = (name: string, draw: () => void) => {
+    dxf.pair(0, "BLOCK");
+    dxf.pair(8, "0");
+    dxf.pair(2, name);
+    dxf.pair(70, 0);
+    dxf.point(0, 0);
+    dxf.pair(3, name);
+    draw();
+    dxf.pair(0, "ENDBLK");
+    dxf.pair(8, "0");
+  };
+  const blockLine = (x1: number, y1: number, x2: number, y2: number) => {
+    dxf.pair(0, "LINE");
+    dxf.pair(8, "0");
+    dxf.point(x1, y1);
+    dxf.point(x2, y2, 1);
+  };
+  // Hinge at the origin, closed leaf along +x, drawn fully open along +y with its swing.
+  block(DOOR_BLOCK, () => {
+    blockLine(0, 0, 0, 1);
+    dxf.pair(0, "ARC");
+    dxf.pair(8, "0");
+    dxf.point(0, 0);
+    dxf.pair(40, 1);
+    dxf.pair(50, 0);
+    dxf.pair(51, 90);
+  });
+  // Frame and glass across a wall of thickness 2 (the insert scales y by half the thickness).
+  block(WINDOW_BLOCK, () => {
+    blockLine(0, -1, 1, -1);
+    blockLine(0, 1, 1, 1);
+    blockLine(0, -1, 0, 1);
+    blockLine(1, -1, 1, 1);
+    blockLine(0, 0, 1, 0);
+  });
+  dxf.pair(0, "ENDSEC");
+
+  dxf.pair(0, "SECTION");
+  dxf.pair(2, "ENTITIES");
+  dxf.append(entities);
+  dxf.pair(0, "ENDSEC");
+  dxf.pair(0, "EOF");
+  return dxf.toString();
+}
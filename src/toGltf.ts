@@ -0,0 +1,319 @@
+import type {
+  CapturedStructure,
+  ObjectCategory,
+  SurfaceCategory,
+} from "./CapturedStructure.types";
+import {
+  StructureMeshOptions,
+  StructureMeshPart,
+  buildStructureMesh,
+} from "./buildStructureMesh";
+import { toBase64, utf8 } from "./bytes";
+
+/** Linear RGBA colour with components from 0 to 1. */
+export type GltfColor = [number, number, number, number];
+
+/**
+ * Options for {@link toGltf} and {@link toGlb}.
+ */
+export type GltfOptions = StructureMeshOptions & {
+  /** Override the base colour used for a category, e.g. `{ wall: [1, 1, 1, 1] }`. */
+  colors?: Partial<Record<SurfaceCategory | ObjectCategory, GltfColor>>;
+};
+
+/**
+ * The subset of a glTF 2.0 document written by {@link toGltf}.
+ */
+export type GltfDocument = {
+  asset: { version: "2.0"; generator: string };
+  scene: number;
+  scenes: { name: string; nodes: number[] }[];
+  nodes: {
+    name: string;
+    mesh?: number;
+    children?: number[];
+    extras?: Record<string, unknown>;
+  }[];
+  meshes: {
+    name: string;
+    primitives: {
+      attributes: { POSITION: number; NORMAL: number };
+      indices: number;
+      material: number;
+      mode: 4;
+    }[];
+  }[];
+  materials: {
+    name: string;
+    pbrMetallicRoughness: {
+      baseColorFactor: GltfColor;
+      metallicFactor: number;
+      roughnessFactor: number;
+    };
+    alphaMode?: "BLEND";
+  }[];
+  accessors: {
+    bufferView: number;
+    componentType: 5125 | 5126;
+    count: number;
+    type: "SCALAR" | "VEC3";
+    min?: number[];
+    max?: number[];
+  }[];
+  bufferViews: {
+    buffer: 0;
+    byteOffset: number;
+    byteLength: number;
+    target: 34962 | 34963;
+  }[];
+  buffers: { byteLength: number; uri?: string }[];
+};
+
+// Also used by toObj and toPly, so every format colours categories alike.
+export const DEFAULT_COLORS: Record<
+  SurfaceCategory | ObjectCategory,
+  GltfColor
+> = {
+  wall: [0.9, 0.9, 0.87, 1],
+  floor: [0.55, 0.45, 0.35, 1],
+  door: [0.5, 0.32, 0.18, 1],
+  window: [0.6, 0.8, 0.95, 0.35],
+  opening: [0.9, 0.9, 0.87, 1],
+  storage: [0.62, 0.48, 0.34, 1],
+  refrigerator: [0.85, 0.86, 0.88, 1],
+  stove: [0.3, 0.3, 0.32, 1],
+  bed: [0.45, 0.55, 0.7, 1],
+  sink: [0.95, 0.95, 0.95, 1],
+  washerDryer: [0.85, 0.86, 0.88, 1],
+  toilet: [0.95, 0.95, 0.95, 1],
+  bathtub: [0.95, 0.95, 0.95, 1],
+  oven: [0.3, 0.3, 0.32, 1],
+  dishwasher: [0.7, 0.71, 0.73, 1],
+  table: [0.55, 0.38, 0.22, 1],
+  sofa: [0.4, 0.47, 0.4, 1],
+  chair: [0.6, 0.42, 0.26, 1],
+  fireplace: [0.55, 0.25, 0.18, 1],
+  television: [0.1, 0.1, 0.12, 1],
+  stairs: [0.5, 0.45, 0.4, 1],
+};
+
+const GLB_MAGIC = 0x46546c67;
+const CHUNK_JSON = 0x4e4f534a;
+const CHUNK_BIN = 0x004e4942;
+
+function vec3Bounds(values: number[]) {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < values.length; i += 3) {
+    for (let k = 0; k < 3; k++) {
+      min[k] = Math.min(min[k], values[i + k]);
+      max[k] = Math.max(max[k], values[i + k]);
+    }
+  }
+  return { min, max };
+}
+
+/** Build the document and its binary buffer, without deciding how the buffer is stored. */
+function buildGltf(
+  structure: CapturedStructure,
+  options: GltfOptions
+): { document: GltfDocument; binary: Uint8Array } {
+  const parts = buildStructureMesh(structure, options).filter(
+    (p) => p.indices.length > 0
+  );
+  const colors = { ...DEFAULT_COLORS, ...options.colors };
+
+  const document: GltfDocument = {
+    asset: { version: "2.0", generator: "expo-roomplan" },
+    scene: 0,
+    scenes: [{ name: "Structure", nodes: [0] }],
+    nodes: [{ name: "Structure", children: [] }],
+    meshes: [],
+    materials: [],
+    accessors: [],
+    bufferViews: [],
+    buffers: [],
+  };
+
+  const materialIndex = new Map<StructureMeshPart["category"], number>();
+  const material = (category: StructureMeshPart["category"]) => {
+    let index = materialIndex.get(category);
+    if (index === undefined) {
+      const color = colors[category];
+      index = document.materials.length;
+      document.materials.push({
+        name: category,
+        pbrMetallicRoughness: {
+          baseColorFactor: color,
+          metallicFactor: 0,
+          roughnessFactor: 0.9,
+        },
+        ...(color[3] < 1 ? { alphaMode: "BLEND" as const } : {}),
+      });
+      materialIndex.set(category, index);
+    }
+    return index;
+  };
+
+  const byteLength = parts.reduce(
+    (sum, p) => sum + (p.positions.length * 2 + p.indices.length) * 4,
+    0
+  );
+  const binary = new Uint8Array(byteLength);
+  const view = new DataView(binary.buffer);
+  let offset = 0;
+  const addView = (values: number[], kind: "float" | "index"): number => {
+    const start = offset;
+    for (const v of values) {
+      if (kind === "float") view.setFloat32(offset, v, true);
+      else view.setUint32(offset, v, true);
+      offset += 4;
+    }
+    document.bufferViews.push({
+      buffer: 0,
+      byteOffset: start,
+      byteLength: offset - start,
+      target: kind === "float" ? 34962 : 34963,
+    });
+    return document.bufferViews.length - 1;
+  };
+  const addAccessor = (accessor: GltfDocument["accessors"][number]) => {
+    document.accessors.push(accessor);
+    return document.accessors.length - 1;
+  };
+
+  const storyNodes = new Map<number, number>();
+  for (const p of parts) {
+    let storyNode = storyNodes.get(p.story);
+    if (storyNode === undefined) {
+      storyNode = document.nodes.length;
+      document.nodes.push({
+        name: `Story ${p.story}`,
+        children: [],
+        extras: { story: p.story },
+      });
+      document.nodes[0].children!.push(storyNode);
+      storyNodes.set(p.story, storyNode);
+    }
+
+    const vertexCount = p.positions.length / 3;
+    const position = addAccessor({
+      bufferView: addView(p.positions, "float"),
+      componentType: 5126,
+      count: vertexCount,
+      type: "VEC3",
+      ...vec3Bounds(p.positions),
+    });
+    const normal = addAccessor({
+      bufferView: addView(p.normals, "float"),
+      componentType: 5126,
+      count: vertexCount,
+      type: "VEC3",
+    });
+    const indices = addAccessor({
+      bufferView: addView(p.indices, "index"),
+      componentType: 5125,
+      count: p.indices.length,
+      type: "SCALAR",
+    });
+
+    document.meshes.push({
+      name: p.name,
+      primitives: [
+        {
+          attributes: { POSITION: position, NORMAL: normal },
+          indices,
+          material: material(p.category),
+          mode: 4,
+        },
+      ],
+    });
+    document.nodes[storyNode].children!.push(document.nodes.length);
+    document.nodes.push({
+      name: p.name,
+      mesh: document.meshes.length - 1,
+      extras: {
+        identifier: p.identifier,
+        category: p.category,
+        story: p.story,
+        ...(p.parentIdentifier ? { parentIdentifier: p.parentIdentifier } : {}),
+      },
+    });
+  }
+
+  // glTF doesn't allow empty buffers.
+  if (byteLength) document.buffers.push({ byteLength });
+  return { document, binary };
+}
+
+/**
+ * Convert an exported structure into a glTF 2.0 document with the geometry embedded as a base64
+ * `data:` URI. Serialize it with `JSON.stringify` and save it as `.gltf`.
+ *
+ * Walls are extruded with their doors, windows and openings cut out, floors follow their outlines
+ * and objects are boxes. Every element is a node named `<category>-<identifier>` with the
+ * identifier, category and story in its `extras`, grouped under one node per story. Materials are
+ * per category and can be recoloured with `colors`. Coordinates are RoomPlan's: metres, y up.
+ *
+ * Pure TypeScript, so it also runs in Node, e.g. on a server receiving uploaded scans.
+ *
+ * @param structure A structure returned by {@link parseCapturedStructure}.
+ * @example
+ * ```ts
+ * const gltf = toGltf(structure, { wallThickness: 0.1 });
+ * await FileSystem.writeAsStringAsync(url, JSON.stringify(gltf));
+ * ```
+ */
+export function toGltf(
+  structure: CapturedStructure,
+  options: GltfOptions = {}
+): GltfDocument {
+  const { document, binary } = buildGltf(structure, options);
+  if (document.buffers.length) {
+    document.buffers[0].uri =
+      "data:application/octet-stream;base64," + toBase64(binary);
+  }
+  return document;
+}
+
+/**
+ * Convert an exported structure into a binary glTF (`.glb`) file. Takes the same options and
+ * produces the same scene as {@link toGltf}.
+ *
+ * @param structure A structure returned by {@link parseCapturedStructure}.
+ * @example
+ * ```ts
+ * const glb = toGlb(structure);
+ * fs.writeFileSync("room.glb", glb); // Node
+ * ```
+ */
+export function toGlb(
+  structure: CapturedStructure,
+  options: GltfOptions = {}
+): Uint8Array {
+  const { document, binary } = buildGltf(structure, options);
+  const json = utf8(JSON.stringify(document));
+  const pad = (n: number) => (4 - (n % 4)) % 4;
+  const jsonLength = json.length + pad(json.length);
+  const binLength = binary.length + pad(binary.length);
+  const total = 12 + 8 + jsonLength + (binary.length ? 8 + binLength : 0);
+
+  const glb = new Uint8Array(total);
+  const view = new DataView(glb.buffer);
+  view.setUint32(0, GLB_MAGIC, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, total, true);
+
+  view.setUint32(12, jsonLength, true);
+  view.setUint32(16, CHUNK_JSON, true);
+  glb.set(json, 20);
+  glb.fill(0x20, 20 + json.length, 20 + jsonLength);
+
+  if (binary.length) {
+    const start = 20 + jsonLength;
+    view.setUint32(start, binLength, true);
+    view.setUint32(start + 4, CHUNK_BIN, true);
+    glb.set(binary, start + 8);
+  }
+  return glb;
+}
@@ -0,0 +1,673 @@
+import type {
+  CapturedObject,
+  CapturedStructure,
+  CapturedSurface,
+  SectionLabel,
+  Transform4x4,
+  Vector3,
+} from "./CapturedStructure.types";
+import {
+  PlanPoint,
+  floorPolygon,
+  getStories,
+  pointInPolygon,
+  toPlan,
+  transformPoint,
+  translationOf,
+} from "./planGeometry";
+
+/**
+ * Options for {@link toIfc}.
+ */
+export type IfcOptions = {
+  /** Name of the `IfcProject`. Defaults to `"RoomPlan scan"`. */
+  projectName?: string;
+  /** Name of the `IfcBuilding`. Defaults to `"Building"`. */
+  buildingName?: string;
+  /** Only include elements on this story. Includes every story when omitted. */
+  story?: number;
+  /** Thickness of walls in metres. Defaults to `0.15`. */
+  wallThickness?: number;
+  /** Thickness of floor slabs in metres, below the scanned floor. Defaults to `0.2`. */
+  slabThickness?: number;
+  /** Export objects as `IfcFurnishingElement`. Defaults to `true`. */
+  includeObjects?: boolean;
+  /** Override the names given to `IfcSpace`s, e.g. for localisation. */
+  spaceNames?: Partial<Record<SectionLabel, string>>;
+  /** Time stamp written to the file header. Defaults to now. */
+  timestamp?: Date;
+};
+
+const DEFAULT_SPACE_NAMES: Record<SectionLabel, string> = {
+  livingRoom: "Living Room",
+  bedroom: "Bedroom",
+  bathroom: "Bathroom",
+  kitchen: "Kitchen",
+  diningRoom: "Dining Room",
+  unidentified: "Room",
+};
+
+// Doors and windows are modelled as panels of this thickness in the middle of the wall.
+const PANEL_THICKNESS = 0.05;
+// Openings are cut slightly deeper than the wall so the void goes all the way through.
+const OPENING_CLEARANCE = 0.1;
+
+const GUID_CHARS =
+  "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz_$";
+
+/**
+ * A STEP attribute: `null` is `$`, numbers are REALs, arrays are lists and strings are written
+ * as-is, so they must already be encoded with {@link str}, {@link enumValue}, {@link int} or be a
+ * `#ref`.
+ */
+type StepValue = string | number | null | StepValue[];
+
+function real(n: number): string {
+  const rounded = Math.round(n * 1e6) / 1e6;
+  const text = String(Object.is(rounded, -0) ? 0 : rounded).toUpperCase();
+  if (text.includes("E")) {
+    const [mantissa, exponent] = text.split("E");
+    return `${mantissa.includes(".") ? mantissa : mantissa + "."}E${exponent}`;
+  }
+  return text.includes(".") ? text : text + ".";
+}
+
+function int(n: number): string {
+  return String(Math.round(n));
+}
+
+function enumValue(value: string): string {
+  return `.${value}.`;
+}
+
+/** A STEP string literal, with non-ASCII characters written as `\X2\` escapes. */
+function str(text: string): string {
+  let out = "";
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const code = text.charCodeAt(i);
+    if (char === "'") out += "''";
+    else if (char === "\\") out += "\\\\";
+    else if (code >= 0x20 && code < 0x7f) out += char;
+    else {
+      // UTF-16 code units, so characters outside the BMP become their surrogate pair.
+      out += `\\X2\\${code.toString(16).toUpperCase().padStart(4, "0")}\\X0\\`;
+    }
+  }
+  return `'${out}'`;
+}
+
+function encode(value: StepValue): string {
+  if (value === null) return "$";
+  if (typeof value === "number") return real(value);
+  if (Array.isArray(value)) return `(${value.map(encode).join(",")})`;
+  return value;
+}
+
+/** 128 bits derived from `seed`, so the same structure always gets the same GlobalIds. */
+function hashBytes(seed: string): number[] {
+  const bytes: number[] = [];
+  for (let round = 0; round < 4; round++) {
+    // FNV-1a, varied per round.
+    let h = (0x811c9dc5 ^ (round * 0x9e3779b9)) >>> 0;
+    for (let i = 0; i < seed.length; i++) {
+      h ^= seed.charCodeAt(i);
+      h = Math.imul(h, 0x01000193) >>> 0;
+    }
+    bytes.push(h >>> 24, (h >>> 16) & 255, (h >>> 8) & 255, h & 255);
+  }
+  return bytes;
+}
+
+/**
+ * The 22-character IFC GlobalId of a UUID such as RoomPlan's identifiers. Other strings are hashed.
+ */
+export function toIfcGuid(identifier: string): string {
+  const hex = identifier.replace(/-/g, "");
+  const bytes = /^[0-9a-fA-F]{32}$/.test(hex)
+    ? Array.from({ length: 16 }, (_, i) =>
+        parseInt(hex.slice(i * 2, i * 2 + 2), 16)
+      )
+    : hashBytes(identifier);
+  const chars = (value: number, length: number) => {
+    let out = "";
+    for (let i = 0; i < length; i++) {
+      out = GUID_CHARS[value % 64] + out;
+      value = Math.floor(value / 64);
+    }
+    return out;
+  };
+  let guid = chars(bytes[0], 2);
+  for (let i = 1; i < 16; i += 3) {
+    guid += chars((bytes[i] << 16) + (bytes[i + 1] << 8) + bytes[i + 2], 4);
+  }
+  return guid;
+}
+
+/** Numbered entity instances of the DATA section. */
+class StepWriter {
+  private lines: string[] = [];
+
+  add(type: string, ...attributes: StepValue[]): string {
+    const ref = `#${this.lines.length + 1}`;
+    this.lines.push(`${ref}=${type}(${attributes.map(encode).join(",")});`);
+    return ref;
+  }
+
+  toString() {
+    return this.lines.join("\n");
+  }
+}
+
+/**
+ * Write an exported structure as an IFC4 file (STEP physical file, `.ifc`) for BIM tools.
+ *
+ * The spatial structure is `IfcProject` → `IfcSite` → `IfcBuilding` → one `IfcBuildingStorey` per
+ * story → one `IfcSpace` per section, shaped like the floor the section lies in. Walls become
+ * `IfcWallStandardCase` extrusions with a material layer set, doors, windows and openings become
+ * `IfcOpeningElement`s voiding their host wall, filled by an `IfcDoor` or `IfcWindow`, floors become
+ * `IfcSlab`s and objects `IfcFurnishingElement`s. Elements keep their RoomPlan identifier as `Tag`
+ * and as the source of their GlobalId, so exporting the same scan twice produces matching ids.
+ *
+ * RoomPlan's y-up coordinates are turned into IFC's z-up ones: world `x` stays, world `-z` becomes
+ * IFC `y` and height becomes IFC `z`. Lengths are in metres.
+ *
+ * @param structure A structure returned by {@link parseCapturedStructure}.
+ * @param options Naming, story selection and thicknesses.
+ * @returns The contents of an `.ifc` file.
+ * @example
+ * ```ts
+ * const ifc = toIfc(structure, { projectName: "12 Main St" });
+ * await FileSystem.writeAsStringAsync(FileSystem.documentDirectory + "scan.ifc", ifc);
+ * ```
+ */
+export function toIfc(
+  structure: CapturedStructure,
+  options: IfcOptions = {}
+): string {
+  const {
+    projectName = "RoomPlan scan",
+    buildingName = "Building",
+    wallThickness = 0.15,
+    slabThickness = 0.2,
+    includeObjects = true,
+    timestamp = new Date(),
+  } = options;
+  const spaceNames = { ...DEFAULT_SPACE_NAMES, ...options.spaceNames };
+  const stories =
+    options.story === undefined ? getStories(structure) : [options.story];
+
+  const w = new StepWriter();
+  // GlobalIds of entities without a RoomPlan identifier, derived from the project and their role.
+  const guid = (seed: string) => str(toIfcGuid(`${projectName}/${seed}`));
+  const point = (p: number[]) => w.add("IFCCARTESIANPOINT", p);
+  const direction = (d: number[]) => w.add("IFCDIRECTION", d);
+  const origin = point([0, 0, 0]);
+  const zAxis = direction([0, 0, 1]);
+  const xAxis = direction([1, 0, 0]);
+  const placement3d = (location = origin, axis = zAxis, ref = xAxis) =>
+    w.add("IFCAXIS2PLACEMENT3D", location, axis, ref);
+
+  // Project, units and representation contexts.
+  const context = w.add(
+    "IFCGEOMETRICREPRESENTATIONCONTEXT",
+    null,
+    str("Model"),
+    int(3),
+    1e-5,
+    placement3d(),
+    null
+  );
+  const sub = (identifier: string, view: string) =>
+    w.add(
+      "IFCGEOMETRICREPRESENTATIONSUBCONTEXT",
+      str(identifier),
+      str("Model"),
+      "*",
+      "*",
+      "*",
+      "*",
+      context,
+      null,
+      enumValue(view),
+      null
+    );
+  const bodyContext = sub("Body", "MODEL_VIEW");
+  const axisContext = sub("Axis", "GRAPH_VIEW");
+  const siUnit = (type: string, name: string) =>
+    w.add("IFCSIUNIT", "*", enumValue(type), null, enumValue(name));
+  const units = w.add("IFCUNITASSIGNMENT", [
+    siUnit("LENGTHUNIT", "METRE"),
+    siUnit("AREAUNIT", "SQUARE_METRE"),
+    siUnit("VOLUMEUNIT", "CUBIC_METRE"),
+    siUnit("PLANEANGLEUNIT", "RADIAN"),
+  ]);
+  const project = w.add(
+    "IFCPROJECT",
+    guid("project"),
+    null,
+    str(projectName),
+    null,
+    null,
+    null,
+    null,
+    [context],
+    units
+  );
+
+  const sitePlacement = w.add("IFCLOCALPLACEMENT", null, placement3d());
+  const site = w.add(
+    "IFCSITE",
+    guid("site"),
+    null,
+    str("Site"),
+    null,
+    null,
+    sitePlacement,
+    null,
+    null,
+    enumValue("ELEMENT"),
+    null,
+    null,
+    null,
+    null,
+    null
+  );
+  const buildingPlacement = w.add(
+    "IFCLOCALPLACEMENT",
+    sitePlacement,
+    placement3d()
+  );
+  const building = w.add(
+    "IFCBUILDING",
+    guid("building"),
+    null,
+    str(buildingName),
+    null,
+    null,
+    buildingPlacement,
+    null,
+    null,
+    enumValue("ELEMENT"),
+    null,
+    null,
+    null
+  );
+  const aggregate = (seed: string, parent: string, children: string[]) => {
+    if (children.length) {
+      w.add("IFCRELAGGREGATES", guid(seed), null, null, null, parent, children);
+    }
+  };
+  aggregate("project-site", project, [site]);
+  aggregate("site-building", site, [building]);
+
+  // One material layer set shared by every wall.
+  const wallMaterial = w.add("IFCMATERIAL", str("Wall"), null, str("Wall"));
+  const layerSet = w.add(
+    "IFCMATERIALLAYERSET",
+    [
+      w.add(
+        "IFCMATERIALLAYER",
+        wallMaterial,
+        wallThickness,
+        null,
+        str("Core"),
+        null,
+        null,
+        null
+      ),
+    ],
+    str(`Wall ${Math.round(wallThickness * 1000)} mm`),
+    null
+  );
+  const layerSetUsage = w.add(
+    "IFCMATERIALLAYERSETUSAGE",
+    layerSet,
+    enumValue("AXIS2"),
+    enumValue("POSITIVE"),
+    -wallThickness / 2,
+    null
+  );
+  const walls: string[] = [];
+
+  const storeys: string[] = [];
+  for (const story of stories) {
+    const onStory = <T extends { story: number }>(items: T[]) =>
+      items.filter((item) => item.story === story);
+    const floors = onStory(structure.floors);
+    const elevation = floors.length
+      ? Math.min(...floors.map((f) => translationOf(f.transform)[1]))
+      : 0;
+    // RoomPlan world point to IFC coordinates relative to the storey.
+    const ifc = ([x, y, z]: Vector3) => [x, -z, y - elevation];
+    const ifcDirection = ([x, y, z]: Vector3) => [x, -z, y];
+    const storeyPlacement = w.add(
+      "IFCLOCALPLACEMENT",
+      buildingPlacement,
+      placement3d(point([0, 0, elevation]))
+    );
+    const storey = w.add(
+      "IFCBUILDINGSTOREY",
+      guid(`storey-${story}`),
+      null,
+      str(`Story ${story}`),
+      null,
+      null,
+      storeyPlacement,
+      null,
+      null,
+      enumValue("ELEMENT"),
+      elevation
+    );
+    storeys.push(storey);
+
+    /** Placement with its origin at `local` in the frame of `t`, x along `t`'s x and z up. */
+    const placeOn = (t: Transform4x4, local: Vector3) => {
+      const along = transformPoint(t, [1, 0, 0]);
+      const center = translationOf(t);
+      const ref = ifcDirection([
+        along[0] - center[0],
+        along[1] - center[1],
+        along[2] - center[2],
+      ]);
+      return w.add(
+        "IFCLOCALPLACEMENT",
+        storeyPlacement,
+        placement3d(point(ifc(transformPoint(t, local))), zAxis, direction(ref))
+      );
+    };
+    /** Body made of a `length` × `depth` rectangle starting at x = 0, extruded up by `height`. */
+    const box = (
+      length: number,
+      depth: number,
+      height: number,
+      centered = false
+    ) => {
+      const profile = w.add(
+        "IFCRECTANGLEPROFILEDEF",
+        enumValue("AREA"),
+        null,
+        w.add(
+          "IFCAXIS2PLACEMENT2D",
+          point([centered ? 0 : length / 2, 0]),
+          null
+        ),
+        length,
+        depth
+      );
+      return w.add(
+        "IFCEXTRUDEDAREASOLID",
+        profile,
+        placement3d(),
+        zAxis,
+        height
+      );
+    };
+    const shape = (items: string[], axis?: string) =>
+      w.add("IFCPRODUCTDEFINITIONSHAPE", null, null, [
+        ...(axis
+          ? [
+              w.add(
+                "IFCSHAPEREPRESENTATION",
+                axisContext,
+                str("Axis"),
+                str("Curve2D"),
+                [axis]
+              ),
+            ]
+          : []),
+        w.add(
+          "IFCSHAPEREPRESENTATION",
+          bodyContext,
+          str("Body"),
+          str("SweptSolid"),
+          items
+        ),
+      ]);
+    const contained: string[] = [];
+
+    const wallIds = new Map<string, string>();
+    for (const wall of onStory(structure.walls)) {
+      const [length, height] = wall.dimensions;
+      const placement = placeOn(wall.transform, [-length / 2, -height / 2, 0]);
+      const axis = w.add("IFCPOLYLINE", [point([0, 0]), point([length, 0])]);
+      const ref = w.add(
+        "IFCWALLSTANDARDCASE",
+        str(toIfcGuid(wall.identifier)),
+        null,
+        str("Wall"),
+        null,
+        null,
+        placement,
+        shape([box(length, wallThickness, height)], axis),
+        str(wall.identifier),
+        enumValue("STANDARD")
+      );
+      wallIds.set(wall.identifier, ref);
+      walls.push(ref);
+      contained.push(ref);
+    }
+
+    const openings = [
+      ...onStory(structure.doors),
+      ...onStory(structure.windows),
+      ...onStory(structure.openings),
+    ];
+    for (const o of openings) {
+      const [width, height] = o.dimensions;
+      const host = o.parentIdentifier
+        ? wallIds.get(o.parentIdentifier)
+        : undefined;
+      const bottomStart: Vector3 = [-width / 2, -height / 2, 0];
+      let opening: string | undefined;
+      if (host) {
+        opening = w.add(
+          "IFCOPENINGELEMENT",
+          str(toIfcGuid(`${o.identifier}/opening`)),
+          null,
+          str("Opening"),
+          null,
+          null,
+          placeOn(o.transform, bottomStart),
+          shape([box(width, wallThickness + OPENING_CLEARANCE, height)]),
+          str(o.identifier),
+          enumValue("OPENING")
+        );
+        w.add(
+          "IFCRELVOIDSELEMENT",
+          guid(`voids-${o.identifier}`),
+          null,
+          null,
+          null,
+          host,
+          opening
+        );
+      }
+      if (o.category === "opening") continue;
+
+      const filler = fillerFor(o);
+      const element = w.add(
+        filler.type,
+        str(toIfcGuid(o.identifier)),
+        null,
+        str(filler.name),
+        null,
+        null,
+        placeOn(o.transform, bottomStart),
+        shape([box(width, PANEL_THICKNESS, height)]),
+        str(o.identifier),
+        height,
+        width,
+        enumValue(filler.predefinedType),
+        null,
+        null
+      );
+      contained.push(element);
+      if (opening) {
+        w.add(
+          "IFCRELFILLSELEMENT",
+          guid(`fills-${o.identifier}`),
+          null,
+          null,
+          null,
+          opening,
+          element
+        );
+      }
+    }
+
+    const polyline = (outline: PlanPoint[]) => {
+      const points = outline.map(([x, z]) => point([x, -z]));
+      return w.add("IFCPOLYLINE", [...points, points[0]]);
+    };
+    const floorOutlines = floors.map(floorPolygon);
+    floors.forEach((floor, i) => {
+      const outline = floorOutlines[i];
+      const y = translationOf(floor.transform)[1] - elevation;
+      const profile = w.add(
+        "IFCARBITRARYCLOSEDPROFILEDEF",
+        enumValue("AREA"),
+        null,
+        polyline(outline)
+      );
+      const solid = w.add(
+        "IFCEXTRUDEDAREASOLID",
+        profile,
+        placement3d(point([0, 0, y - slabThickness])),
+        zAxis,
+        slabThickness
+      );
+      contained.push(
+        w.add(
+          "IFCSLAB",
+          str(toIfcGuid(floor.identifier)),
+          null,
+          str("Floor"),
+          null,
+          null,
+          w.add("IFCLOCALPLACEMENT", storeyPlacement, placement3d()),
+          shape([solid]),
+          str(floor.identifier),
+          enumValue("FLOOR")
+        )
+      );
+    });
+
+    if (includeObjects) {
+      for (const object of onStory(structure.objects)) {
+        const [width, height, depth] = object.dimensions;
+        contained.push(
+          w.add(
+            "IFCFURNISHINGELEMENT",
+            str(toIfcGuid(object.identifier)),
+            null,
+            str(objectName(object)),
+            null,
+            str(object.category),
+            placeOn(object.transform, [0, -height / 2, 0]),
+            shape([box(width, depth, height, true)]),
+            str(object.identifier)
+          )
+        );
+      }
+    }
+
+    // Spaces take the shape of the floor their section lies in, up to the tallest wall.
+    const ceiling = Math.max(
+      0,
+      ...onStory(structure.walls).map((wall) => wall.dimensions[1])
+    );
+    const spaces = onStory(structure.sections).map((section, i) => {
+      const center = toPlan(section.center);
+      const floorIndex = floorOutlines.findIndex((p) =>
+        pointInPolygon(center, p)
+      );
+      let representation: string | null = null;
+      if (floorIndex >= 0 && ceiling > 0) {
+        const y = translationOf(floors[floorIndex].transform)[1] - elevation;
+        const profile = w.add(
+          "IFCARBITRARYCLOSEDPROFILEDEF",
+          enumValue("AREA"),
+          null,
+          polyline(floorOutlines[floorIndex])
+        );
+        representation = shape([
+          w.add(
+            "IFCEXTRUDEDAREASOLID",
+            profile,
+            placement3d(point([0, 0, y])),
+            zAxis,
+            ceiling
+          ),
+        ]);
+      }
+      return w.add(
+        "IFCSPACE",
+        guid(`space-${story}-${i}`),
+        null,
+        str(spaceNames[section.label]),
+        null,
+        str(section.label),
+        w.add("IFCLOCALPLACEMENT", storeyPlacement, placement3d()),
+        representation,
+        null,
+        enumValue("ELEMENT"),
+        enumValue("INTERNAL"),
+        null
+      );
+    });
+    aggregate(`storey-${story}-spaces`, storey, spaces);
+
+    if (contained.length) {
+      w.add(
+        "IFCRELCONTAINEDINSPATIALSTRUCTURE",
+        guid(`storey-${story}-contents`),
+        null,
+        null,
+        null,
+        contained,
+        storey
+      );
+    }
+  }
+  aggregate("building-storeys", building, storeys);
+  if (walls.length) {
+    w.add(
+      "IFCRELASSOCIATESMATERIAL",
+      guid("wall-material"),
+      null,
+      null,
+      null,
+      walls,
+      layerSetUsage
+    );
+  }
+
+  const stamp = timestamp.toISOString().slice(0, 19);
+  return [
+    "ISO-10303-21;",
+    "HEADER;",
+    "FILE_DESCRIPTION(('ViewDefinition [ReferenceView_V1.2]'),'2;1');",
+    `FILE_NAME(${str(
+      projectName
+    )},'${stamp}',(''),(''),'expo-roomplan','expo-roomplan','');`,
+    "FILE_SCHEMA(('IFC4'));",
+    "ENDSEC;",
+    "DATA;",
+    w.toString(),
+    "ENDSEC;",
+    "END-ISO-10303-21;",
+    "",
+  ].join("\n");
+}
+
+function fillerFor(surface: CapturedSurface) {
+  return surface.category === "door"
+    ? { type: "IFCDOOR", name: "Door", predefinedType: "DOOR" }
+    : { type: "IFCWINDOW", name: "Window", predefinedType: "WINDOW" };
+}
+
+function objectName(object: CapturedObject): string {
+  const name = object.category.replace(/([A-Z])/g, " $1");
+  return name.charAt(0).toUpperCase() + name.slice(1).toLowerCase();
+}
@@ -0,0 +1,103 @@
+import type { CapturedStructure } from "./CapturedStructure.types";
+import {
+  StructureMeshOptions,
+  StructureMeshPart,
+  buildStructureMesh,
+} from "./buildStructureMesh";
+import { DEFAULT_COLORS, GltfOptions } from "./toGltf";
+
+/**
+ * Options for {@link toObj}.
+ */
+export type ObjOptions = StructureMeshOptions &
+  Pick<GltfOptions, "colors"> & {
+    /** File name the `.obj` refers to for its materials. Defaults to `"structure.mtl"`. */
+    mtlFileName?: string;
+  };
+
+/**
+ * A Wavefront OBJ model and the material library it refers to.
+ */
+export type ObjFiles = {
+  /** Contents of the `.obj` file. */
+  obj: string;
+  /** Contents of the `.mtl` file, to be saved as `mtlFileName` next to the `.obj`. */
+  mtl: string;
+};
+
+function num(n: number): string {
+  const rounded = Math.round(n * 1e6) / 1e6;
+  return Object.is(rounded, -0) ? "0" : String(rounded);
+}
+
+/**
+ * Convert an exported structure into a triangulated Wavefront OBJ model with a material library.
+ *
+ * Uses the same geometry as {@link toGltf}: walls with their doors, windows and openings cut out,
+ * floors following their outlines and objects as boxes. Every element is an object named
+ * `<category>-<identifier>` inside a group per story (`story-0`, …), and uses the material of
+ * its category, whose diffuse colour and opacity come from `colors`. Coordinates are RoomPlan's:
+ * metres, y up.
+ *
+ * @param structure A structure returned by {@link parseCapturedStructure}.
+ * @returns The `.obj` and `.mtl` file contents.
+ * @example
+ * ```ts
+ * const { obj, mtl } = toObj(structure, { mtlFileName: "room.mtl" });
+ * await FileSystem.writeAsStringAsync(dir + "room.obj", obj);
+ * await FileSystem.writeAsStringAsync(dir + "room.mtl", mtl);
+ * ```
+ */
+export function toObj(
+  structure: CapturedStructure,
+  options: ObjOptions = {}
+): ObjFiles {
+  const { mtlFileName = "structure.mtl" } = options;
+  const parts = buildStructureMesh(structure, options).filter(
+    (p) => p.indices.length > 0
+  );
+  const colors = { ...DEFAULT_COLORS, ...options.colors };
+
+  const obj = ["# expo-roomplan", `mtllib ${mtlFileName}`];
+  const categories: StructureMeshPart["category"][] = [];
+  let story: number | undefined;
+  // OBJ indices are 1-based and shared across the whole file.
+  let base = 1;
+  for (const p of parts) {
+    if (p.story !== story) {
+      story = p.story;
+      obj.push(`g story-${story}`);
+    }
+    if (!categories.includes(p.category)) categories.push(p.category);
+    obj.push(`o ${p.name}`, `usemtl ${p.category}`);
+    for (let i = 0; i < p.positions.length; i += 3) {
+      const [x, y, z] = p.positions.slice(i, i + 3).map(num);
+      obj.push(`v ${x} ${y} ${z}`);
+    }
+    for (let i = 0; i < p.normals.length; i += 3) {
+      const [x, y, z] = p.normals.slice(i, i + 3).map(num);
+      obj.push(`vn ${x} ${y} ${z}`);
+    }
+    for (let i = 0; i < p.indices.length; i += 3) {
+      const [a, b, c] = p.indices.slice(i, i + 3).map((v) => v + base);
+      obj.push(`f ${a}//${a} ${b}//${b} ${c}//${c}`);
+    }
+    base += p.positions.length / 3;
+  }
+
+  const mtl = ["# expo-roomplan"];
+  for (const category of categories) {
+    const [r, g, b, a] = colors[category].map(num);
+    mtl.push(
+      "",
+      `newmtl ${category}`,
+      `Ka ${r} ${g} ${b}`,
+      `Kd ${r} ${g} ${b}`,
+      "Ks 0 0 0",
+      `d ${a}`,
+      "illum 1"
+    );
+  }
+
+  return { obj: obj.join("\n") + "\n", mtl: mtl.join("\n") + "\n" };
+}
@@ -0,0 +1,83 @@
+import type { CapturedStructure } from "./CapturedStructure.types";
+import { StructureMeshOptions, buildStructureMesh } from "./buildStructureMesh";
+import { DEFAULT_COLORS, GltfOptions } from "./toGltf";
+
+/**
+ * Options for {@link toPly}.
+ */
+export type PlyOptions = StructureMeshOptions & Pick<GltfOptions, "colors">;
+
+function num(n: number): string {
+  const rounded = Math.round(n * 1e6) / 1e6;
+  return Object.is(rounded, -0) ? "0" : String(rounded);
+}
+
+function byte(n: number): number {
+  return Math.round(Math.min(1, Math.max(0, n)) * 255);
+}
+
+/**
+ * Convert an exported structure into a triangulated ASCII PLY mesh.
+ *
+ * Uses the same geometry as {@link toGltf}. Vertices carry normals and the RGBA colour of their
+ * element's category (see `colors`). PLY has no notion of objects, so every face has a `part`
+ * property indexing the elements, which are listed by name (`<category>-<identifier>`) in
+ * `comment part <index> <name>` lines of the header. Coordinates are RoomPlan's: metres, y up.
+ *
+ * @param structure A structure returned by {@link parseCapturedStructure}.
+ * @returns The contents of a `.ply` file.
+ * @example
+ * ```ts
+ * const ply = toPly(structure, { includeObjects: false });
+ * await FileSystem.writeAsStringAsync(FileSystem.documentDirectory + "room.ply", ply);
+ * ```
+ */
+export function toPly(
+  structure: CapturedStructure,
+  options: PlyOptions = {}
+): string {
+  const parts = buildStructureMesh(structure, options).filter(
+    (p) => p.indices.length > 0
+  );
+  const colors = { ...DEFAULT_COLORS, ...options.colors };
+
+  const vertices: string[] = [];
+  const faces: string[] = [];
+  let base = 0;
+  parts.forEach((p, part) => {
+    const [r, g, b, a] = colors[p.category].map(byte);
+    for (let i = 0; i < p.positions.length; i += 3) {
+      const position = p.positions.slice(i, i + 3).map(num);
+      const normal = p.normals.slice(i, i + 3).map(num);
+      vertices.push([...position, ...normal, r, g, b, a].join(" "));
+    }
+    for (let i = 0; i < p.indices.length; i += 3) {
+      const [u, v, w] = p.indices.slice(i, i + 3).map((n) => n + base);
+      faces.push(`3 ${u} ${v} ${w} ${part}`);
+    }
+    base += p.positions.length / 3;
+  });
+
+  const header = [
+    "ply",
+    "format ascii 1.0",
+    "comment expo-roomplan",
+    ...parts.map((p, part) => `comment part ${part} ${p.name}`),
+    `element vertex ${vertices.length}`,
+    "property float x",
+    "property float y",
+    "property float z",
+    "property float nx",
+    "property float ny",
+    "property float nz",
+    "property uchar red",
+    "property uchar green",
+    "property uchar blue",
+    "property uchar alpha",
+    `element face ${faces.length}`,
+    "property list uchar int vertex_indices",
+    "property int part",
+    "end_header",
+  ];
+  return [...header, ...vertices, ...faces].join("\n") + "\n";
+}
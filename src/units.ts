@@ -0,0 +1,49 @@
+/**
+ * Unit system used when presenting lengths, areas and volumes.
+ * RoomPlan itself always reports metres.
+ */
+export type MeasurementUnits = "metric" | "imperial";
+
+const FEET_PER_METRE = 3.28084;
+
+/**
+ * Convert a length in metres to metres or feet.
+ */
+export function convertLength(metres: number, units: MeasurementUnits): number {
+  return units === "imperial" ? metres * FEET_PER_METRE : metres;
+}
+
+/**
+ * Format a length in metres for display, e.g. `3.62 m` or `11' 10"`.
+ */
+export function formatLength(metres: number, units: MeasurementUnits): string {
+  if (units === "imperial") {
+    const totalInches = Math.round(metres * FEET_PER_METRE * 12);
+    const feet = Math.floor(totalInches / 12);
+    const inches = totalInches % 12;
+    return inches ? `${feet}' ${inches}"` : `${feet}'`;
+  }
+  return `${metres.toFixed(2)} m`;
+}
+
+/**
+ * Convert an area in square metres to square metres or square feet.
+ */
+export function convertArea(
+  squareMetres: number,
+  units: MeasurementUnits
+): number {
+  return units === "imperial"
+    ? squareMetres * FEET_PER_METRE ** 2
+    : squareMetres;
+}
+
+/**
+ * Convert a volume in cubic metres to cubic metres or cubic feet.
+ */
+export function convertVolume(
+  cubicMetres: number,
+  units: MeasurementUnits
+): number {
+  return units === "imperial" ? cubicMetres * FEET_PER_METRE ** 3 : cubicMetres;
+}
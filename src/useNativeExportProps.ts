@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useMemo, useRef } from "react";
+
+import { ScanStatus } from "./ExpoRoomplan.types";
+import type {
+  RoomPlanExport,
+  RoomPlanViewProps,
+} from "./ExpoRoomplanView.types";
+import { resolveCaptureConfig } from "./captureConfig";
+import {
+  NATIVE_FORMATS,
+  generatedFormats,
+  writeExportFormats,
+} from "./exportFormats";
+
+// A callback that throws is logged, so the events queued after it are still delivered.
+function report(error: unknown) {
+  console.error("expo-roomplan: an event callback threw:", error);
+}
+
+/**
+ * @internal Split {@link RoomPlanViewProps} into what the native view understands and the formats
+ * generated in JavaScript. Shared by `RoomPlanView` and the mock so both behave the same.
+ *
+ * `captureConfig` is sent resolved, with `coachingEnabled` and `exportType` set to match it, and
+ * its warnings are logged in development.
+ *
+ * `onExported` is held back until the generated files are written, and events that arrive in the
+ * meantime are delivered after it, so the OK status that follows an export keeps its place. When
+ * writing fails, `onStatus` receives an error for the export's trigger instead.
+ */
+export function useNativeExportProps(
+  props: RoomPlanViewProps
+): RoomPlanViewProps {
+  const {
+    exportFormats,
+    exportStorage: _storage,
+    exportFormatOptions: _options,
+    captureConfig,
+    coachingEnabled,
+    exportType,
+    ...rest
+  } = props;
+  const propsRef = useRef(props);
+  propsRef.current = props;
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const busyRef = useRef(0);
+
+  // Run `deliver` now, or after the exports being written when there are any.
+  const enqueue = useCallback((deliver: () => void | Promise<void>) => {
+    if (busyRef.current === 0) {
+      deliver();
+    } else {
+      queueRef.current = queueRef.current.then(deliver).catch(report);
+    }
+  }, []);
+
+  const onStatus: NonNullable<RoomPlanViewProps["onStatus"]> = useCallback(
+    (e) => enqueue(() => propsRef.current.onStatus?.(e)),
+    [enqueue]
+  );
+
+  const onExported: NonNullable<RoomPlanViewProps["onExported"]> = useCallback(
+    (e) => {
+      const { exportFormats, exportStorage, exportFormatOptions } =
+        propsRef.current;
+      if (generatedFormats(exportFormats).length === 0) {
+        enqueue(() => propsRef.current.onExported?.(e));
+        return;
+      }
+      const { trigger, ...exported } = e.nativeEvent;
+      busyRef.current += 1;
+      queueRef.current = queueRef.current
+        .then(async () => {
+          let result: RoomPlanExport;
+          try {
+            result = await writeExportFormats(exported, {
+              formats: exportFormats!,
+              storage: exportStorage,
+              options: exportFormatOptions,
+            });
+          } catch (error) {
+            const message =
+              error instanceof Error ? error.message : String(error);
+            propsRef.current.onStatus?.({
+              nativeEvent: {
+                status: ScanStatus.Error,
+                errorCode: "EXPORT_FAILED",
+                errorMessage: `Export failed: ${message}`,
+                trigger,
+              },
+            });
+            return;
+          }
+          propsRef.current.onExported?.({
+            nativeEvent:
+              trigger === undefined ? result : { ...result, trigger },
+          });
+        })
+        .catch(report)
+        .finally(() => {
+          busyRef.current -= 1;
+        });
+    },
+    [enqueue]
+  );
+
+  // The JSON is the source of every generated format.
+  const nativeFormats = useMemo(() => {
+    if (!exportFormats) return undefined;
+    const native = exportFormats.filter((f) => NATIVE_FORMATS.includes(f));
+    if (generatedFormats(exportFormats).length && !native.includes("json")) {
+      native.push("json");
+    }
+    return native;
+    // Compare by value: callers often pass a new array literal every render.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [exportFormats?.join(",")]);
+
+  const capture = useMemo(
+    () =>
+      resolveCaptureConfig(captureConfig, {
+        coachingEnabled,
+        exportType,
+        exportFormats,
+      }),
+    // Compare by value, like exportFormats above.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [
+      JSON.stringify(captureConfig),
+      coachingEnabled,
+      exportType,
+      exportFormats?.join(","),
+    ]
+  );
+  const warnings = capture.warnings.join("\n");
+  useEffect(() => {
+    if (__DEV__ && warnings) console.warn(`expo-roomplan: ${warnings}`);
+  }, [warnings]);
+
+  return {
+    ...rest,
+    captureConfig: capture.config,
+    coachingEnabled: capture.config.coachingEnabled,
+    exportType: capture.config.export.exportType,
+    exportFormats: nativeFormats,
+    onStatus,
+    onExported,
+  };
+}
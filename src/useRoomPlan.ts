@@ -7,6 +7,7 @@ import {
   UseRoomPlanInterface,
   ExportType,
 } from "./ExpoRoomplan.types";
+import { RoomPlanError } from "./RoomPlanError";
 
 export default function useRoomPlan(
   params?: UseRoomPlanParams
@@ -16,12 +17,24 @@ export default function useRoomPlan(
   );
   const [scanUrl, setScanUrl] = useState<null | string>(null);
   const [jsonUrl, setJsonUrl] = useState<null | string>(null);
+  const [error, setError] = useState<null | RoomPlanError>(null);
 
   useEffect(() => {
     const sub = ExpoRoomPlan.addListener?.(
       "onDismissEvent",
-      (event: { status: ScanStatus; scanUrl?: string; jsonUrl?: string }) => {
+      (event: {
+        status: ScanStatus;
+        scanUrl?: string;
+        jsonUrl?: string;
+        errorCode?: string;
+        errorMessage?: string;
+      }) => {
         setRoomScanStatus(event.status);
+        setError(
+          event.status === ScanStatus.Error
+            ? RoomPlanError.fromEvent(event)
+            : null
+        );
         console.log("RoomScan status: ", event.status);
         if (event.scanUrl) {
           setScanUrl(event.scanUrl);
@@ -40,18 +53,21 @@ export default function useRoomPlan(
   }, []);
 
   const startRoomPlan = async (scanName: string) => {
-    if (Platform.OS === "android") {
-      throw new Error("RoomPlan SDK only available on iOS.");
+    if (Platform.OS !== "ios") {
+      throw new RoomPlanError(
+        "NOT_IMPLEMENTED",
+        "RoomPlan SDK only available on iOS."
+      );
     }
     try {
       // ExportType: defaults internally to 'parametric'
       // Model file location is not returned by default.
       const exportType = params?.exportType ?? ExportType.Parametric;
       const sendFileLoc = params?.sendFileLoc ?? false;
-      ExpoRoomPlan.startCapture(scanName, exportType, sendFileLoc);
+      await ExpoRoomPlan.startCapture(scanName, exportType, sendFileLoc);
     } catch (err) {
       console.error("startCapture failed:", err);
-      throw err;
+      throw RoomPlanError.from(err);
     }
   };
 
@@ -60,5 +76,6 @@ export default function useRoomPlan(
     roomScanStatus,
     scanUrl,
     jsonUrl,
+    error,
   };
 }
@@ -0,0 +1,136 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { AppState } from "react-native";
+
+import type {
+  RequestPermissionsOptions,
+  RoomPlanCapabilities,
+  RoomPlanPermissions,
+} from "./ExpoRoomplan.types";
+import ExpoRoomplan from "./ExpoRoomplanModule";
+
+/**
+ * Whether a scan can start, as summarised by {@link useRoomPlanAvailability}:
+ * - `loading`: the first check hasn't finished.
+ * - `unsupported`: RoomPlan can't run here; see `capabilities.unsupportedReason`.
+ * - `needsPermission`: a permission is `undetermined`; call `requestPermissions`.
+ * - `denied`: a permission was denied or is restricted; the user has to change it in Settings.
+ * - `available`: everything is in place.
+ */
+export type RoomPlanAvailabilityStatus =
+  | "loading"
+  | "unsupported"
+  | "needsPermission"
+  | "denied"
+  | "available";
+
+/**
+ * Options for {@link useRoomPlanAvailability}.
+ */
+export type UseRoomPlanAvailabilityOptions = {
+  /** Also require the microphone, for `audioEnabled`. Defaults to `false`. */
+  microphone?: boolean;
+};
+
+/**
+ * Return value of {@link useRoomPlanAvailability}.
+ */
+export type RoomPlanAvailability = {
+  status: RoomPlanAvailabilityStatus;
+  /** `true` when `status` is `available`. */
+  isAvailable: boolean;
+  /** Result of the last `getCapabilities()`; `undefined` until the first check finishes. */
+  capabilities?: RoomPlanCapabilities;
+  /** Why the last check failed, if it did. */
+  error?: Error;
+  /** Check again, e.g. after the user returned from Settings. */
+  refresh: () => Promise<RoomPlanCapabilities | undefined>;
+  /** Ask for the missing permissions, then check again. */
+  requestPermissions: () => Promise<RoomPlanPermissions | undefined>;
+};
+
+function availabilityStatus(
+  capabilities: RoomPlanCapabilities | undefined,
+  microphone: boolean
+): RoomPlanAvailabilityStatus {
+  if (!capabilities) return "loading";
+  if (!capabilities.isSupported) return "unsupported";
+  const states = [capabilities.camera];
+  if (microphone) states.push(capabilities.microphone);
+  if (states.some((s) => s === "denied" || s === "restricted")) return "denied";
+  if (states.some((s) => s !== "granted")) return "needsPermission";
+  return "available";
+}
+
+/**
+ * Find out before rendering `RoomPlanView` whether the device can scan, so scan entry points can be
+ * hidden or replaced with an explanation. Checks `ExpoRoomplan.getCapabilities()` on mount and
+ * whenever the app returns to the foreground. On Android and web `status` is `unsupported`.
+ *
+ * @param options Which permissions a scan needs.
+ * @example
+ * ```tsx
+ * const { status, requestPermissions } = useRoomPlanAvailability();
+ * if (status === "unsupported") return <Text>Scanning needs an iPhone or iPad with LiDAR.</Text>;
+ * if (status === "needsPermission") return <Button title="Allow camera" onPress={requestPermissions} />;
+ * ```
+ */
+export function useRoomPlanAvailability(
+  options: UseRoomPlanAvailabilityOptions = {}
+): RoomPlanAvailability {
+  const microphone = options.microphone ?? false;
+  const [capabilities, setCapabilities] = useState<RoomPlanCapabilities>();
+  const [error, setError] = useState<Error>();
+  const mountedRef = useRef(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      const next = await ExpoRoomplan.getCapabilities();
+      if (mountedRef.current) {
+        setCapabilities(next);
+        setError(undefined);
+      }
+      return next;
+    } catch (e) {
+      if (mountedRef.current) {
+        setError(e instanceof Error ? e : new Error(String(e)));
+      }
+      return undefined;
+    }
+  }, []);
+
+  const requestPermissions = useCallback(async () => {
+    const request: RequestPermissionsOptions = { microphone };
+    let permissions: RoomPlanPermissions | undefined;
+    try {
+      permissions = await ExpoRoomplan.requestPermissions(request);
+    } catch (e) {
+      if (mountedRef.current) {
+        setError(e instanceof Error ? e : new Error(String(e)));
+      }
+    }
+    await refresh();
+    return permissions;
+  }, [microphone, refresh]);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    refresh();
+    const sub = AppState.addEventListener("change", (state) => {
+      if (state === "active") refresh();
+    });
+    return () => {
+      mountedRef.current = false;
+      sub.remove();
+    };
+  }, [refresh]);
+
+  const status = availabilityStatus(capabilities, microphone);
+  return {
+    status,
+    isAvailable: status === "available",
+    capabilities,
+    error,
+    refresh,
+    requestPermissions,
+  };
+}
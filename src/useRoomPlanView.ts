@@ -1,6 +1,40 @@
-import { useCallback, useMemo, useRef, useState } from "react";
-import type { RoomPlanViewProps } from "./ExpoRoomplanView.types";
-import type { ExportType, ScanStatus } from "./ExpoRoomplan.types";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import { ScanStatus, type ExportType } from "./ExpoRoomplan.types";
+import type {
+  RoomPlanResumeSource,
+  RoomPlanViewProps,
+} from "./ExpoRoomplanView.types";
+import { keepsScanRunning, RoomPlanError } from "./RoomPlanError";
+import type { RoomPlanCaptureConfig } from "./captureConfig";
+import {
+  ExportPipelineOptions,
+  runExportPipeline,
+} from "./exportPipeline";
+import { parseCapturedStructure } from "./parseCapturedStructure";
+import {
+  AsyncControl,
+  ControlOptions,
+  PendingControlKind,
+  PendingControls,
+  rejectedControl,
+} from "./pendingControls";
+import {
+  SavedScanSession,
+  ScanSessionAction,
+  ScanSessionState,
+  SessionExport,
+  getScanSessionRejection,
+  initialScanSessionState,
+  scanSessionReducer,
+  toSavedScanSession,
+} from "./scanSession";
+import type { ScanStorage } from "./scanStorage";
+import {
+  ScanQualityReport,
+  ValidateScanOptions,
+  validateScan,
+} from "./validateScan";
 
 /**
  * Options for {@link useRoomPlanView}.
@@ -14,6 +48,28 @@ export type UseRoomPlanViewOptions = {
   exportOnFinish?: boolean;
   /** When true, onExported receives file URLs instead of showing a share sheet. Defaults to `true`. */
   sendFileLoc?: boolean;
+  /** Formats to write on export, e.g. `["usdz", "json", "svg"]`. See `RoomPlanViewProps.exportFormats`. */
+  exportFormats?: RoomPlanViewProps["exportFormats"];
+  /** Directory to export into. Defaults to `<tmp>/Export/`. */
+  exportDirectory?: string;
+  /** File name template such as `"{scanName}-{date}"`. Defaults to `"{scanName}"`. */
+  exportFileName?: string;
+  /** Where formats generated in JavaScript are written. Required for formats other than `usdz` and `json`. */
+  exportStorage?: RoomPlanViewProps["exportStorage"];
+  /** Options for the formats generated in JavaScript. */
+  exportFormatOptions?: RoomPlanViewProps["exportFormatOptions"];
+  /**
+   * Steps to run after every export, e.g. measure, render a plan and upload; see {@link runExportPipeline}.
+   * Progress is in `state.exportProgress` and the result in `state.lastExport.pipeline`. `exportScan`
+   * and `finishScan` resolve once every step has run. Uses `exportStorage` when it has no `storage`.
+   */
+  exportPipeline?: ExportPipelineOptions;
+  /**
+   * Options for the {@link validateScan} check of every exported JSON, whose report is in
+   * `state.qualityReport`; `false` turns it off. Runs when `exportStorage` is set, before the
+   * `exportPipeline`.
+   */
+  qualityCheck?: ValidateScanOptions | false;
   /** Enable audio recording during scan. Defaults to `false`. */
   audioEnabled?: boolean;
   /** Stop audio automatically when finish trigger completes. Defaults to `true`. */
@@ -22,6 +78,11 @@ export type UseRoomPlanViewOptions = {
   autoPhotoIntervalSec?: number;
   /** Automatically stop scanning when status becomes OK, Error, or Canceled. Defaults to `false`. */
   autoCloseOnTerminalStatus?: boolean;
+  /**
+   * How long promise-based controls wait for the native view before rejecting, in milliseconds.
+   * `0` waits forever. Defaults to `120000`.
+   */
+  controlTimeoutMs?: number;
   /** Tap into status updates from the native view. */
   onStatus?: NonNullable<RoomPlanViewProps["onStatus"]>;
   /** Called when the native preview UI is presented after finishing a scan. */
@@ -32,57 +93,112 @@ export type UseRoomPlanViewOptions = {
   onAudio?: RoomPlanViewProps["onAudio"];
   /** Audio data streaming callback for real-time PCM audio. */
   onAudioData?: RoomPlanViewProps["onAudioData"];
+  /** Called each time a room has been built and added to `state.rooms`. */
+  onRoomAdded?: RoomPlanViewProps["onRoomAdded"];
+  /** Minimum time between two `onRoomUpdate` events, in milliseconds. Defaults to `500`. */
+  roomUpdateIntervalMs?: number;
+  /** Called with what RoomPlan has detected so far while a room is captured, also kept in `state.liveRoom`. */
+  onRoomUpdate?: RoomPlanViewProps["onRoomUpdate"];
+  /**
+   * Show RoomPlan's own coaching overlay. Set to `false` to render your own guidance from
+   * `state.currentInstruction`. Defaults to `true`.
+   */
+  coachingEnabled?: boolean;
+  /** Coaching, builder and export options for the native view, see {@link RoomPlanCaptureConfig}. */
+  captureConfig?: RoomPlanCaptureConfig;
+  /** Called each time RoomPlan's guidance changes, also kept in `state.currentInstruction`. */
+  onInstruction?: RoomPlanViewProps["onInstruction"];
   /** Called after export completes with file URLs when `sendFileLoc` is true. */
   onExported?: NonNullable<RoomPlanViewProps["onExported"]>;
+  /**
+   * A session saved from `savedSession` to continue on the next `start`: its rooms, names and photos
+   * are restored and capture goes on with a new room. `start` is rejected when a room has no
+   * `roomUrl`. Leave it out to start from scratch.
+   */
+  resumeFrom?: SavedScanSession;
 };
 
+/**
+ * Result of a guarded control. When `ok` is false the control did nothing and `reason` says why,
+ * e.g. "A scan is already running." for a second `start`.
+ */
+export type ControlResult = { ok: true } | { ok: false; reason: string };
+
+/** A photo taken with `controls.capturePhoto`. */
+export type CapturedPhoto = { photoUrl: string; timestamp: number };
+
 /**
  * Return type of {@link useRoomPlanView}.
  */
 export type UseRoomPlanViewReturn = {
   viewProps: RoomPlanViewProps;
   controls: {
-    /** Start a new scanning session. */
-    start: () => void;
+    /** Start a new scanning session, from `resumeFrom` if given. Rejected while a scan is running. */
+    start: () => ControlResult;
     /** Stop the current scanning session without exporting. */
-    cancel: () => void;
-    /** Stop capture and present the iOS preview UI (then export if `exportOnFinish` is true). */
-    finishScan: () => void;
-    /** Finish the current room and immediately start capturing another. */
-    addRoom: () => void;
-    /** Trigger export manually. Queued until a room is available if called too early. */
-    exportScan: () => void;
-    /** Take a photo from the AR camera feed. */
-    capturePhoto: () => void;
+    cancel: () => ControlResult;
+    /**
+     * Stop capture and present the iOS preview UI (then export if `exportOnFinish` is true).
+     * Only allowed while `scanning` or `adding`. Resolves with the export when `exportOnFinish` is
+     * true, otherwise with `undefined` once the preview is shown.
+     */
+    finishScan: AsyncControl<SessionExport | undefined>;
+    /** Finish the current room and immediately start capturing another. Resolves once the room is built. */
+    addRoom: AsyncControl<void>;
+    /**
+     * Trigger export manually. Queued until a room is available if called too early.
+     * Resolves with the exported files and rejects with the native error message.
+     */
+    exportScan: AsyncControl<SessionExport>;
+    /** Take a photo from the AR camera feed. Resolves with the saved photo. */
+    capturePhoto: AsyncControl<CapturedPhoto>;
     /** Start audio recording. */
     startAudio: () => void;
     /** Stop audio recording. */
     stopAudio: () => void;
     /** Set automatic photo interval (in seconds). Pass undefined to disable. */
     setAutoPhotoInterval: (sec?: number) => void;
+    /** Give a captured room a name, e.g. "Kitchen". Names show up in `state.rooms`. */
+    renameRoom: (identifier: string, name: string) => ControlResult;
+    /** Leave a captured room out of the next export. */
+    discardRoom: (identifier: string) => ControlResult;
     /** Reset all local hook state and triggers to an initial idle state. */
     reset: () => void;
   };
-  state: {
-    /** Whether the native view is currently scanning. */
-    isRunning: boolean;
-    /** Latest status reported by the native view. */
-    status?: ScanStatus;
-    /** True once the iOS preview UI has been presented for the current finish flow. */
-    isPreviewVisible: boolean;
-    /** Details of the last successful export, if any. */
-    lastExport?: { scanUrl?: string; jsonUrl?: string };
-    /** Last error message received from the native view, if any. */
-    lastError?: string;
-  };
+  /** Current session, see {@link ScanSessionState}. `phase` is the single source of truth for the flow. */
+  state: ScanSessionState;
+  /**
+   * What to store after each room to resume the scan with `resumeFrom`, e.g. after a crash.
+   * `undefined` until a room has been captured.
+   */
+  savedSession?: SavedScanSession;
 };
 
+// An export whose JSON can't be read or parsed gets no report rather than failing.
+async function readQualityReport(
+  url: string,
+  storage: ScanStorage,
+  options: ValidateScanOptions
+): Promise<ScanQualityReport | undefined> {
+  try {
+    const text = await storage.readText(url);
+    return text === null ? undefined : validateScan(parseCapturedStructure(text), options);
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * React hook that controls the {@link RoomPlanView} and exposes a friendly API.
  *
  * It returns `viewProps` to spread onto the component, `controls` with imperative methods (start, cancel,
  * finishScan, addRoom, exportScan, reset), and `state` reflecting the current scanning lifecycle.
  *
+ * The lifecycle is driven by {@link scanSessionReducer}: controls that make no sense in the current
+ * `state.phase`, such as `exportScan` after `cancel`, do nothing and return or reject with the reason.
+ * Controls that wait for the native view return promises that settle with the event answering that
+ * exact call, time out after `controlTimeoutMs`, and reject when the scan is canceled or reset.
+ *
  * @example
  * ```tsx
  * const { viewProps, controls } = useRoomPlanView({ scanName: 'Demo' });
@@ -102,20 +218,34 @@ export function useRoomPlanView(
     exportType,
     exportOnFinish = true,
     sendFileLoc = true,
+    exportFormats,
+    exportDirectory,
+    exportFileName,
+    exportStorage,
+    exportFormatOptions,
+    exportPipeline,
+    qualityCheck,
     audioEnabled = false,
     stopAudioOnFinish = true,
     autoPhotoIntervalSec: initialAutoPhotoInterval,
     autoCloseOnTerminalStatus = false,
+    controlTimeoutMs = 120_000,
     onStatus,
     onPreview,
     onPhoto,
     onAudio,
     onAudioData,
+    onRoomAdded,
+    roomUpdateIntervalMs,
+    onRoomUpdate,
+    coachingEnabled,
+    captureConfig,
+    onInstruction,
     onExported,
+    resumeFrom,
   } = options;
 
   // Internal control state
-  const [running, setRunning] = useState(false);
   const [finishTrigger, setFinishTrigger] = useState<number | undefined>();
   const [addAnotherTrigger, setAddAnotherTrigger] = useState<
     number | undefined
@@ -126,62 +256,167 @@ export function useRoomPlanView(
   const [capturePhotoTrigger, setCapturePhotoTrigger] = useState<number | undefined>();
   const [audioRunning, setAudioRunning] = useState<boolean>(false);
   const [autoPhotoIntervalSec, setAutoPhotoIntervalSec] = useState<number | undefined>(initialAutoPhotoInterval);
+  // Rooms the native view restores when the session it is started for begins
+  const [resumeSource, setResumeSource] = useState<RoomPlanResumeSource | undefined>();
+
+  // Session state machine. The ref lets controls check guards against the latest state even when
+  // several of them run before the next render.
+  const [session, setSession] = useState<ScanSessionState>(
+    initialScanSessionState
+  );
+  const sessionRef = useRef(session);
+
+  const dispatch = useCallback((action: ScanSessionAction): ControlResult => {
+    const reason = getScanSessionRejection(sessionRef.current, action);
+    if (reason) return { ok: false, reason };
+    sessionRef.current = scanSessionReducer(sessionRef.current, action);
+    setSession(sessionRef.current);
+    return { ok: true };
+  }, []);
 
-  // Derived UI state
-  const [status, setStatus] = useState<ScanStatus | undefined>(undefined);
-  const [isPreviewVisible, setPreviewVisible] = useState(false);
-  const [lastExport, setLastExport] = useState<
-    { scanUrl?: string; jsonUrl?: string } | undefined
-  >(undefined);
-  const [lastError, setLastError] = useState<string | undefined>(undefined);
+  // In-flight promise-based controls, keyed by the trigger value sent to the native view.
+  const pendingRef = useRef<PendingControls | null>(null);
+  if (!pendingRef.current) pendingRef.current = new PendingControls();
+  const pending = pendingRef.current;
+  const lastTriggerRef = useRef(0);
+
+  // Quality checks and export pipelines run one export at a time; results of runs from before a
+  // reset are dropped.
+  const postExportRef = useRef<Promise<void>>(Promise.resolve());
+  const generationRef = useRef(0);
+  // Triggers of exports that arrived and are still being checked or processed.
+  const processingRef = useRef(new Set<number>());
+
+  useEffect(
+    () => () => {
+      generationRef.current += 1;
+      pending.rejectAll(
+        new RoomPlanError("VIEW_CLOSED", "RoomPlan view was unmounted.")
+      );
+    },
+    [pending]
+  );
 
   // Cache callbacks refs to avoid stale closures in event handlers
   const optsRef = useRef({
+    exportOnFinish,
     onStatus,
     onPreview,
     onPhoto,
     onAudio,
     onAudioData,
+    onRoomAdded,
+    onRoomUpdate,
+    onInstruction,
     onExported,
+    exportPipeline,
+    exportStorage,
+    qualityCheck,
     autoCloseOnTerminalStatus,
+    controlTimeoutMs,
+    resumeFrom,
   });
   optsRef.current = {
+    exportOnFinish,
     onStatus,
     onPreview,
     onPhoto,
     onAudio,
     onAudioData,
+    onRoomAdded,
+    onRoomUpdate,
+    onInstruction,
     onExported,
+    exportPipeline,
+    exportStorage,
+    qualityCheck,
     autoCloseOnTerminalStatus,
+    controlTimeoutMs,
+    resumeFrom,
   };
 
+  // Send a guarded trigger and wait for the event that echoes it back.
+  const request = useCallback(
+    <T>(
+      action: ScanSessionAction,
+      kind: PendingControlKind,
+      setTrigger: (trigger: number) => void,
+      options?: ControlOptions
+    ): Promise<T> => {
+      const result = dispatch(action);
+      if (!result.ok) return rejectedControl<T>(result.reason);
+      // Unique even when called twice within a millisecond, so each call gets its own event.
+      const trigger = Math.max(Date.now(), lastTriggerRef.current + 1);
+      lastTriggerRef.current = trigger;
+      return pending.add<T>(
+        kind,
+        trigger,
+        {
+          timeoutMs: options?.timeoutMs ?? optsRef.current.controlTimeoutMs,
+          signal: options?.signal,
+        },
+        () => setTrigger(trigger)
+      );
+    },
+    [dispatch, pending]
+  );
+
   // Controller methods
   const start = useCallback(() => {
-    setRunning(true);
-    setPreviewVisible(false);
-    setLastError(undefined);
-  }, []);
+    const saved = optsRef.current.resumeFrom;
+    const result = dispatch({ type: "start", at: Date.now(), resumeFrom: saved });
+    if (result.ok) {
+      setResumeSource(
+        saved && {
+          rooms: saved.rooms.map(({ identifier, roomUrl }) => ({ identifier, roomUrl: roomUrl! })),
+          worldMapUrl: saved.worldMapUrl,
+        }
+      );
+    }
+    return result;
+  }, [dispatch]);
 
   const cancel = useCallback(() => {
-    setRunning(false);
-  }, []);
+    const result = dispatch({ type: "cancel" });
+    if (result.ok) {
+      pending.rejectAll(new RoomPlanError("CANCELED", "Scan was canceled."));
+    }
+    return result;
+  }, [dispatch, pending]);
 
-  const finishScan = useCallback(() => {
-    setFinishTrigger(Date.now());
-  }, []);
+  const finishScan = useCallback(
+    (options?: ControlOptions) =>
+      request<SessionExport | undefined>(
+        { type: "finish" },
+        "finish",
+        setFinishTrigger,
+        options
+      ),
+    [request]
+  );
 
-  const addRoom = useCallback(() => {
-    setAddAnotherTrigger(Date.now());
-    setPreviewVisible(false);
-  }, []);
+  const addRoom = useCallback(
+    (options?: ControlOptions) =>
+      request<void>({ type: "addRoom" }, "addRoom", setAddAnotherTrigger, options),
+    [request]
+  );
 
-  const exportScan = useCallback(() => {
-    setExportTrigger(Date.now());
-  }, []);
+  const exportScan = useCallback(
+    (options?: ControlOptions) =>
+      request<SessionExport>({ type: "export" }, "export", setExportTrigger, options),
+    [request]
+  );
 
-  const capturePhoto = useCallback(() => {
-    setCapturePhotoTrigger(Date.now());
-  }, []);
+  const capturePhoto = useCallback(
+    (options?: ControlOptions) =>
+      request<CapturedPhoto>(
+        { type: "capturePhoto" },
+        "photo",
+        setCapturePhotoTrigger,
+        options
+      ),
+    [request]
+  );
 
   const startAudio = useCallback(() => {
     setAudioRunning(true);
@@ -195,60 +430,166 @@ export function useRoomPlanView(
     setAutoPhotoIntervalSec(sec);
   }, []);
 
+  const renameRoom = useCallback(
+    (identifier: string, name: string) =>
+      dispatch({ type: "renameRoom", identifier, name }),
+    [dispatch]
+  );
+
+  const discardRoom = useCallback(
+    (identifier: string) => dispatch({ type: "discardRoom", identifier }),
+    [dispatch]
+  );
+
   const reset = useCallback(() => {
-    setRunning(false);
     setFinishTrigger(undefined);
     setAddAnotherTrigger(undefined);
     setExportTrigger(undefined);
     setCapturePhotoTrigger(undefined);
     setAudioRunning(false);
     setAutoPhotoIntervalSec(initialAutoPhotoInterval);
-    setPreviewVisible(false);
-    setStatus(undefined);
-    setLastError(undefined);
-    setLastExport(undefined);
-  }, [initialAutoPhotoInterval]);
+    setResumeSource(undefined);
+    dispatch({ type: "reset" });
+    generationRef.current += 1;
+    pending.rejectAll(new RoomPlanError("CANCELED", "Scan was reset."));
+  }, [dispatch, pending, initialAutoPhotoInterval]);
 
   // Event handlers that keep internal state in sync but forward to user callbacks
   const handleStatus: NonNullable<RoomPlanViewProps["onStatus"]> = useCallback(
     (e) => {
       const s = e.nativeEvent.status as ScanStatus;
-      const errorMessage = e.nativeEvent.errorMessage;
-      setStatus(s);
-      if (errorMessage) setLastError(errorMessage);
+      const { errorCode, errorMessage, trigger } = e.nativeEvent;
+      const error =
+        s === ScanStatus.Error || errorCode || errorMessage
+          ? RoomPlanError.fromEvent(e.nativeEvent)
+          : undefined;
+      dispatch({
+        type: "status",
+        status: s,
+        error,
+        autoClose: optsRef.current.autoCloseOnTerminalStatus,
+      });
       if (optsRef.current.onStatus) optsRef.current.onStatus(e);
 
-      if (optsRef.current.autoCloseOnTerminalStatus) {
-        if (s === "OK" || s === "Error" || s === "Canceled") {
-          setRunning(false);
+      if (s === ScanStatus.Error && error) {
+        // Errors that don't answer a specific call fail the whole session, unless the scan goes on.
+        if (pending.has(["finish", "addRoom", "export", "photo"], trigger)) {
+          pending.reject(trigger, error);
+        } else if (!keepsScanRunning(error.code)) {
+          pending.rejectAll(error);
         }
+      } else if (s === ScanStatus.Canceled) {
+        pending.rejectAll(new RoomPlanError("CANCELED", "Scan was canceled."));
+      } else if (s === ScanStatus.OK) {
+        pending.resolve(["addRoom"], trigger);
+      }
+      // An export that already arrived still settles its call once it has been processed.
+      if (!sessionRef.current.isRunning) {
+        pending.rejectAll(
+          new RoomPlanError("VIEW_CLOSED", "RoomPlan view was closed."),
+          processingRef.current
+        );
       }
     },
-    []
+    [dispatch, pending]
   );
 
-  const handlePreview = useCallback(() => {
-    setPreviewVisible(true);
-    if (optsRef.current.onPreview) optsRef.current.onPreview();
-  }, []);
+  const handlePreview: NonNullable<RoomPlanViewProps["onPreview"]> =
+    useCallback(
+      (e) => {
+        dispatch({
+          type: "preview",
+          exportOnFinish: optsRef.current.exportOnFinish,
+        });
+        // With exportOnFinish the finish call resolves with the export instead.
+        if (!optsRef.current.exportOnFinish) {
+          pending.resolve(["finish"], e?.nativeEvent?.trigger, undefined);
+        }
+        if (optsRef.current.onPreview) optsRef.current.onPreview(e);
+      },
+      [dispatch, pending]
+    );
 
   const handlePhoto: RoomPlanViewProps["onPhoto"] = useCallback((e: Parameters<NonNullable<RoomPlanViewProps["onPhoto"]>>[0]) => {
+    const { photoUrl, timestamp, trigger } = e.nativeEvent;
+    dispatch({ type: "photo", photoUrl });
+    pending.resolve(["photo"], trigger, { photoUrl, timestamp });
     if (optsRef.current.onPhoto) optsRef.current.onPhoto(e);
-  }, []);
+  }, [dispatch, pending]);
 
   const handleAudio: RoomPlanViewProps["onAudio"] = useCallback((e: Parameters<NonNullable<RoomPlanViewProps["onAudio"]>>[0]) => {
+    const { status, audioUrl } = e.nativeEvent;
+    const error = status === "error" ? RoomPlanError.fromEvent(e.nativeEvent) : undefined;
+    dispatch({ type: "audio", status, audioUrl, error });
     if (optsRef.current.onAudio) optsRef.current.onAudio(e);
-  }, []);
+  }, [dispatch]);
 
   const handleAudioData: RoomPlanViewProps["onAudioData"] = useCallback((e: Parameters<NonNullable<RoomPlanViewProps["onAudioData"]>>[0]) => {
     if (optsRef.current.onAudioData) optsRef.current.onAudioData(e);
   }, []);
 
+  const handleRoomAdded: NonNullable<RoomPlanViewProps["onRoomAdded"]> =
+    useCallback((e) => {
+      dispatch({ type: "roomAdded", room: e.nativeEvent });
+      if (optsRef.current.onRoomAdded) optsRef.current.onRoomAdded(e);
+    }, [dispatch]);
+
+  const handleRoomUpdate: NonNullable<RoomPlanViewProps["onRoomUpdate"]> =
+    useCallback((e) => {
+      dispatch({ type: "roomUpdate", room: e.nativeEvent });
+      if (optsRef.current.onRoomUpdate) optsRef.current.onRoomUpdate(e);
+    }, [dispatch]);
+
+  const handleInstruction: NonNullable<RoomPlanViewProps["onInstruction"]> =
+    useCallback((e) => {
+      dispatch({ type: "instruction", instruction: e.nativeEvent.instruction });
+      if (optsRef.current.onInstruction) optsRef.current.onInstruction(e);
+    }, [dispatch]);
+
   const handleExported: NonNullable<RoomPlanViewProps["onExported"]> =
     useCallback((e) => {
-      setLastExport({ ...e.nativeEvent });
+      const { trigger, ...result } = e.nativeEvent;
+      dispatch({ type: "exported", payload: result });
+      const { exportPipeline: pipeline, exportStorage: storage, qualityCheck: check } =
+        optsRef.current;
+      const checkQuality = check !== false && !!storage && !!result.jsonUrl;
+      if (!pipeline && !checkQuality) {
+        pending.resolve(["export", "finish"], trigger, result);
+        if (optsRef.current.onExported) optsRef.current.onExported(e);
+        return;
+      }
       if (optsRef.current.onExported) optsRef.current.onExported(e);
-    }, []);
+      // The export's promise settles once the report is in and every step has run.
+      const generation = generationRef.current;
+      const current = () => generation === generationRef.current;
+      if (trigger !== undefined) processingRef.current.add(trigger);
+      const done = () => {
+        if (trigger !== undefined) processingRef.current.delete(trigger);
+      };
+      postExportRef.current = postExportRef.current.then(async () => {
+        if (!current()) return;
+        if (checkQuality) {
+          const report = await readQualityReport(result.jsonUrl!, storage!, check || {});
+          if (!current()) return;
+          if (report) dispatch({ type: "qualityReport", report });
+        }
+        if (!pipeline) {
+          pending.resolve(["export", "finish"], trigger, result);
+          return;
+        }
+        const outcome = await runExportPipeline(result, {
+          ...pipeline,
+          storage: pipeline.storage ?? optsRef.current.exportStorage,
+          onProgress: (progress) => {
+            if (current()) dispatch({ type: "exportProgress", progress });
+            pipeline.onProgress?.(progress);
+          },
+        });
+        if (!current()) return;
+        dispatch({ type: "exportProcessed", payload: result, pipeline: outcome });
+        pending.resolve(["export", "finish"], trigger, { ...result, pipeline: outcome });
+      }).finally(done);
+    }, [dispatch, pending]);
 
   const viewProps: RoomPlanViewProps = useMemo(
     () => ({
@@ -257,8 +598,15 @@ export function useRoomPlanView(
       exportType,
       exportOnFinish,
       sendFileLoc,
+      exportFormats,
+      exportDirectory,
+      exportFileName,
+      exportStorage,
+      exportFormatOptions,
+      discardedRoomIds: session.discardedRoomIds,
+      resumeFrom: resumeSource,
       // Control props
-      running,
+      running: session.isRunning,
       finishTrigger,
       addAnotherTrigger,
       exportTrigger,
@@ -268,9 +616,15 @@ export function useRoomPlanView(
       capturePhotoTrigger,
       autoPhotoIntervalSec,
       stopAudioOnFinish,
+      roomUpdateIntervalMs,
+      coachingEnabled,
+      captureConfig,
       // Events
       onStatus: handleStatus,
       onPreview: handlePreview,
+      onRoomAdded: handleRoomAdded,
+      onRoomUpdate: handleRoomUpdate,
+      onInstruction: handleInstruction,
       onPhoto: handlePhoto,
       onAudio: handleAudio,
       onAudioData: handleAudioData,
@@ -281,7 +635,14 @@ export function useRoomPlanView(
       exportType,
       exportOnFinish,
       sendFileLoc,
-      running,
+      exportFormats,
+      exportDirectory,
+      exportFileName,
+      exportStorage,
+      exportFormatOptions,
+      session.discardedRoomIds,
+      resumeSource,
+      session.isRunning,
       finishTrigger,
       addAnotherTrigger,
       exportTrigger,
@@ -290,8 +651,14 @@ export function useRoomPlanView(
       capturePhotoTrigger,
       autoPhotoIntervalSec,
       stopAudioOnFinish,
+      roomUpdateIntervalMs,
+      coachingEnabled,
+      captureConfig,
       handleStatus,
       handlePreview,
+      handleRoomAdded,
+      handleRoomUpdate,
+      handleInstruction,
       handlePhoto,
       handleAudio,
       handleAudioData,
@@ -299,6 +666,15 @@ export function useRoomPlanView(
     ]
   );
 
+  const { rooms, discardedRoomIds, worldMapUrl } = session;
+  const savedSession = useMemo(
+    () =>
+      rooms.length > 0
+        ? toSavedScanSession({ rooms, discardedRoomIds, worldMapUrl })
+        : undefined,
+    [rooms, discardedRoomIds, worldMapUrl]
+  );
+
   return {
     viewProps,
     controls: {
@@ -311,14 +687,11 @@ export function useRoomPlanView(
       startAudio,
       stopAudio,
       setAutoPhotoInterval,
+      renameRoom,
+      discardRoom,
       reset,
     },
-    state: {
-      isRunning: running,
-      status,
-      isPreviewVisible,
-      lastExport,
-      lastError,
-    },
+    state: session,
+    savedSession,
   };
 }
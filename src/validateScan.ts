@@ -0,0 +1,353 @@
+import type {
+  CapturedObject,
+  CapturedStructure,
+  CapturedSurface,
+  SurfaceEdge,
+} from "./CapturedStructure.types";
+import {
+  PlanPoint,
+  clipConvexPolygon,
+  distance,
+  distanceToSegment,
+  filterStory,
+  floorPolygon,
+  getStories,
+  objectFootprint,
+  polygonArea,
+  surfaceSegment,
+} from "./planGeometry";
+
+/**
+ * What a {@link ScanIssue} is about:
+ *
+ * - `noWalls`: the scan has no walls at all.
+ * - `lowConfidence`: RoomPlan has low confidence in a surface or object.
+ * - `incompleteEdges`: RoomPlan didn't see every edge of a wall.
+ * - `openWallLoop`: a wall ends without meeting another one, so the room isn't closed.
+ * - `floorWithoutWalls`: part or all of a floor outline has no wall along it.
+ * - `overlappingObjects`: two objects take up largely the same space, usually one object detected twice.
+ * - `implausibleDimensions`: a wall, door, window, opening or object is too small or too large to be real.
+ */
+export type ScanIssueCode =
+  | "noWalls"
+  | "lowConfidence"
+  | "incompleteEdges"
+  | "openWallLoop"
+  | "floorWithoutWalls"
+  | "overlappingObjects"
+  | "implausibleDimensions";
+
+/**
+ * One problem found by {@link validateScan}.
+ */
+export type ScanIssue = {
+  code: ScanIssueCode;
+  /** `error` when the scan is likely unusable as it is, `warning` when it is worth a second look. */
+  severity: "error" | "warning";
+  /** What is wrong, in English. */
+  message: string;
+  /** What to do about it while still on site, in English. */
+  action: string;
+  /** The surfaces and objects concerned. */
+  identifiers: string[];
+  story: number;
+};
+
+/**
+ * Result of {@link validateScan}. Plain values only, so it can be persisted or sent as-is.
+ */
+export type ScanQualityReport = {
+  /** 100 for a scan without issues, minus 20 per error and 5 per warning, down to 0. */
+  score: number;
+  /** `good` from 80, `fair` from 50, `poor` below. */
+  grade: "good" | "fair" | "poor";
+  /** Whether there are no errors. */
+  passed: boolean;
+  /** Errors first, then warnings, each in the order found. */
+  issues: ScanIssue[];
+};
+
+/**
+ * Options for {@link validateScan}.
+ */
+export type ValidateScanOptions = {
+  /** Largest gap in metres between the ends of two walls that still counts as a corner. Defaults to `0.3`. */
+  gapTolerance?: number;
+  /** Furthest a wall can be from a floor edge in metres and still close it. Defaults to `0.3`. */
+  wallTolerance?: number;
+  /** Share of the smaller footprint two objects must overlap by to be reported. Defaults to `0.5`. */
+  overlapThreshold?: number;
+  /** Leave out issues with these codes. */
+  ignore?: ScanIssueCode[];
+};
+
+const PENALTY = { error: 20, warning: 5 };
+
+type Range = [min: number, max: number];
+
+// Width and height in metres outside of which a surface is almost certainly misdetected.
+const SURFACE_LIMITS: Partial<
+  Record<CapturedSurface["category"], { width: Range; height: Range }>
+> = {
+  wall: { width: [0.2, 30], height: [1.5, 6] },
+  door: { width: [0.5, 3], height: [1.5, 3.5] },
+  window: { width: [0.2, 6], height: [0.2, 4] },
+  opening: { width: [0.3, 10], height: [1, 6] },
+};
+
+// Largest dimension in metres of any object RoomPlan detects.
+const MAX_OBJECT_SIZE = 6;
+
+const EDGES: SurfaceEdge[] = ["top", "bottom", "left", "right"];
+
+function outside(value: number, [min, max]: Range): boolean {
+  return value < min || value > max;
+}
+
+// "top", "top and left", "top, bottom and left".
+function listOf(words: string[]): string {
+  return words.length < 2
+    ? words.join("")
+    : `${words.slice(0, -1).join(", ")} and ${words[words.length - 1]}`;
+}
+
+function metres(n: number): string {
+  return `${Math.round(n * 100) / 100} m`;
+}
+
+/**
+ * Check a scan for the problems that are easy to fix on site and hard to fix afterwards: low
+ * confidence surfaces and objects, walls RoomPlan didn't see completely, rooms whose walls don't
+ * close, floors without walls along them, objects detected twice and implausible dimensions.
+ *
+ * Each issue says what is wrong and what to rescan; the score sums them up, e.g. to ask the user to
+ * rescan when it is below 80 or when `passed` is false. `useRoomPlanView` runs this after every
+ * export and puts the report in `state.qualityReport`.
+ *
+ * @param structure A structure returned by {@link parseCapturedStructure}.
+ * @param options Tolerances and issues to leave out.
+ * @example
+ * ```ts
+ * const report = validateScan(structure);
+ * if (!report.passed) {
+ *   Alert.alert("Please rescan", report.issues.map((i) => i.action).join("\n"));
+ * }
+ * ```
+ */
+export function validateScan(
+  structure: CapturedStructure,
+  options: ValidateScanOptions = {}
+): ScanQualityReport {
+  const {
+    gapTolerance = 0.3,
+    wallTolerance = 0.3,
+    overlapThreshold = 0.5,
+    ignore = [],
+  } = options;
+  const issues: ScanIssue[] = [];
+  const add = (issue: ScanIssue) => {
+    if (!ignore.includes(issue.code)) issues.push(issue);
+  };
+
+  if (!structure.walls.length) {
+    add({
+      code: "noWalls",
+      severity: "error",
+      message: "The scan has no walls.",
+      action: "Scan the room again, slowly following every wall.",
+      identifiers: [],
+      story: 0,
+    });
+  }
+
+  const surfaces = [
+    ...structure.walls,
+    ...structure.doors,
+    ...structure.windows,
+    ...structure.openings,
+    ...structure.floors,
+  ];
+  for (const item of [...surfaces, ...structure.objects]) {
+    if (item.confidence !== "low") continue;
+    add({
+      code: "lowConfidence",
+      severity: "warning",
+      message: `RoomPlan has low confidence in a ${item.category}.`,
+      action: `Move closer to the ${item.category} and scan it again in good light.`,
+      identifiers: [item.identifier],
+      story: item.story,
+    });
+  }
+
+  for (const wall of structure.walls) {
+    const missing = EDGES.filter((e) => !wall.completedEdges.includes(e));
+    if (!missing.length) continue;
+    add({
+      code: "incompleteEdges",
+      severity: "warning",
+      message: `The ${listOf(missing)} ${
+        missing.length === 1 ? "edge" : "edges"
+      } of a wall weren't fully seen.`,
+      action:
+        "Point the camera at the whole wall, including where it meets the floor and ceiling.",
+      identifiers: [wall.identifier],
+      story: wall.story,
+    });
+  }
+
+  for (const surface of surfaces) {
+    const limits = SURFACE_LIMITS[surface.category];
+    if (!limits) continue;
+    const [width, height] = surface.dimensions;
+    if (!outside(width, limits.width) && !outside(height, limits.height)) {
+      continue;
+    }
+    add({
+      code: "implausibleDimensions",
+      severity: "warning",
+      message: `A ${surface.category} measures ${metres(width)} × ${metres(
+        height
+      )}, which is unlikely.`,
+      action: `Check the ${surface.category} and scan it again if it looks wrong.`,
+      identifiers: [surface.identifier],
+      story: surface.story,
+    });
+  }
+  for (const object of structure.objects) {
+    if (object.dimensions.every((d) => d > 0 && d <= MAX_OBJECT_SIZE)) continue;
+    add({
+      code: "implausibleDimensions",
+      severity: "warning",
+      message: `A ${object.category} measures ${object.dimensions
+        .map(metres)
+        .join(" × ")}, which is unlikely.`,
+      action: `Check the ${object.category} and scan it again if it looks wrong.`,
+      identifiers: [object.identifier],
+      story: object.story,
+    });
+  }
+
+  for (const story of getStories(structure)) {
+    const s = filterStory(structure, story);
+    checkWallLoops(s.walls, story, gapTolerance, add);
+    checkFloors(s.floors, s.walls, story, wallTolerance, add);
+    checkOverlaps(s.objects, story, overlapThreshold, add);
+  }
+
+  const errors = issues.filter((i) => i.severity === "error");
+  const warnings = issues.filter((i) => i.severity === "warning");
+  const score = Math.max(
+    0,
+    100 - errors.length * PENALTY.error - warnings.length * PENALTY.warning
+  );
+  return {
+    score,
+    grade: score >= 80 ? "good" : score >= 50 ? "fair" : "poor",
+    passed: errors.length === 0,
+    issues: [...errors, ...warnings],
+  };
+}
+
+function checkWallLoops(
+  walls: CapturedSurface[],
+  story: number,
+  gapTolerance: number,
+  add: (issue: ScanIssue) => void
+) {
+  const ends = walls.map((wall) => {
+    const { start, end } = surfaceSegment(wall);
+    return [start, end];
+  });
+  walls.forEach((wall, i) => {
+    const open = ends[i].filter(
+      (point) =>
+        !ends.some(
+          (other, j) =>
+            j !== i && other.some((p) => distance(p, point) <= gapTolerance)
+        )
+    );
+    if (!open.length) return;
+    add({
+      code: "openWallLoop",
+      severity: "error",
+      message:
+        open.length === 2
+          ? "A wall doesn't meet any other wall."
+          : "A wall ends without meeting another wall, so the room isn't closed.",
+      action: "Scan the corners next to this wall again until the walls meet.",
+      identifiers: [wall.identifier],
+      story,
+    });
+  });
+}
+
+function checkFloors(
+  floors: CapturedSurface[],
+  walls: CapturedSurface[],
+  story: number,
+  wallTolerance: number,
+  add: (issue: ScanIssue) => void
+) {
+  const segments = walls.map(surfaceSegment);
+  for (const floor of floors) {
+    const polygon = floorPolygon(floor);
+    let open = 0;
+    let total = 0;
+    polygon.forEach((a, i) => {
+      const b = polygon[(i + 1) % polygon.length];
+      const length = distance(a, b);
+      const mid: PlanPoint = [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+      total += length;
+      if (
+        !segments.some((seg) => distanceToSegment(mid, seg) <= wallTolerance)
+      ) {
+        open += length;
+      }
+    });
+    if (open === 0) continue;
+    const none = open >= total - 1e-9;
+    add({
+      code: "floorWithoutWalls",
+      severity: none ? "error" : "warning",
+      message: none
+        ? "A floor has no walls around it."
+        : `${metres(open)} of a floor's outline has no wall along it.`,
+      action: "Scan the walls around the edge of the floor again.",
+      identifiers: [floor.identifier],
+      story,
+    });
+  }
+}
+
+function checkOverlaps(
+  objects: CapturedObject[],
+  story: number,
+  overlapThreshold: number,
+  add: (issue: ScanIssue) => void
+) {
+  const footprints = objects.map(objectFootprint);
+  for (let i = 0; i < objects.length; i++) {
+    for (let j = i + 1; j < objects.length; j++) {
+      const shared = polygonArea(
+        clipConvexPolygon(footprints[i], footprints[j])
+      );
+      const smaller = Math.min(
+        polygonArea(footprints[i]),
+        polygonArea(footprints[j])
+      );
+      if (smaller <= 0 || shared / smaller < overlapThreshold) continue;
+      const [a, b] = [objects[i], objects[j]];
+      add({
+        code: "overlappingObjects",
+        severity: "warning",
+        message:
+          a.category === b.category
+            ? `Two ${a.category} objects overlap; one may have been detected twice.`
+            : `A ${a.category} and a ${b.category} overlap.`,
+        action: "Scan the objects from another angle so they're told apart.",
+        identifiers: [a.identifier, b.identifier],
+        story,
+      });
+    }
+  }
+}